@@ -774,4 +774,376 @@ describe("Agent route — deterministic repair loop", () => {
       }
     }
   });
+
+  it("re-routes the previous candidate with an alternate autorouter before touching the layout", async () => {
+    const viaClearance = {
+      category: "pcb_via_clearance_error",
+      message: "Clearance violation between vias",
+      severity: 9,
+      signature: "pcb_via_clearance_error|same",
+      source: "tscircuit" as const,
+      family: "pcb_via_clearance_error",
+    };
+    const previousRouterRetries = process.env.CIRCUITFORGE_MAX_ROUTER_RETRIES;
+    process.env.CIRCUITFORGE_MAX_ROUTER_RETRIES = "1";
+
+    try {
+      compileMock
+        .mockReset()
+        .mockResolvedValueOnce({ ...CLEAN_VALIDATION, allDiagnostics: [viaClearance] })
+        .mockResolvedValueOnce({ ...CLEAN_VALIDATION, allDiagnostics: [viaClearance] })
+        .mockResolvedValueOnce(CLEAN_VALIDATION);
+      queryMock.mockImplementation(() => {
+        async function* gen() {
+          yield {
+            type: "result",
+            subtype: "success",
+            result: assistantResult("R10"),
+            total_cost_usd: 0.004,
+          };
+        }
+        return gen() as never;
+      });
+
+      const res = await POST(
+        makeRequest({
+          phase: "implementation",
+          prompt: "Clear the via spacing violations.",
+          routing: { seed: 5 },
+        }),
+      );
+      const events = await consumeSSE(res);
+      const strategies = events
+        .filter((event): event is Extract<SSEEvent, { type: "repair_plan" }> => event.type === "repair_plan")
+        .map((event) => event.plan.strategy);
+      const summary = events.find(
+        (event): event is Extract<SSEEvent, { type: "final_summary" }> => event.type === "final_summary",
+      );
+
+      // Only attempt 2 asked for a repair; attempt 3 recompiled its code without generating.
+      const repairPrompts = queryMock.mock.calls.filter(([params]) =>
+        String(params.prompt).includes("Previous failed attempt"),
+      );
+      expect(repairPrompts).toHaveLength(1);
+      expect(strategies).toEqual(["normal", "normal", "alternate_router_settings"]);
+      expect(compileMock.mock.calls.map(([, , options]) => options.routing)).toEqual([
+        { seed: 5 },
+        { seed: 5 },
+        { autorouter: "sequential_trace", seed: 5 },
+      ]);
+      expect(compileMock.mock.calls[2][0]).toEqual(compileMock.mock.calls[1][0]);
+      expect(summary?.summary).toMatchObject({
+        blockingDiagnosticsCount: 0,
+        routing: { autorouter: "sequential_trace", seed: 5 },
+      });
+    } finally {
+      if (previousRouterRetries === undefined) {
+        delete process.env.CIRCUITFORGE_MAX_ROUTER_RETRIES;
+      } else {
+        process.env.CIRCUITFORGE_MAX_ROUTER_RETRIES = previousRouterRetries;
+      }
+    }
+  });
+
+  it("rejects invalid routing options", async () => {
+    const res = await POST(makeRequest({ prompt: "Route it.", routing: { autorouter: "freerouting" } }));
+    expect(res.status).toBe(400);
+    await expect(res.json()).resolves.toEqual({
+      error: "Invalid routing options",
+      details: "routing.autorouter must be one of: auto_local, sequential_trace, auto_jumper, laser_prefab",
+    });
+  });
+
+  it("passes DRC rule overrides to validation compiles and rejects invalid ones", async () => {
+    compileMock.mockReset().mockResolvedValue(CLEAN_VALIDATION);
+    queryMock.mockImplementation(() => {
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R11"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const res = await POST(
+      makeRequest({ phase: "implementation", prompt: "Widen the clearances.", drcRules: { traceToTraceMm: 0.2 } }),
+    );
+    await consumeSSE(res);
+    expect(compileMock).toHaveBeenCalled();
+    expect(compileMock.mock.calls.every(([, , options]) => options.drcRules?.traceToTraceMm === 0.2)).toBe(true);
+
+    const invalid = await POST(makeRequest({ prompt: "Check it.", drcRules: { viaToViaMm: -1 } }));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid drcRules",
+      details: "drcRules.viaToViaMm must be a non-negative number",
+    });
+  });
+
+  it("infers net classes from stated currents and passes them to validation and the prompt", async () => {
+    compileMock.mockReset().mockResolvedValue(CLEAN_VALIDATION);
+    const prompts: string[] = [];
+    queryMock.mockImplementation(({ prompt }) => {
+      prompts.push(String(prompt));
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R12"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const res = await POST(
+      makeRequest({
+        phase: "implementation",
+        prompt: "Add a 2A motor supply.",
+        netClasses: { assignments: [{ net: "VBAT", netClass: "power" }] },
+      }),
+    );
+    await consumeSSE(res);
+    expect(compileMock).toHaveBeenCalled();
+    const settings = compileMock.mock.calls[0][2].netClasses;
+    expect(settings.assignments).toEqual([{ net: "VBAT", netClass: "power" }]);
+    expect(settings.inferred).toMatchObject([{ netClass: "high_current", currentA: 2, netFragments: ["MOT"] }]);
+    expect(prompts.find((prompt) => prompt.includes("Net classes"))).toContain(
+      'nets containing MOT from "Add a 2A motor supply": high_current (2A); trace thickness >= 0.78mm',
+    );
+
+    const invalid = await POST(makeRequest({ prompt: "Check it.", netClasses: { assignments: [{ net: "VIN" }] } }));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid netClasses",
+      details: "netClasses.assignments[0].netClass must be one of: power, high_current, signal, differential",
+    });
+  });
+
+  it("streams the power tree and raises overvoltage pins as critical findings", async () => {
+    const overvoltage = {
+      category: "power_pin_overvoltage",
+      message: "U2.GPIO4 is on VBUS at 5V (from its net name), above its 3.6V ESP32-C3 absolute max.",
+      severity: 9,
+      signature: "power_pin_overvoltage|U2|GPIO4|VBUS",
+      source: "tscircuit" as const,
+      family: "power_pin_overvoltage",
+      handling: "must_repair" as const,
+    };
+    const powerTree = {
+      rails: [
+        { net: "VBUS", voltage: 5, voltageBasis: "net_name" as const, sources: ["J1"], loads: ["U1", "U2"], issues: ["overvoltage"] },
+      ],
+      edges: [],
+    };
+    compileMock.mockReset().mockResolvedValue({ ...CLEAN_VALIDATION, allDiagnostics: [overvoltage], powerTree });
+    queryMock.mockImplementation(() => {
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R13"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const res = await POST(
+      makeRequest({ phase: "implementation", prompt: "Runs from USB power.", previousCode: assistantResult("R13") }),
+    );
+    const events = await consumeSSE(res);
+    expect(compileMock.mock.calls.every(([, , options]) => Array.isArray(options.requirements))).toBe(true);
+    expect(events.filter((event) => event.type === "power_tree")).toContainEqual({ type: "power_tree", tree: powerTree });
+    const findings = events.filter(
+      (event): event is Extract<SSEEvent, { type: "review_finding" }> => event.type === "review_finding",
+    );
+    expect(findings.map((event) => [event.finding.category, event.finding.severity])).toContainEqual([
+      "power_pin_overvoltage",
+      "critical",
+    ]);
+  });
+
+  it("carries bus-check fix suggestions into the retry prompt and review findings", async () => {
+    const swapped = {
+      category: "bus_uart_tx_to_tx",
+      message: "UART net UART_A joins U1.TX and U2.TXD: two transmit outputs drive each other and nothing receives.",
+      severity: 8,
+      signature: "bus_uart_tx_to_tx|UART_A",
+      source: "tscircuit" as const,
+      family: "bus_uart_tx_to_tx",
+      handling: "must_repair" as const,
+      suggestion: '<trace from=".U1 > .TX" to=".U2 > .RXD" /> <trace from=".U2 > .TXD" to=".U1 > .RX" />',
+    };
+    compileMock
+      .mockReset()
+      .mockResolvedValueOnce({ ...CLEAN_VALIDATION, allDiagnostics: [swapped] })
+      .mockResolvedValue(CLEAN_VALIDATION);
+    const prompts: string[] = [];
+    queryMock.mockImplementation(({ prompt }) => {
+      prompts.push(String(prompt));
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R14"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const events = await consumeSSE(await POST(makeRequest({ phase: "implementation", prompt: "Add a USB-UART bridge." })));
+    const retry = prompts.find((prompt) => prompt.includes("[bus_uart_tx_to_tx]"));
+    expect(retry).toContain(`Suggested fix: ${swapped.suggestion}`);
+    expect(retry).toContain("- Bus fix: apply each bus finding's suggested fix as written");
+    const findings = events.filter(
+      (event): event is Extract<SSEEvent, { type: "review_finding" }> => event.type === "review_finding",
+    );
+    expect(findings.find((event) => event.finding.category === "bus_uart_tx_to_tx")?.finding.suggestion).toBe(
+      swapped.suggestion,
+    );
+  });
+
+  it("reports the returned design's power budget in the final summary", async () => {
+    const powerBudget = {
+      ambientC: 25,
+      rails: [{ net: "V3V3", voltage: 3.3, typicalMa: 90, maxMa: 371, loads: [] }],
+      regulators: [],
+      unknownLoads: [],
+    };
+    compileMock.mockReset().mockResolvedValue({ ...CLEAN_VALIDATION, powerBudget });
+    queryMock.mockImplementation(() => {
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R14"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const res = await POST(
+      makeRequest({ phase: "implementation", prompt: "Add an LED.", powerBudget: { ambientC: 50 } }),
+    );
+    const events = await consumeSSE(res);
+    expect(compileMock.mock.calls.every(([, , options]) => options.powerBudget?.ambientC === 50)).toBe(true);
+    const summary = events.find(
+      (event): event is Extract<SSEEvent, { type: "final_summary" }> => event.type === "final_summary",
+    );
+    expect(summary?.summary.powerBudget).toEqual(powerBudget);
+    const text = events
+      .filter((event): event is Extract<SSEEvent, { type: "text" }> => event.type === "text")
+      .map((event) => event.content)
+      .join("");
+    expect(text).toContain("| V3V3 | 3.3V | 90mA | 371mA |");
+
+    const invalid = await POST(makeRequest({ prompt: "Check it.", powerBudget: { ambientC: "hot" } }));
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid powerBudget",
+      details: "powerBudget.ambientC must be a number",
+    });
+  });
+
+  it("validates every compile against the project's rule deck", async () => {
+    compileMock.mockReset().mockResolvedValue(CLEAN_VALIDATION);
+    queryMock.mockImplementation(() => {
+      async function* gen() {
+        yield {
+          type: "result",
+          subtype: "success",
+          result: assistantResult("R15"),
+          total_cost_usd: 0.002,
+        };
+      }
+      return gen() as never;
+    });
+
+    const ruleDeck = {
+      version: 1,
+      name: "team-deck",
+      extends: "circuitforge-default",
+      rules: [{ match: { family: "bus_usb_esd_missing" }, enabled: false }],
+    };
+    const res = await POST(makeRequest({ phase: "implementation", prompt: "Add an LED.", ruleDeck }));
+    await consumeSSE(res);
+    expect(compileMock).toHaveBeenCalled();
+    expect(compileMock.mock.calls.every(([, , options]) => options.ruleDeck?.name === "team-deck")).toBe(true);
+    expect(compileMock.mock.calls[0][2].ruleDeck.rules.at(-1)).toEqual(ruleDeck.rules[0]);
+
+    const invalid = await POST(
+      makeRequest({ prompt: "Check it.", ruleDeck: { ...ruleDeck, rules: [{ match: {}, handling: "ignore" }] } }),
+    );
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid ruleDeck",
+      details:
+        "ruleDeck.rules[0].handling must be one of: auto_fixable, should_demote, must_repair; ruleDeck.rules[0] must set enabled, severity, maxSeverity or handling",
+    });
+  });
+
+  it("repairs a multi-file project by merging the module the retry resent", async () => {
+    const compileError = {
+      category: "compile_error",
+      message: "power.tsx: U2 is missing pinLabels",
+      severity: 10,
+      signature: "compile_error|power",
+      source: "tscircuit" as const,
+      family: "compile_error",
+    };
+    compileMock
+      .mockReset()
+      .mockResolvedValueOnce({ ...CLEAN_VALIDATION, allDiagnostics: [compileError] })
+      .mockResolvedValueOnce(CLEAN_VALIDATION);
+
+    const mainFile = [
+      'import { Power } from "./power";',
+      "export default () => (",
+      '  <board width="60mm" height="50mm">',
+      "    <Power />",
+      "  </board>",
+      ")",
+    ].join("\n");
+    const responses = [
+      ["Split into modules.", "```tsx main.tsx", mainFile, "```", "```tsx power.tsx", "export const Power = () => <group />", "```"],
+      ["Fixed the regulator module.", '```tsx title="power.tsx"', 'export const Power = () => <group name="power" />', "```"],
+    ].map((lines) => lines.join("\n"));
+    queryMock.mockImplementation(({ prompt }) => {
+      const result = String(prompt).includes("Previous failed attempt") ? responses[1] : responses[0];
+      async function* gen() {
+        yield { type: "result", subtype: "success", result, total_cost_usd: 0.004 };
+      }
+      return gen() as never;
+    });
+
+    const res = await POST(
+      makeRequest({
+        phase: "implementation",
+        prompt: "Split the regulator into its own module.",
+        previousFiles: { "main.tsx": "export default () => <board />", "../escape.tsx": "x" },
+      }),
+    );
+    const events = await consumeSSE(res);
+
+    expect(compileMock).toHaveBeenCalledTimes(2);
+    expect(compileMock.mock.calls[1][0]).toEqual({
+      "main.tsx": mainFile,
+      "power.tsx": 'export const Power = () => <group name="power" />',
+    });
+    const retryPrompt = queryMock.mock.calls
+      .map(([params]) => String(params.prompt))
+      .find((prompt) => prompt.includes("Previous failed attempt"));
+    expect(retryPrompt).toContain("```tsx power.tsx\nexport const Power = () => <group />");
+    expect(retryPrompt).not.toContain("escape.tsx");
+    const codeFiles = events
+      .filter((event): event is Extract<SSEEvent, { type: "code" }> => event.type === "code")
+      .map((event) => event.file);
+    expect(codeFiles).toEqual(["main.tsx", "power.tsx", "main.tsx", "power.tsx"]);
+  });
 });
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/export/preview/route";
+import simpleCircuit from "../fixtures/simple-circuit.json";
+
+const compileForValidationMock = vi.fn();
+const { drillCommandsMock } = vi.hoisted(() => ({ drillCommandsMock: vi.fn() }));
+
+vi.mock("circuit-json-to-gerber", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("circuit-json-to-gerber")>();
+  drillCommandsMock.mockImplementation(actual.convertSoupToExcellonDrillCommands);
+  return {
+    ...actual,
+    convertSoupToExcellonDrillCommands: (...args: Parameters<typeof actual.convertSoupToExcellonDrillCommands>) =>
+      drillCommandsMock(...args),
+  };
+});
+
+vi.mock("@/lib/agent/repairLoop", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/agent/repairLoop")>();
+  return {
+    ...actual,
+    compileForValidation: (...args: Parameters<typeof compileForValidationMock>) =>
+      compileForValidationMock(...args),
+  };
+});
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost/api/export/preview", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("export preview route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    compileForValidationMock.mockResolvedValue({
+      ok: true,
+      source: "mock",
+      circuitJson: simpleCircuit,
+      errorMessage: null,
+    });
+  });
+
+  it("returns 400 without circuit input and for invalid options", async () => {
+    expect((await POST(makeRequest({}))).status).toBe(400);
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit, fabPreset: "acme" }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid fabPreset");
+  });
+
+  it("renders one SVG per Gerber layer and drill file from tscircuit code", async () => {
+    const res = await POST(makeRequest({ tscircuit_code: "export default () => <board />", fabPreset: "jlcpcb" }));
+    expect(res.status).toBe(200);
+    expect(compileForValidationMock).toHaveBeenCalledTimes(1);
+
+    const body = await res.json();
+    const ids = body.layers.map((layer: { id: string }) => layer.id);
+    expect(ids).toEqual(expect.arrayContaining(["Edge_Cuts", "F_Cu", "B_Cu", "F_SilkScreen"]));
+    const copper = body.layers.find((layer: { id: string }) => layer.id === "F_Cu");
+    expect(copper.fileName).toBe("circuitforge.gtl");
+    expect(copper.featureCount).toBe(5);
+    expect(copper.svg).toContain("<svg");
+    expect(body.warnings).toEqual([]);
+  });
+
+  it("flags holes that never reach the drill output", async () => {
+    const failDrill = () => {
+      throw new Error("unsupported hole");
+    };
+    drillCommandsMock.mockImplementationOnce(failDrill).mockImplementationOnce(failDrill);
+    const res = await POST(
+      makeRequest({
+        circuit_json: [
+          ...simpleCircuit,
+          { type: "pcb_hole", pcb_hole_id: "hole_0", hole_shape: "circle", hole_diameter: 3.2, x: 6, y: 4 },
+        ],
+      }),
+    );
+    const body = await res.json();
+    expect(body.warnings.map((warning: { category: string }) => warning.category)).toContain(
+      "preview_missing_drill_layer",
+    );
+  });
+});
@@ -1,9 +1,20 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { POST } from "@/app/api/export/route";
 import JSZip from "jszip";
+import { createHash } from "node:crypto";
 import simpleCircuit from "../fixtures/simple-circuit.json";
 
 const compileForValidationMock = vi.fn();
+const { runDfmChecksMock } = vi.hoisted(() => ({ runDfmChecksMock: vi.fn() }));
+
+vi.mock("@/lib/manufacturing/dfm", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/manufacturing/dfm")>();
+  runDfmChecksMock.mockImplementation(actual.runDfmChecks);
+  return {
+    ...actual,
+    runDfmChecks: (...args: Parameters<typeof actual.runDfmChecks>) => runDfmChecksMock(...args),
+  };
+});
 
 vi.mock("@/lib/agent/repairLoop", async (importOriginal) => {
   const actual = await importOriginal<typeof import("@/lib/agent/repairLoop")>();
@@ -60,6 +71,18 @@ describe("Export route — validation", () => {
     expect(res.status).toBe(400);
   });
 
+  it("returns 422 with element diagnostics for circuit_json with dangling references", async () => {
+    const circuitJson = (simpleCircuit as Array<Record<string, unknown>>).filter(
+      (element) => element.type !== "pcb_component",
+    );
+    const res = await POST(makeRequest({ circuit_json: circuitJson }));
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid circuit_json");
+    expect(body.details).toContain("references missing pcb_component");
+    expect(body.diagnostics[0]).toMatchObject({ category: "circuit_json_dangling_reference", severity: 8 });
+  });
+
   it("returns 409 when critical findings exist without risky override", async () => {
     const res = await POST(
       makeRequest({
@@ -84,6 +107,57 @@ describe("Export route — validation", () => {
     expect(res.status).toBe(200);
     expect(compileForValidationMock).toHaveBeenCalledTimes(1);
   });
+
+  it("compiles a multi-file fs_map as one project and hashes each file", async () => {
+    const fsMap = {
+      "main.tsx": 'import { Power } from "./power";\nexport default () => <board><Power /></board>',
+      "power.tsx": "export const Power = () => <group />",
+    };
+    const res = await POST(makeRequest({ fs_map: fsMap }));
+    expect(res.status).toBe(200);
+    expect(compileForValidationMock).toHaveBeenCalledWith(fsMap, expect.anything(), expect.anything());
+
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const manifest = JSON.parse(await zip.files["manifest.json"].async("string"));
+    expect(Object.keys(manifest.source.tscircuitFilesSha256)).toEqual(["main.tsx", "power.tsx"]);
+  });
+
+  it("compiles with the requested routing options and records them in the manifest", async () => {
+    const res = await POST(
+      makeRequest({
+        tscircuit_code: "export default () => <board />",
+        routing: { autorouter: "sequential_trace", seed: 12 },
+      }),
+    );
+    expect(res.status).toBe(200);
+    expect(compileForValidationMock).toHaveBeenCalledWith(expect.anything(), expect.anything(), {
+      sessionId: undefined,
+      routing: { autorouter: "sequential_trace", seed: 12 },
+    });
+
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const manifest = JSON.parse(await zip.files["manifest.json"].async("string"));
+    expect(manifest.source.routing).toEqual({ autorouter: "sequential_trace", availableJumperTypes: null, seed: 12 });
+  });
+
+  it("returns 400 for invalid routing options", async () => {
+    const res = await POST(
+      makeRequest({ tscircuit_code: "export default () => <board />", routing: { seed: 1.5 } }),
+    );
+    expect(res.status).toBe(400);
+    await expect(res.json()).resolves.toEqual({
+      error: "Invalid routing options",
+      details: "routing.seed must be an integer between 0 and 4294967295",
+    });
+  });
+
+  it("returns 400 for an fs_map without a main.tsx or with unsafe paths", async () => {
+    const res = await POST(makeRequest({ fs_map: { "power.tsx": "x", "../secret.tsx": "y" } }));
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid fs_map");
+    expect(body.details).toContain('"../secret.tsx" is not a relative .ts/.tsx path');
+  });
 });
 
 describe("Export route — zip generation", () => {
@@ -125,6 +199,292 @@ describe("Export route — zip generation", () => {
     expect(pnpContent.length).toBeGreaterThan(0);
   });
 
+  it("zip contains an IPC-D-356 netlist next to the Gerbers", async () => {
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit }));
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    expect(zip.files["gerbers/netlist.ipc"]).toBeDefined();
+    const netlist = await zip.files["gerbers/netlist.ipc"].async("string");
+    expect(netlist).toContain("P  VER   IPC-D-356A");
+    expect(netlist).toContain("Net-(R1-pin2)");
+    expect(res.headers.get("X-Export-Warnings")).toBe("0");
+    expect(zip.files["export_warnings.json"]).toBeUndefined();
+  });
+
+  it("warns when a net in the connectivity summary has no copper", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: [
+          ...simpleCircuit,
+          {
+            type: "source_trace",
+            source_trace_id: "source_trace_spi",
+            connected_source_port_ids: [],
+            connected_source_net_ids: [],
+            net: "SPI_CLK",
+          },
+        ],
+      }),
+    );
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Export-Warnings")).toBe("1");
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const warnings = JSON.parse(await zip.files["export_warnings.json"].async("string")).warnings;
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        category: "ipc356_net_missing_copper",
+        message: 'Net "SPI_CLK" from the connectivity summary is missing from the IPC-D-356 copper netlist.',
+      }),
+    ]);
+  });
+
+  it("writes a Gerber job file and X2 attributes from the request stackup", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        stackup: { layerCount: 2, boardThicknessMm: 1.2, copperWeightOz: 2, finish: "ENIG" },
+      }),
+    );
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    const job = JSON.parse(await zip.files["gerbers/circuitforge.gbrjob"].async("string"));
+    expect(job.GeneralSpecs).toMatchObject({ BoardThickness: 1.2, Finish: "ENIG", LayerNumber: 2 });
+    expect(job.FilesAttributes.map((entry: { Path: string }) => entry.Path)).toContain("F_Cu.gbr");
+
+    const topCopper = await zip.files["gerbers/F_Cu.gbr"].async("string");
+    expect(topCopper).toContain("%TF.FileFunction,Copper,L1,Top*%");
+    expect(topCopper).toContain("%TF.Part,Single*%");
+  });
+
+  it("returns 400 for invalid stackup parameters", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, stackup: { layerCount: 3 } }),
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid stackup parameters");
+  });
+
+  it("applies the JLCPCB preset to file names and BOM/CPL columns", async () => {
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit, fabPreset: "jlcpcb" }));
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    expect(zip.files["gerbers/circuitforge.gtl"]).toBeDefined();
+    expect(zip.files["gerbers/plated.drl"]).toBeUndefined();
+    expect(zip.files["gerbers/F_Cu.gbr"]).toBeUndefined();
+    expect(zip.files["bom.csv"]).toBeUndefined();
+
+    const bom = await zip.files["jlcpcb_bom.csv"].async("string");
+    expect(bom.split("\n")[0]).toBe("Comment,Designator,Footprint,LCSC Part #");
+    const cpl = await zip.files["jlcpcb_cpl.csv"].async("string");
+    expect(cpl).toContain("R1,-3mm,0mm,Top,0");
+
+    const job = JSON.parse(await zip.files["gerbers/circuitforge.gbrjob"].async("string"));
+    expect(job.FilesAttributes.map((entry: { Path: string }) => entry.Path)).toContain(
+      "circuitforge.gtl",
+    );
+  });
+
+  it("returns 400 for an unknown fabPreset", async () => {
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit, fabPreset: "acme" }));
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid fabPreset");
+  });
+
+  it("applies request rotation corrections and lists them in the review bundle", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { reviewBundle: true },
+        rotationCorrections: [{ lcsc: "C25804", rotation: 90 }],
+      }),
+    );
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    const pnp = await zip.files["pnp.csv"].async("string");
+    expect(pnp).toContain("R1,-3.000,0.000,top,90");
+    expect(pnp).toContain("C1,3.000,0.000,top,0");
+
+    const report = JSON.parse(await zip.files["rotation_corrections.json"].async("string"));
+    expect(report.applied).toHaveLength(1);
+    expect(report.applied[0]).toMatchObject({ designator: "R1", source: "request", matchedBy: "lcsc" });
+    expect(report.table.builtin).toEqual([]);
+  });
+
+  it("applies the built-in rotation table only to JLCPCB exports", async () => {
+    const circuit = [
+      ...simpleCircuit,
+      {
+        type: "cad_component",
+        cad_component_id: "cad_component_0",
+        pcb_component_id: "pcb_component_0",
+        source_component_id: "source_component_0",
+        position: { x: -3, y: 0, z: 0 },
+        footprinter_string: "sot23",
+      },
+    ];
+    const exportFile = async (fabPreset: string | undefined, fileName: string) => {
+      const res = await POST(makeRequest({ circuit_json: circuit, fabPreset }));
+      expect(res.status).toBe(200);
+      const zip = await JSZip.loadAsync(await res.arrayBuffer());
+      return zip.files[fileName].async("string");
+    };
+
+    expect(await exportFile("jlcpcb", "jlcpcb_cpl.csv")).toContain("R1,-3mm,0mm,Top,180");
+    expect(await exportFile(undefined, "pnp.csv")).toContain("R1,-3.000,0.000,top,0");
+    const centroid = (await exportFile("pcbway", "pcbway_centroid.csv")).split("\n");
+    expect(centroid.find((line) => line.startsWith("R1,"))).toBe("R1,sot23,-3,0,T,0,10kΩ");
+  });
+
+  it("writes the power budget into the review bundle and rejects invalid overrides", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { reviewBundle: true },
+        powerBudget: { ambientC: 40 },
+      }),
+    );
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const report = JSON.parse(await zip.files["power_budget.json"].async("string"));
+    expect(report).toMatchObject({ ambientC: 40, regulators: [], unknownLoads: [], findings: [] });
+    expect(report.table).toContain("| Rail | Voltage | Typical | Peak |");
+
+    const invalid = await POST(
+      makeRequest({ circuit_json: simpleCircuit, powerBudget: { loads: [{ component: "U1" }] } }),
+    );
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid powerBudget",
+      details: "powerBudget.loads[0] must set typicalMa or maxMa",
+    });
+  });
+
+  it("returns 400 for invalid rotation corrections", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, rotationCorrections: [{ rotation: 90 }] }),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("blocks export with 409 when DFM checks find unbuildable copper", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, fabCapabilities: { minTraceWidthMm: 0.2 } }),
+    );
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.error).toBe("Export blocked by DFM violations");
+    expect(body.dfmFindings.map((finding: { category: string }) => finding.category)).toEqual([
+      "dfm_trace_width",
+    ]);
+  });
+
+  it("returns a JSON error when the DFM geometry checks throw", async () => {
+    runDfmChecksMock.mockImplementationOnce(() => {
+      throw new Error("degenerate polygon");
+    });
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit }));
+    expect(res.status).toBe(500);
+    await expect(res.json()).resolves.toEqual({ error: "Export failed", details: "degenerate polygon" });
+  });
+
+  it("exports DFM violations as warnings on a risky export override", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { reviewBundle: true },
+        fabCapabilities: { minTraceWidthMm: 0.2 },
+        readiness: { allowRiskyExport: true },
+      }),
+    );
+    expect(res.status).toBe(200);
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+
+    const warnings = JSON.parse(await zip.files["export_warnings.json"].async("string"));
+    expect(warnings.warnings.map((w: { category: string }) => w.category)).toContain(
+      "dfm_trace_width",
+    );
+    const report = JSON.parse(await zip.files["dfm_report.json"].async("string"));
+    expect(report.profile).toMatchObject({ id: "default", minTraceWidthMm: 0.2 });
+  });
+
+  it("weighs DFM findings with the request's rule deck", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { reviewBundle: true },
+        fabCapabilities: { minTraceWidthMm: 0.2 },
+        ruleDeck: [
+          "version: 1",
+          "name: proto-run",
+          "extends: circuitforge-default",
+          "rules:",
+          "  - match:",
+          "      category: dfm_trace_width",
+          "    severity: 5",
+          "    handling: should_demote",
+        ].join("\n"),
+      }),
+    );
+    expect(res.status).toBe(200);
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const report = JSON.parse(await zip.files["dfm_report.json"].async("string"));
+    expect(report.findings[0]).toMatchObject({ category: "dfm_trace_width", severity: 5, handling: "should_demote" });
+    const deck = JSON.parse(await zip.files["rule_deck.json"].async("string"));
+    expect(deck).toMatchObject({ version: 1, name: "proto-run" });
+    const manifest = JSON.parse(await zip.files["manifest.json"].async("string"));
+    expect(manifest.provenance.ruleDeck).toBe("proto-run");
+
+    const invalid = await POST(
+      makeRequest({ circuit_json: simpleCircuit, ruleDeck: { version: 1, name: "x", rules: [{ match: {} }] } }),
+    );
+    expect(invalid.status).toBe(400);
+    await expect(invalid.json()).resolves.toEqual({
+      error: "Invalid ruleDeck",
+      details: "ruleDeck.rules[0] must set enabled, severity, maxSeverity or handling",
+    });
+  });
+
+  it("returns 400 for invalid fabCapabilities", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, fabCapabilities: { minSpacingMm: "5mil" } }),
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid fabCapabilities");
+  });
+
+  it("adds panelized Gerbers, drills and PNP when panel is set", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, panel: { rows: 2, columns: 2 } }),
+    );
+    expect(res.status).toBe(200);
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+
+    const edgeCuts = await zip.files["panel/gerbers/Edge_Cuts.gbr"].async("string");
+    expect(edgeCuts).toContain("%TF.FileFunction,Profile,NP*%");
+    expect(zip.files["panel/gerbers/unplated.drl"]).toBeDefined();
+    expect(zip.files["gerbers/F_Cu.gbr"]).toBeDefined();
+
+    const pnp = await zip.files["panel/pnp.csv"].async("string");
+    expect(pnp.split("\r\n").filter((line) => line.startsWith("R1_"))).toHaveLength(4);
+    const layout = JSON.parse(await zip.files["panel/panel.json"].async("string"));
+    expect(layout.boards).toHaveLength(4);
+  });
+
+  it("returns 400 for invalid panel options", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, panel: { rows: 2, columns: 2, separation: "laser" } }),
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid panel options");
+  });
+
   it("zip structure matches spec (gerbers/*.gbr, bom.csv, pnp.csv)", async () => {
     const res = await POST(makeRequest({ circuit_json: simpleCircuit }));
     const buffer = await res.arrayBuffer();
@@ -137,6 +497,81 @@ describe("Export route — zip generation", () => {
     expect(fileNames.includes("pnp.csv")).toBe(true);
   });
 
+  it("writes a manifest with file hashes and export provenance", async () => {
+    const res = await POST(
+      makeRequest({
+        tscircuit_code: "export default () => <board />",
+        projectId: "project-1",
+        sessionId: "session-1",
+        readiness: {
+          readinessScore: 91,
+          attempt: 2,
+          diagnostics: { diagnosticsCount: 3, blockingDiagnosticsCount: 0, extra: "dropped" },
+        },
+      }),
+    );
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+    const manifest = JSON.parse(await zip.files["manifest.json"].async("string"));
+
+    expect(manifest.source.tscircuitCodeSha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(manifest.provenance).toMatchObject({
+      sessionId: "session-1",
+      projectId: "project-1",
+      attempt: 2,
+      readinessScore: 91,
+      allowRiskyExport: false,
+      diagnostics: { client: { diagnosticsCount: 3, blockingDiagnosticsCount: 0 } },
+    });
+    expect(manifest.provenance.diagnostics.dfm).toMatchObject({ profile: "default", blockingCount: 0 });
+
+    const listed = manifest.files.map((entry: { path: string }) => entry.path);
+    const fileNames = Object.keys(zip.files).filter((f) => !zip.files[f].dir && f !== "manifest.json");
+    expect(listed).toEqual([...fileNames].sort((a, b) => a.localeCompare(b)));
+    const bomEntry = manifest.files.find((entry: { path: string }) => entry.path === "bom.csv");
+    const bom = await zip.files["bom.csv"].async("uint8array");
+    expect(bomEntry.sha256).toBe(createHash("sha256").update(bom).digest("hex"));
+    expect(manifest.design.components.map((component: { name: string }) => component.name)).toEqual(["C1", "R1"]);
+  });
+
+  it("writes CHANGES.md against a previous export zip", async () => {
+    const first = await POST(makeRequest({ circuit_json: simpleCircuit }));
+    const previousZip = Buffer.from(await first.arrayBuffer()).toString("base64");
+    // Shift R1 and its pads 2 mm left.
+    const moved = simpleCircuit.map((row) => {
+      if (row.type === "pcb_component" && row.pcb_component_id === "pcb_component_0") {
+        return { ...row, center: { x: -5, y: 0 } };
+      }
+      if (row.type === "pcb_smtpad" && row.pcb_component_id === "pcb_component_0") {
+        return { ...row, x: (row.x as number) - 2 };
+      }
+      return row;
+    });
+
+    const res = await POST(makeRequest({ circuit_json: moved, previousExport: { zip: previousZip } }));
+    expect(res.status).toBe(200);
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+
+    const markdown = await zip.files["CHANGES.md"].async("string");
+    expect(markdown).toContain("# Changes since previous export");
+    expect(markdown).toContain("- R1: moved (-3, 0) 0° top → (-5, 0) 0° top (2 mm)");
+    const changes = JSON.parse(await zip.files["changes.json"].async("string"));
+    expect(changes.movedComponents).toHaveLength(1);
+    expect(changes.addedComponents).toEqual([]);
+    const changedLayers = changes.layerChanges.map((layer: { layer: string }) => layer.layer);
+    expect(changedLayers).toEqual(expect.arrayContaining(["F_Cu", "F_Mask"]));
+    expect(changedLayers).not.toContain("Edge_Cuts");
+  });
+
+  it("returns 400 when previousExport has no design snapshot", async () => {
+    const res = await POST(
+      makeRequest({ circuit_json: simpleCircuit, previousExport: { manifest: { files: [] } } }),
+    );
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid previousExport");
+    expect(body.details).toContain("no design snapshot");
+  });
+
   it("includes kicad_sch when formatSet.kicad is true", async () => {
     const res = await POST(
       makeRequest({
@@ -152,6 +587,88 @@ describe("Export route — zip generation", () => {
     expect(kicadContent).toContain("(kicad_sch");
   });
 
+  it("includes a KiCad board and project when formatSet.kicadPcb is true", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { kicadPcb: true },
+      }),
+    );
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    expect(zip.files["kicad/circuitforge.kicad_pcb"]).toBeDefined();
+    const pcbContent = await zip.files["kicad/circuitforge.kicad_pcb"].async("string");
+    expect(pcbContent).toContain("(kicad_pcb");
+    expect(pcbContent).toContain("Edge.Cuts");
+
+    const project = JSON.parse(await zip.files["kicad/circuitforge.kicad_pro"].async("string"));
+    expect(project.head.project_name).toBe("circuitforge");
+    // The project refers to its schematic, so a board-only export still ships it.
+    expect(JSON.stringify(project)).toContain("circuitforge.kicad_sch");
+    const schematic = await zip.files["kicad/circuitforge.kicad_sch"].async("string");
+    expect(schematic).toContain("(kicad_sch");
+    expect(zip.files["kicad_sch"]).toBeUndefined();
+  });
+
+  it("includes an IPC-2581 package when formatSet.ipc2581 is true", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { ipc2581: true },
+      }),
+    );
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    expect(zip.files["ipc2581/circuitforge.xml"]).toBeDefined();
+    const xml = await zip.files["ipc2581/circuitforge.xml"].async("string");
+    expect(xml).toContain('<IPC-2581 revision="C"');
+    expect(xml).toContain("<Stackup");
+    expect(xml).toContain('<RefDes name="R1"');
+  });
+
+  it("includes assembly and fabrication drawings when formatSet.drawings is true", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { drawings: true, drawingsPdf: true },
+      }),
+    );
+    const buffer = await res.arrayBuffer();
+    const zip = await JSZip.loadAsync(buffer);
+
+    const drawingFiles = Object.keys(zip.files).filter((f) => f.startsWith("drawings/")).sort();
+    expect(drawingFiles).toEqual([
+      "drawings/",
+      "drawings/assembly-top.pdf",
+      "drawings/assembly-top.svg",
+      "drawings/fabrication.pdf",
+      "drawings/fabrication.svg",
+    ]);
+    const assembly = await zip.files["drawings/assembly-top.svg"].async("string");
+    expect(assembly).toContain(">R1</text>");
+    const fabrication = await zip.files["drawings/fabrication.svg"].async("string");
+    expect(fabrication).toContain("DRILL TABLE");
+    const pdf = await zip.files["drawings/fabrication.pdf"].async("string");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+  });
+
+  it("includes a SPICE netlist when formatSet.spice is true", async () => {
+    const res = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        formatSet: { spice: true },
+        spice: { transient: { stepSeconds: 1e-6, stopSeconds: 1e-3 } },
+      }),
+    );
+    const zip = await JSZip.loadAsync(await res.arrayBuffer());
+
+    const netlist = await zip.files["spice/circuitforge.cir"].async("string");
+    expect(netlist).toContain("CC1 net_r1_pin2 nc_c1_pin2 100n");
+    expect(netlist).toContain(".tran 1u 1m");
+  });
+
   it("includes review bundle files when reviewBundle is true", async () => {
     const res = await POST(
       makeRequest({
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { POST as exportPost } from "@/app/api/export/route";
+import { POST as verifyPost } from "@/app/api/export/verify/route";
+import simpleCircuit from "../fixtures/simple-circuit.json";
+
+async function exportZip(): Promise<ArrayBuffer> {
+  const res = await exportPost(
+    new Request("http://localhost/api/export", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        circuit_json: simpleCircuit,
+        projectId: "project-1",
+        sessionId: "session-1",
+        readiness: { readinessScore: 88, attempt: 3 },
+      }),
+    }),
+  );
+  expect(res.status).toBe(200);
+  return res.arrayBuffer();
+}
+
+function makeVerifyRequest(body: BodyInit, contentType = "application/zip"): Request {
+  return new Request("http://localhost/api/export/verify", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body,
+  });
+}
+
+describe("export verify route", () => {
+  it("accepts an untouched export uploaded as a form file", async () => {
+    const form = new FormData();
+    form.set("file", new Blob([await exportZip()], { type: "application/zip" }), "export.zip");
+    const res = await verifyPost(
+      new Request("http://localhost/api/export/verify", { method: "POST", body: form }),
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.ok).toBe(true);
+    expect(body.checkedCount).toBeGreaterThan(3);
+    expect(body.provenance).toMatchObject({ projectId: "project-1", sessionId: "session-1", attempt: 3 });
+  });
+
+  it("reports modified, missing and unexpected files", async () => {
+    const zip = await JSZip.loadAsync(await exportZip());
+    zip.file("bom.csv", "tampered\n");
+    zip.remove("pnp.csv");
+    zip.file("extra.txt", "hello");
+    const res = await verifyPost(makeVerifyRequest(await zip.generateAsync({ type: "arraybuffer" })));
+
+    const body = await res.json();
+    expect(body.ok).toBe(false);
+    expect(body.mismatched.map((entry: { path: string }) => entry.path)).toEqual(["bom.csv"]);
+    expect(body.missing).toEqual(["pnp.csv"]);
+    expect(body.unexpected).toEqual(["extra.txt"]);
+  });
+
+  it("rejects archives without a manifest and non-zip uploads", async () => {
+    const zip = new JSZip();
+    zip.file("bom.csv", "a,b\n");
+    const noManifest = await verifyPost(makeVerifyRequest(await zip.generateAsync({ type: "arraybuffer" })));
+    expect(noManifest.status).toBe(422);
+    expect((await noManifest.json()).details).toBe("manifest.json not found in archive");
+
+    const notZip = await verifyPost(makeVerifyRequest("not a zip"));
+    expect(notZip.status).toBe(400);
+    const empty = await verifyPost(makeVerifyRequest(""));
+    expect(empty.status).toBe(400);
+  });
+});
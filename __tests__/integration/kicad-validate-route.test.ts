@@ -33,6 +33,16 @@ describe("kicad validate route", () => {
     expect(body.error).toContain("Missing");
   });
 
+  it("returns 422 for circuit_json entries without a type", async () => {
+    const res = await POST(makeRequest({ circuit_json: [...simpleCircuit, { name: "orphan" }] }));
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.ok).toBe(false);
+    expect(body.diagnostics).toEqual([
+      expect.objectContaining({ category: "circuit_json_malformed_element", severity: 8 }),
+    ]);
+  });
+
   it("returns kicad schema and findings for valid circuit_json", async () => {
     const res = await POST(makeRequest({ circuit_json: simpleCircuit }));
     expect(res.status).toBe(200);
@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { GET, PUT } from "@/app/api/manufacturing/rotation-corrections/route";
+import { resetRotationCorrectionStoreForTests } from "@/lib/manufacturing/rotationCorrectionStore";
+
+function makePut(body: unknown): Request {
+  return new Request("http://localhost/api/manufacturing/rotation-corrections", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("rotation corrections route", () => {
+  beforeEach(async () => {
+    await resetRotationCorrectionStoreForTests();
+  });
+
+  it("returns 400 without a projectId", async () => {
+    const res = await GET(new Request("http://localhost/api/manufacturing/rotation-corrections"));
+    expect(res.status).toBe(400);
+  });
+
+  it("rejects invalid correction rules", async () => {
+    const res = await PUT(makePut({ projectId: "p1", corrections: [{ rotation: 90 }] }));
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid rotation corrections");
+  });
+
+  it("stores project rules alongside the built-in table", async () => {
+    const put = await PUT(
+      makePut({ projectId: "p1", corrections: [{ lcsc: "C25804", rotation: 90 }] }),
+    );
+    expect(put.status).toBe(200);
+
+    const res = await GET(
+      new Request("http://localhost/api/manufacturing/rotation-corrections?projectId=p1"),
+    );
+    const body = await res.json();
+    expect(body.corrections).toEqual([{ lcsc: "C25804", rotation: 90 }]);
+    expect(body.builtin.length).toBeGreaterThan(0);
+  });
+});
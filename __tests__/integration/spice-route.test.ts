@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/spice/route";
+import simpleCircuit from "../fixtures/simple-circuit.json";
+
+const compileForValidationMock = vi.fn();
+const { runNgspiceMock } = vi.hoisted(() => ({ runNgspiceMock: vi.fn() }));
+
+vi.mock("@/lib/agent/repairLoop", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/agent/repairLoop")>();
+  return {
+    ...actual,
+    compileForValidation: (...args: Parameters<typeof compileForValidationMock>) =>
+      compileForValidationMock(...args),
+  };
+});
+
+vi.mock("@/lib/spice/ngspice", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/spice/ngspice")>();
+  return {
+    ...actual,
+    runNgspice: (...args: Parameters<typeof actual.runNgspice>) => runNgspiceMock(...args),
+  };
+});
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost/api/spice", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("spice route", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    compileForValidationMock.mockResolvedValue({
+      ok: true,
+      source: "mock",
+      circuitJson: simpleCircuit,
+      errorMessage: null,
+    });
+  });
+
+  it("returns 400 without circuit input and for invalid spice options", async () => {
+    expect((await POST(makeRequest({}))).status).toBe(400);
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit, spice: { transient: { stepSeconds: 0 } } }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Invalid spice options");
+  });
+
+  it("returns the netlist without simulating by default", async () => {
+    const res = await POST(makeRequest({ tscircuit_code: "export default () => <board />" }));
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.netlist).toContain("RR1 nc_r1_pin1 net_r1_pin2 10k");
+    expect(body.simulation).toBeNull();
+    expect(body.findings).toEqual([]);
+    expect(runNgspiceMock).not.toHaveBeenCalled();
+  });
+
+  it("returns simulation results as findings when simulate is set", async () => {
+    runNgspiceMock.mockResolvedValue({
+      status: "ok",
+      errorMessage: null,
+      operatingPoint: { net_r1_pin2: 0 },
+      branchCurrents: {},
+      transient: null,
+    });
+    const res = await POST(makeRequest({ circuit_json: simpleCircuit, simulate: true }));
+    const body = await res.json();
+
+    expect(runNgspiceMock).toHaveBeenCalledWith(expect.stringContaining(".op"), expect.anything());
+    expect(body.simulation.status).toBe("ok");
+    expect(body.findings).toEqual([
+      expect.objectContaining({ category: "spice_operating_point", message: "Operating point: Net-(R1-pin2) 0V." }),
+    ]);
+  });
+
+  it("never hands ngspice control blocks from the request", async () => {
+    const library = await POST(
+      makeRequest({
+        circuit_json: simpleCircuit,
+        simulate: true,
+        spice: { subcircuitLibrary: ".subckt X a b\nR1 a b 1k\n.ends\n.control\nshell id\n.endc" },
+      }),
+    );
+    expect(library.status).toBe(400);
+    expect((await library.json()).details).toContain("spice.subcircuitLibrary line 4 is not allowed");
+    expect(runNgspiceMock).not.toHaveBeenCalled();
+
+    runNgspiceMock.mockResolvedValue({ status: "unavailable", errorMessage: "ngspice not found" });
+    const renamed = simpleCircuit.map((row) =>
+      row.type === "source_component" && row.name === "R1" ? { ...row, name: "R1 a b 1k\n.control\nshell id\n.endc\n*" } : row,
+    );
+    await POST(makeRequest({ circuit_json: renamed, simulate: true }));
+    const [netlist] = runNgspiceMock.mock.calls[0] as [string];
+    expect(netlist.split("\n").filter((line) => /^\s*(\.control|\.endc|shell)/i.test(line))).toEqual([]);
+  });
+});
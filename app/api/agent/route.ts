@@ -20,12 +20,23 @@ import {
   resolveAllowedToolsForPhase,
   resolvePhaseSubagents,
 } from "@/lib/agent/subagents";
-import { extractCodeFromText } from "@/lib/agent/code";
+import {
+  MAIN_FILE,
+  extractFilesFromText,
+  findBoardFile,
+  formatProjectFilesForPrompt,
+  joinProjectSources,
+  mergeProjectFiles,
+  normalizeProjectFileName,
+  projectFilesEqual,
+  sortProjectFileNames,
+  type ProjectFiles,
+} from "@/lib/agent/code";
 import {
   applyTargetedCongestionRelief,
   applyStructuralLayoutSpread,
   applyStructuralTraceRebuild,
-  applySourceCodeGuardrails,
+  applyProjectGuardrails,
   compileAndValidateWithKicad,
   computeDiagnosticsScore,
   createDiagnosticsSetSignature,
@@ -37,6 +48,24 @@ import {
   recordDiagnosticsSamplePersistent,
 } from "@/lib/agent/persistentErrorMemory";
 import { applyKicadMcpEdits, type KicadSchemaEdit } from "@/lib/kicad/review";
+import {
+  nextAlternateRouting,
+  validateRoutingOptions,
+  type RoutingAutorouter,
+  type RoutingOptions,
+} from "@/lib/compile/routing";
+import { parseDrcRuleOverrides, type DrcRuleOverrides } from "@/lib/manufacturing/drc";
+import {
+  parseNetClassInput,
+  resolveNetClassSettings,
+  type NetClassSettings,
+} from "@/lib/manufacturing/netClasses";
+import {
+  formatPowerBudgetTable,
+  parsePowerBudgetInput,
+  type PowerBudgetInput,
+} from "@/lib/electrical/powerBudget";
+import { parseRuleDeck, type RuleDeck } from "@/lib/rules/ruleDeck";
 import {
   getSessionContext,
   persistSessionContext,
@@ -49,6 +78,8 @@ import type {
   ValidationDiagnostic,
   ReviewFinding,
   DesignPhase,
+  RequirementItem,
+  PowerBudget,
 } from "@/lib/stream/types";
 
 export const runtime = "nodejs";
@@ -73,6 +104,7 @@ interface RepairRuntimeConfig {
   minorBoardGrowthCapPct: number;
   minorComponentShiftMm: number;
   minorReliefPasses: number;
+  maxRouterRetries: number;
   statusPulseIntervalMs: number;
 }
 
@@ -158,6 +190,12 @@ function getRepairRuntimeConfig(): RepairRuntimeConfig {
       1,
       4,
     ),
+    maxRouterRetries: parseIntEnv(
+      "CIRCUITFORGE_MAX_ROUTER_RETRIES",
+      testMode ? 0 : 2,
+      0,
+      3,
+    ),
     statusPulseIntervalMs: parseIntEnv(
       "CIRCUITFORGE_STATUS_PULSE_MS",
       8_000,
@@ -592,6 +630,7 @@ function toReviewFindings(
         diagnostic.handling !== "auto_fixable" &&
         (diagnostic.category.includes("compile") || diagnostic.severity >= 8),
       status: "open",
+      ...(diagnostic.suggestion ? { suggestion: diagnostic.suggestion } : {}),
       source: diagnostic.source,
       createdAt: Date.now(),
     }));
@@ -616,10 +655,28 @@ function inferDefaultPhase(prompt: string, hasHistory: boolean): DesignPhase {
   return "implementation";
 }
 
+/**
+ * The client's current project: `previousFiles` when sent (entries with unsafe
+ * names or non-string contents are dropped), else `previousCode` as main.tsx.
+ */
+function resolvePreviousFiles(body: AgentRequest): ProjectFiles | null {
+  const files: ProjectFiles = {};
+  if (body.previousFiles && typeof body.previousFiles === "object") {
+    for (const [name, content] of Object.entries(body.previousFiles)) {
+      const normalized = normalizeProjectFileName(name);
+      if (normalized && typeof content === "string") files[normalized] = content;
+    }
+  }
+  if (!files[MAIN_FILE] && typeof body.previousCode === "string" && body.previousCode.trim()) {
+    files[MAIN_FILE] = body.previousCode;
+  }
+  return Object.keys(files).length > 0 ? files : null;
+}
+
 function buildRetryPrompt(params: {
   userPrompt: string;
-  previousCode?: string;
-  attemptedCode: string;
+  previousFiles?: ProjectFiles | null;
+  attemptedFiles: ProjectFiles | null;
   diagnostics: ValidationDiagnostic[];
   attempt: number;
   maxAttempts: number;
@@ -669,11 +726,16 @@ function buildRetryPrompt(params: {
       "- Autorouter recovery: reduce fanout congestion by avoiding same-corridor multi-net exits."
     );
   }
-  if (hasCategory("compile_validate_timeout")) {
+  if (hasCategory("compile_validate_timeout") || hasCategory("compile_timeout")) {
     hints.push(
       "- Timeout recovery: simplify congested routing zones and reduce crossover pressure so validation settles faster."
     );
   }
+  if (hasCategory("compile_out_of_memory")) {
+    hints.push(
+      "- Memory recovery: reduce component and trace count or split dense sections; the compile exceeded its heap limit."
+    );
+  }
   if (hasCategory("source_failed_to_create_component_error")) {
     hints.push(
       "- Component creation fix: ensure each chip-like part has valid pinLabels and compatible props; remove unsupported JSX props/elements."
@@ -689,14 +751,23 @@ function buildRetryPrompt(params: {
       "- Footprint fix: assign a valid footprint string to every footprint-required component; avoid invented package names."
     );
   }
+  if (hasCategory("bus_")) {
+    hints.push(
+      "- Bus fix: apply each bus finding's suggested fix as written, keeping the existing part names and selectors; remove any trace the suggestion replaces."
+    );
+  }
 
   const adaptiveSection = params.adaptiveGuardrails
     ? `\nRecent learned failure patterns:\n${params.adaptiveGuardrails}\n`
     : "";
 
-  const previousCodeSection = params.previousCode
-    ? `\nOriginal baseline code from context:\n\`\`\`tsx\n${params.previousCode}\n\`\`\`\n`
+  const previousCodeSection = params.previousFiles
+    ? `\nOriginal baseline code from context:\n${formatProjectFilesForPrompt(params.previousFiles)}\n`
     : "";
+  const attemptedCodeSection = params.attemptedFiles
+    ? formatProjectFilesForPrompt(params.attemptedFiles)
+    : "```tsx\n// No code block was returned. You must return a full `tsx` file in a single fenced code block.\n```";
+  const isMultiFile = params.attemptedFiles ? Object.keys(params.attemptedFiles).length > 1 : false;
 
   const deterministicSection =
     params.deterministicActions && params.deterministicActions.length > 0
@@ -723,9 +794,7 @@ Original user request:
 ${params.userPrompt}
 ${previousCodeSection}
 Previous failed attempt (${params.attempt}/${params.maxAttempts}):
-\`\`\`tsx
-${params.attemptedCode}
-\`\`\`
+${attemptedCodeSection}
 
 Validation/compile diagnostics:
 ${formatDiagnosticsForPrompt(params.diagnostics, 8)}
@@ -742,7 +811,11 @@ ${tscircuitReferenceSection}
 ${strategySection}
 
 Requirements:
-1. Return a complete, self-contained tscircuit file in a single \`\`\`tsx block.
+1. ${
+    isMultiFile
+      ? "Return every file you change as a complete file in its own named ```tsx <file> block; unchanged files are kept."
+      : "Return a complete, self-contained tscircuit file in a single ```tsx block."
+  }
 2. Preserve the user's requested functionality.
 3. Fix the reported issues without adding unsafe changes.
 4. Never emit <trace> entries whose endpoints are unresolved or syntactically invalid.
@@ -1134,6 +1207,7 @@ function buildPostValidationSummary(summary: {
   actionableWarningCount: number;
   lowSignalWarningCount: number;
   manufacturingReadinessScore: number;
+  powerBudget?: PowerBudget;
 }, autoFixedCount: number): string {
   const lines: string[] = [];
   if (summary.blockingDiagnosticsCount === 0) {
@@ -1158,7 +1232,10 @@ function buildPostValidationSummary(summary: {
   if (summary.blockingDiagnosticsCount === 0) {
     lines.push("\nYou can export this design, or ask me to refine specific aspects.");
   }
-  return "\n\n---\n" + lines.join(" ");
+  const budget = summary.powerBudget?.rails.length
+    ? `\n\n**Power budget**\n\n${formatPowerBudgetTable(summary.powerBudget)}`
+    : "";
+  return "\n\n---\n" + lines.join(" ") + budget;
 }
 
 function diagnosticsKey(entry: ValidationDiagnostic): string {
@@ -1267,6 +1344,16 @@ function dominantBlockingFamily(diagnostics: ValidationDiagnostic[]): string | n
   return inferDiagnosticFamily(blocking[0]);
 }
 
+/** Families the router can fail on by itself, so a different router may clear them without layout changes. */
+function isRoutingFailureFamily(family: string | null): boolean {
+  return (
+    family === "pcb_trace_error" ||
+    family === "pcb_via_clearance_error" ||
+    family === "pcb_autorouter_exhaustion" ||
+    family === "pcb_autorouting_error"
+  );
+}
+
 function resolveStructuralStrategy(
   family: string | null,
 ): Exclude<RepairStrategy, "normal"> | null {
@@ -1323,7 +1410,7 @@ function formatGroupedDiagnostics(diagnostics: ValidationDiagnostic[], limit = 8
 }
 
 interface SpeculativeCompileHandle {
-  code: string;
+  files: ProjectFiles;
   promise: Promise<Awaited<ReturnType<typeof compileAndValidateWithKicad>>>;
 }
 
@@ -1342,6 +1429,15 @@ async function runAgentAttempt(params: {
   attempt?: number;
   enableSpeculativeCompile?: boolean;
   enableConnectivityPreflight?: boolean;
+  sessionId?: string;
+  /** Project the response's files are merged onto, so a partial repair still compiles as a whole. */
+  baseFiles?: ProjectFiles | null;
+  routing?: RoutingOptions;
+  drcRules?: DrcRuleOverrides;
+  netClasses?: NetClassSettings;
+  requirements?: RequirementItem[];
+  powerBudget?: PowerBudgetInput;
+  ruleDeck?: RuleDeck;
 }) {
   let fullText = "";
   let totalCostUsd = 0;
@@ -1465,13 +1561,22 @@ async function runAgentAttempt(params: {
             fullText += delta.text;
 
             if (params.enableSpeculativeCompile && !speculativeCompile) {
-              const code = extractCodeFromText(fullText);
-              if (code && code.length > 50 && hasCompleteTsxFence(fullText)) {
+              const extracted = extractFilesFromText(fullText);
+              const files = extracted ? mergeProjectFiles(params.baseFiles, extracted) : null;
+              const code = files?.[MAIN_FILE];
+              if (files && code && code.length > 50 && hasCompleteTsxFence(fullText)) {
                 const compileSignal = createCompileValidateSignal(params.signal);
                 speculativeCompile = {
-                  code,
-                  promise: compileAndValidateWithKicad(code, compileSignal, {
+                  files,
+                  promise: compileAndValidateWithKicad(files, compileSignal, {
                     enableConnectivityPreflight: params.enableConnectivityPreflight,
+                    sessionId: params.sessionId,
+                    routing: params.routing,
+                    drcRules: params.drcRules,
+                    netClasses: params.netClasses,
+                    requirements: params.requirements,
+                    powerBudget: params.powerBudget,
+                    ruleDeck: params.ruleDeck,
                   }),
                 };
               }
@@ -1519,6 +1624,47 @@ export async function POST(req: Request) {
     );
   }
 
+  let requestRouting: RoutingOptions = {};
+  if (body.routing !== undefined) {
+    const { options, errors } = validateRoutingOptions(body.routing);
+    if (!options) {
+      return new Response(
+        JSON.stringify({ error: "Invalid routing options", details: errors.join("; ") }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+    requestRouting = options;
+  }
+  const drcRules = parseDrcRuleOverrides(body.drcRules);
+  if (drcRules.errors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: "Invalid drcRules", details: drcRules.errors.join("; ") }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  const netClassInput = parseNetClassInput(body.netClasses);
+  if (netClassInput.errors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: "Invalid netClasses", details: netClassInput.errors.join("; ") }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  const powerBudgetInput = parsePowerBudgetInput(body.powerBudget);
+  if (powerBudgetInput.errors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: "Invalid powerBudget", details: powerBudgetInput.errors.join("; ") }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  const ruleDeck = parseRuleDeck(body.ruleDeck);
+  if (ruleDeck.errors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: "Invalid ruleDeck", details: ruleDeck.errors.join("; ") }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  const previousFiles = resolvePreviousFiles(body);
   const { id: sessionId, context: sessionContext } = await getOrCreateSession(
     body.projectId,
     body.sessionId
@@ -1654,6 +1800,11 @@ export async function POST(req: Request) {
           emit({ type: "requirements_item", item: requirement });
         }
       }
+      // Requirements such as "2A motor supply" or "runs from USB" set trace widths and rail voltages;
+      // later phases may not have collected any yet.
+      const designRequirements =
+        sessionContext.requirements.length > 0 ? sessionContext.requirements : requirementItemsFromPrompt(body.prompt);
+      const netClasses = resolveNetClassSettings(netClassInput.input, designRequirements);
 
       const shouldEmitArchitecture =
         selectedPhase === "requirements" ||
@@ -1718,7 +1869,7 @@ export async function POST(req: Request) {
           });
 
           let baseSchema: string | null = sessionContext.lastKicadSchema ?? null;
-          if (!baseSchema && body.previousCode) {
+          if (!baseSchema && previousFiles) {
             emit({
               type: "phase_progress",
               phase: selectedPhase,
@@ -1730,15 +1881,28 @@ export async function POST(req: Request) {
               "baseline_compile_validate",
               () =>
                 compileAndValidateWithKicad(
-                  body.previousCode!,
+                  previousFiles,
                   createCompileValidateSignal(requestSignal),
-                  { enableConnectivityPreflight: repairConfig.enableConnectivityPreflight },
+                  {
+                    enableConnectivityPreflight: repairConfig.enableConnectivityPreflight,
+                    sessionId,
+                    routing: requestRouting,
+                    drcRules: drcRules.overrides,
+                    netClasses,
+                    requirements: designRequirements,
+                    powerBudget: powerBudgetInput.input,
+                    ruleDeck: ruleDeck.deck,
+                  },
                 ),
             );
+            if (baselineValidation.powerTree) {
+              emit({ type: "power_tree", tree: baselineValidation.powerTree });
+            }
             if (baselineValidation.kicadResult?.kicadSchema) {
               baseSchema = baselineValidation.kicadResult.kicadSchema;
               sessionContext.lastKicadSchema = baseSchema;
-              sessionContext.lastGeneratedCode = body.previousCode;
+              sessionContext.lastGeneratedCode = previousFiles[MAIN_FILE];
+              sessionContext.lastGeneratedFiles = previousFiles;
               const baselineFindings = emitReviewFindingsFromDiagnostics({
                 phase: selectedPhase,
                 diagnostics: limitDiagnosticsForReviewFindings(
@@ -1801,10 +1965,11 @@ export async function POST(req: Request) {
       let promptForAttempt = buildOrchestratorPrompt({
         userPrompt: surgicalEditSummary ? promptForUser : body.prompt,
         phase: selectedPhase,
-        previousCode: body.previousCode,
+        previousFiles,
         requirements: sessionContext.requirements,
         architecture: sessionContext.architecture,
         reviewFindings: openFindings,
+        netClasses,
       });
       const scopedAgents = resolvePhaseSubagents(selectedPhase, openFindings);
       const allowedTools = resolveAllowedToolsForPhase(selectedPhase, openFindings);
@@ -1831,7 +1996,13 @@ export async function POST(req: Request) {
         let lastRetryStopReason: string | null = null;
         let totalCostUsd = 0;
         let attemptsUsed = 0;
-        const diffBaselineCode = sessionContext.lastGeneratedCode ?? body.previousCode ?? null;
+        const baselineFiles: ProjectFiles | null =
+          sessionContext.lastGeneratedFiles ??
+          (sessionContext.lastGeneratedCode ? { [MAIN_FILE]: sessionContext.lastGeneratedCode } : null) ??
+          previousFiles;
+        const diffBaselineCode = baselineFiles ? joinProjectSources(baselineFiles) : null;
+        // Each response is merged onto the latest project, so a repair may resend only the module it fixed.
+        let attemptBaseFiles = baselineFiles;
         let nextAttemptStrategy: RepairStrategy = "normal";
         let structuralRepairAttemptsUsed = 0;
         let minorReliefPassCount = 0;
@@ -1840,14 +2011,22 @@ export async function POST(req: Request) {
         let noBlockingReductionStreak = 0;
         let autorouterExhaustionStreak = 0;
         let previousTopFamily: string | null = null;
+        // Router settings for validation compiles; an alternate_router_settings attempt swaps them
+        // and keeps the swap only if it clears blocking diagnostics.
+        let attemptRouting = requestRouting;
+        let routingBeforeReroute: RoutingOptions | null = null;
+        let blockingBeforeReroute = 0;
+        const triedAutorouters: RoutingAutorouter[] = [];
 
         let bestAttempt:
           | {
               text: string;
-              code: string;
+              files: ProjectFiles;
+              routing: RoutingOptions;
               score: number;
               blockingCount: number;
               diagnostics: ValidationDiagnostic[];
+              powerBudget?: PowerBudget | null;
             }
           | null = null;
 
@@ -1885,7 +2064,8 @@ export async function POST(req: Request) {
           });
           bestAttempt = {
             text: phaseAttempt.fullText,
-            code: extractCodeFromText(phaseAttempt.fullText) || "",
+            files: mergeProjectFiles(baselineFiles, extractFilesFromText(phaseAttempt.fullText) ?? {}),
+            routing: attemptRouting,
             score: 0,
             blockingCount: 0,
             diagnostics: [],
@@ -1897,6 +2077,9 @@ export async function POST(req: Request) {
             const attemptSignal = requestSignal;
             const attemptStrategy = nextAttemptStrategy;
             nextAttemptStrategy = "normal";
+            // A re-route recompiles the previous candidate as-is; only the router settings change.
+            const rerouteOnly = attemptStrategy === "alternate_router_settings" && attemptBaseFiles !== null;
+            const compiledRouting = attemptRouting;
             emit({ type: "retry_start", attempt, maxAttempts: repairConfig.maxRepairAttempts });
             emit({
               type: "phase_progress",
@@ -1906,8 +2089,16 @@ export async function POST(req: Request) {
             });
 
             let agentAttempt: Awaited<ReturnType<typeof runAgentAttempt>> | null = null;
+            if (rerouteOnly) {
+              emit({
+                type: "phase_progress",
+                phase: selectedPhase,
+                progress: Math.min(78, 24 + attempt * 10),
+                message: `Attempt ${attempt}: re-routing previous candidate with the ${attemptRouting.autorouter} autorouter`,
+              });
+            }
             try {
-              agentAttempt = await withPhasePulse({
+              agentAttempt = rerouteOnly ? null : await withPhasePulse({
                 phase: selectedPhase,
                 progress: Math.min(78, 24 + attempt * 10),
                 startMessage: `Attempt ${attempt}: generating repair candidate`,
@@ -1926,6 +2117,14 @@ export async function POST(req: Request) {
                         scopedAgents,
                         enableSpeculativeCompile: true,
                         enableConnectivityPreflight: repairConfig.enableConnectivityPreflight,
+                        sessionId,
+                        baseFiles: attemptBaseFiles,
+                        routing: attemptRouting,
+                        drcRules: drcRules.overrides,
+                        netClasses,
+                        requirements: designRequirements,
+                        powerBudget: powerBudgetInput.input,
+                        ruleDeck: ruleDeck.deck,
                         signal: attemptSignal,
                         attempt,
                       }),
@@ -1950,22 +2149,30 @@ export async function POST(req: Request) {
               lastAttemptText = agentAttempt.fullText;
             }
 
-            const rawExtractedCode = agentAttempt
-              ? extractCodeFromText(agentAttempt.fullText)
+            const attemptText = agentAttempt?.fullText ?? (rerouteOnly ? lastAttemptText : null);
+            const rawExtractedFiles = rerouteOnly
+              ? attemptBaseFiles
+              : agentAttempt
+                ? extractFilesFromText(agentAttempt.fullText)
+                : null;
+            const rawProjectFiles = rawExtractedFiles
+              ? mergeProjectFiles(attemptBaseFiles, rawExtractedFiles)
               : null;
-            const sourceGuardrailResult = rawExtractedCode
-              ? applySourceCodeGuardrails(rawExtractedCode)
+            const sourceGuardrailResult = rawProjectFiles?.[MAIN_FILE]
+              ? applyProjectGuardrails(rawProjectFiles)
               : null;
-            let extractedCode = sourceGuardrailResult?.code ?? rawExtractedCode;
+            let extractedFiles = sourceGuardrailResult?.files ?? null;
             let compileFailed = false;
             let diagnostics: ValidationDiagnostic[] = [];
+            let powerBudget: PowerBudget | null = null;
             let blockingDiagnostics: ValidationDiagnostic[] = [];
             let advisoryDiagnostics: ValidationDiagnostic[] = [];
             let focusedDiagnostics: ValidationDiagnostic[] = [];
             const strategyActionMarkers: string[] = [];
-            const timedOutWithoutResult = !agentAttempt;
+            const timedOutWithoutResult = !agentAttempt && !rerouteOnly;
+            if (rerouteOnly) strategyActionMarkers.push(`autorouter:${attemptRouting.autorouter}`);
 
-            if (!extractedCode) {
+            if (!extractedFiles) {
               compileFailed = true;
               diagnostics = [
                 {
@@ -1983,10 +2190,11 @@ export async function POST(req: Request) {
               advisoryDiagnostics = prioritized.advisory;
               focusedDiagnostics = prioritized.focused;
             } else {
+              const boardFile = findBoardFile(extractedFiles);
               if (repairConfig.enableStructuralRepairMode && attemptStrategy !== "normal") {
                 if (attemptStrategy === "structural_trace_rebuild") {
-                  const rebuilt = applyStructuralTraceRebuild(extractedCode);
-                  extractedCode = rebuilt.code;
+                  const rebuilt = applyStructuralTraceRebuild(extractedFiles[boardFile]);
+                  extractedFiles = { ...extractedFiles, [boardFile]: rebuilt.code };
                   strategyActionMarkers.push(...rebuilt.actions);
                   if (rebuilt.diagnostics.length > 0) {
                     diagnostics = rebuilt.diagnostics;
@@ -2002,14 +2210,14 @@ export async function POST(req: Request) {
                     1 + (repairConfig.minorBoardGrowthCapPct / 100) * stagedRatio;
                   const stagedShiftMm =
                     repairConfig.minorComponentShiftMm * stagedRatio;
-                  const baselineForRelief = minorReliefBaselineCode ?? extractedCode;
+                  const baselineForRelief = minorReliefBaselineCode ?? extractedFiles[boardFile];
                   const relieved = applyTargetedCongestionRelief(baselineForRelief, {
                     boardScale: stagedBoardScale,
                     maxBoardGrowthPct: repairConfig.minorBoardGrowthCapPct,
                     componentShiftMm: stagedShiftMm,
                     componentShiftCapMm: repairConfig.minorComponentShiftMm,
                   });
-                  extractedCode = relieved.code;
+                  extractedFiles = { ...extractedFiles, [boardFile]: relieved.code };
                   strategyActionMarkers.push(...relieved.actions);
                   emit({
                     type: "phase_progress",
@@ -2018,22 +2226,26 @@ export async function POST(req: Request) {
                     message: `Applying constrained congestion relief (minor pass ${reliefPass}/${repairConfig.minorReliefPasses})`,
                   });
                 } else if (attemptStrategy === "structural_layout_spread") {
-                  const spread = applyStructuralLayoutSpread(extractedCode);
-                  extractedCode = spread.code;
+                  const spread = applyStructuralLayoutSpread(extractedFiles[boardFile]);
+                  extractedFiles = { ...extractedFiles, [boardFile]: spread.code };
                   strategyActionMarkers.push(...spread.actions);
                 }
               }
 
-              emit({ type: "code", file: "main.tsx", content: extractedCode });
+              const attemptFiles = extractedFiles;
+              attemptBaseFiles = attemptFiles;
+              for (const file of sortProjectFileNames(attemptFiles)) {
+                emit({ type: "code", file, content: attemptFiles[file] });
+              }
               emit({
                 type: "iteration_diff",
                 attempt,
-                diff: createIterationDiff(diffBaselineCode, extractedCode),
+                diff: createIterationDiff(diffBaselineCode, joinProjectSources(attemptFiles)),
               });
               const canReuseSpeculative =
                 agentAttempt &&
                 agentAttempt.speculativeCompile &&
-                agentAttempt.speculativeCompile.code === extractedCode &&
+                projectFilesEqual(agentAttempt.speculativeCompile.files, attemptFiles) &&
                 repairConfig.enableConnectivityPreflight;
               if (diagnostics.length === 0) {
                 try {
@@ -2054,12 +2266,23 @@ export async function POST(req: Request) {
                         : timed(
                             "compile_validate",
                             () =>
-                              compileAndValidateWithKicad(extractedCode, validationSignal, {
+                              compileAndValidateWithKicad(attemptFiles, validationSignal, {
                                 enableConnectivityPreflight: repairConfig.enableConnectivityPreflight,
+                                sessionId,
+                                routing: attemptRouting,
+                                drcRules: drcRules.overrides,
+                                netClasses,
+                                requirements: designRequirements,
+                                powerBudget: powerBudgetInput.input,
+                                ruleDeck: ruleDeck.deck,
                               }),
                             attempt,
                           ),
                   });
+                  if (validation.powerTree) {
+                    emit({ type: "power_tree", tree: validation.powerTree });
+                  }
+                  powerBudget = validation.powerBudget ?? null;
                   const prioritized = prioritizeDiagnosticsForRetry(validation.allDiagnostics);
                   diagnostics = prioritized.deduped;
                   blockingDiagnostics = prioritized.blocking;
@@ -2067,7 +2290,8 @@ export async function POST(req: Request) {
                   focusedDiagnostics = prioritized.focused;
                   if (validation.kicadResult?.kicadSchema) {
                     sessionContext.lastKicadSchema = validation.kicadResult.kicadSchema;
-                    sessionContext.lastGeneratedCode = extractedCode;
+                    sessionContext.lastGeneratedCode = attemptFiles[MAIN_FILE];
+                    sessionContext.lastGeneratedFiles = attemptFiles;
                   }
                 } catch (error) {
                   if (isAbortLikeError(error) && !attemptSignal?.aborted) {
@@ -2106,6 +2330,10 @@ export async function POST(req: Request) {
             advisoryDiagnostics = postDeterministic.advisory;
             focusedDiagnostics = postDeterministic.focused;
             const blockingAfterDeterministic = blockingDiagnostics.length;
+            if (attemptStrategy === "alternate_router_settings" && routingBeforeReroute) {
+              if (blockingAfterDeterministic >= blockingBeforeReroute) attemptRouting = routingBeforeReroute;
+              routingBeforeReroute = null;
+            }
 
             emit({
               type: "repair_plan",
@@ -2168,22 +2396,24 @@ export async function POST(req: Request) {
             const score = computeDiagnosticsScore(focusedDiagnostics, compileFailed);
             const signature = createDiagnosticsSetSignature(focusedDiagnostics);
             const isGatePass =
-              !compileFailed && blockingDiagnostics.length === 0 && Boolean(extractedCode);
+              !compileFailed && blockingDiagnostics.length === 0 && Boolean(extractedFiles);
 
             if (
-              agentAttempt &&
-              extractedCode &&
+              attemptText !== null &&
+              extractedFiles &&
               (!bestAttempt ||
                 blockingDiagnostics.length < bestAttempt.blockingCount ||
                 (blockingDiagnostics.length === bestAttempt.blockingCount &&
                   score < bestAttempt.score))
             ) {
               bestAttempt = {
-                text: agentAttempt.fullText,
-                code: extractedCode,
+                text: attemptText,
+                files: extractedFiles,
+                routing: compiledRouting,
                 score,
                 blockingCount: blockingDiagnostics.length,
                 diagnostics,
+                powerBudget,
               };
             }
 
@@ -2287,9 +2517,17 @@ export async function POST(req: Request) {
             const selectedStructuralStrategy = structuralTriggered
               ? resolveStructuralStrategy(topFamily)
               : null;
+            const routerAlternative =
+              structuralTriggered &&
+              isRoutingFailureFamily(topFamily) &&
+              triedAutorouters.length < repairConfig.maxRouterRetries
+                ? nextAlternateRouting(attemptRouting, triedAutorouters)
+                : null;
             let plannedNextStrategy: RepairStrategy | null = null;
             let escalatingFromMinorRelief = false;
-            if (selectedStructuralStrategy === "targeted_congestion_relief") {
+            if (routerAlternative) {
+              plannedNextStrategy = "alternate_router_settings";
+            } else if (selectedStructuralStrategy === "targeted_congestion_relief") {
               if (minorReliefPassCount < repairConfig.minorReliefPasses) {
                 plannedNextStrategy = "targeted_congestion_relief";
               } else {
@@ -2321,11 +2559,23 @@ export async function POST(req: Request) {
               structuralRepairExhausted;
 
             if (!shouldStop && plannedNextStrategy) {
-              if (plannedNextStrategy === "targeted_congestion_relief") {
+              if (plannedNextStrategy === "alternate_router_settings" && routerAlternative?.autorouter) {
+                triedAutorouters.push(routerAlternative.autorouter);
+                routingBeforeReroute = attemptRouting;
+                blockingBeforeReroute = blockingAfterDeterministic;
+                attemptRouting = routerAlternative;
+                nextAttemptStrategy = plannedNextStrategy;
+                emit({
+                  type: "phase_progress",
+                  phase: selectedPhase,
+                  progress: Math.min(89, 34 + attempt * 12),
+                  message: `Retrying routing with the ${routerAlternative.autorouter} autorouter before changing the layout`,
+                });
+              } else if (plannedNextStrategy === "targeted_congestion_relief") {
                 const nextMinorPass = minorReliefPassCount + 1;
                 minorReliefPassCount = nextMinorPass;
-                if (!minorReliefBaselineCode && extractedCode) {
-                  minorReliefBaselineCode = extractedCode;
+                if (!minorReliefBaselineCode && extractedFiles) {
+                  minorReliefBaselineCode = extractedFiles[findBoardFile(extractedFiles)];
                 }
                 nextAttemptStrategy = plannedNextStrategy;
                 emit({
@@ -2381,6 +2631,8 @@ export async function POST(req: Request) {
             });
 
             if (shouldStop) break;
+            // The re-route attempt skips generation, so there is no prompt to rebuild yet.
+            if (nextAttemptStrategy === "alternate_router_settings") continue;
             if (adaptiveGuardrails === null) {
               adaptiveGuardrails = await timed(
                 "adaptive_guardrails_fetch",
@@ -2391,10 +2643,8 @@ export async function POST(req: Request) {
 
             promptForAttempt = buildRetryPrompt({
               userPrompt: promptForUser,
-              previousCode: body.previousCode,
-              attemptedCode:
-                extractedCode ??
-                "// No code block was returned. You must return a full `tsx` file in a single fenced code block.",
+              previousFiles,
+              attemptedFiles: extractedFiles,
               diagnostics: focusedDiagnostics,
               attempt,
               maxAttempts: repairConfig.maxRepairAttempts,
@@ -2451,9 +2701,7 @@ export async function POST(req: Request) {
           ? bestAttemptBlocking.length > 0
             ? [
                 "Generated a candidate circuit, but validation is still blocked.",
-                "```tsx",
-                bestAttempt.code,
-                "```",
+                formatProjectFilesForPrompt(bestAttempt.files),
                 "Top unresolved blocking diagnostics:",
                 formatGroupedDiagnostics(bestAttemptBlocking, 8),
                 stopReasonLine,
@@ -2497,6 +2745,8 @@ export async function POST(req: Request) {
           openCriticalFindings,
           attemptsUsed,
           phase: selectedPhase,
+          routing: bestAttempt?.routing ?? attemptRouting,
+          ...(bestAttempt?.powerBudget ? { powerBudget: bestAttempt.powerBudget } : {}),
         };
 
         emit({
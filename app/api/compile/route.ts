@@ -1,10 +1,12 @@
-import { compileWithFallback } from "@/lib/compile/local";
+import { compileWithFallback, getCompileCacheStats, getCompilePoolStats } from "@/lib/compile/local";
+import { validateRoutingOptions, type RoutingOptions } from "@/lib/compile/routing";
 
 export const runtime = "nodejs";
 export const maxDuration = 300;
 
 type CompileBody = {
   fs_map?: Record<string, string>;
+  routing?: RoutingOptions;
 };
 
 function isRecordOfStrings(v: unknown): v is Record<string, string> {
@@ -15,6 +17,14 @@ function isRecordOfStrings(v: unknown): v is Record<string, string> {
   return true;
 }
 
+/** Compile cache and worker pool counters for this server process. */
+export async function GET() {
+  return new Response(JSON.stringify({ cache: getCompileCacheStats(), pool: getCompilePoolStats() }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export async function POST(req: Request) {
   let body: CompileBody;
   try {
@@ -37,7 +47,15 @@ export async function POST(req: Request) {
     );
   }
 
-  const result = await compileWithFallback(fsMap);
+  const routing = body.routing === undefined ? { options: {}, errors: [] } : validateRoutingOptions(body.routing);
+  if (!routing.options) {
+    return new Response(
+      JSON.stringify({ ok: false, error: "Invalid 'routing'", details: routing.errors.join("; ") }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
+  const result = await compileWithFallback(fsMap, undefined, { routing: routing.options });
 
   if (result.ok && result.circuitJson !== null) {
     return new Response(
@@ -0,0 +1,109 @@
+import {
+  convertSoupToGerberCommands,
+  stringifyGerberCommandLayers,
+  convertSoupToExcellonDrillCommands,
+  stringifyExcellonDrill,
+} from "circuit-json-to-gerber";
+import { annotateGerberLayers } from "@/lib/manufacturing/gerberJob";
+import { readBoardGeometry } from "@/lib/manufacturing/circuitJson";
+import { getFabPreset, resolveGerberFileName } from "@/lib/manufacturing/fabPresets";
+import { resolveExportStackup } from "@/lib/manufacturing/stackup";
+import { panelizeCircuitJson } from "@/lib/manufacturing/panelize";
+import { buildGerberPreview, countExpectedDrills } from "@/lib/manufacturing/gerberPreview";
+import {
+  jsonErrorResponse,
+  readExportSourceRequest,
+  resolveExportCircuitJson,
+  type ExportSourceRequestBody,
+} from "@/lib/manufacturing/exportRequest";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+
+export const runtime = "nodejs";
+
+function stringifyDrillOrNull(circuitJson: unknown[], isPlated: boolean): string | null {
+  try {
+    const drill = convertSoupToExcellonDrillCommands({
+      circuitJson: circuitJson as never,
+      is_plated: isPlated,
+    });
+    return stringifyExcellonDrill(drill as never);
+  } catch {
+    return null;
+  }
+}
+
+/** Same input as `/api/export`; fields that only affect other outputs are ignored. */
+export async function POST(req: Request) {
+  const request = await readExportSourceRequest<ExportSourceRequestBody>(req);
+  if (request instanceof Response) return request;
+  const { body } = request;
+
+  let soup = await resolveExportCircuitJson(request, req.signal);
+  if (soup instanceof Response) return soup;
+
+  try {
+    const stackup = resolveExportStackup(body.stackup, readBoardGeometry(soup));
+    const fabPreset = body.fabPreset ? getFabPreset(body.fabPreset) : null;
+    const warnings: ValidationDiagnostic[] = [];
+    if (body.panel) {
+      const panel = panelizeCircuitJson(soup, body.panel);
+      soup = panel.circuitJson;
+      warnings.push(...panel.warnings);
+    }
+
+    const layers = annotateGerberLayers(
+      stringifyGerberCommandLayers(convertSoupToGerberCommands(soup as never) as never) as Record<string, string>,
+      stackup,
+    );
+    const layerFileNames = Object.fromEntries(
+      Object.keys(layers).map((name) => [name, resolveGerberFileName(fabPreset, name)]),
+    );
+    const platedDrill = stringifyDrillOrNull(soup, true);
+    const unplatedDrill = stringifyDrillOrNull(soup, false);
+    const preview = buildGerberPreview({
+      layers,
+      layerFileNames,
+      drills: [
+        { fileName: fabPreset?.drillFileNames.plated ?? "plated.drl", content: platedDrill, plated: true },
+        { fileName: fabPreset?.drillFileNames.unplated ?? "unplated.drl", content: unplatedDrill, plated: false },
+      ],
+      layerCount: stackup.layerCount,
+    });
+
+    const expected = countExpectedDrills(soup);
+    const drillHits = (id: string) => preview.layers.find((layer) => layer.id === id)?.featureCount ?? 0;
+    if (expected.plated + expected.unplated > 0 && drillHits("drill_plated") + drillHits("drill_unplated") === 0) {
+      warnings.push({
+        category: "preview_missing_drill_layer",
+        message: `Circuit has ${expected.plated} plated and ${expected.unplated} non-plated hole(s) but the drill output is empty`,
+        signature: "preview|preview_missing_drill_layer",
+        severity: 8,
+        family: "preview_missing_drill_layer",
+      });
+    }
+    for (const layer of preview.layers) {
+      if (layer.kind === "outline" && layer.featureCount === 0) {
+        warnings.push({
+          category: "preview_empty_outline",
+          message: `${layer.fileName} has no board outline`,
+          signature: `preview|preview_empty_outline|${layer.id}`,
+          severity: 6,
+          family: "preview_empty_outline",
+        });
+      }
+    }
+    if (preview.unsupported.length > 0) {
+      warnings.push({
+        category: "preview_unsupported_gerber",
+        message: `Preview skipped unsupported Gerber features: ${preview.unsupported.join(", ")}`,
+        signature: "preview|preview_unsupported_gerber",
+        severity: 3,
+        family: "preview_unsupported_gerber",
+      });
+    }
+
+    return Response.json({ bounds: preview.bounds, layers: preview.layers, warnings });
+  } catch (error) {
+    return jsonErrorResponse(500, "Preview failed", error instanceof Error ? error.message : String(error));
+  }
+}
@@ -5,9 +5,80 @@ import {
   stringifyExcellonDrill,
 } from "circuit-json-to-gerber";
 import { convertCircuitJsonToBomRows, convertBomRowsToCsv } from "circuit-json-to-bom-csv";
-import { convertCircuitJsonToPickAndPlaceCsv } from "circuit-json-to-pnp-csv";
-import { assessKicadFindings } from "@/lib/kicad/review";
-import { compileForValidation } from "@/lib/agent/repairLoop";
+import { convertCircuitJsonToPickAndPlaceRows } from "circuit-json-to-pnp-csv";
+import { assessKicadFindings, summarizeConnectivity } from "@/lib/kicad/review";
+import {
+  convertTscircuitCircuitJsonToKicadPcb,
+  convertTscircuitCircuitJsonToKicadSchema,
+  resolveKicadProjectNames,
+} from "@/lib/kicad/convert";
+import { convertCircuitJsonToIpc2581 } from "@/lib/manufacturing/ipc2581";
+import { convertCircuitJsonToIpcD356, crossCheckIpcD356Nets } from "@/lib/manufacturing/ipcD356";
+import { annotateGerberLayers, buildGerberJobFile } from "@/lib/manufacturing/gerberJob";
+import { buildCircuitJsonModel, readBoardGeometry } from "@/lib/manufacturing/circuitJson";
+import {
+  buildFabBomLines,
+  buildFabCplLines,
+  collectFabPresetWarnings,
+  getFabPreset,
+  renderFabCsv,
+  resolveGerberFileName,
+} from "@/lib/manufacturing/fabPresets";
+import { resolveExportStackup } from "@/lib/manufacturing/stackup";
+import {
+  applyRotationCorrections,
+  builtInRotationCorrectionsFor,
+  parseRotationCorrections,
+  renderPickAndPlaceCsv,
+  type RotationCorrection,
+} from "@/lib/manufacturing/rotationCorrections";
+import { getProjectRotationCorrections } from "@/lib/manufacturing/rotationCorrectionStore";
+import { buildVScoreGerber, panelizeCircuitJson, panelizePickAndPlaceRows } from "@/lib/manufacturing/panelize";
+import {
+  isBlockingDfmFinding,
+  parseFabCapabilityOverrides,
+  resolveFabCapabilityProfile,
+  runDfmChecks,
+  type FabCapabilityOverrides,
+} from "@/lib/manufacturing/dfm";
+import {
+  buildAssemblyDrawing,
+  buildFabricationDrawing,
+  renderDrawingSvg,
+  type DrawingSheet,
+} from "@/lib/manufacturing/drawings";
+import { renderDrawingPdf } from "@/lib/manufacturing/drawingPdf";
+import {
+  MANIFEST_FILE_NAME,
+  buildExportManifest,
+  sanitizeReadinessSnapshot,
+  summarizeDfmFindings,
+  type ReadinessSnapshotInput,
+} from "@/lib/manufacturing/manifest";
+import {
+  buildDesignSnapshot,
+  createRevisionDiff,
+  loadPreviousExport,
+  renderRevisionDiffMarkdown,
+  type PreviousExportInput,
+} from "@/lib/manufacturing/revisionDiff";
+import {
+  jsonErrorResponse,
+  readExportSourceRequest,
+  resolveExportCircuitJson,
+  type ExportSourceRequestBody,
+} from "@/lib/manufacturing/exportRequest";
+import { MAIN_FILE } from "@/lib/agent/code";
+import { resolveRoutingOptions } from "@/lib/compile/routing";
+import { buildSpiceNetlist, parseSpiceOptions, type SpiceOptionsInput } from "@/lib/spice/netlist";
+import { analyzePowerTree } from "@/lib/electrical/powerTree";
+import {
+  computePowerBudget,
+  formatPowerBudgetTable,
+  parsePowerBudgetInput,
+  type PowerBudgetInput,
+} from "@/lib/electrical/powerBudget";
+import { applyRuleDeck, parseRuleDeck, type RuleDeckInput } from "@/lib/rules/ruleDeck";
 import type { ValidationDiagnostic } from "@/lib/stream/types";
 import JSZip from "jszip";
 
@@ -15,59 +86,87 @@ export const runtime = "nodejs";
 
 interface ExportFormatSet {
   kicad?: boolean;
+  kicadPcb?: boolean;
+  ipc2581?: boolean;
   reviewBundle?: boolean;
+  drawings?: boolean;
+  drawingsPdf?: boolean;
+  spice?: boolean;
 }
 
-interface ExportRequestBody {
-  circuit_json?: unknown[];
-  tscircuit_code?: string;
+/** The shared circuit source and board options, plus the fields only the full export reads. */
+interface ExportRequestBody extends ExportSourceRequestBody {
   formatSet?: ExportFormatSet;
+  fabCapabilities?: FabCapabilityOverrides;
+  previousExport?: PreviousExportInput;
+  spice?: SpiceOptionsInput;
+  /** Current overrides and ambient for the review bundle's `power_budget.json`. */
+  powerBudget?: PowerBudgetInput;
+  /** Built-in deck name or a versioned JSON/YAML deck weighing DFM, KiCad and power findings. */
+  ruleDeck?: RuleDeckInput;
+  projectId?: string;
+  sessionId?: string;
+  rotationCorrections?: RotationCorrection[];
   readiness?: {
     criticalFindingsCount?: number;
     allowRiskyExport?: boolean;
     readinessScore?: number | null;
+    attempt?: number | null;
+    diagnostics?: ReadinessSnapshotInput;
   };
 }
 
-export async function POST(req: Request) {
-  let body: ExportRequestBody;
+function stringifyDrillOrNull(circuitJson: unknown[], isPlated: boolean): string | null {
   try {
-    body = (await req.json()) as ExportRequestBody;
-  } catch {
-    return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
-      status: 400,
-      headers: { "Content-Type": "application/json" },
+    const drill = convertSoupToExcellonDrillCommands({
+      circuitJson: circuitJson as never,
+      is_plated: isPlated,
     });
+    return stringifyExcellonDrill(drill as never);
+  } catch {
+    return null;
   }
+}
 
-  const hasCircuitJson = Array.isArray(body.circuit_json);
-  const hasTscircuitCode =
-    typeof body.tscircuit_code === "string" && body.tscircuit_code.trim().length > 0;
-  if (!hasCircuitJson && !hasTscircuitCode) {
-    return new Response(
-      JSON.stringify({
-        error: "Missing 'circuit_json' array or 'tscircuit_code' string in body",
-      }),
-      { status: 400, headers: { "Content-Type": "application/json" } }
-    );
+export async function POST(req: Request) {
+  const request = await readExportSourceRequest<ExportRequestBody>(req);
+  if (request instanceof Response) return request;
+  const { body, hasCircuitJson, tscircuitCode, projectFiles, routing } = request;
+
+  const fabCapabilities = parseFabCapabilityOverrides(body.fabCapabilities);
+  if (fabCapabilities.errors.length > 0) {
+    return jsonErrorResponse(400, "Invalid fabCapabilities", fabCapabilities.errors.join("; "));
   }
 
-  let soup: unknown[] = [];
-  if (hasCircuitJson) {
-    soup = body.circuit_json as unknown[];
-  } else {
-    const compile = await compileForValidation(body.tscircuit_code!.trim(), req.signal);
-    if (!compile.ok || !compile.circuitJson) {
-      return new Response(
-        JSON.stringify({
-          error: "Export compile failed",
-          details: compile.errorMessage ?? "compile failed",
-        }),
-        { status: 400, headers: { "Content-Type": "application/json" } },
-      );
-    }
-    soup = compile.circuitJson;
+  const requestCorrections = parseRotationCorrections(body.rotationCorrections);
+  if (requestCorrections.errors.length > 0) {
+    return jsonErrorResponse(400, "Invalid rotation corrections", requestCorrections.errors.join("; "));
+  }
+
+  const spiceOptions = parseSpiceOptions(body.spice);
+  if (spiceOptions.errors.length > 0) {
+    return jsonErrorResponse(400, "Invalid spice options", spiceOptions.errors.join("; "));
   }
+
+  const powerBudgetInput = parsePowerBudgetInput(body.powerBudget);
+  if (powerBudgetInput.errors.length > 0) {
+    return jsonErrorResponse(400, "Invalid powerBudget", powerBudgetInput.errors.join("; "));
+  }
+
+  const { deck: ruleDeck, errors: ruleDeckErrors } = parseRuleDeck(body.ruleDeck);
+  if (ruleDeckErrors.length > 0) {
+    return jsonErrorResponse(400, "Invalid ruleDeck", ruleDeckErrors.join("; "));
+  }
+
+  const previousExport =
+    body.previousExport === undefined ? null : await loadPreviousExport(body.previousExport);
+  if (previousExport && previousExport.errors.length > 0) {
+    return jsonErrorResponse(400, "Invalid previousExport", previousExport.errors.join("; "));
+  }
+
+  const soup = await resolveExportCircuitJson(request, req.signal, body.sessionId);
+  if (soup instanceof Response) return soup;
+
   const formatSet = body.formatSet ?? {};
   const criticalFindingsCount = Number.isFinite(body.readiness?.criticalFindingsCount)
     ? Math.max(0, Number(body.readiness?.criticalFindingsCount))
@@ -75,94 +174,242 @@ export async function POST(req: Request) {
   const allowRiskyExport = body.readiness?.allowRiskyExport === true;
 
   if (criticalFindingsCount > 0 && !allowRiskyExport) {
-    return new Response(
-      JSON.stringify({
-        error: "Export blocked by unresolved critical findings",
-        details:
-          "Resolve critical review findings first, or explicitly request a risky export override.",
-        criticalFindingsCount,
-      }),
-      { status: 409, headers: { "Content-Type": "application/json" } },
+    return jsonErrorResponse(
+      409,
+      "Export blocked by unresolved critical findings",
+      "Resolve critical review findings first, or explicitly request a risky export override.",
+      { criticalFindingsCount },
     );
   }
 
   try {
+    const dfmProfile = resolveFabCapabilityProfile(body.fabPreset, fabCapabilities.overrides);
+    // Weighed here because the deck decides what blocks; they skip the deck pass over the other warnings.
+    const dfmFindings = applyRuleDeck(runDfmChecks(soup, dfmProfile), ruleDeck);
+    const blockingDfmFindings = dfmFindings.filter((finding) => isBlockingDfmFinding(finding));
+    if (blockingDfmFindings.length > 0 && !allowRiskyExport) {
+      return jsonErrorResponse(
+        409,
+        "Export blocked by DFM violations",
+        `${blockingDfmFindings.length} feature(s) are outside ${dfmProfile.label} capabilities. Fix them, or explicitly request a risky export override.`,
+        { dfmFindings: blockingDfmFindings },
+      );
+    }
+
     const zip = new JSZip();
     const gerbers = zip.folder("gerbers")!;
+    const board = readBoardGeometry(soup);
+    const stackup = resolveExportStackup(body.stackup, board);
+    const fabPreset = body.fabPreset ? getFabPreset(body.fabPreset) : null;
 
     const layersPromise = Promise.resolve().then(() => {
       const gerberCommands = convertSoupToGerberCommands(soup as never);
       return stringifyGerberCommandLayers(gerberCommands as never);
     });
-    const platedDrillPromise = Promise.resolve().then(() => {
-      try {
-        const drill = convertSoupToExcellonDrillCommands({
-          circuitJson: soup as never,
-          is_plated: true,
-        });
-        return stringifyExcellonDrill(drill as never);
-      } catch {
-        return null;
-      }
-    });
-    const unplatedDrillPromise = Promise.resolve().then(() => {
+    const platedDrillPromise = Promise.resolve().then(() => stringifyDrillOrNull(soup, true));
+    const unplatedDrillPromise = Promise.resolve().then(() => stringifyDrillOrNull(soup, false));
+    const bomRowsPromise = convertCircuitJsonToBomRows({ circuitJson: soup as never }).catch(
+      () => null,
+    );
+    const projectCorrectionsPromise =
+      typeof body.projectId === "string" && body.projectId.trim()
+        ? getProjectRotationCorrections(body.projectId.trim()).catch(() => [])
+        : Promise.resolve([]);
+    const pnpRowsPromise = Promise.resolve().then(() => {
       try {
-        const drill = convertSoupToExcellonDrillCommands({
-          circuitJson: soup as never,
-          is_plated: false,
-        });
-        return stringifyExcellonDrill(drill as never);
+        return convertCircuitJsonToPickAndPlaceRows(soup as never);
       } catch {
         return null;
       }
     });
-    const bomPromise = convertCircuitJsonToBomRows({ circuitJson: soup as never })
-      .then((rows) => convertBomRowsToCsv(rows))
-      .catch(() => "# BOM generation failed\n");
-    const pnpPromise = Promise.resolve().then(() => {
-      try {
-        return convertCircuitJsonToPickAndPlaceCsv(soup as never);
-      } catch {
-        return "# PNP generation failed\n";
-      }
-    });
     const kicadPromise =
       formatSet.kicad || formatSet.reviewBundle
-        ? assessKicadFindings(soup).catch(() => null)
+        ? assessKicadFindings(soup, ruleDeck).catch(() => null)
+        : Promise.resolve(null);
+    const kicadNames = resolveKicadProjectNames();
+    const kicadPcbPromise = formatSet.kicadPcb
+      ? convertTscircuitCircuitJsonToKicadPcb(soup, kicadNames).catch(() => null)
+      : Promise.resolve(null);
+    // The KiCad project names its schematic, so a board-only export still converts one.
+    const kicadSchemaPromise =
+      formatSet.kicadPcb && !formatSet.kicad && !formatSet.reviewBundle
+        ? convertTscircuitCircuitJsonToKicadSchema(soup).catch(() => null)
         : Promise.resolve(null);
 
-    const [layers, platedDrill, unplatedDrill, bomCsv, pnpCsv, kicadResult] = await Promise.all([
+    const [
+      layers,
+      platedDrill,
+      unplatedDrill,
+      bomRows,
+      projectCorrections,
+      pnpRows,
+      kicadResult,
+      kicadPcbResult,
+      kicadSchemaResult,
+    ] = await Promise.all([
       layersPromise,
       platedDrillPromise,
       unplatedDrillPromise,
-      bomPromise,
-      pnpPromise,
+      bomRowsPromise,
+      projectCorrectionsPromise,
+      pnpRowsPromise,
       kicadPromise,
+      kicadPcbPromise,
+      kicadSchemaPromise,
     ]);
+    const convertedSchema = kicadResult?.kicadSchema ?? kicadSchemaResult?.kicadSchema;
+    const schemaText =
+      typeof convertedSchema === "string" && convertedSchema.trim()
+        ? convertedSchema
+        : "(kicad_sch\n  (version 20211014)\n  (generator CircuitForge)\n  (comment \"kicad conversion unavailable\")\n)";
 
-    for (const [name, content] of Object.entries(layers)) {
-      gerbers.file(`${name}.gbr`, content as string);
+    const exportWarnings: ValidationDiagnostic[] = [];
+    const annotatedLayers = annotateGerberLayers(layers as Record<string, string>, stackup);
+    const layerPaths: Record<string, string> = {};
+    for (const [name, content] of Object.entries(annotatedLayers)) {
+      layerPaths[name] = resolveGerberFileName(fabPreset, name);
+      gerbers.file(layerPaths[name], content);
     }
 
-    if (platedDrill) gerbers.file("plated.drl", platedDrill);
-    if (unplatedDrill) gerbers.file("unplated.drl", unplatedDrill);
+    const platedDrillPath = fabPreset?.drillFileNames.plated ?? "plated.drl";
+    const unplatedDrillPath = fabPreset?.drillFileNames.unplated ?? "unplated.drl";
+    if (platedDrill) gerbers.file(platedDrillPath, platedDrill);
+    if (unplatedDrill) gerbers.file(unplatedDrillPath, unplatedDrill);
+    gerbers.file(
+      "circuitforge.gbrjob",
+      buildGerberJobFile({
+        layerFiles: annotatedLayers,
+        layerPaths,
+        drillFiles: [
+          ...(platedDrill ? [{ path: platedDrillPath, plated: true }] : []),
+          ...(unplatedDrill ? [{ path: unplatedDrillPath, plated: false }] : []),
+        ],
+        stackup,
+        board,
+      }),
+    );
+
+    const model = buildCircuitJsonModel(soup);
+    try {
+      const ipcD356 = convertCircuitJsonToIpcD356(soup);
+      gerbers.file("netlist.ipc", ipcD356.netlist);
+      exportWarnings.push(
+        ...crossCheckIpcD356Nets(ipcD356.nets, kicadResult?.connectivity ?? summarizeConnectivity(soup)),
+      );
+    } catch (error) {
+      exportWarnings.push({
+        category: "ipc356_generation_failed",
+        message: `IPC-D-356 netlist generation failed: ${error instanceof Error ? error.message : String(error)}`,
+        signature: "ipc356|ipc356_generation_failed",
+        severity: 6,
+        family: "ipc356_generation_failed",
+      });
+    }
 
-    zip.file("bom.csv", bomCsv);
-    zip.file("pnp.csv", pnpCsv);
+    const fabBomLines = fabPreset && bomRows ? buildFabBomLines(bomRows, model) : [];
+    if (fabPreset?.bom && bomRows) {
+      zip.file(fabPreset.bom.fileName, renderFabCsv(fabPreset.bom.columns, fabBomLines));
+    } else {
+      zip.file("bom.csv", bomRows ? convertBomRowsToCsv(bomRows) : "# BOM generation failed\n");
+    }
+    const rotationTable = {
+      builtin: builtInRotationCorrectionsFor(body.fabPreset),
+      project: projectCorrections,
+      request: requestCorrections.corrections,
+    };
+    const correctedPnp = pnpRows ? applyRotationCorrections(pnpRows, model, rotationTable) : null;
+    if (fabPreset?.cpl && correctedPnp) {
+      zip.file(
+        fabPreset.cpl.fileName,
+        renderFabCsv(fabPreset.cpl.columns, buildFabCplLines(correctedPnp.rows, model)),
+      );
+    } else {
+      zip.file(
+        "pnp.csv",
+        correctedPnp ? renderPickAndPlaceCsv(correctedPnp.rows) : "# PNP generation failed\n",
+      );
+    }
+    if (fabPreset) {
+      exportWarnings.push(...collectFabPresetWarnings(fabPreset, fabBomLines, stackup));
+    }
+
+    if (body.panel) {
+      try {
+        const panel = panelizeCircuitJson(soup, body.panel);
+        const panelGerbers = zip.folder("panel/gerbers")!;
+        const panelLayers = annotateGerberLayers(
+          stringifyGerberCommandLayers(
+            convertSoupToGerberCommands(panel.circuitJson as never) as never,
+          ) as Record<string, string>,
+          stackup,
+        );
+        for (const [name, content] of Object.entries(panelLayers)) {
+          panelGerbers.file(resolveGerberFileName(fabPreset, name), content);
+        }
+        const panelPlatedDrill = stringifyDrillOrNull(panel.circuitJson, true);
+        const panelUnplatedDrill = stringifyDrillOrNull(panel.circuitJson, false);
+        if (panelPlatedDrill) panelGerbers.file(platedDrillPath, panelPlatedDrill);
+        if (panelUnplatedDrill) panelGerbers.file(unplatedDrillPath, panelUnplatedDrill);
+        if (panel.layout.vScoreLines.length > 0) {
+          panelGerbers.file("panel_vscore.gbr", buildVScoreGerber(panel.layout));
+        }
+        zip.file(
+          "panel/pnp.csv",
+          correctedPnp
+            ? renderPickAndPlaceCsv(panelizePickAndPlaceRows(correctedPnp.rows, panel.layout))
+            : "# PNP generation failed\n",
+        );
+        zip.file("panel/panel.json", JSON.stringify(panel.layout, null, 2));
+        exportWarnings.push(...panel.warnings);
+      } catch (error) {
+        exportWarnings.push({
+          category: "panel_generation_failed",
+          message: `Panelization failed: ${error instanceof Error ? error.message : String(error)}`,
+          signature: "panel|panel_generation_failed",
+          severity: 6,
+          family: "panel_generation_failed",
+        });
+      }
+    }
 
     if (formatSet.kicad || formatSet.reviewBundle) {
       const safeKicadResult = kicadResult;
-      const schemaText =
-        typeof safeKicadResult?.kicadSchema === "string" && safeKicadResult.kicadSchema.trim()
-          ? safeKicadResult.kicadSchema
-          : "(kicad_sch\n  (version 20211014)\n  (generator CircuitForge)\n  (comment \"kicad conversion unavailable\")\n)";
-
       zip.file("kicad_sch", schemaText);
 
       if (formatSet.reviewBundle) {
         const findings = (safeKicadResult?.findings ?? [])
           .map((entry) => entry as ValidationDiagnostic)
           .slice(0, 500);
+        zip.file(
+          "rotation_corrections.json",
+          JSON.stringify(
+            {
+              applied: correctedPnp?.applied ?? [],
+              table: rotationTable,
+            },
+            null,
+            2,
+          ),
+        );
+        zip.file(
+          "dfm_report.json",
+          JSON.stringify({ profile: dfmProfile, findings: dfmFindings }, null, 2),
+        );
+        const powerTree = analyzePowerTree(soup);
+        const powerBudget = computePowerBudget(soup, powerTree.tree, powerBudgetInput.input);
+        zip.file(
+          "power_budget.json",
+          JSON.stringify(
+            {
+              ...powerBudget.budget,
+              table: formatPowerBudgetTable(powerBudget.budget),
+              findings: applyRuleDeck([...powerTree.diagnostics, ...powerBudget.diagnostics], ruleDeck),
+            },
+            null,
+            2,
+          ),
+        );
+        zip.file("rule_deck.json", JSON.stringify(ruleDeck, null, 2));
         zip.file(
           "connectivity.json",
           JSON.stringify(safeKicadResult?.connectivity ?? {}, null, 2)
@@ -187,21 +434,137 @@ export async function POST(req: Request) {
       }
     }
 
+    if (formatSet.kicadPcb) {
+      if (kicadPcbResult?.ok && kicadPcbResult.kicadPcb && kicadPcbResult.kicadPro) {
+        zip.file(`kicad/${kicadNames.pcbFilename}`, kicadPcbResult.kicadPcb);
+        zip.file(`kicad/${kicadNames.projectName}.kicad_pro`, kicadPcbResult.kicadPro);
+        zip.file(`kicad/${kicadNames.schematicFilename}`, schemaText);
+      } else {
+        zip.file(
+          "kicad/kicad_pcb_error.json",
+          JSON.stringify(
+            {
+              ok: false,
+              diagnostics: kicadPcbResult?.diagnostics ?? [],
+              metadata: kicadPcbResult?.metadata ?? {},
+            },
+            null,
+            2,
+          ),
+        );
+      }
+    }
+
+    if (formatSet.ipc2581) {
+      try {
+        const ipc = convertCircuitJsonToIpc2581(soup, { stackup });
+        zip.file("ipc2581/circuitforge.xml", ipc.xml);
+      } catch (error) {
+        zip.file(
+          "ipc2581/ipc2581_error.json",
+          JSON.stringify(
+            {
+              ok: false,
+              error: error instanceof Error ? error.message : String(error),
+            },
+            null,
+            2,
+          ),
+        );
+      }
+    }
+
+    if (formatSet.drawings || formatSet.drawingsPdf) {
+      try {
+        const drawingOptions = { projectName: kicadNames.projectName };
+        const sheets: DrawingSheet[] = [buildAssemblyDrawing(soup, "top", drawingOptions)];
+        if (model.components.some((component) => component.side === "bottom")) {
+          sheets.push(buildAssemblyDrawing(soup, "bottom", drawingOptions));
+        }
+        sheets.push(buildFabricationDrawing(soup, stackup, drawingOptions));
+        for (const sheet of sheets) {
+          zip.file(`drawings/${sheet.name}.svg`, renderDrawingSvg(sheet));
+          if (formatSet.drawingsPdf) {
+            zip.file(`drawings/${sheet.name}.pdf`, renderDrawingPdf(sheet));
+          }
+        }
+      } catch (error) {
+        exportWarnings.push({
+          category: "drawing_generation_failed",
+          message: `Drawing generation failed: ${error instanceof Error ? error.message : String(error)}`,
+          signature: "drawings|drawing_generation_failed",
+          severity: 6,
+          family: "drawing_generation_failed",
+        });
+      }
+    }
+
+    if (formatSet.spice) {
+      const spice = buildSpiceNetlist(soup, spiceOptions.options);
+      zip.file("spice/circuitforge.cir", spice.netlist);
+      exportWarnings.push(...spice.warnings);
+    }
+
+    const warnings = [...dfmFindings, ...applyRuleDeck(exportWarnings, ruleDeck)];
+    if (warnings.length > 0) {
+      zip.file("export_warnings.json", JSON.stringify({ warnings }, null, 2));
+    }
+
+    const generatedAt = new Date();
+    const design = buildDesignSnapshot(model, {
+      ...annotatedLayers,
+      ...(platedDrill ? { plated_drill: platedDrill } : {}),
+      ...(unplatedDrill ? { unplated_drill: unplatedDrill } : {}),
+    });
+    if (previousExport?.snapshot) {
+      const changes = createRevisionDiff(previousExport.snapshot, design);
+      zip.file(
+        "CHANGES.md",
+        renderRevisionDiffMarkdown(changes, {
+          previousGeneratedAt: previousExport.generatedAt,
+          generatedAt: generatedAt.toISOString(),
+        }),
+      );
+      zip.file("changes.json", JSON.stringify(changes, null, 2));
+    }
+
+    const readString = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value.trim() : null;
+    const manifest = await buildExportManifest(zip, {
+      tscircuitCode: projectFiles ? projectFiles[MAIN_FILE] : tscircuitCode,
+      tscircuitFiles: projectFiles,
+      circuitJson: soup,
+      routing: hasCircuitJson ? null : resolveRoutingOptions(routing),
+      provenance: {
+        sessionId: readString(body.sessionId),
+        projectId: readString(body.projectId),
+        attempt: Number.isInteger(body.readiness?.attempt) ? Number(body.readiness?.attempt) : null,
+        readinessScore: Number.isFinite(body.readiness?.readinessScore)
+          ? Number(body.readiness?.readinessScore)
+          : null,
+        criticalFindingsCount,
+        allowRiskyExport,
+        ruleDeck: ruleDeck.name,
+        diagnostics: {
+          client: sanitizeReadinessSnapshot(body.readiness?.diagnostics),
+          dfm: summarizeDfmFindings(dfmProfile.id, dfmFindings, isBlockingDfmFinding),
+        },
+      },
+      design,
+      generatedAt,
+    });
+    zip.file(MANIFEST_FILE_NAME, JSON.stringify(manifest, null, 2));
+
     const buffer = await zip.generateAsync({ type: "arraybuffer" });
 
     return new Response(buffer, {
       headers: {
         "Content-Type": "application/zip",
         "Content-Disposition": 'attachment; filename="circuitforge-export.zip"',
+        "X-Export-Warnings": String(warnings.length),
       },
     });
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        error: "Export failed",
-        details: error instanceof Error ? error.message : String(error),
-      }),
-      { status: 500, headers: { "Content-Type": "application/json" } }
-    );
+    return jsonErrorResponse(500, "Export failed", error instanceof Error ? error.message : String(error));
   }
 }
@@ -0,0 +1,52 @@
+import JSZip from "jszip";
+import { readExportManifest, verifyExportManifest } from "@/lib/manufacturing/manifest";
+import { jsonErrorResponse } from "@/lib/manufacturing/exportRequest";
+
+export const runtime = "nodejs";
+
+/**
+ * Accepts either a multipart upload (`file` field) or the raw zip as the
+ * request body, and re-checks every file against the archive's manifest.json.
+ */
+async function readUploadedArchive(req: Request): Promise<ArrayBuffer | null> {
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    return file instanceof Blob ? file.arrayBuffer() : null;
+  }
+  const buffer = await req.arrayBuffer();
+  return buffer.byteLength > 0 ? buffer : null;
+}
+
+export async function POST(req: Request) {
+  let archive: ArrayBuffer | null;
+  try {
+    archive = await readUploadedArchive(req);
+  } catch {
+    return jsonErrorResponse(400, "Invalid upload");
+  }
+  if (!archive) {
+    return jsonErrorResponse(400, "Missing zip upload ('file' form field or request body)");
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    return jsonErrorResponse(400, "Upload is not a valid zip archive");
+  }
+
+  const { manifest, error } = await readExportManifest(zip);
+  if (!manifest) {
+    return jsonErrorResponse(422, "Invalid export manifest", error ?? undefined);
+  }
+
+  const verification = await verifyExportManifest(zip, manifest);
+  return Response.json({
+    ...verification,
+    generatedAt: manifest.generatedAt,
+    source: manifest.source,
+    provenance: manifest.provenance,
+  });
+}
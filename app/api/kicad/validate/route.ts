@@ -1,5 +1,6 @@
 import { compileForValidation } from "@/lib/agent/repairLoop";
 import { assessKicadFindings } from "@/lib/kicad/review";
+import { summarizeCircuitJsonValidation, validateCircuitJson } from "@/lib/manufacturing/circuitJsonValidation";
 
 export const runtime = "nodejs";
 
@@ -29,6 +30,21 @@ export async function POST(req: Request) {
 
   const tscircuitCode = typeof body.tscircuit_code === "string" ? body.tscircuit_code.trim() : "";
 
+  if (explicitCircuitJson) {
+    const circuitJsonValidation = validateCircuitJson(explicitCircuitJson);
+    if (!circuitJsonValidation.ok) {
+      return new Response(
+        JSON.stringify({
+          ok: false,
+          error: "Invalid circuit_json",
+          details: summarizeCircuitJsonValidation(circuitJsonValidation).join("; "),
+          diagnostics: circuitJsonValidation.diagnostics,
+        }),
+        { status: 422, headers: { "Content-Type": "application/json" } }
+      );
+    }
+  }
+
   let circuitJson: unknown[] | null = explicitCircuitJson;
   let compileError: string | null = null;
 
@@ -0,0 +1,54 @@
+import {
+  BUILT_IN_ROTATION_CORRECTIONS,
+  parseRotationCorrections,
+} from "@/lib/manufacturing/rotationCorrections";
+import {
+  getProjectRotationCorrections,
+  saveProjectRotationCorrections,
+} from "@/lib/manufacturing/rotationCorrectionStore";
+
+export const runtime = "nodejs";
+
+function readProjectId(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+export async function GET(req: Request) {
+  const projectId = readProjectId(new URL(req.url).searchParams.get("projectId"));
+  if (!projectId) {
+    return Response.json({ error: "Missing 'projectId' query parameter" }, { status: 400 });
+  }
+
+  return Response.json({
+    projectId,
+    corrections: await getProjectRotationCorrections(projectId),
+    builtin: BUILT_IN_ROTATION_CORRECTIONS,
+  });
+}
+
+export async function PUT(req: Request) {
+  let body: { projectId?: unknown; corrections?: unknown };
+  try {
+    body = (await req.json()) as typeof body;
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const projectId = readProjectId(body.projectId);
+  if (!projectId) {
+    return Response.json({ error: "Missing 'projectId' string in body" }, { status: 400 });
+  }
+
+  const { corrections, errors } = parseRotationCorrections(body.corrections ?? []);
+  if (errors.length > 0) {
+    return Response.json(
+      { error: "Invalid rotation corrections", details: errors.join("; ") },
+      { status: 400 },
+    );
+  }
+
+  return Response.json({
+    projectId,
+    corrections: await saveProjectRotationCorrections(projectId, corrections),
+  });
+}
@@ -0,0 +1,63 @@
+import { compileForValidation } from "@/lib/agent/repairLoop";
+import { buildSpiceNetlist, parseSpiceOptions, type SpiceOptionsInput } from "@/lib/spice/netlist";
+import { buildSimulationFindings, runNgspice } from "@/lib/spice/ngspice";
+
+export const runtime = "nodejs";
+
+interface SpiceRequestBody {
+  circuit_json?: unknown[];
+  tscircuit_code?: string;
+  spice?: SpiceOptionsInput;
+  /** Run the netlist through a local ngspice; otherwise only the netlist is returned. */
+  simulate?: boolean;
+}
+
+export async function POST(req: Request) {
+  let body: SpiceRequestBody;
+  try {
+    body = (await req.json()) as SpiceRequestBody;
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const hasCircuitJson = Array.isArray(body.circuit_json);
+  const hasTscircuitCode =
+    typeof body.tscircuit_code === "string" && body.tscircuit_code.trim().length > 0;
+  if (!hasCircuitJson && !hasTscircuitCode) {
+    return Response.json(
+      { error: "Missing 'circuit_json' array or 'tscircuit_code' string in body" },
+      { status: 400 },
+    );
+  }
+  if (body.simulate !== undefined && typeof body.simulate !== "boolean") {
+    return Response.json({ error: "Invalid simulate flag", details: "simulate must be a boolean" }, { status: 400 });
+  }
+  const { options, errors } = parseSpiceOptions(body.spice);
+  if (errors.length > 0) {
+    return Response.json({ error: "Invalid spice options", details: errors.join("; ") }, { status: 400 });
+  }
+
+  let circuitJson: unknown[];
+  if (hasCircuitJson) {
+    circuitJson = body.circuit_json as unknown[];
+  } else {
+    const compile = await compileForValidation(body.tscircuit_code!.trim(), req.signal);
+    if (!compile.ok || !compile.circuitJson) {
+      return Response.json(
+        { error: "tscircuit compile failed", details: compile.errorMessage ?? "compile failed" },
+        { status: 400 },
+      );
+    }
+    circuitJson = compile.circuitJson;
+  }
+
+  const spice = buildSpiceNetlist(circuitJson, options);
+  const simulation = body.simulate ? await runNgspice(spice.netlist, { signal: req.signal }) : null;
+
+  return Response.json({
+    netlist: spice.netlist,
+    nodes: spice.nodes,
+    simulation,
+    findings: [...spice.warnings, ...(simulation ? buildSimulationFindings(simulation, spice) : [])],
+  });
+}
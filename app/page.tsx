@@ -18,6 +18,7 @@ export default function Home() {
     phaseSteps,
     gateEvents,
     circuitCode,
+    circuitFiles,
     isStreaming,
     error,
     costUsd,
@@ -27,6 +28,7 @@ export default function Home() {
     phaseMessage,
     requirements,
     architecture,
+    powerTree,
     reviewFindings,
     iterationDiffs,
     finalSummary,
@@ -38,6 +40,8 @@ export default function Home() {
     stop,
     setReviewDecision,
     systemEvents,
+    projectId,
+    sessionId,
   } = useAgentStream();
   const [isExporting, setIsExporting] = useState(false);
   const [exportStage, setExportStage] = useState<"packaging" | "downloading" | null>(null);
@@ -70,12 +74,19 @@ export default function Home() {
   ], [circuitCode, openCriticalFindings, finalSummary]);
   const hasExportBlockers = exportChecks.some((item) => !item.passed);
 
+  const isMultiFile = Object.keys(circuitFiles).length > 1;
   const circuitCodeRef = useRef(circuitCode);
   circuitCodeRef.current = circuitCode;
+  const circuitFilesRef = useRef(circuitFiles);
+  circuitFilesRef.current = circuitFiles;
 
   const handleSend = useCallback(
     (prompt: string) => {
-      sendPrompt(prompt, circuitCodeRef.current || undefined, { phase });
+      const previousFiles = circuitFilesRef.current;
+      sendPrompt(prompt, circuitCodeRef.current || undefined, {
+        phase,
+        previousFiles: Object.keys(previousFiles).length > 1 ? previousFiles : undefined,
+      });
     },
     [sendPrompt, phase],
   );
@@ -90,12 +101,24 @@ export default function Home() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          tscircuit_code: circuitCode,
+          ...(isMultiFile ? { fs_map: circuitFiles } : { tscircuit_code: circuitCode }),
+          routing: finalSummary?.routing,
           formatSet: { kicad: true, reviewBundle: true },
+          projectId: projectId ?? undefined,
+          sessionId: sessionId ?? undefined,
           readiness: {
             criticalFindingsCount: openCriticalFindings,
             allowRiskyExport,
             readinessScore: finalSummary?.manufacturingReadinessScore ?? null,
+            attempt: finalSummary?.attemptsUsed ?? null,
+            diagnostics: finalSummary
+              ? {
+                  diagnosticsCount: finalSummary.diagnosticsCount,
+                  blockingDiagnosticsCount: finalSummary.blockingDiagnosticsCount,
+                  warningDiagnosticsCount: finalSummary.warningDiagnosticsCount,
+                  openCriticalFindings: finalSummary.openCriticalFindings,
+                }
+              : undefined,
           },
         }),
       });
@@ -117,6 +140,12 @@ export default function Home() {
       a.click();
       a.remove();
       URL.revokeObjectURL(url);
+
+      const warningCount = Number(exportRes.headers.get("X-Export-Warnings") ?? 0);
+      if (warningCount > 0) {
+        setNotification(`Exported with ${warningCount} warning(s); see export_warnings.json in the zip.`);
+        setTimeout(() => setNotification(null), 5000);
+      }
     } catch (err) {
       setNotification(`Export error: ${err instanceof Error ? err.message : "Unknown error"}`);
       setTimeout(() => setNotification(null), 5000);
@@ -124,7 +153,7 @@ export default function Home() {
       setIsExporting(false);
       setExportStage(null);
     }
-  }, [circuitCode, finalSummary?.manufacturingReadinessScore, openCriticalFindings]);
+  }, [circuitCode, circuitFiles, isMultiFile, finalSummary, openCriticalFindings, projectId, sessionId]);
 
   const handleExport = useCallback(async () => {
     if (!circuitCode) return;
@@ -255,6 +284,8 @@ export default function Home() {
               <ErrorBoundary fallbackLabel="Circuit">
                 <CircuitPanel
                   code={circuitCode}
+                  files={circuitFiles}
+                  routing={finalSummary?.routing}
                   onExport={handleExport}
                   isExporting={isExporting}
                   isStreaming={isStreaming}
@@ -264,6 +295,7 @@ export default function Home() {
                   readinessScore={finalSummary?.manufacturingReadinessScore ?? null}
                   openCriticalFindings={openCriticalFindings}
                   architecture={architecture}
+                  powerTree={powerTree}
                 />
               </ErrorBoundary>
             </Panel>
@@ -13,10 +13,12 @@ import {
   NodeTitle,
 } from "@/components/ai-elements/node";
 import { Edge } from "@/components/ai-elements/edge";
-import type { ArchitectureNode } from "@/lib/stream/types";
+import type { ArchitectureNode, PowerRail, PowerTree } from "@/lib/stream/types";
 
 interface ArchitecturePanelProps {
   blocks: ArchitectureNode[];
+  /** Rails of the last validated design, drawn below the blocks from input rails down. */
+  powerTree?: PowerTree | null;
 }
 
 function statusPill(status: ArchitectureNode["status"]) {
@@ -95,7 +97,58 @@ function ArchitectureGraphNode({ data }: { data: { block: ArchitectureNode } })
   );
 }
 
-export function ArchitecturePanel({ blocks }: ArchitecturePanelProps) {
+function formatRailVoltage(rail: PowerRail): string {
+  if (rail.voltage === null) return "unknown voltage";
+  const basis = rail.voltageBasis ? ` (${rail.voltageBasis.replace("_", " ")})` : "";
+  return `${Number(rail.voltage.toFixed(2))}V${basis}`;
+}
+
+function PowerRailGraphNode({ data }: { data: { rail: PowerRail } }) {
+  const { rail } = data;
+
+  return (
+    <Node
+      handles={{ source: true, target: true }}
+      className={`min-w-48 bg-[#0b1322] ${rail.issues.length > 0 ? "border-red-400/60" : "border-amber-400/40"}`}
+    >
+      <NodeHeader>
+        <NodeTitle>{rail.net}</NodeTitle>
+        <NodeDescription>{formatRailVoltage(rail)}</NodeDescription>
+      </NodeHeader>
+      <NodeContent>
+        <p className="text-[11px] text-[#89a7cf]">From: {compactItems(rail.sources)}</p>
+        <p className="mt-1 text-[11px] text-[#89a7cf]">Loads: {compactItems(rail.loads, 4)}</p>
+        {rail.issues.length > 0 ? (
+          <p className="mt-1 text-xs text-red-300">{rail.issues.join(" | ")}</p>
+        ) : null}
+      </NodeContent>
+      <NodeFooter>power rail</NodeFooter>
+    </Node>
+  );
+}
+
+/** Depth of each rail from the input rails (those nothing feeds), following regulators and pass-throughs. */
+function railDepths(tree: PowerTree): Map<string, number> {
+  const depths = new Map<string, number>();
+  const fed = new Set(tree.edges.map((edge) => edge.to));
+  const queue = tree.rails.filter((rail) => !fed.has(rail.net)).map((rail) => rail.net);
+  for (const net of queue) depths.set(net, 0);
+  while (queue.length > 0) {
+    const net = queue.shift()!;
+    for (const edge of tree.edges) {
+      if (edge.from !== net || depths.has(edge.to)) continue;
+      depths.set(edge.to, depths.get(net)! + 1);
+      queue.push(edge.to);
+    }
+  }
+  // Rails only reachable through a loop still need a place.
+  for (const rail of tree.rails) {
+    if (!depths.has(rail.net)) depths.set(rail.net, 0);
+  }
+  return depths;
+}
+
+export function ArchitecturePanel({ blocks, powerTree = null }: ArchitecturePanelProps) {
   const { nodes, edges } = useMemo(() => {
     const nodeIds = new Set(blocks.map((block) => block.id));
     const graphNodes = blocks.map((block, index) => ({
@@ -131,12 +184,37 @@ export function ArchitecturePanel({ blocks }: ArchitecturePanelProps) {
       }
     }
 
-    return { nodes: graphNodes, edges: graphEdges };
-  }, [blocks]);
+    const rails = powerTree?.rails ?? [];
+    if (rails.length === 0) return { nodes: graphNodes, edges: graphEdges };
+
+    const railTop = 40 + Math.ceil(blocks.length / 4) * 220 + (blocks.length > 0 ? 40 : 0);
+    const depths = railDepths(powerTree!);
+    const columns = new Map<number, number>();
+    const railNodes = rails.map((rail) => {
+      const depth = depths.get(rail.net) ?? 0;
+      const column = columns.get(depth) ?? 0;
+      columns.set(depth, column + 1);
+      return {
+        id: `rail:${rail.net}`,
+        type: "powerRail",
+        position: { x: 40 + column * 240, y: railTop + depth * 180 },
+        data: { rail },
+      };
+    });
+    const railEdges = (powerTree?.edges ?? []).map((edge) => ({
+      id: `rail:${edge.from}->${edge.to}:${edge.via}`,
+      source: `rail:${edge.from}`,
+      target: `rail:${edge.to}`,
+      type: edge.kind === "regulator" ? ("animated" as const) : ("temporary" as const),
+    }));
+
+    return { nodes: [...graphNodes, ...railNodes], edges: [...graphEdges, ...railEdges] };
+  }, [blocks, powerTree]);
 
   const nodeTypes = useMemo(
     () => ({
       architecture: ArchitectureGraphNode,
+      powerRail: PowerRailGraphNode,
     }),
     []
   );
@@ -151,7 +229,7 @@ export function ArchitecturePanel({ blocks }: ArchitecturePanelProps) {
 
   return (
     <div className="h-full">
-      {blocks.length === 0 ? (
+      {nodes.length === 0 ? (
         <p className="text-xs text-[#2a3a54]">No architecture blocks yet</p>
       ) : (
         <div className="h-full rounded-md border border-[#1a2236] bg-[#080c14]">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useRef, useEffect, useCallback, useState } from "react";
+import { useRef, useEffect, useCallback, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import {
   Artifact,
@@ -13,15 +13,26 @@ import {
 } from "@/components/ai-elements/artifact";
 import { WebPreview } from "@/components/ai-elements/web-preview";
 import { CheckIcon, CopyIcon, DownloadIcon, CpuIcon } from "lucide-react";
-import type { ArchitectureNode } from "@/lib/stream/types";
+import type { ArchitectureNode, PowerTree } from "@/lib/stream/types";
+import { MAIN_FILE, formatProjectFilesForPrompt, type ProjectFiles } from "@/lib/agent/code";
+import type { RoutingOptions } from "@/lib/compile/routing";
 
 const ArchitecturePanel = dynamic(
   () => import("./ArchitecturePanel").then((m) => ({ default: m.ArchitecturePanel })),
   { ssr: false }
 );
 
+const FabPreviewPanel = dynamic(
+  () => import("./FabPreviewPanel").then((m) => ({ default: m.FabPreviewPanel })),
+  { ssr: false }
+);
+
 interface CircuitPanelProps {
   code: string;
+  /** All project files for multi-file designs; `code` alone is treated as main.tsx. */
+  files?: ProjectFiles;
+  /** Router settings the design was validated with; the fab preview compiles with the same ones. */
+  routing?: RoutingOptions;
   onExport: () => void;
   isExporting: boolean;
   isStreaming?: boolean;
@@ -31,9 +42,10 @@ interface CircuitPanelProps {
   readinessScore?: number | null;
   openCriticalFindings?: number;
   architecture?: ArchitectureNode[];
+  powerTree?: PowerTree | null;
 }
 
-function RunFramePreview({ code }: { code: string }) {
+function RunFramePreview({ fsMap }: { fsMap: ProjectFiles }) {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const readyRef = useRef(false);
   const [iframeReady, setIframeReady] = useState(false);
@@ -44,8 +56,8 @@ function RunFramePreview({ code }: { code: string }) {
         {
           runframe_type: "runframe_props_changed",
           runframe_props: {
-            fsMap: { "main.tsx": code },
-            mainComponentPath: "main.tsx",
+            fsMap,
+            mainComponentPath: MAIN_FILE,
           },
         },
         "*"
@@ -67,7 +79,7 @@ function RunFramePreview({ code }: { code: string }) {
     }
 
     return () => window.removeEventListener("message", handleMessage);
-  }, [code]);
+  }, [fsMap]);
 
   return (
     <div className="relative size-full">
@@ -91,6 +103,8 @@ function RunFramePreview({ code }: { code: string }) {
 
 export function CircuitPanel({
   code,
+  files,
+  routing,
   onExport,
   isExporting,
   isStreaming,
@@ -100,21 +114,31 @@ export function CircuitPanel({
   readinessScore = null,
   openCriticalFindings = 0,
   architecture = [],
+  powerTree = null,
 }: CircuitPanelProps) {
   const [copied, setCopied] = useState(false);
-  const [userTab, setUserTab] = useState<"circuit" | "architecture" | null>(null);
+  const fsMap = useMemo<ProjectFiles>(
+    () => (files?.[MAIN_FILE] ? files : { [MAIN_FILE]: code }),
+    [files, code],
+  );
+  const hasArchitecture = architecture.length > 0 || (powerTree?.rails.length ?? 0) > 0;
+  const [userTab, setUserTab] = useState<"circuit" | "architecture" | "fab" | null>(null);
+  // The fab preview renders the current code, so fall back once there is none.
+  const requestedTab = userTab === "fab" && !code ? null : userTab;
   const activeTab =
-    userTab ?? (architecture.length > 0 && !code ? "architecture" : "circuit");
+    requestedTab ?? (hasArchitecture && !code ? "architecture" : "circuit");
 
   const handleCopy = useCallback(async () => {
     try {
-      await navigator.clipboard.writeText(code);
+      await navigator.clipboard.writeText(
+        Object.keys(fsMap).length > 1 ? formatProjectFilesForPrompt(fsMap) : code,
+      );
       setCopied(true);
       setTimeout(() => setCopied(false), 1500);
     } catch {
       console.warn("Unable to copy code to clipboard.");
     }
-  }, [code]);
+  }, [code, fsMap]);
 
   const exportLabel = exportStage
     ? exportStage === "packaging"
@@ -155,7 +179,7 @@ export function CircuitPanel({
           >
             Circuit
           </button>
-          {architecture.length > 0 && (
+          {hasArchitecture && (
             <button
               onClick={() => setUserTab("architecture")}
               className={`text-xs px-3 py-1 rounded-md transition-colors ${
@@ -167,6 +191,18 @@ export function CircuitPanel({
               Architecture
             </button>
           )}
+          {code && (
+            <button
+              onClick={() => setUserTab("fab")}
+              className={`text-xs px-3 py-1 rounded-md transition-colors ${
+                activeTab === "fab"
+                  ? "bg-accent/15 text-accent font-medium"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              Fab preview
+            </button>
+          )}
         </div>
 
         <ArtifactActions>
@@ -192,9 +228,13 @@ export function CircuitPanel({
       </ArtifactHeader>
 
       <ArtifactContent className="h-full p-0">
-        {activeTab === "architecture" && architecture.length > 0 ? (
+        {activeTab === "architecture" && hasArchitecture ? (
+          <div className="h-full">
+            <ArchitecturePanel blocks={architecture} powerTree={powerTree} />
+          </div>
+        ) : activeTab === "fab" && code ? (
           <div className="h-full">
-            <ArchitecturePanel blocks={architecture} />
+            <FabPreviewPanel fsMap={fsMap} routing={routing} />
           </div>
         ) : !code ? (
           isStreaming ? (
@@ -226,7 +266,7 @@ export function CircuitPanel({
         ) : (
           <WebPreview className="size-full">
             <div className="h-full bg-white">
-              <RunFramePreview code={code} />
+              <RunFramePreview fsMap={fsMap} />
             </div>
           </WebPreview>
         )}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Image from "next/image";
+import { LoaderIcon, TriangleAlertIcon } from "lucide-react";
+import type { PreviewLayer } from "@/lib/manufacturing/gerberPreview";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { MAIN_FILE, type ProjectFiles } from "@/lib/agent/code";
+import type { RoutingOptions } from "@/lib/compile/routing";
+
+interface FabPreviewPanelProps {
+  fsMap: ProjectFiles;
+  routing?: RoutingOptions;
+}
+
+type PreviewResult =
+  | { request: string; status: "error"; message: string }
+  | { request: string; status: "ready"; layers: PreviewLayer[]; warnings: ValidationDiagnostic[] };
+
+// Paste and bottom-side graphics clutter a top-down view; start with them off.
+const HIDDEN_BY_DEFAULT = new Set(["F_Paste", "B_Paste", "B_SilkScreen", "B_Mask"]);
+
+function layerOpacity(layer: PreviewLayer): number {
+  if (layer.kind === "soldermask") return 0.45;
+  if (layer.kind === "copper" && layer.side !== "top") return 0.7;
+  return 1;
+}
+
+function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+export function FabPreviewPanel({ fsMap, routing }: FabPreviewPanelProps) {
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set(HIDDEN_BY_DEFAULT));
+  const request = useMemo(
+    () =>
+      JSON.stringify({
+        ...(Object.keys(fsMap).length > 1 ? { fs_map: fsMap } : { tscircuit_code: fsMap[MAIN_FILE] }),
+        routing,
+      }),
+    [fsMap, routing],
+  );
+  // A result for older code means the render for the current code is still in flight.
+  const state = result && result.request === request ? result : ({ status: "loading" } as const);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/export/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: request,
+      signal: controller.signal,
+    })
+      .then(async (res) => {
+        const body: Record<string, unknown> = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          throw new Error(typeof body.error === "string" ? body.error : `Preview failed: ${res.status}`);
+        }
+        setResult({
+          request,
+          status: "ready",
+          layers: (body.layers as PreviewLayer[] | undefined) ?? [],
+          warnings: (body.warnings as ValidationDiagnostic[] | undefined) ?? [],
+        });
+      })
+      .catch((err: unknown) => {
+        if (controller.signal.aborted) return;
+        setResult({ request, status: "error", message: err instanceof Error ? err.message : "Unknown error" });
+      });
+    return () => controller.abort();
+  }, [request]);
+
+  const toggle = (id: string) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  if (state.status === "loading") {
+    return (
+      <div className="flex h-full items-center justify-center gap-2 text-xs text-muted-foreground">
+        <LoaderIcon className="size-4 animate-spin" />
+        Rendering Gerber and drill files…
+      </div>
+    );
+  }
+  if (state.status === "error") {
+    return (
+      <div className="flex h-full items-center justify-center gap-2 text-xs text-warning">
+        <TriangleAlertIcon className="size-4" />
+        {state.message}
+      </div>
+    );
+  }
+
+  const visibleLayers = state.layers.filter((layer) => !hidden.has(layer.id));
+
+  return (
+    <div className="flex h-full min-h-0">
+      <aside className="w-52 shrink-0 space-y-3 overflow-y-auto border-r border-border/30 p-3 text-xs">
+        <div className="space-y-1">
+          {state.layers.map((layer) => (
+            <label key={layer.id} className="flex cursor-pointer items-center gap-2 py-0.5">
+              <input
+                type="checkbox"
+                checked={!hidden.has(layer.id)}
+                onChange={() => toggle(layer.id)}
+                className="accent-accent"
+              />
+              <span className="size-2.5 shrink-0 rounded-sm" style={{ backgroundColor: layer.color }} />
+              <span className="min-w-0 flex-1 truncate" title={layer.fileFunction ?? layer.fileName}>
+                {layer.fileName}
+              </span>
+              <span className={layer.featureCount === 0 ? "text-warning" : "text-muted-foreground"}>
+                {layer.featureCount}
+              </span>
+            </label>
+          ))}
+        </div>
+        {state.warnings.length > 0 && (
+          <div className="space-y-1 border-t border-border/30 pt-2">
+            {state.warnings.map((warning) => (
+              <p key={warning.signature} className={warning.severity >= 8 ? "text-red-300" : "text-warning"}>
+                {warning.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </aside>
+      <div className="relative min-w-0 flex-1 bg-[#0b1220]">
+        {visibleLayers.map((layer) => (
+          <Image
+            key={layer.id}
+            src={svgDataUrl(layer.svg)}
+            alt={layer.fileName}
+            fill
+            unoptimized
+            className="pointer-events-none object-contain p-4"
+            style={{ opacity: layerOpacity(layer) }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
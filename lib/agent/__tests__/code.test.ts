@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractCodeFromText,
+  extractFilesFromText,
+  findBoardFile,
+  formatProjectFilesForPrompt,
+  mergeProjectFiles,
+  normalizeProjectFileName,
+  stripCodeBlocks,
+  validateProjectFiles,
+} from "../code";
+
+describe("project files", () => {
+  it("reads file names from fence info strings and treats unnamed fences as main.tsx", () => {
+    const text = [
+      "Here is the design.",
+      "```tsx",
+      "export default () => <board />",
+      "```",
+      "```tsx power.tsx",
+      "export const Power = () => <group />",
+      "```",
+      '```tsx title="lib/mcu.tsx"',
+      "export const Mcu = () => <group />",
+      "```",
+      "```tsx file=./connectors.tsx",
+      "export const Connectors = () => <group />",
+      "```",
+    ].join("\n");
+
+    expect(extractFilesFromText(text)).toEqual({
+      "main.tsx": "export default () => <board />",
+      "power.tsx": "export const Power = () => <group />",
+      "lib/mcu.tsx": "export const Mcu = () => <group />",
+      "connectors.tsx": "export const Connectors = () => <group />",
+    });
+    expect(extractCodeFromText(text)).toBe("export default () => <board />");
+    expect(extractCodeFromText("```tsx power.tsx\nx\n```")).toBeNull();
+    expect(extractFilesFromText("no code here")).toBeNull();
+  });
+
+  it("rejects names that escape the project or are not TypeScript", () => {
+    expect(normalizeProjectFileName("./power.tsx")).toBe("power.tsx");
+    expect(normalizeProjectFileName("../power.tsx")).toBeNull();
+    expect(normalizeProjectFileName("/etc/power.tsx")).toBeNull();
+    expect(normalizeProjectFileName("power.json")).toBeNull();
+    expect(validateProjectFiles({ "power.tsx": "x", "a/../b.tsx": 1 }).errors).toEqual([
+      'fs_map: "a/../b.tsx" is not a relative .ts/.tsx path',
+    ]);
+    expect(validateProjectFiles({ "power.tsx": "x" }).errors).toEqual(["fs_map must include a non-empty main.tsx"]);
+    expect(validateProjectFiles(["main.tsx"]).files).toBeNull();
+  });
+
+  it("merges partial repairs and formats prompts with main.tsx first", () => {
+    const project = mergeProjectFiles(
+      { "main.tsx": "<board>", "power.tsx": "old" },
+      { "power.tsx": "new" },
+    );
+    expect(project).toEqual({ "main.tsx": "<board>", "power.tsx": "new" });
+    expect(findBoardFile(project)).toBe("main.tsx");
+    expect(formatProjectFilesForPrompt({ "power.tsx": "new", "main.tsx": "<board>" })).toBe(
+      "```tsx main.tsx\n<board>\n```\n\n```tsx power.tsx\nnew\n```",
+    );
+    expect(formatProjectFilesForPrompt({ "main.tsx": "<board>" })).toBe("```tsx\n<board>\n```");
+  });
+
+  it("strips named fences from chat text", () => {
+    expect(stripCodeBlocks("Done.\n```tsx power.tsx\nx\n```")).toBe(
+      "Done.\n\n[Circuit code generated — see Circuit Preview]",
+    );
+    expect(stripCodeBlocks("Working\n```tsx mcu.tsx\npartial")).toBe("Working\n\n[Generating circuit code...]");
+  });
+});
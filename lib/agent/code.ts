@@ -1,18 +1,110 @@
-const CODE_BLOCK_RE = /```tsx\s*\r?\n([\s\S]*?)```/gi;
+/** Entry module of every tscircuit project; unnamed ```tsx fences belong here. */
+export const MAIN_FILE = "main.tsx";
 
-export function extractCodeFromText(text: string): string | null {
-  let lastMatch: string | null = null;
+/** A tscircuit project as an fs map (file name → source), the shape `/api/compile` takes. */
+export type ProjectFiles = Record<string, string>;
+
+const CODE_BLOCK_RE = /```tsx([^\n`]*)\r?\n([\s\S]*?)```/gi;
+const PROJECT_FILE_NAME_RE = /^[A-Za-z0-9_][\w.-]*(?:\/[A-Za-z0-9_][\w.-]*)*\.tsx?$/;
+
+/** Returns a safe relative `.ts`/`.tsx` path, or null for anything else (absolute paths, `..`, other extensions). */
+export function normalizeProjectFileName(raw: string): string | null {
+  const name = raw.trim().replace(/^\.\//, "");
+  return PROJECT_FILE_NAME_RE.test(name) ? name : null;
+}
+
+/** Reads the file name from a fence info string: ```tsx power.tsx, ```tsx title="power.tsx" or ```tsx file=power.tsx. */
+function fenceFileName(info: string): string {
+  for (const token of info.trim().split(/\s+/)) {
+    const value = token.replace(/^(?:title|file|filename|path)=/i, "").replace(/^["']|["']$/g, "");
+    const name = normalizeProjectFileName(value);
+    if (name) return name;
+  }
+  return MAIN_FILE;
+}
+
+/** Collects every ```tsx fence into a project fs map; a later fence for the same file replaces an earlier one. */
+export function extractFilesFromText(text: string): ProjectFiles | null {
+  const files: ProjectFiles = {};
+  let found = false;
   let match;
   while ((match = CODE_BLOCK_RE.exec(text)) !== null) {
-    lastMatch = match[1].trim();
+    files[fenceFileName(match[1])] = match[2].trim();
+    found = true;
   }
   CODE_BLOCK_RE.lastIndex = 0;
-  return lastMatch;
+  return found ? files : null;
+}
+
+export function extractCodeFromText(text: string): string | null {
+  return extractFilesFromText(text)?.[MAIN_FILE] ?? null;
+}
+
+/** main.tsx first, then the remaining files alphabetically. */
+export function sortProjectFileNames(files: ProjectFiles): string[] {
+  return Object.keys(files).sort((a, b) =>
+    a === MAIN_FILE ? -1 : b === MAIN_FILE ? 1 : a.localeCompare(b),
+  );
+}
+
+/** Overlays the files a response emitted onto the previous project, so a repair can resend only the module it changed. */
+export function mergeProjectFiles(base: ProjectFiles | null | undefined, updates: ProjectFiles): ProjectFiles {
+  return { ...(base ?? {}), ...updates };
+}
+
+export function projectFilesEqual(a: ProjectFiles, b: ProjectFiles): boolean {
+  const names = Object.keys(a);
+  return names.length === Object.keys(b).length && names.every((name) => b[name] === a[name]);
+}
+
+/** All sources in one string, for checks that look at the whole design (connectivity, component diffs). */
+export function joinProjectSources(files: ProjectFiles): string {
+  return sortProjectFileNames(files)
+    .map((name) => files[name])
+    .join("\n");
+}
+
+/** The file that declares `<board>`, where layout-level repairs apply; main.tsx when none does. */
+export function findBoardFile(files: ProjectFiles): string {
+  return sortProjectFileNames(files).find((name) => /<board\b/.test(files[name])) ?? MAIN_FILE;
+}
+
+/**
+ * Fenced blocks for a prompt. A single-file project keeps the plain ```tsx
+ * fence; multi-file projects label each fence with its file name.
+ */
+export function formatProjectFilesForPrompt(files: ProjectFiles): string {
+  const names = sortProjectFileNames(files);
+  if (names.length === 1 && names[0] === MAIN_FILE) {
+    return `\`\`\`tsx\n${files[MAIN_FILE]}\n\`\`\``;
+  }
+  return names.map((name) => `\`\`\`tsx ${name}\n${files[name]}\n\`\`\``).join("\n\n");
 }
 
 export function stripCodeBlocks(text: string): string {
   let result = text.replace(CODE_BLOCK_RE, "\n[Circuit code generated — see Circuit Preview]\n");
-  const openIdx = result.search(/```tsx\s*\r?\n/i);
+  const openIdx = result.search(/```tsx[^\n`]*\r?\n/i);
   if (openIdx !== -1) result = result.slice(0, openIdx) + "\n[Generating circuit code...]";
   return result.trim();
 }
+
+/** Validates an `fs_map` request field: safe relative `.ts`/`.tsx` names, string contents and a main.tsx entry. */
+export function validateProjectFiles(input: unknown): { files: ProjectFiles | null; errors: string[] } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { files: null, errors: ["fs_map must be an object mapping file names to source"] };
+  }
+  const files: ProjectFiles = {};
+  const errors: string[] = [];
+  for (const [rawName, content] of Object.entries(input as Record<string, unknown>)) {
+    const name = normalizeProjectFileName(rawName);
+    if (!name) {
+      errors.push(`fs_map: "${rawName}" is not a relative .ts/.tsx path`);
+    } else if (typeof content !== "string") {
+      errors.push(`fs_map.${rawName} must be a string`);
+    } else {
+      files[name] = content;
+    }
+  }
+  if (errors.length === 0 && !files[MAIN_FILE]?.trim()) errors.push(`fs_map must include a non-empty ${MAIN_FILE}`);
+  return errors.length > 0 ? { files: null, errors } : { files, errors };
+}
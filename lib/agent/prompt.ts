@@ -1,4 +1,6 @@
 import type { ArchitectureNode, DesignPhase, ReviewFinding, RequirementItem } from "@/lib/stream/types";
+import { formatProjectFilesForPrompt, type ProjectFiles } from "@/lib/agent/code";
+import { describeNetClassesForPrompt, type NetClassSettings } from "@/lib/manufacturing/netClasses";
 
 const CODE_FENCE = "```";
 
@@ -65,12 +67,27 @@ ${CODE_FENCE}
 - For MCUs: show ALL pins in schPinArrangement. VCC/VDD on topSide, GND on bottomSide, inputs left, outputs right.
 - NEVER hardcode board dimensions. Compute from component positions when possible.
 - Route conservatively: keep unrelated traces separated (>=0.25mm), avoid trace overlap/crossing hotspots, and keep different-net vias apart (>=0.8mm).
-- Output the code as a complete, self-contained file.
+- Output the code as a complete, self-contained file, or split larger boards into modules (see Multi-file Projects).
+
+## Multi-file Projects
+Larger boards may be split into subcircuit modules. Put the file name after the fence language:
+
+${CODE_FENCE}tsx power.tsx
+export const Power = () => (
+  <group name="power">
+    <chip name="U2" footprint="sot223" pinLabels={{ pin1: "GND", pin2: "VOUT", pin3: "VIN" }} />
+  </group>
+)
+${CODE_FENCE}
+
+- \`main.tsx\` is the entry point: it holds the \`<board>\` and imports modules with relative paths (\`import { Power } from "./power"\`). An unnamed fence is main.tsx.
+- Component names must stay unique across all files.
+- When editing an existing multi-file project, output only the files you changed; unchanged files are kept as they are.
 
 ## Output Format
 Your response to the user should be SHORT:
 1. A brief design summary (3-5 sentences max) explaining what the circuit does and key decisions.
-2. The final tscircuit code in a ${CODE_FENCE}tsx code block.
+2. The final tscircuit code in a ${CODE_FENCE}tsx code block (one named block per file for multi-file projects).
 
 Do NOT include markdown tables, ASCII diagrams, detailed BOM, or lengthy explanations.
 The UI renders the schematic, PCB, and 3D preview automatically from the code.
@@ -218,17 +235,21 @@ export function summarizeReviewForPrompt(findings: ReviewFinding[]) {
   const top = findings.slice(0, 10);
   return [
     "Outstanding review findings:",
-    ...top.map((f) => `- [${f.severity.toUpperCase()}] ${f.id}: ${f.title}. ${f.message}`),
+    ...top.map(
+      (f) =>
+        `- [${f.severity.toUpperCase()}] ${f.id}: ${f.title}. ${f.message}${f.suggestion ? ` Suggested fix: ${f.suggestion}` : ""}`,
+    ),
   ].join("\n");
 }
 
 export function buildOrchestratorPrompt(params: {
   userPrompt: string;
   phase: DesignPhase;
-  previousCode?: string;
+  previousFiles?: ProjectFiles | null;
   requirements?: RequirementItem[];
   architecture?: ArchitectureNode[];
   reviewFindings?: ReviewFinding[];
+  netClasses?: NetClassSettings;
 }) {
   const section = DESIGN_PHASE_PROMPTS[params.phase] || DESIGN_PHASE_PROMPTS.implementation;
   const req = params.requirements?.length
@@ -241,14 +262,18 @@ export function buildOrchestratorPrompt(params: {
         .map((block) => `- ${block.id}: ${block.label} [${block.status}]`)
         .join("\n")}`
     : "";
+  const netClassLines = params.netClasses ? describeNetClassesForPrompt(params.netClasses) : [];
+  const netClasses = netClassLines.length
+    ? `\nNet classes (set thickness on each <trace> of these nets; narrower traces are rejected):\n${netClassLines.join("\n")}`
+    : "";
   const review = summarizeReviewForPrompt(params.reviewFindings ?? []);
 
-  const baseline = params.previousCode
+  const baseline = params.previousFiles
 	? `\nThe user previously designed a circuit. Here is the existing tscircuit code:\n\n
-${CODE_FENCE}tsx\n${params.previousCode}\n${CODE_FENCE}\n\nThe user now says: ${params.userPrompt}\n\nModify or extend the existing design based on the user request.\n`
+${formatProjectFilesForPrompt(params.previousFiles)}\n\nThe user now says: ${params.userPrompt}\n\nModify or extend the existing design based on the user request.\n`
     : params.userPrompt;
 
-  return `${BASE_PROMPT}\n\n${section}\n${req}${arch}\n${review}\n${baseline}`;
+  return `${BASE_PROMPT}\n\n${section}\n${req}${arch}${netClasses}\n${review}\n${baseline}`;
 }
 
 export const SYSTEM_PROMPT = BASE_PROMPT;
@@ -1,15 +1,30 @@
-import type { ValidationDiagnostic } from "@/lib/stream/types";
+import type { PowerBudget, PowerTree, RequirementItem, ValidationDiagnostic } from "@/lib/stream/types";
 import {
   type KicadValidationResult,
   assessKicadFindings,
   assessKicadFindingsFromRaw,
   resolveDiagnosticFamily,
 } from "@/lib/kicad/review";
-import { compileWithFallback } from "@/lib/compile/local";
+import { compileWithFallback, type CompileRunOptions } from "@/lib/compile/local";
+import type { RoutingOptions } from "@/lib/compile/routing";
+import { FAB_CAPABILITY_PROFILES, runDfmChecks } from "@/lib/manufacturing/dfm";
+import {
+  resolveDrcRules,
+  runDrcChecks,
+  withFabMinimums,
+  type DrcRuleOverrides,
+} from "@/lib/manufacturing/drc";
+import { runNetClassChecks, type NetClassSettings } from "@/lib/manufacturing/netClasses";
+import { runBusProtocolChecks } from "@/lib/electrical/busProtocols";
+import { runDecouplingChecks } from "@/lib/electrical/decoupling";
+import { analyzePowerTree } from "@/lib/electrical/powerTree";
+import { computePowerBudget, type PowerBudgetInput } from "@/lib/electrical/powerBudget";
+import { DEFAULT_RULE_DECK, applyRuleDeck, defaultSeverity, type RuleDeck } from "@/lib/rules/ruleDeck";
 import {
   buildTraceRebuildResultFromNetIntent,
   collectConnectivityPreflightDiagnostics,
 } from "@/lib/agent/connectivityPreflight";
+import { MAIN_FILE, joinProjectSources, type ProjectFiles } from "@/lib/agent/code";
 
 interface KicadDiagnostics {
   findings: ValidationDiagnostic[];
@@ -24,6 +39,7 @@ export interface SourceCodeGuardrailResult {
 
 export type RepairStrategy =
   | "normal"
+  | "alternate_router_settings"
   | "structural_trace_rebuild"
   | "structural_layout_spread"
   | "targeted_congestion_relief";
@@ -81,6 +97,8 @@ export interface CompileResult {
   source: string;
   circuitJson: unknown[] | null;
   errorMessage: string | null;
+  /** `compile_timeout` / `compile_out_of_memory` / `compile_worker_crashed` when a pool limit stopped the job. */
+  errorCategory?: string;
 }
 
 function preflightDiagnostic(
@@ -208,6 +226,22 @@ export function applySourceCodeGuardrails(code: string): SourceCodeGuardrailResu
   return { code: nextCode, actions: Array.from(new Set(actions)) };
 }
 
+/** Runs the source guardrails on every module of a project. */
+export function applyProjectGuardrails(files: ProjectFiles): { files: ProjectFiles; actions: string[] } {
+  const guardedFiles: ProjectFiles = {};
+  const actions: string[] = [];
+  for (const [name, code] of Object.entries(files)) {
+    const guarded = applySourceCodeGuardrails(code);
+    guardedFiles[name] = guarded.code;
+    actions.push(...guarded.actions);
+  }
+  return { files: guardedFiles, actions: Array.from(new Set(actions)) };
+}
+
+function toProjectFiles(code: string | ProjectFiles): ProjectFiles {
+  return typeof code === "string" ? { [MAIN_FILE]: code } : code;
+}
+
 export function collectPreValidationDiagnostics(code: string): ValidationDiagnostic[] {
   const diagnostics: ValidationDiagnostic[] = [];
   if (!code.trim()) return diagnostics;
@@ -477,16 +511,22 @@ export function applyStructuralTraceRebuild(code: string): {
 
 /**
  * Compile tscircuit code for validation. Uses local @tscircuit/eval first,
- * falls back to remote compile.tscircuit.com API.
+ * falls back to remote compile.tscircuit.com API. A plain string is compiled
+ * as main.tsx; a file map is compiled as a multi-file project.
  */
-export async function compileForValidation(code: string, signal?: AbortSignal): Promise<CompileResult> {
-  const guarded = applySourceCodeGuardrails(code);
-  const result = await compileWithFallback({ "main.tsx": guarded.code }, signal);
+export async function compileForValidation(
+  code: string | ProjectFiles,
+  signal?: AbortSignal,
+  options?: CompileRunOptions,
+): Promise<CompileResult> {
+  const guarded = applyProjectGuardrails(toProjectFiles(code));
+  const result = await compileWithFallback(guarded.files, signal, options);
   return {
     ok: result.ok,
     source: result.source,
     circuitJson: result.circuitJson,
     errorMessage: result.errorMessage,
+    ...(result.errorCategory ? { errorCategory: result.errorCategory } : {}),
   };
 }
 
@@ -505,20 +545,6 @@ function readObjectIds(entry: Record<string, unknown>) {
   return ids.sort();
 }
 
-function scoreCategory(category: string, source: "tscircuit" | "kicad" = "tscircuit") {
-  const base =
-    category.includes("trace") ||
-    category.includes("via") ||
-    category.includes("clearance") ||
-    category.includes("out_of_bounds")
-      ? 6
-      : category.includes("short")
-        ? 7
-        : 4;
-
-  return source === "kicad" ? base + 1 : base;
-}
-
 function signatureWithLocation(base: string, entry: Record<string, unknown>) {
   const center = entry.center;
   const pcbCenter = entry.pcb_center;
@@ -535,7 +561,10 @@ function signatureWithLocation(base: string, entry: Record<string, unknown>) {
   return `${base}|${x},${y}`;
 }
 
-export function extractValidationDiagnostics(circuitJson: unknown[]): ValidationDiagnostic[] {
+export function extractValidationDiagnostics(
+  circuitJson: unknown[],
+  deck: RuleDeck = DEFAULT_RULE_DECK,
+): ValidationDiagnostic[] {
   const diagnostics: ValidationDiagnostic[] = [];
   const sourceComponentNames = new Map<string, string>();
   const pcbComponents: Array<{
@@ -622,7 +651,7 @@ export function extractValidationDiagnostics(circuitJson: unknown[]): Validation
     diagnostics.push({
       category,
       message,
-      severity: scoreCategory(category, "tscircuit"),
+      severity: defaultSeverity(deck, { category, message, source: "tscircuit" }),
       signature: signatureWithLocation(signatureBase || category, entry),
       source: "tscircuit",
       family: resolveDiagnosticFamily(category, message),
@@ -680,7 +709,10 @@ export function extractValidationDiagnostics(circuitJson: unknown[]): Validation
   return diagnostics;
 }
 
-export function createCompileFailureDiagnostics(errorMessage: string): ValidationDiagnostic[] {
+export function createCompileFailureDiagnostics(
+  errorMessage: string,
+  errorCategory?: string,
+): ValidationDiagnostic[] {
   const message = errorMessage.trim() || "Compilation failed with unknown error";
   const normalized = message.toLowerCase();
   const isAutorouterExhaustion =
@@ -688,7 +720,7 @@ export function createCompileFailureDiagnostics(errorMessage: string): Validatio
     normalized.includes("ran out of candidates") ||
     normalized.includes("capacity-autorouter") ||
     normalized.includes("capacity-mesh-autorouting");
-  const category = isAutorouterExhaustion ? "pcb_autorouter_exhaustion" : "compile_error";
+  const category = errorCategory ?? (isAutorouterExhaustion ? "pcb_autorouter_exhaustion" : "compile_error");
 
   return [
     {
@@ -702,9 +734,9 @@ export function createCompileFailureDiagnostics(errorMessage: string): Validatio
   ];
 }
 
-function mergeKicadResults(result: KicadValidationResult | null): ValidationDiagnostic[] {
+function mergeKicadResults(result: KicadValidationResult | null, deck: RuleDeck): ValidationDiagnostic[] {
   if (!result) return [];
-  const findings = assessKicadFindingsFromRaw(result.findings);
+  const findings = assessKicadFindingsFromRaw(result.findings, deck);
   return findings.map((entry) => ({
     ...entry,
     source: "kicad",
@@ -713,23 +745,37 @@ function mergeKicadResults(result: KicadValidationResult | null): ValidationDiag
 }
 
 export async function compileAndValidateWithKicad(
-  code: string,
+  code: string | ProjectFiles,
   signal?: AbortSignal,
   options?: {
     enableConnectivityPreflight?: boolean;
+    sessionId?: string;
+    routing?: RoutingOptions;
+    drcRules?: DrcRuleOverrides;
+    netClasses?: NetClassSettings;
+    /** Stated supplies ("runs from USB", "2xAA") seed the power tree's input rail voltages. */
+    requirements?: RequirementItem[];
+    powerBudget?: PowerBudgetInput;
+    /** Scores, re-weighs or disables findings; the built-in deck when omitted. */
+    ruleDeck?: RuleDeck;
   },
 ): Promise<{
   compileResult: CompileResult;
   kicadResult: KicadValidationResult | null;
   allDiagnostics: ValidationDiagnostic[];
+  /** Present once the design compiles. */
+  powerTree?: PowerTree | null;
+  powerBudget?: PowerBudget | null;
 }> {
-  const guarded = applySourceCodeGuardrails(code);
-  const preflightDiagnostics = collectPreValidationDiagnostics(guarded.code);
+  const deck = options?.ruleDeck ?? DEFAULT_RULE_DECK;
+  const guarded = applyProjectGuardrails(toProjectFiles(code));
+  const preflightDiagnostics = Object.values(guarded.files).flatMap(collectPreValidationDiagnostics);
+  // Traces may reference parts declared in another module, so connectivity is checked across the whole project.
   const connectivityDiagnostics =
     options?.enableConnectivityPreflight === false
       ? []
-      : collectConnectivityPreflightDiagnostics(guarded.code);
-  const combinedPreflight = [...preflightDiagnostics, ...connectivityDiagnostics];
+      : collectConnectivityPreflightDiagnostics(joinProjectSources(guarded.files));
+  const combinedPreflight = applyRuleDeck([...preflightDiagnostics, ...connectivityDiagnostics], deck);
   if (combinedPreflight.length > 0) {
     return {
       compileResult: {
@@ -743,28 +789,71 @@ export async function compileAndValidateWithKicad(
     };
   }
 
-  const compileResult = await compileForValidation(guarded.code, signal);
+  const compileResult = await compileForValidation(guarded.files, signal, {
+    sessionId: options?.sessionId,
+    routing: options?.routing,
+  });
   if (!compileResult.ok || !compileResult.circuitJson) {
     return {
       compileResult,
       kicadResult: null,
-      allDiagnostics: createCompileFailureDiagnostics(compileResult.errorMessage ?? "compile failed"),
+      allDiagnostics: createCompileFailureDiagnostics(
+        compileResult.errorMessage ?? "compile failed",
+        compileResult.errorCategory,
+      ),
     };
   }
 
-  const tscircuitDiagnostics = extractValidationDiagnostics(compileResult.circuitJson);
-  const kicadResult = await assessKicadFindingsFromCircuitJson(compileResult.circuitJson);
-  const kicadDiagnostics = mergeKicadResults(kicadResult);
+  const tscircuitDiagnostics = extractValidationDiagnostics(compileResult.circuitJson, deck);
+  // DRC, held to at least the fab minimums, is the one pass that reports copper
+  // spacing and copper-to-edge here.
+  const dfmDiagnostics = runDfmChecks(compileResult.circuitJson, FAB_CAPABILITY_PROFILES.default, {
+    clearances: false,
+  });
+  const drcDiagnostics = runDrcChecks(
+    compileResult.circuitJson,
+    withFabMinimums(resolveDrcRules(options?.drcRules), FAB_CAPABILITY_PROFILES.default),
+    options?.netClasses,
+  );
+  const netClassDiagnostics = options?.netClasses
+    ? runNetClassChecks(compileResult.circuitJson, options.netClasses)
+    : [];
+  const decouplingDiagnostics = runDecouplingChecks(compileResult.circuitJson);
+  const busDiagnostics = runBusProtocolChecks(compileResult.circuitJson);
+  const powerTree = analyzePowerTree(compileResult.circuitJson, options?.requirements);
+  const powerBudget = computePowerBudget(compileResult.circuitJson, powerTree.tree, options?.powerBudget);
+  const kicadResult = await assessKicadFindingsFromCircuitJson(compileResult.circuitJson, deck);
+  const kicadDiagnostics = mergeKicadResults(kicadResult, deck);
+
+  const allDiagnostics = applyRuleDeck(
+    [
+      ...tscircuitDiagnostics,
+      ...dfmDiagnostics,
+      ...drcDiagnostics,
+      ...netClassDiagnostics,
+      ...decouplingDiagnostics,
+      ...busDiagnostics,
+      ...powerTree.diagnostics,
+      ...powerBudget.diagnostics,
+      ...kicadDiagnostics,
+    ],
+    deck,
+  );
 
   return {
     compileResult,
     kicadResult,
-    allDiagnostics: [...tscircuitDiagnostics, ...kicadDiagnostics],
+    allDiagnostics,
+    powerTree: powerTree.tree,
+    powerBudget: powerBudget.budget,
   };
 }
 
-export async function assessKicadFindingsFromCircuitJson(circuitJson: unknown[]): Promise<KicadValidationResult> {
-  const res = await assessKicadFindings(circuitJson);
+export async function assessKicadFindingsFromCircuitJson(
+  circuitJson: unknown[],
+  deck: RuleDeck = DEFAULT_RULE_DECK,
+): Promise<KicadValidationResult> {
+  const res = await assessKicadFindings(circuitJson, deck);
   return res;
 }
 
@@ -783,7 +872,7 @@ export function formatDiagnosticsForPrompt(diagnostics: ValidationDiagnostic[],
     .slice(0, limit)
     .map(
       (d, i) =>
-        `${i + 1}. [${d.category}] ${d.message}`,
+        `${i + 1}. [${d.category}] ${d.message}${d.suggestion ? `\n   Suggested fix: ${d.suggestion}` : ""}`,
     )
     .join("\n");
 }
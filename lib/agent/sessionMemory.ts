@@ -16,6 +16,8 @@ export interface SessionContextData {
   lastPhase?: DesignPhase;
   lastKicadSchema?: string;
   lastGeneratedCode?: string;
+  /** Every file of the last generated project; `lastGeneratedCode` is its main.tsx. */
+  lastGeneratedFiles?: Record<string, string>;
 }
 
 interface SessionEntry {
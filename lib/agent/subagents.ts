@@ -233,7 +233,8 @@ const pos = {
 - If a routing area is congested, spread components by a few millimeters instead of forcing dense crossings.
 
 ## Output
-Return ONLY the complete tscircuit code in a \`\`\`tsx block. No explanations.`,
+Return ONLY the complete tscircuit code in a \`\`\`tsx block. No explanations.
+For a multi-file project, return one block per file with the file name after the language (\`\`\`tsx power.tsx); \`main.tsx\` holds the \`<board>\` and imports the modules. When repairing, return only the files you changed.`,
     tools: ["WebFetch"],
     model: resolveCodeWriterModel(),
   },
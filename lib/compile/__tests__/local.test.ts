@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  clearCompileCache,
+  compileWithFallback,
+  computeCompileCacheKey,
+  configureCompileCache,
+  configureCompilePool,
+  getCompileCacheStats,
+} from "../local";
+import { createSeededRandom } from "../routing";
+
+const { executeMock, runnerConfigMock, randomMock } = vi.hoisted(() => ({
+  executeMock: vi.fn(),
+  runnerConfigMock: vi.fn(),
+  randomMock: vi.fn(),
+}));
+
+vi.mock("@tscircuit/eval", () => ({
+  CircuitRunner: class {
+    private code = "";
+    constructor(configuration?: unknown) {
+      runnerConfigMock(configuration);
+    }
+    async executeWithFsMap({ fsMap }: { fsMap: Record<string, string> }) {
+      this.code = fsMap["main.tsx"];
+      executeMock(this.code);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      randomMock(Math.random());
+      if (this.code.includes("throw")) throw new Error("Unexpected token");
+    }
+    async renderUntilSettled() {}
+    async getCircuitJson() {
+      const comment = /^\/\/ (.*)$/.exec(this.code)?.[1];
+      return [{ type: "source_component", name: this.code.length.toString(), ...(comment ? { display_value: comment } : {}) }];
+    }
+  },
+}));
+
+describe("compile cache", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearCompileCache();
+    configureCompileCache({ maxBytes: 1024 * 1024, directory: null });
+    // The mocked runner only exists on this thread.
+    configureCompilePool({ concurrency: 0 });
+  });
+
+  it("keys on file contents regardless of fs map order", async () => {
+    const a = await computeCompileCacheKey({ "main.tsx": "a", "lib.ts": "b" });
+    const b = await computeCompileCacheKey({ "lib.ts": "b", "main.tsx": "a" });
+    expect(a).toBe(b);
+    expect(a).not.toBe(await computeCompileCacheKey({ "main.tsx": "a", "lib.ts": "c" }));
+  });
+
+  it("compiles with the requested autorouter and seed, and caches each setting separately", async () => {
+    const files = { "main.tsx": "export default () => <board />" };
+    const unseededRandom = Math.random;
+    await compileWithFallback(files, undefined, { routing: { autorouter: "sequential_trace", seed: 42 } });
+    await compileWithFallback(files, undefined, { routing: { autorouter: "sequential_trace", seed: 42 } });
+    await compileWithFallback(files, undefined, { routing: { seed: 7 } });
+
+    expect(executeMock).toHaveBeenCalledTimes(2);
+    expect(randomMock.mock.calls.map(([random]) => random)).toEqual([
+      createSeededRandom(42)(),
+      createSeededRandom(7)(),
+    ]);
+    expect(runnerConfigMock.mock.calls).toEqual([[{ projectConfig: { autorouter: "sequential_trace" } }], [{}]]);
+    expect(Math.random).toBe(unseededRandom);
+  });
+
+  it("runs overlapping in-process compiles one at a time so seeds never leak", async () => {
+    const unseededRandom = Math.random;
+    await Promise.all([
+      compileWithFallback({ "main.tsx": "export default () => <board /> // a" }, undefined, { routing: { seed: 1 } }),
+      compileWithFallback({ "main.tsx": "export default () => <board /> // b" }, undefined, { routing: { seed: 2 } }),
+      compileWithFallback({ "main.tsx": "throw // c" }, undefined, { routing: { seed: 3 } }),
+    ]);
+
+    expect(randomMock.mock.calls.map(([random]) => random)).toEqual([
+      createSeededRandom(1)(),
+      createSeededRandom(2)(),
+      createSeededRandom(3)(),
+    ]);
+    expect(Math.random).toBe(unseededRandom);
+  });
+
+  it("serves identical code from memory and hands out independent copies", async () => {
+    const first = await compileWithFallback({ "main.tsx": "export default () => <board />" });
+    (first.circuitJson as unknown[]).push("mutated");
+    const second = await compileWithFallback({ "main.tsx": "export default () => <board />" });
+
+    expect(executeMock).toHaveBeenCalledTimes(1);
+    expect(second.circuitJson).toHaveLength(1);
+    expect(getCompileCacheStats()).toMatchObject({ hits: 1, memoryHits: 1, misses: 1, entries: 1 });
+  });
+
+  it("caches local compile errors and evicts least recently used entries", async () => {
+    const failed = await compileWithFallback({ "main.tsx": "throw" });
+    expect(failed).toMatchObject({ ok: false, errorMessage: "Unexpected token" });
+    await compileWithFallback({ "main.tsx": "throw" });
+    expect(executeMock).toHaveBeenCalledTimes(1);
+
+    clearCompileCache();
+    await compileWithFallback({ "main.tsx": "one" });
+    configureCompileCache({ maxBytes: getCompileCacheStats().bytes * 2 });
+    await compileWithFallback({ "main.tsx": "two" });
+    await compileWithFallback({ "main.tsx": "one" });
+    await compileWithFallback({ "main.tsx": "six" });
+    expect(getCompileCacheStats().entries).toBe(2);
+    executeMock.mockClear();
+
+    // "one" was used more recently than "two", so "two" was evicted.
+    await compileWithFallback({ "main.tsx": "one" });
+    expect(executeMock).not.toHaveBeenCalled();
+    await compileWithFallback({ "main.tsx": "two" });
+    expect(executeMock).toHaveBeenCalledWith("two");
+  });
+
+  it("budgets the memory tier in UTF-8 bytes", async () => {
+    const result = await compileWithFallback({ "main.tsx": "// 4.7 kΩ ±1 % 10 µF" });
+    const serialized = JSON.stringify(result);
+
+    expect(getCompileCacheStats().bytes).toBe(Buffer.byteLength(serialized, "utf8"));
+    expect(getCompileCacheStats().bytes).toBeGreaterThan(serialized.length);
+
+    clearCompileCache();
+    configureCompileCache({ maxBytes: serialized.length });
+    await compileWithFallback({ "main.tsx": "// 4.7 kΩ ±1 % 10 µF" });
+    expect(getCompileCacheStats().entries).toBe(0);
+  });
+
+  it("does not cache results from the remote fallback", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ circuit_json: [{ type: "source_component", name: "remote" }] }));
+    vi.stubGlobal("fetch", fetchMock);
+    runnerConfigMock.mockImplementationOnce(() => {
+      throw new Error("Cannot find module");
+    });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const files = { "main.tsx": "export default () => <board />" };
+      expect(await compileWithFallback(files)).toMatchObject({ ok: true, source: "remote" });
+      expect(getCompileCacheStats()).toMatchObject({ misses: 1, entries: 0 });
+
+      expect(await compileWithFallback(files)).toMatchObject({ ok: true, source: "local" });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(executeMock).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("prunes the on-disk tier on its first write and then only every 32 writes", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "circuitforge-compile-cache-"));
+    try {
+      configureCompileCache({ directory, maxDiskBytes: 0 });
+      await compileWithFallback({ "main.tsx": "one" });
+      expect(await readdir(directory)).toHaveLength(0);
+      await compileWithFallback({ "main.tsx": "two" });
+      await compileWithFallback({ "main.tsx": "six" });
+      expect(await readdir(directory)).toHaveLength(2);
+    } finally {
+      configureCompileCache({ maxDiskBytes: 512 * 1024 * 1024 });
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("reads back entries from the on-disk tier after the memory tier is cleared", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "circuitforge-compile-cache-"));
+    try {
+      configureCompileCache({ directory });
+      await compileWithFallback({ "main.tsx": "export default () => <board />" });
+      expect(await readdir(directory)).toHaveLength(1);
+
+      clearCompileCache();
+      const result = await compileWithFallback({ "main.tsx": "export default () => <board />" });
+      expect(result.ok).toBe(true);
+      expect(executeMock).toHaveBeenCalledTimes(1);
+      expect(getCompileCacheStats()).toMatchObject({ diskHits: 1, misses: 0 });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
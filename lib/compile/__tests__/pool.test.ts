@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { COMPILE_WORKER_SOURCE, CompilePool, type CompilePoolOptions } from "../pool";
+import { createSeededRandom, resolveRoutingOptions } from "../routing";
+
+// Stands in for CircuitRunner: the code string says how the "compile" behaves.
+const FAKE_WORKER_SOURCE = `
+const { parentPort } = require("node:worker_threads");
+parentPort.on("message", async ({ id, fsMap }) => {
+  const code = fsMap["main.tsx"];
+  if (code.startsWith("sleep:")) await new Promise((resolve) => setTimeout(resolve, Number(code.slice(6))));
+  if (code === "hang") while (true) {}
+  if (code === "hog") {
+    const keep = [];
+    while (true) keep.push(new Array(1e5).fill(Math.random()));
+  }
+  if (code === "bad") {
+    parentPort.postMessage({ id, ok: false, errorMessage: "Unexpected token" });
+    return;
+  }
+  parentPort.postMessage({ id, ok: true, circuitJson: [{ type: "source_component", code }] });
+});
+`;
+
+const pools: CompilePool[] = [];
+
+function createPool(options: Partial<CompilePoolOptions> = {}) {
+  const pool = new CompilePool({
+    concurrency: 1,
+    timeoutMs: 5_000,
+    maxHeapMb: 64,
+    evalEntryHref: "unused",
+    workerSource: FAKE_WORKER_SOURCE,
+    ...options,
+  });
+  pools.push(pool);
+  return pool;
+}
+
+const job = (code: string) => ({ "main.tsx": code });
+
+describe("CompilePool", () => {
+  afterEach(async () => {
+    await Promise.all(pools.splice(0).map((pool) => pool.close()));
+  });
+
+  it("compiles in a worker and reports code errors as results", async () => {
+    const pool = createPool();
+    await expect(pool.run(job("ok"))).resolves.toEqual({
+      ok: true,
+      circuitJson: [{ type: "source_component", code: "ok" }],
+      errorMessage: null,
+    });
+    await expect(pool.run(job("bad"))).resolves.toEqual({
+      ok: false,
+      circuitJson: null,
+      errorMessage: "Unexpected token",
+    });
+    expect(pool.stats).toEqual({ workers: 1, busy: 0, queued: 0 });
+  });
+
+  it("stops jobs that run out of time and keeps serving the next one", async () => {
+    const pool = createPool({ timeoutMs: 200 });
+    const result = await pool.run(job("hang"));
+    expect(result).toMatchObject({ ok: false, errorCategory: "compile_timeout" });
+    expect(result.errorMessage).toContain("200ms time limit");
+    await expect(pool.run(job("ok"))).resolves.toMatchObject({ ok: true });
+  });
+
+  it("stops jobs that exceed the heap limit", async () => {
+    const pool = createPool({ maxHeapMb: 16 });
+    const result = await pool.run(job("hog"));
+    expect(result).toMatchObject({ ok: false, errorCategory: "compile_out_of_memory" });
+    expect(result.errorMessage).toContain("16MB heap limit");
+  }, 20_000);
+
+  it("applies a job's own time and heap limits over the pool's", async () => {
+    const pool = createPool({ timeoutMs: 5_000, maxHeapMb: 64 });
+    const timedOut = await pool.run(job("hang"), { timeoutMs: 150 });
+    expect(timedOut.errorMessage).toContain("150ms time limit");
+
+    const outOfMemory = await pool.run(job("hog"), { maxHeapMb: 16 });
+    expect(outOfMemory).toMatchObject({ ok: false, errorCategory: "compile_out_of_memory" });
+    expect(outOfMemory.errorMessage).toContain("16MB heap limit");
+    await expect(pool.run(job("ok"))).resolves.toMatchObject({ ok: true });
+    expect(pool.stats.workers).toBe(1);
+  }, 20_000);
+
+  it("seeds the real worker script with createSeededRandom", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "circuitforge-compile-pool-"));
+    try {
+      const entry = join(directory, "runner.mjs");
+      await writeFile(
+        entry,
+        `export class CircuitRunner {
+          async executeWithFsMap() {}
+          async renderUntilSettled() {}
+          async getCircuitJson() { return [Math.random(), Math.random()]; }
+        }`,
+      );
+      const pool = createPool({ evalEntryHref: pathToFileURL(entry).href, workerSource: COMPILE_WORKER_SOURCE });
+      const random = createSeededRandom(42);
+      const routing = resolveRoutingOptions({ seed: 42 });
+      await expect(pool.run(job("export default () => <board />"), { routing })).resolves.toEqual({
+        ok: true,
+        circuitJson: [random(), random()],
+        errorMessage: null,
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("kills running and queued jobs when their signal aborts", async () => {
+    const pool = createPool();
+    const running = new AbortController();
+    const queued = new AbortController();
+    const first = pool.run(job("sleep:5000"), { signal: running.signal });
+    const second = pool.run(job("ok"), { signal: queued.signal });
+    queued.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+    setTimeout(() => running.abort(), 50);
+    await expect(first).rejects.toMatchObject({ name: "AbortError" });
+    expect(pool.stats.workers).toBe(0);
+    await expect(pool.run(job("ok"))).resolves.toMatchObject({ ok: true });
+  });
+
+  it("dispatches queued jobs round-robin across sessions", async () => {
+    const pool = createPool();
+    const order: string[] = [];
+    const submit = (sessionId: string, label: string) =>
+      pool.run(job(`sleep:10`), { sessionId }).then(() => order.push(label));
+
+    await Promise.all([
+      submit("a", "a1"),
+      submit("a", "a2"),
+      submit("a", "a3"),
+      submit("b", "b1"),
+      submit("c", "c1"),
+    ]);
+    expect(order).toEqual(["a1", "a2", "b1", "c1", "a3"]);
+  });
+});
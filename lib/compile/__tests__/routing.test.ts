@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { nextAlternateRouting, resolveRoutingOptions, validateRoutingOptions } from "../routing";
+
+describe("routing options", () => {
+  it("accepts local autorouters and rejects cloud presets and bad seeds", () => {
+    expect(validateRoutingOptions({ autorouter: "auto_jumper", availableJumperTypes: ["0603"], seed: 3 })).toEqual({
+      options: { autorouter: "auto_jumper", availableJumperTypes: ["0603"], seed: 3 },
+      errors: [],
+    });
+    expect(validateRoutingOptions({ autorouter: "auto_cloud", seed: -1 }).errors).toEqual([
+      "routing.autorouter must be one of: auto_local, sequential_trace, auto_jumper, laser_prefab",
+      "routing.seed must be an integer between 0 and 4294967295",
+    ]);
+    expect(validateRoutingOptions("sequential_trace").options).toBeNull();
+  });
+
+  it("fills in the default seed and drops jumper types other routers ignore", () => {
+    expect(resolveRoutingOptions({ autorouter: "sequential_trace", availableJumperTypes: ["0603"] })).toEqual({
+      autorouter: "sequential_trace",
+      availableJumperTypes: null,
+      seed: 1,
+    });
+  });
+
+  it("walks the alternate router ladder without repeating a router", () => {
+    const first = nextAlternateRouting({ seed: 9 }, []);
+    expect(first).toEqual({ autorouter: "sequential_trace", seed: 9 });
+    expect(nextAlternateRouting({ seed: 9 }, ["sequential_trace"])).toEqual({ autorouter: "auto_jumper", seed: 9 });
+    expect(nextAlternateRouting(first!, ["sequential_trace"])).toEqual({ autorouter: "auto_local", seed: 9 });
+    expect(nextAlternateRouting({}, ["sequential_trace", "auto_jumper"])).toBeNull();
+  });
+});
@@ -1,8 +1,39 @@
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  CompilePool,
+  isCompileWorkerLoadError,
+  readCompilePoolEnv,
+  type CompileJobErrorCategory,
+  type CompilePoolOptions,
+} from "./pool";
+import {
+  createSeededRandom,
+  resolveRoutingOptions,
+  toAutorouterConfig,
+  type ResolvedRoutingOptions,
+  type RoutingOptions,
+} from "./routing";
+
 export interface LocalCompileResult {
   ok: boolean;
   circuitJson: unknown[] | null;
   errorMessage: string | null;
   source: "local" | "remote";
+  /** Set when the compile was stopped by a pool limit rather than failing on the code. */
+  errorCategory?: CompileJobErrorCategory;
+}
+
+export interface CompileRunOptions {
+  /** Compile jobs are queued fairly per session; omit to share the anonymous queue. */
+  sessionId?: string | null;
+  /** Autorouter choice and seed; applies to local compiles (the remote fallback uses its own router). */
+  routing?: RoutingOptions;
+  /** Pool time limit for this compile; defaults to `CIRCUITFORGE_COMPILE_JOB_TIMEOUT_MS`. */
+  timeoutMs?: number;
+  /** Pool heap limit for this compile; defaults to `CIRCUITFORGE_COMPILE_WORKER_HEAP_MB`. */
+  maxHeapMb?: number;
 }
 
 const REMOTE_COMPILE_URL = "https://compile.tscircuit.com/api/compile";
@@ -13,13 +44,60 @@ const EVAL_ENTRY_FILE_URL = new URL(
   `file://${CWD_FILE_BASE}`,
 );
 
-type CircuitRunnerCtor = new () => {
+type CircuitRunnerCtor = new (configuration?: Record<string, unknown>) => {
   executeWithFsMap: (params: Record<string, unknown>) => Promise<void>;
   renderUntilSettled: () => Promise<void>;
   getCircuitJson: () => Promise<unknown>;
   kill?: () => void;
 };
 
+export interface CompileCacheOptions {
+  /** Memory tier budget in UTF-8 bytes of serialized results; 0 disables caching. */
+  maxBytes: number;
+  /** Directory for the on-disk tier; null keeps the cache in memory only. */
+  directory: string | null;
+  maxDiskBytes: number;
+}
+
+export interface CompileCacheStats {
+  hits: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+  /** Mean lookup time for hits and mean compile time for misses, in ms. */
+  averageHitMs: number;
+  averageMissMs: number;
+}
+
+const DEFAULT_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+const DEFAULT_CACHE_MAX_DISK_BYTES = 512 * 1024 * 1024;
+// The disk tier is pruned on the first write and then every this many writes,
+// so it can overshoot its limit by at most this many entries.
+const DISK_PRUNE_INTERVAL_WRITES = 32;
+
+function readByteLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+const compileCacheOptions: CompileCacheOptions = {
+  maxBytes: readByteLimit(process.env.CIRCUITFORGE_COMPILE_CACHE_MAX_BYTES, DEFAULT_CACHE_MAX_BYTES),
+  directory: process.env.CIRCUITFORGE_COMPILE_CACHE_DIR?.trim() || null,
+  maxDiskBytes: readByteLimit(process.env.CIRCUITFORGE_COMPILE_CACHE_MAX_DISK_BYTES, DEFAULT_CACHE_MAX_DISK_BYTES),
+};
+
+// Map iteration order doubles as LRU order: a hit is re-inserted at the end.
+const compileCache = new Map<string, string>();
+let compileCacheBytes = 0;
+let diskWritesSincePrune = 0;
+const compileCacheCounters = { memoryHits: 0, diskHits: 0, misses: 0, hitTimeMs: 0, missTimeMs: 0 };
+let evalVersionPromise: Promise<string> | null = null;
+
+let compilePoolOptions: Omit<CompilePoolOptions, "evalEntryHref"> = readCompilePoolEnv();
+let compilePool: CompilePool | null = null;
+
 let cachedCircuitRunnerCtor: CircuitRunnerCtor | null = null;
 
 function getErrorMessage(error: unknown): string {
@@ -61,20 +139,61 @@ async function loadCircuitRunnerCtor(): Promise<CircuitRunnerCtor> {
   }
 }
 
+function getCompilePool(): CompilePool {
+  compilePool ??= new CompilePool({ ...compilePoolOptions, evalEntryHref: EVAL_ENTRY_FILE_URL.href });
+  return compilePool;
+}
+
+/** Replace the pool settings (mainly for tests); running jobs finish on the old pool. */
+export function configureCompilePool(options: Partial<Omit<CompilePoolOptions, "evalEntryHref">>) {
+  compilePoolOptions = { ...compilePoolOptions, ...options };
+  const previous = compilePool;
+  compilePool = null;
+  void previous?.close();
+}
+
+export function getCompilePoolStats() {
+  return {
+    concurrency: compilePoolOptions.concurrency,
+    timeoutMs: compilePoolOptions.timeoutMs,
+    maxHeapMb: compilePoolOptions.maxHeapMb,
+    ...(compilePool?.stats ?? { workers: 0, busy: 0, queued: 0 }),
+  };
+}
+
 /**
- * Compile tscircuit TSX code locally using @tscircuit/eval.
- * No external timeout — runs until the circuit settles or the signal aborts.
+ * Tail of the in-process compile queue. The seed swaps `Math.random` for the
+ * whole thread, so overlapping compiles would read each other's generator and
+ * the last one to finish could leave a seeded `Math.random` behind for the
+ * rest of the process (repeating session and run ids).
  */
-export async function compileLocally(
+let inProcessQueue: Promise<unknown> = Promise.resolve();
+
+function runInProcessSerially<T>(job: () => Promise<T>): Promise<T> {
+  const run = inProcessQueue.then(job, job);
+  inProcessQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Compile on the calling thread. No external timeout — runs until the circuit
+ * settles or the signal aborts. Callers go through `runInProcessSerially`, so
+ * each compile sees only its own seed and restores the unseeded generator.
+ */
+async function compileInProcess(
   fsMap: Record<string, string>,
-  signal?: AbortSignal,
+  signal: AbortSignal | undefined,
+  routing: ResolvedRoutingOptions,
 ): Promise<LocalCompileResult> {
   if (signal?.aborted) {
     throw new DOMException("Compile aborted", "AbortError");
   }
 
   const CircuitRunner = await loadCircuitRunnerCtor();
-  const runner = new CircuitRunner();
+  const autorouter = toAutorouterConfig(routing);
+  const runner = new CircuitRunner(autorouter === undefined ? {} : { projectConfig: { autorouter } });
+  const unseededRandom = Math.random;
+  Math.random = createSeededRandom(routing.seed);
 
   let abortHandler: (() => void) | null = null;
   if (signal) {
@@ -112,12 +231,44 @@ export async function compileLocally(
       source: "local",
     };
   } finally {
+    Math.random = unseededRandom;
     if (signal && abortHandler) {
       signal.removeEventListener("abort", abortHandler);
     }
   }
 }
 
+/**
+ * Compile tscircuit TSX code locally using @tscircuit/eval. Jobs run in the
+ * worker pool (per-job time and heap limits, killed on abort) unless
+ * `CIRCUITFORGE_COMPILE_WORKERS=0`, which compiles on the calling thread.
+ */
+export async function compileLocally(
+  fsMap: Record<string, string>,
+  signal?: AbortSignal,
+  options: CompileRunOptions = {},
+): Promise<LocalCompileResult> {
+  const routing = resolveRoutingOptions(options.routing);
+  if (compilePoolOptions.concurrency <= 0) {
+    return runInProcessSerially(() => compileInProcess(fsMap, signal, routing));
+  }
+  try {
+    const result = await getCompilePool().run(fsMap, {
+      sessionId: options.sessionId,
+      signal,
+      routing,
+      timeoutMs: options.timeoutMs,
+      maxHeapMb: options.maxHeapMb,
+    });
+    return { ...result, source: "local" };
+  } catch (error) {
+    if (isCompileWorkerLoadError(error)) {
+      throw new Error(`Unable to load @tscircuit/eval CircuitRunner in compile worker: ${(error as Error).message}`);
+    }
+    throw error;
+  }
+}
+
 /**
  * Compile via the remote tscircuit API (fallback).
  */
@@ -169,19 +320,167 @@ export async function compileRemote(
   };
 }
 
+function readEvalVersion(): Promise<string> {
+  evalVersionPromise ??= readFile(
+    new URL("./node_modules/@tscircuit/eval/package.json", `file://${CWD_FILE_BASE}`),
+    "utf8",
+  )
+    .then((text) => String((JSON.parse(text) as { version?: unknown }).version ?? "unknown"))
+    .catch(() => "unknown");
+  return evalVersionPromise;
+}
+
+/**
+ * Content address of a compile: the fs map (order-independent), the evaluator
+ * version and the routing options, since a different router or seed can route
+ * the same code differently.
+ */
+export async function computeCompileCacheKey(
+  fsMap: Record<string, string>,
+  routing?: RoutingOptions,
+): Promise<string> {
+  const files = Object.entries(fsMap).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return createHash("sha256")
+    .update(JSON.stringify({ eval: await readEvalVersion(), files, routing: resolveRoutingOptions(routing) }))
+    .digest("hex");
+}
+
+function rememberInMemory(key: string, serialized: string) {
+  const previous = compileCache.get(key);
+  if (previous !== undefined) {
+    compileCache.delete(key);
+    compileCacheBytes -= Buffer.byteLength(previous, "utf8");
+  }
+  const bytes = Buffer.byteLength(serialized, "utf8");
+  if (bytes > compileCacheOptions.maxBytes) return;
+  compileCache.set(key, serialized);
+  compileCacheBytes += bytes;
+  for (const [oldestKey, oldest] of compileCache) {
+    if (compileCacheBytes <= compileCacheOptions.maxBytes) break;
+    compileCache.delete(oldestKey);
+    compileCacheBytes -= Buffer.byteLength(oldest, "utf8");
+  }
+}
+
+async function readFromDisk(key: string): Promise<string | null> {
+  if (!compileCacheOptions.directory) return null;
+  try {
+    return await readFile(join(compileCacheOptions.directory, `${key}.json`), "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function pruneDiskTier(directory: string) {
+  const entries = await Promise.all(
+    (await readdir(directory))
+      .filter((name) => name.endsWith(".json"))
+      .map(async (name) => {
+        const info = await stat(join(directory, name)).catch(() => null);
+        return { name, size: info?.size ?? 0, mtimeMs: info?.mtimeMs ?? 0 };
+      }),
+  );
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  for (const entry of entries.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (total <= compileCacheOptions.maxDiskBytes) break;
+    await rm(join(directory, entry.name), { force: true });
+    total -= entry.size;
+  }
+}
+
+async function writeToDisk(key: string, serialized: string) {
+  const directory = compileCacheOptions.directory;
+  if (!directory) return;
+  try {
+    await mkdir(directory, { recursive: true });
+    await writeFile(join(directory, `${key}.json`), serialized, "utf8");
+    if (diskWritesSincePrune++ % DISK_PRUNE_INTERVAL_WRITES === 0) await pruneDiskTier(directory);
+  } catch (error) {
+    console.warn("[compile] Could not write compile cache entry:", error);
+  }
+}
+
+/**
+ * Look up a compile result by content address, compiling on a miss. Results
+ * are stored serialized so every hit hands out a fresh copy. Only local
+ * results are cached, since the key names the local evaluator version: its
+ * successes, and its failures (a code error fails the same way every time)
+ * unless a pool time/memory limit, which may be transient, caused them.
+ */
+async function withCompileCache(
+  fsMap: Record<string, string>,
+  routing: RoutingOptions | undefined,
+  compile: () => Promise<LocalCompileResult>,
+): Promise<LocalCompileResult> {
+  if (compileCacheOptions.maxBytes <= 0) return compile();
+
+  const startedAt = performance.now();
+  const key = await computeCompileCacheKey(fsMap, routing);
+  const fromMemory = compileCache.get(key);
+  const serialized = fromMemory ?? (await readFromDisk(key));
+  if (serialized !== null) {
+    rememberInMemory(key, serialized);
+    compileCacheCounters[fromMemory !== undefined ? "memoryHits" : "diskHits"] += 1;
+    compileCacheCounters.hitTimeMs += performance.now() - startedAt;
+    return JSON.parse(serialized) as LocalCompileResult;
+  }
+
+  const result = await compile();
+  compileCacheCounters.misses += 1;
+  compileCacheCounters.missTimeMs += performance.now() - startedAt;
+  if (result.source === "local" && (result.ok || !result.errorCategory)) {
+    const value = JSON.stringify(result);
+    rememberInMemory(key, value);
+    await writeToDisk(key, value);
+  }
+  return result;
+}
+
+export function getCompileCacheStats(): CompileCacheStats {
+  const { memoryHits, diskHits, misses, hitTimeMs, missTimeMs } = compileCacheCounters;
+  const hits = memoryHits + diskHits;
+  return {
+    hits,
+    memoryHits,
+    diskHits,
+    misses,
+    entries: compileCache.size,
+    bytes: compileCacheBytes,
+    averageHitMs: hits > 0 ? hitTimeMs / hits : 0,
+    averageMissMs: misses > 0 ? missTimeMs / misses : 0,
+  };
+}
+
+/** Override cache limits (mainly for tests); omitted fields keep their current value. */
+export function configureCompileCache(options: Partial<CompileCacheOptions>) {
+  Object.assign(compileCacheOptions, options);
+}
+
+/** Drop the memory tier and reset metrics; the on-disk tier is left alone. */
+export function clearCompileCache() {
+  compileCache.clear();
+  compileCacheBytes = 0;
+  diskWritesSincePrune = 0;
+  Object.assign(compileCacheCounters, { memoryHits: 0, diskHits: 0, misses: 0, hitTimeMs: 0, missTimeMs: 0 });
+}
+
 /**
  * Compile with local-first strategy. Falls back to remote API if local fails
- * with an unexpected error (e.g., import resolution issues).
+ * with an unexpected error (e.g., import resolution issues). Identical fs maps
+ * are served from the compile cache.
  */
 export async function compileWithFallback(
   fsMap: Record<string, string>,
   signal?: AbortSignal,
+  options: CompileRunOptions = {},
 ): Promise<LocalCompileResult> {
-  try {
-    return await compileLocally(fsMap, signal);
-  } catch (error) {
-    if (error instanceof DOMException && error.name === "AbortError") throw error;
-    console.warn("[compile] Local compile threw, falling back to remote:", error);
-    return compileRemote(fsMap, signal);
-  }
+  return withCompileCache(fsMap, options.routing, async () => {
+    try {
+      return await compileLocally(fsMap, signal, options);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") throw error;
+      console.warn("[compile] Local compile threw, falling back to remote:", error);
+      return compileRemote(fsMap, signal);
+    }
+  });
 }
@@ -0,0 +1,337 @@
+import { availableParallelism } from "node:os";
+import { Worker } from "node:worker_threads";
+import { createSeededRandom, toAutorouterConfig, type ResolvedRoutingOptions } from "./routing";
+
+export type CompileJobErrorCategory = "compile_timeout" | "compile_out_of_memory" | "compile_worker_crashed";
+
+export interface CompileJobResult {
+  ok: boolean;
+  circuitJson: unknown[] | null;
+  errorMessage: string | null;
+  errorCategory?: CompileJobErrorCategory;
+}
+
+export interface CompilePoolOptions {
+  /** Number of worker threads compiling at once. */
+  concurrency: number;
+  /** Default wall-clock budget per job, measured from when it starts running. */
+  timeoutMs: number;
+  /** Default V8 old-generation heap limit for the worker running a job. */
+  maxHeapMb: number;
+  /** Module URL that exports `CircuitRunner`. */
+  evalEntryHref: string;
+  /** Worker script (CommonJS, run with `eval: true`); tests swap in a fake runner. */
+  workerSource?: string;
+}
+
+interface CompileJob {
+  id: number;
+  sessionKey: string;
+  fsMap: Record<string, string>;
+  autorouter: ReturnType<typeof toAutorouterConfig>;
+  seed: number | null;
+  timeoutMs: number;
+  maxHeapMb: number;
+  signal?: AbortSignal;
+  resolve: (result: CompileJobResult) => void;
+  reject: (error: unknown) => void;
+  detachAbort: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  maxHeapMb: number;
+  job: CompileJob | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/** Sent by the worker when `CircuitRunner` itself cannot be loaded (not a code error). */
+class CompileWorkerLoadError extends Error {}
+
+const ANONYMOUS_SESSION = "anonymous";
+
+/**
+ * Runs one job at a time: loads `CircuitRunner` once, then compiles each
+ * `{ id, fsMap, autorouter, seed }` message and replies with
+ * `{ id, ok, circuitJson | errorMessage }`. The autorouter goes into the
+ * runner's project config, which boards fall back to when they set no
+ * `autorouter` prop. A seed replaces `Math.random` with `createSeededRandom`,
+ * whose source is inlined, for the job.
+ */
+export const COMPILE_WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+let runnerCtor = null;
+function loadRunner() {
+  runnerCtor ??= import(workerData.evalEntryHref).then((loaded) => {
+    if (typeof loaded.CircuitRunner !== "function") {
+      throw new Error("@tscircuit/eval did not export a CircuitRunner constructor");
+    }
+    return loaded.CircuitRunner;
+  });
+  return runnerCtor;
+}
+const unseededRandom = Math.random;
+const seededRandom = ${createSeededRandom.toString()};
+parentPort.on("message", async ({ id, fsMap, autorouter, seed }) => {
+  let CircuitRunner;
+  try {
+    CircuitRunner = await loadRunner();
+  } catch (error) {
+    parentPort.postMessage({ id, loadError: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  Math.random = seed === null ? unseededRandom : seededRandom(seed);
+  try {
+    const runner = new CircuitRunner(autorouter === undefined ? {} : { projectConfig: { autorouter } });
+    const hasExportDefault = fsMap["main.tsx"]?.includes("export default");
+    await runner.executeWithFsMap({
+      fsMap,
+      ...(hasExportDefault ? { mainComponentPath: "main.tsx" } : { entrypoint: "main.tsx" }),
+    });
+    await runner.renderUntilSettled();
+    parentPort.postMessage({ id, ok: true, circuitJson: await runner.getCircuitJson() });
+  } catch (error) {
+    parentPort.postMessage({ id, ok: false, errorMessage: error instanceof Error ? error.message : String(error) });
+  }
+});
+`;
+
+function readNonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/** Pool sizing from env; `CIRCUITFORGE_COMPILE_WORKERS=0` compiles on the request thread instead. */
+export function readCompilePoolEnv(): Omit<CompilePoolOptions, "evalEntryHref" | "workerSource"> {
+  return {
+    concurrency: readNonNegativeInt(
+      process.env.CIRCUITFORGE_COMPILE_WORKERS,
+      Math.max(1, Math.min(4, availableParallelism() - 1)),
+    ),
+    timeoutMs: readNonNegativeInt(process.env.CIRCUITFORGE_COMPILE_JOB_TIMEOUT_MS, 180_000) || 180_000,
+    maxHeapMb: readNonNegativeInt(process.env.CIRCUITFORGE_COMPILE_WORKER_HEAP_MB, 2048) || 2048,
+  };
+}
+
+function abortError(): DOMException {
+  return new DOMException("Compile aborted", "AbortError");
+}
+
+/**
+ * A fixed-size pool of compile workers. Each job runs under its own time and
+ * heap limits (the pool's unless `run` overrides them); a job that exceeds either, or whose AbortSignal fires,
+ * takes its worker down with it and a fresh worker replaces it. Waiting jobs
+ * are queued per session and dispatched round-robin, so one session queuing
+ * many compiles cannot starve the others.
+ */
+export class CompilePool {
+  private readonly options: CompilePoolOptions;
+  private readonly workers: PoolWorker[] = [];
+  // Insertion order is the round-robin order; a session moves to the back after each dispatch.
+  private readonly queues = new Map<string, CompileJob[]>();
+  private nextJobId = 1;
+
+  constructor(options: CompilePoolOptions) {
+    this.options = options;
+  }
+
+  get stats() {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter((entry) => entry.job).length,
+      queued: Array.from(this.queues.values()).reduce((sum, queue) => sum + queue.length, 0),
+    };
+  }
+
+  run(
+    fsMap: Record<string, string>,
+    options: {
+      sessionId?: string | null;
+      signal?: AbortSignal;
+      routing?: ResolvedRoutingOptions;
+      /** This job's time limit; defaults to the pool's. */
+      timeoutMs?: number;
+      /** This job's heap limit; a worker spawned with another limit is replaced. Defaults to the pool's. */
+      maxHeapMb?: number;
+    } = {},
+  ): Promise<CompileJobResult> {
+    if (options.signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<CompileJobResult>((resolve, reject) => {
+      const job: CompileJob = {
+        id: this.nextJobId++,
+        sessionKey: options.sessionId?.trim() || ANONYMOUS_SESSION,
+        fsMap,
+        autorouter: options.routing ? toAutorouterConfig(options.routing) : undefined,
+        seed: options.routing?.seed ?? null,
+        timeoutMs: options.timeoutMs ?? this.options.timeoutMs,
+        maxHeapMb: options.maxHeapMb ?? this.options.maxHeapMb,
+        signal: options.signal,
+        resolve,
+        reject,
+        detachAbort: () => {},
+      };
+      if (options.signal) {
+        const onAbort = () => this.abort(job);
+        options.signal.addEventListener("abort", onAbort, { once: true });
+        job.detachAbort = () => options.signal?.removeEventListener("abort", onAbort);
+      }
+      const queue = this.queues.get(job.sessionKey) ?? [];
+      queue.push(job);
+      this.queues.set(job.sessionKey, queue);
+      this.dispatch();
+    });
+  }
+
+  /** Terminate all workers and fail queued jobs. */
+  async close() {
+    for (const queue of this.queues.values()) {
+      for (const job of queue) this.settle(job, () => job.reject(abortError()));
+    }
+    this.queues.clear();
+    await Promise.all(
+      this.workers.splice(0).map((entry) => {
+        const job = entry.job;
+        if (job) this.settle(job, () => job.reject(abortError()));
+        return this.retire(entry);
+      }),
+    );
+  }
+
+  private takeNextJob(): CompileJob | null {
+    for (const [sessionKey, queue] of this.queues) {
+      this.queues.delete(sessionKey);
+      const job = queue.shift();
+      if (queue.length > 0) this.queues.set(sessionKey, queue);
+      if (job) return job;
+    }
+    return null;
+  }
+
+  private dispatch() {
+    while (this.queues.size > 0) {
+      const idle = this.workers.find((candidate) => !candidate.job);
+      if (!idle && this.workers.length >= Math.max(1, this.options.concurrency)) return;
+      const job = this.takeNextJob();
+      if (!job) return;
+      // Heap limits are fixed when a worker starts, so a job with another limit gets a fresh worker.
+      let entry = this.workers.find((candidate) => !candidate.job && candidate.maxHeapMb === job.maxHeapMb);
+      if (!entry) {
+        if (idle) {
+          this.workers.splice(this.workers.indexOf(idle), 1);
+          void this.retire(idle);
+        }
+        entry = this.spawn(job.maxHeapMb);
+      }
+      entry.job = job;
+      entry.timer = setTimeout(() => {
+        this.fail(entry!, {
+          ok: false,
+          circuitJson: null,
+          errorMessage: `Compile exceeded the ${job.timeoutMs}ms time limit and was stopped.`,
+          errorCategory: "compile_timeout",
+        });
+      }, job.timeoutMs);
+      entry.worker.postMessage({ id: job.id, fsMap: job.fsMap, autorouter: job.autorouter, seed: job.seed });
+    }
+  }
+
+  private spawn(maxHeapMb: number): PoolWorker {
+    const worker = new Worker(this.options.workerSource ?? COMPILE_WORKER_SOURCE, {
+      eval: true,
+      workerData: { evalEntryHref: this.options.evalEntryHref },
+      resourceLimits: { maxOldGenerationSizeMb: maxHeapMb },
+    });
+    const entry: PoolWorker = { worker, maxHeapMb, job: null, timer: null };
+    worker.on("message", (message: { id: number; ok?: boolean; circuitJson?: unknown; errorMessage?: string; loadError?: string }) => {
+      const job = entry.job;
+      if (!job || job.id !== message.id) return;
+      this.release(entry);
+      if (message.loadError !== undefined) {
+        this.settle(job, () => job.reject(new CompileWorkerLoadError(message.loadError)));
+      } else {
+        this.settle(job, () =>
+          job.resolve({
+            ok: message.ok === true,
+            circuitJson: message.ok ? ((message.circuitJson as unknown[] | null) ?? null) : null,
+            errorMessage: message.ok ? null : message.errorMessage ?? "Compile failed",
+          }),
+        );
+      }
+      this.dispatch();
+    });
+    worker.on("error", (error: Error & { code?: string }) => {
+      const outOfMemory = error.code === "ERR_WORKER_OUT_OF_MEMORY";
+      this.fail(entry, {
+        ok: false,
+        circuitJson: null,
+        errorMessage: outOfMemory
+          ? `Compile ran out of memory (${maxHeapMb}MB heap limit) and was stopped.`
+          : `Compile worker crashed: ${error.message}`,
+        errorCategory: outOfMemory ? "compile_out_of_memory" : "compile_worker_crashed",
+      });
+    });
+    worker.on("exit", () => {
+      this.fail(entry, {
+        ok: false,
+        circuitJson: null,
+        errorMessage: "Compile worker exited before finishing the job.",
+        errorCategory: "compile_worker_crashed",
+      });
+    });
+    // Idle workers should not keep the process alive; a running job's timer does.
+    // Must come after the listeners, which re-ref the worker's port.
+    worker.unref();
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private release(entry: PoolWorker) {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = null;
+    entry.job = null;
+  }
+
+  private settle(job: CompileJob, finish: () => void) {
+    job.detachAbort();
+    finish();
+  }
+
+  private async retire(entry: PoolWorker) {
+    this.release(entry);
+    entry.worker.removeAllListeners();
+    await entry.worker.terminate();
+  }
+
+  /** Drop a worker whose job hit a limit or crashed, and report the result. */
+  private fail(entry: PoolWorker, result: CompileJobResult) {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+    const job = entry.job;
+    void this.retire(entry);
+    if (job) this.settle(job, () => job.resolve(result));
+    this.dispatch();
+  }
+
+  private abort(job: CompileJob) {
+    const queue = this.queues.get(job.sessionKey);
+    const queuedAt = queue?.indexOf(job) ?? -1;
+    if (queue && queuedAt !== -1) {
+      queue.splice(queuedAt, 1);
+      if (queue.length === 0) this.queues.delete(job.sessionKey);
+      this.settle(job, () => job.reject(abortError()));
+      return;
+    }
+    const entry = this.workers.find((candidate) => candidate.job === job);
+    if (!entry) return;
+    this.workers.splice(this.workers.indexOf(entry), 1);
+    void this.retire(entry);
+    this.settle(job, () => job.reject(abortError()));
+    this.dispatch();
+  }
+}
+
+export function isCompileWorkerLoadError(error: unknown): boolean {
+  return error instanceof CompileWorkerLoadError;
+}
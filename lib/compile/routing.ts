@@ -0,0 +1,127 @@
+/** Autorouter presets that run inside the compile (cloud presets would leave the worker sandbox). */
+export const ROUTING_AUTOROUTERS = ["auto_local", "sequential_trace", "auto_jumper", "laser_prefab"] as const;
+export type RoutingAutorouter = (typeof ROUTING_AUTOROUTERS)[number];
+
+export const ROUTING_JUMPER_TYPES = ["0603", "1206x4"] as const;
+export type RoutingJumperType = (typeof ROUTING_JUMPER_TYPES)[number];
+
+export interface RoutingOptions {
+  /** Autorouter for boards that do not set their own `autorouter` prop; omitted keeps the tscircuit default. */
+  autorouter?: RoutingAutorouter;
+  /** Jumper footprints the `auto_jumper` router may place. */
+  availableJumperTypes?: RoutingJumperType[];
+  /** Seeds `Math.random` for the compile, so the same code routes the same way on every run. */
+  seed?: number;
+}
+
+/** Routing options with defaults applied; the form sent to compile workers and hashed into cache keys. */
+export interface ResolvedRoutingOptions {
+  autorouter: RoutingAutorouter | null;
+  availableJumperTypes: RoutingJumperType[] | null;
+  seed: number;
+}
+
+/**
+ * Router settings the repair loop tries, in order, when routing failures
+ * dominate. Each differs from the others in how nets are grouped or whether
+ * jumpers are allowed; none of them changes the layout code.
+ */
+const ALTERNATE_AUTOROUTERS: RoutingAutorouter[] = ["sequential_trace", "auto_local", "auto_jumper"];
+
+const MAX_SEED = 0xffffffff;
+
+function readSeed(value: string | undefined): number {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed >= 0 && parsed <= MAX_SEED ? parsed : 1;
+}
+
+/** Seed used when a request does not pass one (`CIRCUITFORGE_ROUTING_SEED`, default 1). */
+export const DEFAULT_ROUTING_SEED = readSeed(process.env.CIRCUITFORGE_ROUTING_SEED);
+
+export function resolveRoutingOptions(options: RoutingOptions = {}): ResolvedRoutingOptions {
+  const autorouter = options.autorouter ?? null;
+  return {
+    autorouter,
+    availableJumperTypes:
+      autorouter === "auto_jumper" && options.availableJumperTypes?.length
+        ? [...new Set(options.availableJumperTypes)].sort()
+        : null,
+    seed: options.seed ?? DEFAULT_ROUTING_SEED,
+  };
+}
+
+/** The `autorouter` value for the runner's project config, or undefined to leave the default in place. */
+export function toAutorouterConfig(
+  routing: ResolvedRoutingOptions,
+): string | { preset: string; availableJumperTypes: RoutingJumperType[] } | undefined {
+  if (!routing.autorouter) return undefined;
+  return routing.availableJumperTypes
+    ? { preset: routing.autorouter, availableJumperTypes: routing.availableJumperTypes }
+    : routing.autorouter;
+}
+
+/** mulberry32: small, fast and good enough to make autorouter tie-breaking repeatable. */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * The next router setting to retry with, skipping the one in use and any
+ * already tried; null once the alternatives are used up. The seed is kept so
+ * only the router changes between attempts.
+ */
+export function nextAlternateRouting(current: RoutingOptions, tried: RoutingAutorouter[]): RoutingOptions | null {
+  const inUse = current.autorouter ?? "auto_local";
+  const autorouter = ALTERNATE_AUTOROUTERS.find((candidate) => candidate !== inUse && !tried.includes(candidate));
+  if (!autorouter) return null;
+  return {
+    autorouter,
+    ...(current.seed !== undefined ? { seed: current.seed } : {}),
+    ...(autorouter === "auto_jumper" && current.availableJumperTypes
+      ? { availableJumperTypes: current.availableJumperTypes }
+      : {}),
+  };
+}
+
+/** Validates a `routing` request field: a known local autorouter, jumper types and a 32-bit unsigned seed. */
+export function validateRoutingOptions(input: unknown): { options: RoutingOptions | null; errors: string[] } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { options: null, errors: ["routing must be an object"] };
+  }
+  const raw = input as Record<string, unknown>;
+  const options: RoutingOptions = {};
+  const errors: string[] = [];
+
+  if (raw.autorouter !== undefined) {
+    if (ROUTING_AUTOROUTERS.includes(raw.autorouter as RoutingAutorouter)) {
+      options.autorouter = raw.autorouter as RoutingAutorouter;
+    } else {
+      errors.push(`routing.autorouter must be one of: ${ROUTING_AUTOROUTERS.join(", ")}`);
+    }
+  }
+  if (raw.availableJumperTypes !== undefined) {
+    if (
+      Array.isArray(raw.availableJumperTypes) &&
+      raw.availableJumperTypes.every((type) => ROUTING_JUMPER_TYPES.includes(type as RoutingJumperType))
+    ) {
+      options.availableJumperTypes = raw.availableJumperTypes as RoutingJumperType[];
+    } else {
+      errors.push(`routing.availableJumperTypes must be an array of: ${ROUTING_JUMPER_TYPES.join(", ")}`);
+    }
+  }
+  if (raw.seed !== undefined) {
+    if (typeof raw.seed === "number" && Number.isInteger(raw.seed) && raw.seed >= 0 && raw.seed <= MAX_SEED) {
+      options.seed = raw.seed;
+    } else {
+      errors.push(`routing.seed must be an integer between 0 and ${MAX_SEED}`);
+    }
+  }
+  return errors.length > 0 ? { options: null, errors } : { options, errors };
+}
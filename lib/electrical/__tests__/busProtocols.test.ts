@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import { runBusProtocolChecks } from "../busProtocols";
+
+type Pin = { label: string; net?: string };
+
+/** A component whose pins join named nets, unplaced. */
+function part(name: string, ftype: string, pins: Pin[], extra: Record<string, unknown> = {}) {
+  const id = name.toLowerCase();
+  return [
+    { type: "source_component", source_component_id: `sc_${id}`, ftype, name, ...extra },
+    ...pins.flatMap((pin, index) => {
+      const portId = `sp_${id}_${index + 1}`;
+      return [
+        {
+          type: "source_port",
+          source_port_id: portId,
+          source_component_id: `sc_${id}`,
+          name: pin.label,
+          pin_number: index + 1,
+          port_hints: [pin.label, `pin${index + 1}`],
+        },
+        ...(pin.net
+          ? [
+              {
+                type: "source_trace",
+                source_trace_id: `st_${id}_${index + 1}`,
+                connected_source_port_ids: [portId],
+                connected_source_net_ids: [`net_${pin.net}`],
+              },
+            ]
+          : []),
+      ];
+    }),
+  ];
+}
+
+function nets(...names: string[]) {
+  return ["V3V3", "GND", ...names].map((name) => ({
+    type: "source_net",
+    source_net_id: `net_${name}`,
+    name,
+    is_ground: name === "GND",
+  }));
+}
+
+function chip(name: string, mpn: string, pins: Pin[]) {
+  return part(
+    name,
+    "simple_chip",
+    [{ label: "VDD", net: "V3V3" }, { label: "GND", net: "GND" }, ...pins],
+    { manufacturer_part_number: mpn },
+  );
+}
+
+function resistor(name: string, ohms: number, a: string, b: string) {
+  return part(
+    name,
+    "simple_resistor",
+    [
+      { label: "pin1", net: a },
+      { label: "pin2", net: b },
+    ],
+    { resistance: ohms },
+  );
+}
+
+function summarize(findings: ReturnType<typeof runBusProtocolChecks>) {
+  return findings.map((finding) => [finding.category, finding.severity, finding.signature]);
+}
+
+describe("bus protocol checks", () => {
+  it("needs exactly one pull-up on each I2C line", () => {
+    const findings = runBusProtocolChecks([
+      ...nets("I2C_SDA", "I2C_SCL"),
+      ...chip("U1", "ESP32-C3-MINI-1", [
+        { label: "SDA", net: "I2C_SDA" },
+        { label: "SCL", net: "I2C_SCL" },
+      ]),
+      ...chip("U2", "BME280", [
+        { label: "SDI", net: "I2C_SDA" },
+        { label: "SCK", net: "I2C_SCL" },
+      ]),
+      ...resistor("R1", 4700, "I2C_SCL", "V3V3"),
+      ...resistor("R2", 4700, "I2C_SCL", "V3V3"),
+    ]);
+    expect(summarize(findings)).toEqual([
+      ["bus_i2c_pullup_multiple", 6, "bus_i2c_pullup_multiple|I2C_SCL"],
+      ["bus_i2c_pullup_missing", 7, "bus_i2c_pullup_missing|I2C_SDA"],
+    ]);
+    expect(findings[1].message).toBe(
+      "I2C SDA net I2C_SDA (U1.SDA, U2.SDI) has no pull-up resistor to a supply rail; the open-drain line never returns high. Add one 4.7kΩ pull-up.",
+    );
+    expect(findings[1].suggestion).toBe(
+      '<resistor name="R_SDA" resistance="4.7k" footprint="0402" /> <trace from=".R_SDA > .pin1" to=".U1 > .SDA" /> <trace from=".R_SDA > .pin2" to="net.V3V3" />',
+    );
+    expect(findings[0].message).toContain("has 2 pull-up resistors (R1, R2) in parallel (2.35kΩ)");
+    expect(findings[0].suggestion).toBe("Remove R2 and its traces; keep R1 as the only SCL pull-up.");
+  });
+
+  it("flags UART lines wired TX to TX and RX to RX", () => {
+    const findings = runBusProtocolChecks([
+      ...nets("UART_A", "UART_B"),
+      ...chip("U1", "ESP32-C3-MINI-1", [
+        { label: "U0TXD", net: "UART_A" },
+        { label: "U0RXD", net: "UART_B" },
+      ]),
+      ...chip("U2", "CH340C", [
+        { label: "TXD", net: "UART_A" },
+        { label: "RXD", net: "UART_B" },
+      ]),
+      ...part("J1", "simple_pin_header", [{ label: "TX", net: "UART_A" }]),
+    ]);
+    expect(summarize(findings)).toEqual([
+      ["bus_uart_tx_to_tx", 8, "bus_uart_tx_to_tx|UART_A"],
+      ["bus_uart_rx_to_rx", 7, "bus_uart_rx_to_rx|UART_B"],
+    ]);
+    expect(findings[0].suggestion).toBe(
+      'Remove the trace joining .U1 > .U0TXD and .U2 > .TXD and connect <trace from=".U1 > .U0TXD" to=".U2 > .RXD" /> <trace from=".U2 > .TXD" to=".U1 > .U0RXD" />.',
+    );
+  });
+
+  it("gives every SPI peripheral its own chip select", () => {
+    const findings = runBusProtocolChecks([
+      ...nets("SCK", "CS_SHARED"),
+      ...chip("U1", "STM32F103C8T6", [
+        { label: "PA5", net: "SCK" },
+        { label: "PA3" },
+        { label: "PA4" },
+        { label: "NRST" },
+      ]),
+      ...chip("U2", "W25Q32JVSSIQ", [
+        { label: "CLK", net: "SCK" },
+        { label: "CS", net: "CS_SHARED" },
+      ]),
+      ...chip("U3", "W25Q32JVSSIQ", [
+        { label: "CLK", net: "SCK" },
+        { label: "CS", net: "CS_SHARED" },
+      ]),
+      ...chip("U4", "MAX31855", [
+        { label: "SCK", net: "SCK" },
+        { label: "CS" },
+      ]),
+    ]);
+    expect(summarize(findings)).toEqual([
+      ["bus_spi_cs_unconnected", 7, "bus_spi_cs_unconnected|U4|CS"],
+      ["bus_spi_cs_shared", 8, "bus_spi_cs_shared|SCK|CS_SHARED"],
+    ]);
+    expect(findings[0].suggestion).toBe('<trace from=".U4 > .CS" to=".U1 > .PA3" />');
+    expect(findings[1].message).toBe(
+      "SPI peripherals U2, U3 on SCK share chip select net CS_SHARED; selecting one selects all and their MISO outputs collide. Give each its own U1 GPIO.",
+    );
+    expect(findings[1].suggestion).toBe(
+      'Remove .U3 > .CS from CS_SHARED and connect <trace from=".U3 > .CS" to=".U1 > .PA4" />',
+    );
+  });
+
+  it("asks for USB series resistors and ESD protection at the connector", () => {
+    const connector = part("J1", "simple_chip", [
+      { label: "VBUS", net: "VBUS" },
+      { label: "DP", net: "USB_DP" },
+      { label: "DM", net: "USB_DM" },
+      { label: "GND", net: "GND" },
+    ]);
+    const direct = runBusProtocolChecks([
+      ...nets("VBUS", "USB_DP", "USB_DM"),
+      ...connector,
+      ...chip("U1", "RP2040", [
+        { label: "USB_DP", net: "USB_DP" },
+        { label: "USB_DM", net: "USB_DM" },
+        { label: "RUN" },
+      ]),
+    ]);
+    expect(summarize(direct)).toEqual([
+      ["bus_usb_series_resistor_missing", 7, "bus_usb_series_resistor_missing|U1"],
+      ["bus_usb_esd_missing", 6, "bus_usb_esd_missing|J1"],
+    ]);
+    expect(direct[0].message).toBe(
+      "U1 (RP2040) USB_DP, USB_DM connect straight to J1; its USB PHY needs 27Ω series resistors on D+ and D- for impedance matching.",
+    );
+    expect(direct[1].suggestion).toContain('<trace from=".U_ESD > .IO1" to=".J1 > .DP" />');
+    expect(direct[1].suggestion).toContain('<trace from=".U_ESD > .VBUS" to="net.VBUS" />');
+
+    const protectedBoard = runBusProtocolChecks([
+      ...nets("VBUS", "USB_DP", "USB_DM", "DP_CHIP", "DM_CHIP"),
+      ...connector,
+      ...chip("U1", "RP2040", [
+        { label: "USB_DP", net: "DP_CHIP" },
+        { label: "USB_DM", net: "DM_CHIP" },
+      ]),
+      ...resistor("R1", 27, "DP_CHIP", "USB_DP"),
+      ...resistor("R2", 27, "DM_CHIP", "USB_DM"),
+      ...part(
+        "U5",
+        "simple_chip",
+        [
+          { label: "IO1", net: "DP_CHIP" },
+          { label: "IO2", net: "DM_CHIP" },
+          { label: "GND", net: "GND" },
+        ],
+        { manufacturer_part_number: "USBLC6-2SC6" },
+      ),
+    ]);
+    expect(protectedBoard).toEqual([]);
+  });
+
+  it("requires reset and boot pins to rest at a defined level", () => {
+    const circuit = [
+      ...nets("EN_NET"),
+      ...chip("U1", "STM32F103C8T6", [{ label: "NRST" }, { label: "BOOT0" }]),
+      ...chip("U2", "ESP32-C3-MINI-1", [{ label: "EN", net: "EN_NET" }]),
+      ...part("SW1", "simple_push_button", [
+        { label: "pin1", net: "EN_NET" },
+        { label: "pin2", net: "GND" },
+      ]),
+      ...part("C1", "simple_capacitor", [
+        { label: "pin1", net: "EN_NET" },
+        { label: "pin2", net: "GND" },
+      ]),
+    ];
+    const findings = runBusProtocolChecks(circuit);
+    expect(summarize(findings)).toEqual([
+      ["bus_boot_pin_floating", 7, "bus_boot_pin_floating|U1|BOOT0"],
+      ["bus_reset_pin_floating", 7, "bus_reset_pin_floating|U2|EN"],
+    ]);
+    expect(findings[0].suggestion).toBe(
+      '<resistor name="R_BOOT0" resistance="10k" footprint="0402" /> <trace from=".R_BOOT0 > .pin1" to=".U1 > .BOOT0" /> <trace from=".R_BOOT0 > .pin2" to="net.GND" />',
+    );
+    expect(findings[1].message).toBe(
+      "U2 EN floats (net EN_NET has only a button or capacitor); an undefined reset level resets or holds the chip at random. Pull it up to its supply.",
+    );
+
+    const pulled = runBusProtocolChecks([...circuit, ...resistor("R1", 10000, "EN_NET", "V3V3")]);
+    expect(summarize(pulled)).toEqual([["bus_boot_pin_floating", 7, "bus_boot_pin_floating|U1|BOOT0"]]);
+  });
+});
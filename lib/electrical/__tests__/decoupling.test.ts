@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { runDecouplingChecks } from "../decoupling";
+import { buildElectricalNetlist } from "../netlist";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+type Pin = { label: string; net?: string; x: number; y: number };
+
+/** A placed component whose pins join named nets; `x`/`y` are absolute pad positions. */
+function part(name: string, ftype: string, center: [number, number], pins: Pin[], extra: Record<string, unknown> = {}) {
+  const id = name.toLowerCase();
+  return [
+    { type: "source_component", source_component_id: `sc_${id}`, ftype, name, ...extra },
+    {
+      type: "pcb_component",
+      pcb_component_id: `pc_${id}`,
+      source_component_id: `sc_${id}`,
+      center: { x: center[0], y: center[1] },
+      width: 1,
+      height: 1,
+      layer: "top",
+    },
+    ...pins.flatMap((pin, index) => {
+      const portId = `sp_${id}_${index + 1}`;
+      return [
+        {
+          type: "source_port",
+          source_port_id: portId,
+          source_component_id: `sc_${id}`,
+          name: pin.label,
+          pin_number: index + 1,
+          port_hints: [pin.label, `pin${index + 1}`],
+        },
+        { type: "pcb_port", pcb_port_id: `pp_${id}_${index + 1}`, source_port_id: portId, x: pin.x, y: pin.y },
+        ...(pin.net
+          ? [
+              {
+                type: "source_trace",
+                source_trace_id: `st_${id}_${index + 1}`,
+                connected_source_port_ids: [portId],
+                connected_source_net_ids: [`net_${pin.net}`],
+              },
+            ]
+          : []),
+      ];
+    }),
+  ];
+}
+
+const nets = [
+  { type: "source_net", source_net_id: "net_V3V3", name: "V3V3", is_power: true },
+  { type: "source_net", source_net_id: "net_GND", name: "GND", is_ground: true },
+  { type: "source_net", source_net_id: "net_SDA", name: "SDA" },
+];
+
+function capacitor(name: string, x: number, y: number, supply = "V3V3") {
+  return part(
+    name,
+    "simple_capacitor",
+    [x, y],
+    [
+      { label: "pin1", net: supply, x: x - 0.5, y },
+      { label: "pin2", net: "GND", x: x + 0.5, y },
+    ],
+    { capacitance: 1e-7, display_capacitance: "100nF" },
+  );
+}
+
+const mcuPins: Pin[] = [
+  { label: "VDD1", net: "V3V3", x: -2, y: 2 },
+  { label: "VDD2", net: "V3V3", x: -2, y: 1 },
+  { label: "VDDA", net: "V3V3", x: -2, y: 0 },
+  { label: "VSS", net: "GND", x: 2, y: 0 },
+  { label: "PB7", net: "SDA", x: 2, y: 1 },
+  { label: "VDD3", x: 2, y: 2 },
+];
+
+describe("decoupling checks", () => {
+  it("reports power pins left without a capacitor of their own", () => {
+    const findings = runDecouplingChecks([
+      ...nets,
+      ...part("U1", "simple_chip", [0, 0], mcuPins),
+      ...capacitor("C1", -3, 2),
+    ]);
+    expect(findings).toEqual([
+      {
+        category: "decoupling_missing",
+        message:
+          "U1 has 3 power pin(s) on V3V3 (VDD1, VDD2, VDDA) but only 1 decoupling capacitor(s) to GND; add a 100nF capacitor from V3V3 to GND next to VDD2, VDDA. (at -2.00,1.00)",
+        severity: 7,
+        signature: "decoupling_missing|U1|V3V3",
+        source: "tscircuit",
+        family: "decoupling_missing",
+        handling: "must_repair",
+      },
+    ]);
+  });
+
+  it("pairs capacitors nearest-first and flags ones placed too far from their pin", () => {
+    const circuit = [
+      ...nets,
+      ...part("U1", "simple_chip", [0, 0], mcuPins),
+      ...capacitor("C1", -3, 2),
+      ...capacitor("C2", -3, 1),
+      ...capacitor("C3", -12, 0),
+    ];
+    const findings = runDecouplingChecks(circuit);
+    expect(findings.map((finding) => [finding.category, finding.severity, finding.signature])).toEqual([
+      ["decoupling_distant", 6, "decoupling_distant|U1|VDDA|C3"],
+    ]);
+    expect(findings[0].message).toBe(
+      "C3 (100nF) decouples U1.VDDA on V3V3 from 10.0mm away; place it within 5mm of the pin. (at -2.00,0.00)",
+    );
+    expect(runDecouplingChecks(circuit, { maxDistanceMm: 12 })).toEqual([]);
+  });
+
+  it("finds unlabelled power pins by their supply net and ignores passives", () => {
+    const chip = part("U2", "simple_chip", [0, 0], [
+      { label: "pin1", net: "V3V3", x: -1, y: 0 },
+      { label: "pin2", net: "GND", x: 1, y: 0 },
+    ]);
+    const findings = runDecouplingChecks([...nets, ...chip, ...capacitor("C9", 0, 8, "SDA")]);
+    expect(findings.map((finding) => finding.message)).toEqual([
+      "U2 has 1 power pin(s) on V3V3 (pin1) but no decoupling capacitor to GND; add a 100nF capacitor from V3V3 to GND next to pin1. (at -1.00,0.00)",
+    ]);
+    expect(runDecouplingChecks(simpleCircuit)).toEqual([]);
+  });
+
+  it("resolves pins to nets with positions and supply flags", () => {
+    const netlist = buildElectricalNetlist([...nets, ...part("U1", "simple_chip", [0, 0], mcuPins)]);
+    const vdd = netlist.components[0].pins[0];
+    expect(vdd).toMatchObject({ name: "VDD1", labels: ["VDD1", "pin1"], netName: "V3V3", position: { x: -2, y: 2 } });
+    expect(netlist.nets.get("V3V3")).toMatchObject({ isPower: true, isGround: false });
+    expect(netlist.nets.get("GND")).toMatchObject({ isPower: false, isGround: true });
+    expect(netlist.components[0].pins[5].netName).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { computePowerBudget, formatPowerBudgetTable, parsePowerBudgetInput } from "../powerBudget";
+import { analyzePowerTree } from "../powerTree";
+
+type Pin = { label: string; net?: string };
+
+/** A component whose pins join named nets, placed at the origin. */
+function part(name: string, ftype: string, pins: Pin[], extra: Record<string, unknown> = {}) {
+  const id = name.toLowerCase();
+  return [
+    { type: "source_component", source_component_id: `sc_${id}`, ftype, name, ...extra },
+    ...pins.flatMap((pin, index) => {
+      const portId = `sp_${id}_${index + 1}`;
+      return [
+        {
+          type: "source_port",
+          source_port_id: portId,
+          source_component_id: `sc_${id}`,
+          name: pin.label,
+          pin_number: index + 1,
+          port_hints: [pin.label, `pin${index + 1}`],
+        },
+        ...(pin.net
+          ? [
+              {
+                type: "source_trace",
+                source_trace_id: `st_${id}_${index + 1}`,
+                connected_source_port_ids: [portId],
+                connected_source_net_ids: [`net_${pin.net}`],
+              },
+            ]
+          : []),
+      ];
+    }),
+  ];
+}
+
+function nets(...names: string[]) {
+  return names.map((name) => ({ type: "source_net", source_net_id: `net_${name}`, name, is_ground: name === "GND" }));
+}
+
+function chip(name: string, mpn: string, supply: string) {
+  return part(
+    name,
+    "simple_chip",
+    [
+      { label: "VDD", net: supply },
+      { label: "GND", net: "GND" },
+    ],
+    { manufacturer_part_number: mpn },
+  );
+}
+
+function board(regulatorMpn: string, input: string, loads: unknown[]) {
+  return [
+    ...nets(input, "V3V3", "GND"),
+    ...part("J1", "simple_pin_header", [
+      { label: "pin1", net: input },
+      { label: "pin2", net: "GND" },
+    ]),
+    ...part(
+      "U1",
+      "simple_chip",
+      [
+        { label: "VIN", net: input },
+        { label: "GND", net: "GND" },
+        { label: "VOUT", net: "V3V3" },
+      ],
+      { manufacturer_part_number: regulatorMpn },
+    ),
+    ...loads,
+  ];
+}
+
+function budgetFor(circuit: unknown[], input = {}) {
+  return computePowerBudget(circuit, analyzePowerTree(circuit).tree, input);
+}
+
+describe("power budget", () => {
+  it("sums loads per rail through the regulator and estimates its dissipation", () => {
+    const { budget, diagnostics } = budgetFor(
+      board("AMS1117-3.3", "VBUS", [
+        ...chip("U2", "ESP32-C3-MINI-1", "V3V3"),
+        ...chip("U3", "BME280", "V3V3"),
+        ...part("D1", "simple_led", [
+          { label: "anode", net: "V3V3" },
+          { label: "cathode", net: "GND" },
+        ]),
+      ]),
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(budget.rails).toEqual([
+      { net: "VBUS", voltage: 5, typicalMa: 90.01, maxMa: 371, loads: [] },
+      {
+        net: "V3V3",
+        voltage: 3.3,
+        typicalMa: 90.01,
+        maxMa: 371,
+        loads: [
+          { component: "U2", typicalMa: 80, maxMa: 350, basis: "part_table" },
+          { component: "U3", typicalMa: 0.01, maxMa: 1, basis: "part_table" },
+          { component: "D1", typicalMa: 10, maxMa: 20, basis: "part_type" },
+        ],
+      },
+    ]);
+    expect(budget.regulators).toEqual([
+      {
+        component: "U1",
+        mpn: "AMS1117-3.3",
+        inputNet: "VBUS",
+        outputNet: "V3V3",
+        inputV: 5,
+        outputV: 3.3,
+        ratedMa: 1000,
+        typicalMa: 90.01,
+        maxMa: 371,
+        package: "SOT-223",
+        thermalResistanceCPerW: 90,
+        dissipationW: 0.631,
+        junctionC: 81.8,
+      },
+    ]);
+    expect(formatPowerBudgetTable(budget).split("\n")).toEqual([
+      "| Rail | Voltage | Typical | Peak | Regulator | Rating | Dissipation | Junction |",
+      "| --- | --- | --- | --- | --- | --- | --- | --- |",
+      "| VBUS | 5V | 90mA | 371mA |  |  |  |  |",
+      "| V3V3 | 3.3V | 90mA | 371mA | U1 AMS1117-3.3 | 1000mA | 0.631W | 82°C |",
+    ]);
+  });
+
+  it("flags regulators loaded past their rating or their package's thermal limit", () => {
+    const circuit = board("XC6206P332MR", "12V", [...chip("U2", "ESP32-C3-MINI-1", "V3V3"), ...chip("U9", "XYZ123", "V3V3")]);
+    const { budget, diagnostics } = budgetFor(circuit);
+    expect(budget.unknownLoads).toEqual(["U9"]);
+    expect(diagnostics.map((diagnostic) => [diagnostic.category, diagnostic.severity, diagnostic.signature])).toEqual([
+      ["power_budget_regulator_overload", 6, "power_budget_regulator_overload|U1|V3V3"],
+      ["power_budget_regulator_thermal", 8, "power_budget_regulator_thermal|U1|V3V3"],
+    ]);
+    expect(diagnostics[1].message).toBe(
+      "U1 (XC6206P332MR) drops 8.7V from 12V to V3V3: 3.04W at 350mA peak (0.7W typical). At 25°C ambient its SOT-23 (250°C/W) reaches about 786°C against a 125°C limit, so it can dissipate 0.4W. Lower the input voltage, use a switching regulator or a larger package.",
+    );
+
+    const overridden = budgetFor(circuit, { loads: [{ mpn: "xyz", typicalMa: 150 }], ambientC: 40 });
+    expect(overridden.budget.unknownLoads).toEqual([]);
+    expect(overridden.budget.rails[1].loads[1]).toEqual({ component: "U9", typicalMa: 150, maxMa: 150, basis: "override" });
+    expect(overridden.diagnostics[0]).toMatchObject({ category: "power_budget_regulator_overload", severity: 8 });
+  });
+
+  it("validates request overrides", () => {
+    expect(parsePowerBudgetInput({ loads: [{ component: "U2", maxMa: 40 }], ambientC: 50 })).toEqual({
+      input: { loads: [{ component: "U2", maxMa: 40 }], ambientC: 50 },
+      errors: [],
+    });
+    expect(parsePowerBudgetInput({ loads: [{ typicalMa: 5 }, { mpn: "ESP32", typicalMa: -1 }, { component: "U3" }] }).errors).toEqual([
+      "powerBudget.loads[0] must name a component or an mpn",
+      "powerBudget.loads[1].typicalMa must be a non-negative number",
+      "powerBudget.loads[2] must set typicalMa or maxMa",
+    ]);
+    expect(parsePowerBudgetInput([]).errors).toEqual(["powerBudget must be an object"]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { analyzePowerTree, voltageFromNetName } from "../powerTree";
+import type { RequirementItem } from "@/lib/stream/types";
+
+type Pin = { label: string; net?: string; x?: number; y?: number };
+
+/** A component whose pins join named nets; pads default to the component centre. */
+function part(name: string, ftype: string, pins: Pin[], extra: Record<string, unknown> = {}) {
+  const id = name.toLowerCase();
+  return [
+    { type: "source_component", source_component_id: `sc_${id}`, ftype, name, ...extra },
+    ...pins.flatMap((pin, index) => {
+      const portId = `sp_${id}_${index + 1}`;
+      return [
+        {
+          type: "source_port",
+          source_port_id: portId,
+          source_component_id: `sc_${id}`,
+          name: pin.label,
+          pin_number: index + 1,
+          port_hints: [pin.label, `pin${index + 1}`],
+        },
+        { type: "pcb_port", pcb_port_id: `pp_${id}_${index + 1}`, source_port_id: portId, x: pin.x ?? 0, y: pin.y ?? 0 },
+        ...(pin.net
+          ? [
+              {
+                type: "source_trace",
+                source_trace_id: `st_${id}_${index + 1}`,
+                connected_source_port_ids: [portId],
+                connected_source_net_ids: [`net_${pin.net}`],
+              },
+            ]
+          : []),
+      ];
+    }),
+  ];
+}
+
+function nets(...names: string[]) {
+  return names.map((name) => ({
+    type: "source_net",
+    source_net_id: `net_${name}`,
+    name,
+    is_ground: name === "GND",
+  }));
+}
+
+function regulator(name: string, mpn: string, input: string, output: string) {
+  return part(
+    name,
+    "simple_chip",
+    [
+      { label: "VIN", net: input },
+      { label: "GND", net: "GND" },
+      { label: "VOUT", net: output },
+    ],
+    { manufacturer_part_number: mpn },
+  );
+}
+
+function requirement(title: string): RequirementItem {
+  return { id: title, title, category: "power", status: "accepted", createdAt: 0 };
+}
+
+const usbConnector = part("J1", "simple_pin_header", [
+  { label: "VBUS", net: "VBUS" },
+  { label: "GND", net: "GND" },
+]);
+
+describe("power tree analysis", () => {
+  it("infers rail voltages from net names", () => {
+    expect(["V3V3", "+3V3", "VCC_1V8", "5V", "3.3V", "VBUS", "SDA"].map(voltageFromNetName)).toEqual([
+      3.3, 3.3, 1.8, 5, 3.3, 5, null,
+    ]);
+  });
+
+  it("builds the tree from a USB input through an LDO and flags a pin above its absolute max", () => {
+    const { tree, diagnostics } = analyzePowerTree([
+      ...nets("VBUS", "V3V3", "GND", "SENSE"),
+      ...usbConnector,
+      ...regulator("U1", "AMS1117-3.3", "VBUS", "V3V3"),
+      ...part(
+        "U2",
+        "simple_chip",
+        [
+          { label: "VDD", net: "V3V3" },
+          { label: "GND", net: "GND" },
+          { label: "GPIO4", net: "VBUS", x: 4, y: 1 },
+        ],
+        { manufacturer_part_number: "ESP32-C3-MINI-1" },
+      ),
+    ]);
+
+    expect(tree).toEqual({
+      rails: [
+        { net: "VBUS", voltage: 5, voltageBasis: "net_name", sources: ["J1"], loads: ["U1", "U2"], issues: ["overvoltage"] },
+        { net: "V3V3", voltage: 3.3, voltageBasis: "regulator", sources: ["U1"], loads: ["U2"], issues: [] },
+      ],
+      edges: [{ from: "VBUS", to: "V3V3", via: "U1", kind: "regulator" }],
+    });
+    expect(diagnostics).toEqual([
+      {
+        category: "power_pin_overvoltage",
+        message:
+          "U2.GPIO4 is on VBUS at 5V (from its net name), above its 3.6V ESP32-C3-MINI-1 absolute max. Move the pin to a lower rail or add a level shifter or divider. (at 4.00,1.00)",
+        severity: 9,
+        signature: "power_pin_overvoltage|U2|GPIO4|VBUS",
+        source: "tscircuit",
+        family: "power_pin_overvoltage",
+        handling: "must_repair",
+      },
+    ]);
+  });
+
+  it("reports rails with nothing driving them and rails driven by two regulators", () => {
+    const { diagnostics } = analyzePowerTree([
+      ...nets("VIN", "V3V3", "VDD_CORE", "GND"),
+      ...regulator("U1", "XC6206P332MR", "VIN", "V3V3"),
+      ...regulator("U2", "ME6211C33M5G", "VIN", "V3V3"),
+      ...part("U3", "simple_chip", [
+        { label: "VDD", net: "VDD_CORE" },
+        { label: "GND", net: "GND" },
+      ]),
+    ]);
+    expect(diagnostics.map((diagnostic) => [diagnostic.category, diagnostic.severity, diagnostic.signature])).toEqual([
+      ["power_rail_contention", 8, "power_rail_contention|V3V3"],
+      ["power_rail_unsourced", 7, "power_rail_unsourced|VDD_CORE"],
+      ["power_rail_unsourced", 7, "power_rail_unsourced|VIN"],
+    ]);
+    expect(diagnostics[0].message).toBe(
+      "V3V3 is driven by 2 regulators (U1, U2); regulator outputs fight when tied. Give each its own rail or remove one.",
+    );
+  });
+
+  it("takes supply voltages from requirements and carries them through pass-through parts", () => {
+    const circuit = [
+      ...nets("VBAT", "VSYS", "V3V3", "GND"),
+      ...part("BT1", "simple_battery", [
+        { label: "pos", net: "VBAT" },
+        { label: "neg", net: "GND" },
+      ]),
+      ...part("F1", "simple_fuse", [
+        { label: "pin1", net: "VBAT" },
+        { label: "pin2", net: "VSYS" },
+      ]),
+      ...regulator("U1", "MCP1700-3302E", "VSYS", "V3V3"),
+      ...part(
+        "U2",
+        "simple_chip",
+        [
+          { label: "VCC", net: "VSYS" },
+          { label: "GND", net: "GND" },
+        ],
+        { manufacturer_part_number: "BME280" },
+      ),
+    ];
+
+    const { tree, diagnostics } = analyzePowerTree(circuit, [requirement("Runs from a 1S LiPo battery")]);
+    expect(tree.rails.find((rail) => rail.net === "VSYS")).toEqual({
+      net: "VSYS",
+      voltage: 4.2,
+      voltageBasis: "propagated",
+      sources: ["F1"],
+      loads: ["U1", "U2"],
+      issues: [],
+    });
+    expect(tree.edges).toContainEqual({ from: "VBAT", to: "VSYS", via: "F1", kind: "pass_through" });
+    expect(diagnostics).toEqual([]);
+
+    const overRated = analyzePowerTree(circuit, [requirement("Powered by a 12V DC adapter")]);
+    expect(overRated.diagnostics.map((diagnostic) => diagnostic.signature)).toEqual([
+      "power_pin_overvoltage|U1|VIN|VSYS",
+      "power_pin_overvoltage|U2|VCC|VSYS",
+    ]);
+  });
+});
@@ -0,0 +1,522 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import type { Point } from "@/lib/manufacturing/circuitJson";
+import { formatPoint } from "@/lib/manufacturing/copperGeometry";
+import {
+  buildElectricalNetlist,
+  type ElectricalComponent,
+  type ElectricalNet,
+  type PinRecord,
+} from "./netlist";
+import { findUsbSeriesResistorOhms, hasInternalResetPullUp } from "./parts";
+
+export const BUS_I2C_PULLUP_MISSING_CATEGORY = "bus_i2c_pullup_missing";
+export const BUS_I2C_PULLUP_MULTIPLE_CATEGORY = "bus_i2c_pullup_multiple";
+export const BUS_UART_TX_TO_TX_CATEGORY = "bus_uart_tx_to_tx";
+export const BUS_UART_RX_TO_RX_CATEGORY = "bus_uart_rx_to_rx";
+export const BUS_SPI_CS_UNCONNECTED_CATEGORY = "bus_spi_cs_unconnected";
+export const BUS_SPI_CS_SHARED_CATEGORY = "bus_spi_cs_shared";
+export const BUS_USB_SERIES_RESISTOR_MISSING_CATEGORY = "bus_usb_series_resistor_missing";
+export const BUS_USB_ESD_MISSING_CATEGORY = "bus_usb_esd_missing";
+export const BUS_RESET_PIN_FLOATING_CATEGORY = "bus_reset_pin_floating";
+export const BUS_BOOT_PIN_FLOATING_CATEGORY = "bus_boot_pin_floating";
+
+const I2C_PIN_PATTERN = /^(I2C\d*_?)?(SDA|SCL)\d*$/i;
+const I2C_NET_PATTERN = /(^|_)(SDA|SCL)\d*$/i;
+const UART_TX_PATTERN = /^(UART\d*_?|U\d_?)?TXD?\d*$/i;
+const UART_RX_PATTERN = /^(UART\d*_?|U\d_?)?RXD?\d*$/i;
+const SPI_CLOCK_PATTERN = /^(SPI\d*_?)?S?CLK$|^(SPI\d*_?)?SCK\d*$/i;
+const SPI_CS_PATTERN = /^(SPI\d*_?)?(N?CS|CSN|CS_?N|CSB|N?SS|SS_?N)\d*$/i;
+const USB_DP_PATTERN = /^(USB\d*_?)?(D\+|DP|D_P|DPLUS)\d?$/i;
+const USB_DM_PATTERN = /^(USB\d*_?)?(D-|DM|DN|D_N|DMINUS)\d?$/i;
+const RESET_PIN_PATTERN = /^(N?RST|N?RESET|RST_?N|RESET_?N|N?MCLR|RUN|EN|CHIP_EN|CHIP_PU)$/i;
+const BOOT_PIN_PATTERN = /^(BOOT\d?|BOOTSEL)$/i;
+/** Controller pins free to take a new chip select. */
+const GPIO_PIN_PATTERN = /^(GPIO|IO|P[A-K]?|D)\d+([._]\d+)?$/i;
+/** ESD arrays and TVS diodes sold for USB data lines. */
+const USB_ESD_MPN_PATTERN = /^(USBLC6|TPD\d|PRTR5V0U2X|SRV05|PESD|IP4220|SP0503|RCLAMP|ESD\d)/i;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const CONNECTOR_FTYPES = new Set(["simple_pin_header"]);
+/** Parts that leave a reset or boot pin floating when released or uncharged. */
+const NON_DRIVING_FTYPES = new Set(["simple_push_button", "simple_switch", "simple_capacitor"]);
+
+/** Series resistors on a USB pair are tens of ohms; anything larger is not on the data path. */
+const USB_SERIES_MAX_OHMS = 100;
+const I2C_PULLUP = "4.7k";
+
+interface Fix {
+  message: string;
+  suggestion: string;
+}
+
+function makeBusDiagnostic(
+  category: string,
+  severity: number,
+  fix: Fix,
+  ids: string[],
+  location: Point | null,
+): ValidationDiagnostic {
+  const located = location ? `${fix.message} (at ${formatPoint(location)})` : fix.message;
+  return {
+    category,
+    message: located,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+    handling: "must_repair",
+    suggestion: fix.suggestion,
+  };
+}
+
+function isConnector(component: ElectricalComponent): boolean {
+  return CONNECTOR_FTYPES.has(component.ftype ?? "") || /^(J|USB|CN|P)\d+$/i.test(component.name);
+}
+
+function isChip(component: ElectricalComponent): boolean {
+  return component.ftype === "simple_chip" && !isConnector(component);
+}
+
+function matchLabel(pin: PinRecord, pattern: RegExp): string | null {
+  return pin.labels.find((label) => pattern.test(label)) ?? null;
+}
+
+function pinSelector(pin: PinRecord): string {
+  return `.${pin.componentName} > .${pin.name}`;
+}
+
+function pinName(pin: PinRecord): string {
+  return `${pin.componentName}.${pin.name}`;
+}
+
+function resistanceOf(component: ElectricalComponent): number | null {
+  const resistance = component.source.resistance;
+  return typeof resistance === "number" ? resistance : null;
+}
+
+function formatOhms(ohms: number): string {
+  return ohms >= 1000 ? `${Number((ohms / 1000).toFixed(2))}kΩ` : `${Number(ohms.toFixed(1))}Ω`;
+}
+
+function otherPin(component: ElectricalComponent, pin: PinRecord): PinRecord | undefined {
+  return component.pins.length === 2 ? component.pins.find((candidate) => candidate !== pin) : undefined;
+}
+
+interface BusContext {
+  components: ElectricalComponent[];
+  nets: Map<string, ElectricalNet>;
+  byName: Map<string, ElectricalComponent>;
+  /** Part names taken, including those suggestions have already proposed. */
+  usedNames: Set<string>;
+  groundNet: string;
+}
+
+function createBusContext(components: ElectricalComponent[], nets: Map<string, ElectricalNet>): BusContext {
+  const byName = new Map(components.map((component) => [component.name, component]));
+  return {
+    components,
+    nets,
+    byName,
+    usedNames: new Set(byName.keys()),
+    groundNet: Array.from(nets.values()).find((net) => net.isGround)?.name ?? "GND",
+  };
+}
+
+function netOf(context: BusContext, pin: PinRecord): ElectricalNet | undefined {
+  return pin.netName ? context.nets.get(pin.netName) : undefined;
+}
+
+/** No net, or a net this pin has to itself. */
+function isUnconnected(context: BusContext, pin: PinRecord): boolean {
+  const net = netOf(context, pin);
+  return !net || (net.pins.length <= 1 && !net.isPower && !net.isGround);
+}
+
+/** A name for a part the suggestion adds that no existing part uses. */
+function freshName(context: BusContext, base: string): string {
+  let name = base;
+  for (let index = 2; context.usedNames.has(name); index++) name = `${base}_${index}`;
+  context.usedNames.add(name);
+  return name;
+}
+
+/** `net.X` for the chips' supply net, or a supply pin when the net has no usable name. */
+function supplyTarget(context: BusContext, chips: ElectricalComponent[]): string {
+  for (const chip of chips) {
+    const pin = chip.pins.find((candidate) => netOf(context, candidate)?.isPower);
+    if (pin) return IDENTIFIER_PATTERN.test(pin.netName!) ? `net.${pin.netName}` : pinSelector(pin);
+  }
+  const rail = Array.from(context.nets.values()).find((net) => net.isPower && IDENTIFIER_PATTERN.test(net.name));
+  return `net.${rail?.name ?? "V3V3"}`;
+}
+
+function groundTarget(context: BusContext): string {
+  return IDENTIFIER_PATTERN.test(context.groundNet) ? `net.${context.groundNet}` : "net.GND";
+}
+
+/** Resistors from `net` to a supply rail. */
+function pullUps(context: BusContext, net: ElectricalNet): ElectricalComponent[] {
+  return net.pins.flatMap((pin) => {
+    const component = context.byName.get(pin.componentName);
+    if (component?.ftype !== "simple_resistor") return [];
+    const far = otherPin(component, pin);
+    return far && netOf(context, far)?.isPower ? [component] : [];
+  });
+}
+
+/** Nets one small series resistor away from `net`, e.g. the chip side of a USB pair. */
+function seriesNeighbours(context: BusContext, net: ElectricalNet): ElectricalNet[] {
+  return net.pins.flatMap((pin) => {
+    const component = context.byName.get(pin.componentName);
+    if (component?.ftype !== "simple_resistor") return [];
+    const ohms = resistanceOf(component);
+    if (ohms === null || ohms > USB_SERIES_MAX_OHMS) return [];
+    const far = otherPin(component, pin);
+    const farNet = far ? netOf(context, far) : undefined;
+    return farNet ? [farNet] : [];
+  });
+}
+
+function pullUpFix(context: BusContext, line: string, target: PinRecord, chips: ElectricalComponent[]): string {
+  const name = freshName(context, `R_${line}`);
+  return [
+    `<resistor name="${name}" resistance="${I2C_PULLUP}" footprint="0402" />`,
+    `<trace from=".${name} > .pin1" to="${pinSelector(target)}" />`,
+    `<trace from=".${name} > .pin2" to="${supplyTarget(context, chips)}" />`,
+  ].join(" ");
+}
+
+/** SDA and SCL each need exactly one pull-up to a supply rail. */
+function checkI2c(context: BusContext): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  for (const net of context.nets.values()) {
+    if (net.isPower || net.isGround) continue;
+    const busPins = net.pins.filter((pin) => {
+      const component = context.byName.get(pin.componentName);
+      return component && isChip(component) && matchLabel(pin, I2C_PIN_PATTERN);
+    });
+    if (busPins.length === 0 && !I2C_NET_PATTERN.test(net.name)) continue;
+    const devicePins = net.pins.filter((pin) => context.byName.get(pin.componentName)?.ftype !== "simple_resistor");
+    if (devicePins.length < 2) continue;
+    const label = busPins.length > 0 ? matchLabel(busPins[0], I2C_PIN_PATTERN)! : net.name;
+    const line = /SCL/i.test(label) ? "SCL" : "SDA";
+    const chips = devicePins
+      .map((pin) => context.byName.get(pin.componentName)!)
+      .filter((component) => isChip(component));
+    const pulls = pullUps(context, net);
+    const target = busPins[0] ?? devicePins[0];
+    const location = target.position ?? context.byName.get(target.componentName)?.center ?? null;
+
+    if (pulls.length === 0) {
+      findings.push(
+        makeBusDiagnostic(
+          BUS_I2C_PULLUP_MISSING_CATEGORY,
+          7,
+          {
+            message: `I2C ${line} net ${net.name} (${devicePins.map(pinName).join(", ")}) has no pull-up resistor to a supply rail; the open-drain line never returns high. Add one ${I2C_PULLUP}Ω pull-up.`,
+            suggestion: pullUpFix(context, line, target, chips),
+          },
+          [net.name],
+          location,
+        ),
+      );
+    } else if (pulls.length > 1) {
+      const values = pulls.map(resistanceOf);
+      const parallel = values.every((value): value is number => value !== null && value > 0)
+        ? ` in parallel (${formatOhms(1 / values.reduce((sum, value) => sum + 1 / value, 0))})`
+        : "";
+      const [keep, ...extra] = pulls.map((component) => component.name);
+      findings.push(
+        makeBusDiagnostic(
+          BUS_I2C_PULLUP_MULTIPLE_CATEGORY,
+          6,
+          {
+            message: `I2C ${line} net ${net.name} has ${pulls.length} pull-up resistors (${pulls.map((component) => component.name).join(", ")})${parallel}; stacked pull-ups can exceed the 3mA sink limit. Keep one set per bus.`,
+            suggestion: `Remove ${extra.join(", ")} and its traces; keep ${keep} as the only ${line} pull-up.`,
+          },
+          [net.name],
+          location,
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+/** TX must land on the other side's RX; two TX or two RX on one net is a swapped pair. */
+function checkUart(context: BusContext): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  const counterpart = (pin: PinRecord, pattern: RegExp) =>
+    context.byName.get(pin.componentName)?.pins.find((candidate) => matchLabel(candidate, pattern));
+
+  for (const net of context.nets.values()) {
+    if (net.isPower || net.isGround) continue;
+    const chipPins = net.pins.filter((pin) => {
+      const component = context.byName.get(pin.componentName);
+      return component !== undefined && isChip(component);
+    });
+    const distinct = (pins: PinRecord[]) =>
+      pins.filter((pin, index) => pins.findIndex((other) => other.componentName === pin.componentName) === index);
+    const tx = distinct(chipPins.filter((pin) => matchLabel(pin, UART_TX_PATTERN)));
+    const rx = distinct(chipPins.filter((pin) => matchLabel(pin, UART_RX_PATTERN)));
+
+    const swapped = tx.length >= 2 ? tx : rx.length >= 2 && tx.length === 0 ? rx : null;
+    if (!swapped) continue;
+    const sending = swapped === tx;
+    const [first, second] = swapped;
+    const crossing = [first, second].flatMap((pin) => {
+      const from = counterpart(pin, UART_TX_PATTERN);
+      const peer = pin === first ? second : first;
+      const to = counterpart(peer, UART_RX_PATTERN);
+      return from && to ? [`<trace from="${pinSelector(from)}" to="${pinSelector(to)}" />`] : [];
+    });
+    findings.push(
+      makeBusDiagnostic(
+        sending ? BUS_UART_TX_TO_TX_CATEGORY : BUS_UART_RX_TO_RX_CATEGORY,
+        sending ? 8 : 7,
+        {
+          message: sending
+            ? `UART net ${net.name} joins ${swapped.map(pinName).join(" and ")}: two transmit outputs drive each other and nothing receives. Cross the pair so each TX lands on the other part's RX.`
+            : `UART net ${net.name} joins ${swapped.map(pinName).join(" and ")}: two receive inputs with no transmitter. Cross the pair so each TX lands on the other part's RX.`,
+          suggestion: `Remove the trace joining ${swapped.map(pinSelector).join(" and ")}${crossing.length > 0 ? ` and connect ${crossing.join(" ")}` : "; connect each TX to the other part's RX"}.`,
+        },
+        [net.name],
+        first.position,
+      ),
+    );
+  }
+  return findings;
+}
+
+/** Each peripheral on an SPI clock needs a chip select of its own, driven by the controller. */
+function checkSpi(context: BusContext): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  const assigned = new Set<PinRecord>();
+
+  for (const net of context.nets.values()) {
+    // The controller's clock pin is often a plain GPIO label, so one peripheral's SCK marks the net.
+    if (net.isPower || net.isGround || !net.pins.some((pin) => matchLabel(pin, SPI_CLOCK_PATTERN))) continue;
+    const clockChips = net.pins
+      .map((pin) => context.byName.get(pin.componentName)!)
+      .filter((component, index, all) => component && isChip(component) && all.indexOf(component) === index);
+    if (clockChips.length < 2) continue;
+    // The controller is the part with the most pins: the MCU, not the sensor.
+    const controller = clockChips.reduce((best, chip) => (chip.pins.length > best.pins.length ? chip : best));
+    const freeGpio = () => {
+      const pin = controller.pins.find(
+        (candidate) => !candidate.netName && !assigned.has(candidate) && matchLabel(candidate, GPIO_PIN_PATTERN),
+      );
+      if (pin) assigned.add(pin);
+      return pin ? pinSelector(pin) : `.${controller.name} > .<free GPIO>`;
+    };
+
+    const byCsNet = new Map<string, Array<{ chip: ElectricalComponent; cs: PinRecord }>>();
+    for (const chip of clockChips) {
+      if (chip === controller) continue;
+      const cs = chip.pins.find((pin) => matchLabel(pin, SPI_CS_PATTERN));
+      if (!cs) continue;
+      if (isUnconnected(context, cs)) {
+        findings.push(
+          makeBusDiagnostic(
+            BUS_SPI_CS_UNCONNECTED_CATEGORY,
+            7,
+            {
+              message: `SPI peripheral ${chip.name} on ${net.name} has its chip select ${cs.name} unconnected; it never listens, or listens to every transfer. Drive it from its own ${controller.name} GPIO.`,
+              suggestion: `<trace from="${pinSelector(cs)}" to="${freeGpio()}" />`,
+            },
+            [chip.name, cs.name],
+            cs.position ?? chip.center,
+          ),
+        );
+        continue;
+      }
+      byCsNet.set(cs.netName!, [...(byCsNet.get(cs.netName!) ?? []), { chip, cs }]);
+    }
+
+    for (const [csNet, sharing] of byCsNet) {
+      if (sharing.length < 2) continue;
+      const [, ...rest] = sharing;
+      findings.push(
+        makeBusDiagnostic(
+          BUS_SPI_CS_SHARED_CATEGORY,
+          8,
+          {
+            message: `SPI peripherals ${sharing.map(({ chip }) => chip.name).join(", ")} on ${net.name} share chip select net ${csNet}; selecting one selects all and their MISO outputs collide. Give each its own ${controller.name} GPIO.`,
+            suggestion: `Remove ${rest.map(({ cs }) => pinSelector(cs)).join(", ")} from ${csNet} and connect ${rest
+              .map(({ cs }) => `<trace from="${pinSelector(cs)}" to="${freeGpio()}" />`)
+              .join(" ")}`,
+          },
+          [net.name, csNet],
+          sharing[1].cs.position ?? sharing[1].chip.center,
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+function usbLinePins(component: ElectricalComponent): PinRecord[] {
+  const dp = component.pins.find((pin) => matchLabel(pin, USB_DP_PATTERN));
+  const dm = component.pins.find((pin) => matchLabel(pin, USB_DM_PATTERN));
+  return [dp, dm].filter((pin): pin is PinRecord => pin !== undefined && pin.netName !== null);
+}
+
+function isUsbEsd(context: BusContext, component: ElectricalComponent, pin: PinRecord): boolean {
+  if (USB_ESD_MPN_PATTERN.test(component.manufacturerPartNumber ?? "")) return true;
+  if (component.ftype !== "simple_diode") return false;
+  const far = otherPin(component, pin);
+  return Boolean(far && netOf(context, far)?.isGround);
+}
+
+/**
+ * PHYs without on-chip termination need their series resistors, and data lines
+ * leaving the board through a connector need ESD protection on them.
+ */
+function checkUsb(context: BusContext): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  for (const chip of context.components) {
+    const ohms = isChip(chip) ? findUsbSeriesResistorOhms(chip.manufacturerPartNumber) : null;
+    if (ohms === null) continue;
+    const direct = usbLinePins(chip).flatMap((pin) => {
+      const connectorPin = netOf(context, pin)!
+        .pins.find((candidate) => candidate !== pin && isConnector(context.byName.get(candidate.componentName)!));
+      return connectorPin ? [{ pin, connectorPin }] : [];
+    });
+    if (direct.length === 0) continue;
+    const connectors = Array.from(new Set(direct.map(({ connectorPin }) => connectorPin.componentName)));
+    const suggestion = direct
+      .map(({ pin, connectorPin }) => {
+        const name = freshName(context, `R_${pin.name.replace(/[^A-Za-z0-9_]/g, "")}`);
+        return [
+          `<resistor name="${name}" resistance="${ohms}" footprint="0402" />`,
+          `<trace from="${pinSelector(pin)}" to=".${name} > .pin1" />`,
+          `<trace from=".${name} > .pin2" to="${pinSelector(connectorPin)}" />`,
+        ].join(" ");
+      })
+      .join(" ");
+    findings.push(
+      makeBusDiagnostic(
+        BUS_USB_SERIES_RESISTOR_MISSING_CATEGORY,
+        7,
+        {
+          message: `${chip.name} (${chip.manufacturerPartNumber}) ${direct.map(({ pin }) => pin.name).join(", ")} connect straight to ${connectors.join(", ")}; its USB PHY needs ${ohms}Ω series resistors on D+ and D- for impedance matching.`,
+          suggestion: `Replace the direct traces with ${suggestion}`,
+        },
+        [chip.name],
+        direct[0].pin.position ?? chip.center,
+      ),
+    );
+  }
+
+  for (const connector of context.components) {
+    if (!isConnector(connector)) continue;
+    const lines = usbLinePins(connector);
+    if (lines.length === 0) continue;
+    const protectedLine = (pin: PinRecord) => {
+      const net = netOf(context, pin)!;
+      return [net, ...seriesNeighbours(context, net)].some((candidate) =>
+        candidate.pins.some((other) => {
+          const component = context.byName.get(other.componentName);
+          return component !== undefined && component !== connector && isUsbEsd(context, component, other);
+        }),
+      );
+    };
+    const exposed = lines.filter((pin) => !protectedLine(pin));
+    if (exposed.length === 0) continue;
+    const name = freshName(context, "U_ESD");
+    findings.push(
+      makeBusDiagnostic(
+        BUS_USB_ESD_MISSING_CATEGORY,
+        6,
+        {
+          message: `USB data lines ${exposed.map(pinName).join(", ")} leave the board through ${connector.name} without ESD protection; add a low-capacitance ESD array next to the connector.`,
+          suggestion: [
+            `<chip name="${name}" manufacturerPartNumber="USBLC6-2SC6" footprint="sot23_6" pinLabels={{ pin1: "IO1", pin2: "GND", pin3: "IO2", pin4: "IO2_B", pin5: "VBUS", pin6: "IO1_B" }} />`,
+            ...exposed.map((pin, index) => `<trace from=".${name} > .IO${index + 1}" to="${pinSelector(pin)}" />`),
+            `<trace from=".${name} > .GND" to="${groundTarget(context)}" />`,
+            `<trace from=".${name} > .VBUS" to="${supplyTarget(context, [connector])}" />`,
+          ].join(" "),
+        },
+        [connector.name],
+        exposed[0].position ?? connector.center,
+      ),
+    );
+  }
+  return findings;
+}
+
+/** A pin with nothing on its net that holds a level: no rail, no pull resistor, no driving part. */
+function isFloating(context: BusContext, pin: PinRecord): boolean {
+  if (isUnconnected(context, pin)) return true;
+  const net = netOf(context, pin)!;
+  if (net.isPower || net.isGround) return false;
+  return net.pins.every((other) => {
+    if (other === pin) return true;
+    const component = context.byName.get(other.componentName);
+    if (!component || NON_DRIVING_FTYPES.has(component.ftype ?? "") || isConnector(component)) return true;
+    if (component.ftype !== "simple_resistor") return false;
+    const far = otherPin(component, other);
+    const farNet = far ? netOf(context, far) : undefined;
+    return !(farNet?.isPower || farNet?.isGround);
+  });
+}
+
+/** Reset, enable and boot-mode pins must sit at a defined level with every button released. */
+function checkResetAndBoot(context: BusContext): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  for (const chip of context.components) {
+    if (!isChip(chip)) continue;
+    for (const pin of chip.pins) {
+      const reset = matchLabel(pin, RESET_PIN_PATTERN);
+      const boot = reset ? null : matchLabel(pin, BOOT_PIN_PATTERN);
+      if (!reset && !boot) continue;
+      if (reset && hasInternalResetPullUp(chip.manufacturerPartNumber, pin.labels)) continue;
+      if (!isFloating(context, pin)) continue;
+
+      // BOOT0-style pins select the flash image when low; active-low boot straps idle high.
+      const pullDown = Boolean(boot && /0$/.test(boot));
+      const name = freshName(context, `R_${pin.name.replace(/[^A-Za-z0-9_]/g, "")}`);
+      const target = pullDown ? groundTarget(context) : supplyTarget(context, [chip]);
+      const attached = pin.netName && !isUnconnected(context, pin) ? ` (net ${pin.netName} has only a button or capacitor)` : "";
+      findings.push(
+        makeBusDiagnostic(
+          reset ? BUS_RESET_PIN_FLOATING_CATEGORY : BUS_BOOT_PIN_FLOATING_CATEGORY,
+          7,
+          {
+            message: reset
+              ? `${chip.name} ${reset === pin.name ? pin.name : `${pin.name} (${reset})`} floats${attached}; an undefined reset level resets or holds the chip at random. Pull it up to its supply.`
+              : `${chip.name} boot pin ${pin.name} floats${attached}; the chip picks its boot mode at random. Pull it ${pullDown ? "down to ground" : "up to its supply"}.`,
+            suggestion: [
+              `<resistor name="${name}" resistance="10k" footprint="0402" />`,
+              `<trace from=".${name} > .pin1" to="${pinSelector(pin)}" />`,
+              `<trace from=".${name} > .pin2" to="${target}" />`,
+            ].join(" "),
+          },
+          [chip.name, pin.name],
+          pin.position ?? chip.center,
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+/**
+ * Protocol-aware checks over pin labels and net names, beyond the preflight's
+ * "pins exist" connectivity check: I2C lines need exactly one pull-up, UART TX
+ * must land on RX, every SPI peripheral needs its own chip select, USB PHYs
+ * need their series resistors and connector-facing data lines ESD protection,
+ * and reset/boot pins need a defined level. Each finding carries a
+ * `suggestion` in tscircuit JSX (or a concrete edit) for the repair prompt.
+ */
+export function runBusProtocolChecks(circuitJson: unknown[]): ValidationDiagnostic[] {
+  const { components, nets } = buildElectricalNetlist(circuitJson);
+  const context = createBusContext(components, nets);
+  return [
+    ...checkI2c(context),
+    ...checkUart(context),
+    ...checkSpi(context),
+    ...checkUsb(context),
+    ...checkResetAndBoot(context),
+  ];
+}
@@ -0,0 +1,189 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import type { Point } from "@/lib/manufacturing/circuitJson";
+import { formatPoint } from "@/lib/manufacturing/copperGeometry";
+import {
+  buildElectricalNetlist,
+  distance,
+  hasGenericLabels,
+  type ElectricalComponent,
+  type ElectricalNet,
+  type PinRecord,
+} from "./netlist";
+
+export const DECOUPLING_MISSING_CATEGORY = "decoupling_missing";
+export const DECOUPLING_DISTANT_CATEGORY = "decoupling_distant";
+
+export interface DecouplingOptions {
+  /** Farthest a capacitor may sit from the power pin it serves, pin pad to capacitor centre. */
+  maxDistanceMm?: number;
+}
+
+/** Capacitors further than this from their pin add enough loop inductance to stop decoupling at MCU edge rates. */
+export const DEFAULT_DECOUPLING_MAX_DISTANCE_MM = 5;
+
+const MISSING_SEVERITY = 7;
+const DISTANT_SEVERITY = 6;
+
+/** Supply pin labels: VDD, VCC, AVDD, VDDIO, VDDA, VCCQ, VBAT, VIN, VBUS, V3V3, ... */
+const POWER_PIN_PATTERN = /^([AD]?V(DD|CC)[A-Z0-9_]*|V(IN|BAT|BUS|CORE|IO|SYS)[A-Z0-9_]*|V?\d+V\d*)$/i;
+
+/** Chips are the parts with supply pins that need local decoupling; passives and connectors do not. */
+const IC_FTYPES = new Set(["simple_chip"]);
+
+interface PowerPin {
+  pin: PinRecord;
+  chip: ElectricalComponent;
+  net: ElectricalNet;
+  /** Pad position, or the chip centre when the port has no PCB position. */
+  position: Point | null;
+}
+
+interface DecouplingCap {
+  component: ElectricalComponent;
+  groundNet: string;
+}
+
+function isPowerPin(pin: PinRecord, net: ElectricalNet): boolean {
+  if (net.isGround) return false;
+  if (pin.labels.some((label) => POWER_PIN_PATTERN.test(label))) return true;
+  // Without pinLabels the pin is only known by its net.
+  return net.isPower && hasGenericLabels(pin);
+}
+
+function collectPowerPins(
+  components: ElectricalComponent[],
+  nets: Map<string, ElectricalNet>,
+): PowerPin[] {
+  const pins: PowerPin[] = [];
+  for (const chip of components) {
+    if (!chip.ftype || !IC_FTYPES.has(chip.ftype)) continue;
+    for (const pin of chip.pins) {
+      const net = pin.netName ? nets.get(pin.netName) : undefined;
+      if (!net || !isPowerPin(pin, net)) continue;
+      pins.push({ pin, chip, net, position: pin.position ?? chip.center });
+    }
+  }
+  return pins;
+}
+
+/** Capacitors from a supply net to a ground net, keyed by the supply net. */
+function collectDecouplingCaps(
+  components: ElectricalComponent[],
+  nets: Map<string, ElectricalNet>,
+): Map<string, DecouplingCap[]> {
+  const byNet = new Map<string, DecouplingCap[]>();
+  for (const component of components) {
+    if (component.ftype !== "simple_capacitor" || component.pins.length !== 2) continue;
+    const [first, second] = component.pins.map((pin) => (pin.netName ? nets.get(pin.netName) : undefined));
+    if (!first || !second) continue;
+    if (first.isGround === second.isGround) continue;
+    const [supply, ground] = first.isGround ? [second, first] : [first, second];
+    const caps = byNet.get(supply.name) ?? [];
+    caps.push({ component, groundNet: ground.name });
+    byNet.set(supply.name, caps);
+  }
+  return byNet;
+}
+
+function makeDecouplingDiagnostic(
+  category: string,
+  severity: number,
+  message: string,
+  ids: string[],
+  location: Point | null,
+): ValidationDiagnostic {
+  const located = location ? `${message} (at ${formatPoint(location)})` : message;
+  return {
+    category,
+    message: located,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+    handling: "must_repair",
+  };
+}
+
+function capLabel(cap: DecouplingCap): string {
+  return cap.component.displayValue ? `${cap.component.name} (${cap.component.displayValue})` : cap.component.name;
+}
+
+/**
+ * Check that every IC supply pin has its own capacitor to ground on the same
+ * net, close to the pin. Power pins are found by pin label (VDD, VCC, VIN, ...)
+ * or, for unlabelled pins, by landing on a supply net. Capacitors are paired
+ * with pins nearest-first so one 100nF cannot count for six VDD pins; pins left
+ * without one are `decoupling_missing`, and pairs further apart than
+ * `maxDistanceMm` are `decoupling_distant`. Without PCB placement only the
+ * counts are checked. Findings are located at the pin.
+ */
+export function runDecouplingChecks(circuitJson: unknown[], options: DecouplingOptions = {}): ValidationDiagnostic[] {
+  const maxDistanceMm = options.maxDistanceMm ?? DEFAULT_DECOUPLING_MAX_DISTANCE_MM;
+  const { components, nets } = buildElectricalNetlist(circuitJson);
+  const powerPins = collectPowerPins(components, nets);
+  if (powerPins.length === 0) return [];
+  const capsByNet = collectDecouplingCaps(components, nets);
+  const defaultGround = Array.from(nets.values()).find((net) => net.isGround)?.name ?? "GND";
+
+  const findings: ValidationDiagnostic[] = [];
+  const pinsByNet = new Map<string, PowerPin[]>();
+  for (const powerPin of powerPins) {
+    pinsByNet.set(powerPin.net.name, [...(pinsByNet.get(powerPin.net.name) ?? []), powerPin]);
+  }
+
+  for (const [netName, pins] of pinsByNet) {
+    const caps = capsByNet.get(netName) ?? [];
+    const pairs = pins.flatMap((powerPin) =>
+      caps.map((cap) => ({
+        powerPin,
+        cap,
+        gap:
+          powerPin.position && cap.component.center ? distance(powerPin.position, cap.component.center) : 0,
+      })),
+    );
+    pairs.sort((a, b) => a.gap - b.gap);
+    const servedPins = new Map<PowerPin, { cap: DecouplingCap; gap: number }>();
+    const usedCaps = new Set<DecouplingCap>();
+    for (const pair of pairs) {
+      if (servedPins.has(pair.powerPin) || usedCaps.has(pair.cap)) continue;
+      servedPins.set(pair.powerPin, { cap: pair.cap, gap: pair.gap });
+      usedCaps.add(pair.cap);
+    }
+
+    const unservedByChip = new Map<ElectricalComponent, PowerPin[]>();
+    for (const powerPin of pins) {
+      const served = servedPins.get(powerPin);
+      if (!served) {
+        unservedByChip.set(powerPin.chip, [...(unservedByChip.get(powerPin.chip) ?? []), powerPin]);
+        continue;
+      }
+      if (served.gap <= maxDistanceMm) continue;
+      findings.push(
+        makeDecouplingDiagnostic(
+          DECOUPLING_DISTANT_CATEGORY,
+          DISTANT_SEVERITY,
+          `${capLabel(served.cap)} decouples ${powerPin.chip.name}.${powerPin.pin.name} on ${netName} from ${served.gap.toFixed(1)}mm away; place it within ${maxDistanceMm}mm of the pin.`,
+          [powerPin.chip.name, powerPin.pin.name, served.cap.component.name],
+          powerPin.position,
+        ),
+      );
+    }
+
+    for (const [chip, unserved] of unservedByChip) {
+      const chipPins = pins.filter((powerPin) => powerPin.chip === chip);
+      const served = chipPins.length - unserved.length;
+      const ground = caps[0]?.groundNet ?? defaultGround;
+      const have = served === 0 ? "no decoupling capacitor" : `only ${served} decoupling capacitor(s)`;
+      findings.push(
+        makeDecouplingDiagnostic(
+          DECOUPLING_MISSING_CATEGORY,
+          MISSING_SEVERITY,
+          `${chip.name} has ${chipPins.length} power pin(s) on ${netName} (${chipPins.map((powerPin) => powerPin.pin.name).join(", ")}) but ${have} to ${ground}; add a 100nF capacitor from ${netName} to ${ground} next to ${unserved.map((powerPin) => powerPin.pin.name).join(", ")}.`,
+          [chip.name, netName],
+          unserved[0].position,
+        ),
+      );
+    }
+  }
+  return findings;
+}
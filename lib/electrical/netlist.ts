@@ -0,0 +1,162 @@
+import { buildCircuitJsonModel, type Point } from "@/lib/manufacturing/circuitJson";
+
+type UnknownRecord = Record<string, unknown>;
+
+/** One pin of a source component, with the net it lands on and where its pad sits on the PCB. */
+export interface PinRecord {
+  sourcePortId: string;
+  componentName: string;
+  name: string;
+  /** `name` plus `port_hints`, so pin labels match whichever alias the design used. */
+  labels: string[];
+  pinNumber: number | null;
+  netName: string | null;
+  position: Point | null;
+}
+
+export interface ElectricalComponent {
+  sourceComponentId: string;
+  name: string;
+  ftype: string | null;
+  manufacturerPartNumber: string | null;
+  /** Capacitance in farads for capacitors, else null. */
+  capacitance: number | null;
+  displayValue: string | null;
+  center: Point | null;
+  pins: PinRecord[];
+  source: UnknownRecord;
+}
+
+export interface ElectricalNet {
+  name: string;
+  isGround: boolean;
+  isPower: boolean;
+  pins: PinRecord[];
+}
+
+export interface ElectricalNetlist {
+  components: ElectricalComponent[];
+  nets: Map<string, ElectricalNet>;
+}
+
+const GROUND_NET_PATTERN = /^([ADPS]?GND|VSS|VEE|GROUND|0V)([_-]?[A-Z0-9]*)?$/i;
+const SUPPLY_NET_PATTERN = /^(\+?\d+V\d*|V\d+V\d*|V(CC|DD|IN|BAT|BUS|SYS|MOT|LED|IO|CORE|REF)[A-Z0-9_]*|[A-Z0-9_]*_?(VCC|VDD|PWR))$/i;
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function isGroundNetName(name: string): boolean {
+  return GROUND_NET_PATTERN.test(name);
+}
+
+export function isSupplyNetName(name: string): boolean {
+  return !isGroundNetName(name) && SUPPLY_NET_PATTERN.test(name);
+}
+
+/** True when a pin has no label of its own, only `pinN` or a bare number. */
+export function hasGenericLabels(pin: PinRecord): boolean {
+  return pin.labels.every((label) => /^(pin)?\d+$/i.test(label));
+}
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Pin-level view of a compiled design for electrical checks: each source
+ * component with its pins, the net each pin resolves to (through the same
+ * connectivity as the manufacturing model), and PCB positions where placed.
+ * Nets flagged `is_ground` / `is_power` by tscircuit keep those flags;
+ * otherwise they are inferred from the net name.
+ */
+export function buildElectricalNetlist(circuitJson: unknown[]): ElectricalNetlist {
+  const rows = circuitJson.filter(
+    (item): item is UnknownRecord => item !== null && typeof item === "object",
+  );
+  const model = buildCircuitJsonModel(circuitJson);
+
+  const sourceNets = new Map<string, UnknownRecord>();
+  for (const row of rows) {
+    const id = row.type === "source_net" ? asString(row.source_net_id) : null;
+    if (id) sourceNets.set(id, row);
+  }
+  const nets = new Map<string, ElectricalNet>();
+  const netByPort = new Map<string, string>();
+  for (const net of model.nets) {
+    const sourceNet = net.sourceNetId ? sourceNets.get(net.sourceNetId) : undefined;
+    const isGround = sourceNet?.is_ground === true || isGroundNetName(net.name);
+    nets.set(net.name, {
+      name: net.name,
+      isGround,
+      isPower: !isGround && (sourceNet?.is_power === true || isSupplyNetName(net.name)),
+      pins: [],
+    });
+    for (const portId of net.sourcePortIds) netByPort.set(portId, net.name);
+  }
+
+  const positionByPort = new Map<string, Point>();
+  const centerByComponent = new Map<string, Point>();
+  for (const row of rows) {
+    if (row.type === "pcb_port") {
+      const portId = asString(row.source_port_id);
+      const x = asNumber(row.x);
+      const y = asNumber(row.y);
+      if (portId && x !== null && y !== null) positionByPort.set(portId, { x, y });
+    }
+  }
+  for (const component of model.components) {
+    if (component.sourceComponentId) centerByComponent.set(component.sourceComponentId, component.center);
+  }
+
+  const components = new Map<string, ElectricalComponent>();
+  for (const row of rows) {
+    if (row.type !== "source_component") continue;
+    const id = asString(row.source_component_id);
+    if (!id) continue;
+    components.set(id, {
+      sourceComponentId: id,
+      name: asString(row.name) ?? id,
+      ftype: asString(row.ftype),
+      manufacturerPartNumber: asString(row.manufacturer_part_number),
+      capacitance: asNumber(row.capacitance),
+      displayValue: asString(row.display_value) ?? asString(row.display_capacitance),
+      center: centerByComponent.get(id) ?? null,
+      pins: [],
+      source: row,
+    });
+  }
+
+  for (const row of rows) {
+    if (row.type !== "source_port") continue;
+    const portId = asString(row.source_port_id);
+    const component = components.get(asString(row.source_component_id) ?? "");
+    if (!portId || !component) continue;
+    const name = asString(row.name) ?? portId;
+    const hints = Array.isArray(row.port_hints)
+      ? row.port_hints.map((hint) => asString(hint)).filter((hint): hint is string => hint !== null)
+      : [];
+    const pin: PinRecord = {
+      sourcePortId: portId,
+      componentName: component.name,
+      name,
+      labels: Array.from(new Set([name, ...hints])),
+      pinNumber: asNumber(row.pin_number),
+      netName: netByPort.get(portId) ?? null,
+      position: positionByPort.get(portId) ?? null,
+    };
+    component.pins.push(pin);
+    if (pin.netName) nets.get(pin.netName)?.pins.push(pin);
+  }
+  for (const component of components.values()) {
+    component.pins.sort(
+      (a, b) => (a.pinNumber ?? Infinity) - (b.pinNumber ?? Infinity) || a.sourcePortId.localeCompare(b.sourcePortId),
+    );
+  }
+
+  return { components: Array.from(components.values()), nets };
+}
@@ -0,0 +1,157 @@
+/**
+ * Characteristics of parts the design tools pick often, keyed by MPN prefix:
+ * fixed-output regulators, absolute maximum pin voltages and supply current.
+ * Values are datasheet figures for the common package; they feed estimates,
+ * not sign-off, and user overrides win where the request provides them.
+ */
+
+/** A fixed-output regulator family. */
+interface RegulatorEntry {
+  pattern: RegExp;
+  /** Highest input the part survives. */
+  maxInputV: number;
+  /** Rated continuous output current. */
+  ratedMa: number;
+  package: string;
+  /** Junction-to-ambient thermal resistance on a typical 2-layer board. */
+  thetaJaCPerW: number;
+  /** The MPN digits are whole volts (7805) rather than tenths (XC6206P332). */
+  wholeVolts?: boolean;
+}
+
+export interface RegulatorSpec {
+  outputV: number;
+  maxInputV: number;
+  ratedMa: number;
+  package: string;
+  thetaJaCPerW: number;
+}
+
+/** Linear regulators are rated to this junction temperature. */
+export const REGULATOR_MAX_JUNCTION_C = 125;
+
+/**
+ * The first capture group is the output voltage as written in the MPN: "3.3",
+ * or two digits read as tenths ("33").
+ */
+const REGULATORS: RegulatorEntry[] = [
+  { pattern: /^AMS1117-?(\d\.\d)/i, maxInputV: 15, ratedMa: 1000, package: "SOT-223", thetaJaCPerW: 90 },
+  { pattern: /^(?:LM|LD|TLV|NCP)1117[A-Z]*-?(\d\.\d|\d{2})/i, maxInputV: 15, ratedMa: 800, package: "SOT-223", thetaJaCPerW: 62 },
+  { pattern: /^AP2112K?-(\d\.\d)/i, maxInputV: 6.5, ratedMa: 600, package: "SOT-23-5", thetaJaCPerW: 250 },
+  { pattern: /^XC6206P(\d{2})/i, maxInputV: 7, ratedMa: 200, package: "SOT-23", thetaJaCPerW: 250 },
+  { pattern: /^ME6211C(\d{2})/i, maxInputV: 6.5, ratedMa: 500, package: "SOT-23-5", thetaJaCPerW: 250 },
+  { pattern: /^MCP1700-?(\d{2})/i, maxInputV: 6.5, ratedMa: 250, package: "SOT-23", thetaJaCPerW: 336 },
+  { pattern: /^RT9013-?(\d{2})/i, maxInputV: 6, ratedMa: 500, package: "SOT-23-5", thetaJaCPerW: 250 },
+  { pattern: /^LP5907[A-Z]*-(\d\.\d)/i, maxInputV: 6, ratedMa: 250, package: "SOT-23-5", thetaJaCPerW: 182 },
+  { pattern: /^HT73(\d{2})/i, maxInputV: 12, ratedMa: 250, package: "SOT-89", thetaJaCPerW: 200 },
+  { pattern: /^(?:L|LM|MC|UA)?78M(\d{2})/i, maxInputV: 35, ratedMa: 500, package: "TO-252", thetaJaCPerW: 92, wholeVolts: true },
+  { pattern: /^(?:L|LM|MC|UA)?78(\d{2})/i, maxInputV: 35, ratedMa: 1500, package: "TO-220", thetaJaCPerW: 65, wholeVolts: true },
+];
+
+export function findRegulatorSpec(mpn: string | null): RegulatorSpec | null {
+  if (!mpn) return null;
+  for (const entry of REGULATORS) {
+    const match = entry.pattern.exec(mpn);
+    if (!match) continue;
+    const digits = match[1];
+    const outputV = digits.includes(".")
+      ? Number.parseFloat(digits)
+      : Number.parseInt(digits, 10) / (entry.wholeVolts ? 1 : 10);
+    return {
+      outputV,
+      maxInputV: entry.maxInputV,
+      ratedMa: entry.ratedMa,
+      package: entry.package,
+      thetaJaCPerW: entry.thetaJaCPerW,
+    };
+  }
+  return null;
+}
+
+export interface PartVoltageLimit {
+  pattern: RegExp;
+  maxV: number;
+  /** Pins rated separately, e.g. a high-voltage supply input. */
+  pinLimits?: Array<{ label: RegExp; maxV: number }>;
+  /** Only supply pins are limited; the I/O is 5V tolerant on many variants. */
+  supplyOnly?: boolean;
+}
+
+const PART_VOLTAGE_LIMITS: PartVoltageLimit[] = [
+  { pattern: /^ESP32/i, maxV: 3.6 },
+  { pattern: /^RP2040/i, maxV: 3.63, pinLimits: [{ label: /^DVDD$/i, maxV: 1.32 }] },
+  { pattern: /^(AT)?SAM[DE]\d/i, maxV: 3.8 },
+  { pattern: /^NRF52/i, maxV: 3.9, pinLimits: [{ label: /^(VDDH|VBUS)$/i, maxV: 5.5 }] },
+  { pattern: /^STM32/i, maxV: 4, supplyOnly: true },
+  { pattern: /^AT(MEGA|TINY)/i, maxV: 6 },
+  { pattern: /^BM[EP]280/i, maxV: 4.25 },
+  { pattern: /^SSD1306/i, maxV: 4 },
+];
+
+export function findPartVoltageLimit(mpn: string | null): PartVoltageLimit | null {
+  if (!mpn) return null;
+  return PART_VOLTAGE_LIMITS.find((entry) => entry.pattern.test(mpn)) ?? null;
+}
+
+export interface PartCurrent {
+  /** Typical running current. */
+  typicalMa: number;
+  /** Peak current: radio transmit, all LEDs on, flash writes. */
+  maxMa: number;
+}
+
+const PART_CURRENTS: Array<PartCurrent & { pattern: RegExp }> = [
+  { pattern: /^ESP32-C3/i, typicalMa: 80, maxMa: 350 },
+  { pattern: /^ESP32-S3/i, typicalMa: 100, maxMa: 500 },
+  { pattern: /^ESP32/i, typicalMa: 80, maxMa: 500 },
+  { pattern: /^RP2040/i, typicalMa: 25, maxMa: 100 },
+  { pattern: /^(AT)?SAM[DE]\d/i, typicalMa: 7, maxMa: 20 },
+  { pattern: /^NRF52/i, typicalMa: 5, maxMa: 20 },
+  { pattern: /^STM32/i, typicalMa: 20, maxMa: 60 },
+  { pattern: /^AT(MEGA|TINY)/i, typicalMa: 10, maxMa: 40 },
+  { pattern: /^BM[EP]280/i, typicalMa: 0.01, maxMa: 1 },
+  { pattern: /^SSD1306/i, typicalMa: 10, maxMa: 25 },
+  { pattern: /^MPU-?6050/i, typicalMa: 4, maxMa: 5 },
+  { pattern: /^CH340/i, typicalMa: 12, maxMa: 30 },
+  { pattern: /^CP210\d/i, typicalMa: 20, maxMa: 26 },
+  { pattern: /^(WS2812|SK6812)/i, typicalMa: 20, maxMa: 60 },
+];
+
+/** Per-type fallbacks for parts without an MPN match. */
+const FTYPE_CURRENTS: Record<string, PartCurrent> = {
+  simple_led: { typicalMa: 10, maxMa: 20 },
+};
+
+export function findPartCurrent(mpn: string | null, ftype: string | null): { current: PartCurrent; basis: "part_table" | "part_type" } | null {
+  const entry = mpn ? PART_CURRENTS.find((part) => part.pattern.test(mpn)) : undefined;
+  if (entry) return { current: { typicalMa: entry.typicalMa, maxMa: entry.maxMa }, basis: "part_table" };
+  const byType = ftype ? FTYPE_CURRENTS[ftype] : undefined;
+  return byType ? { current: byType, basis: "part_type" } : null;
+}
+
+/** USB PHYs whose datasheets call for external series resistors on D+/D-. */
+const USB_SERIES_RESISTORS: Array<{ pattern: RegExp; ohms: number }> = [
+  { pattern: /^RP2040/i, ohms: 27 },
+  { pattern: /^ATMEGA(8|16|32)U[24]/i, ohms: 22 },
+  { pattern: /^AT90USB/i, ohms: 22 },
+];
+
+export function findUsbSeriesResistorOhms(mpn: string | null): number | null {
+  if (!mpn) return null;
+  return USB_SERIES_RESISTORS.find((entry) => entry.pattern.test(mpn))?.ohms ?? null;
+}
+
+/** Reset and enable pins held inactive by an on-chip pull-up, so they may be left open. */
+const INTERNAL_RESET_PULLUPS: Array<{ pattern: RegExp; label: RegExp }> = [
+  { pattern: /^STM32/i, label: /^NRST$/i },
+  { pattern: /^RP2040/i, label: /^RUN$/i },
+  { pattern: /^AT(MEGA|TINY)/i, label: /^N?RESET$/i },
+  { pattern: /^NRF52/i, label: /^N?RESET$/i },
+];
+
+export function hasInternalResetPullUp(mpn: string | null, labels: string[]): boolean {
+  if (!mpn) return false;
+  return INTERNAL_RESET_PULLUPS.some(
+    (entry) => entry.pattern.test(mpn) && labels.some((label) => entry.label.test(label)),
+  );
+}
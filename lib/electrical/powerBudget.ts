@@ -0,0 +1,314 @@
+import type {
+  PowerBudget,
+  PowerBudgetLoad,
+  PowerBudgetRail,
+  PowerBudgetRegulator,
+  PowerTree,
+  ValidationDiagnostic,
+} from "@/lib/stream/types";
+import type { Point } from "@/lib/manufacturing/circuitJson";
+import { formatPoint } from "@/lib/manufacturing/copperGeometry";
+import { buildElectricalNetlist, type ElectricalComponent } from "./netlist";
+import { REGULATOR_MAX_JUNCTION_C, findPartCurrent, findRegulatorSpec } from "./parts";
+
+export const POWER_BUDGET_OVERLOAD_CATEGORY = "power_budget_regulator_overload";
+export const POWER_BUDGET_THERMAL_CATEGORY = "power_budget_regulator_thermal";
+
+/** Current figures for a part the table lacks or gets wrong, matched by designator or MPN prefix. */
+export interface PowerBudgetLoadOverride {
+  component?: string;
+  mpn?: string;
+  typicalMa?: number;
+  maxMa?: number;
+}
+
+export interface PowerBudgetInput {
+  loads?: PowerBudgetLoadOverride[];
+  /** Ambient temperature for regulator junction estimates. */
+  ambientC?: number;
+}
+
+export const DEFAULT_AMBIENT_C = 25;
+
+/** Typical load over the rating, or a junction over its limit at typical load, cannot work. */
+const EXCEEDED_SEVERITY = 8;
+/** Only the peak load exceeds the limit: worth fixing, but the design may work at typical load. */
+const PEAK_EXCEEDED_SEVERITY = 6;
+
+/** Pins a part draws its supply current through. */
+const SUPPLY_PIN_PATTERN = /^([AD]?V(DD|CC)[A-Z0-9_]*|V(IN|BAT|BUS|SYS)\d*|V\+|\+?\d+V\d*)$/i;
+
+type UnknownRecord = Record<string, unknown>;
+
+export function parsePowerBudgetInput(input: unknown): { input: PowerBudgetInput; errors: string[] } {
+  if (input === undefined || input === null) return { input: {}, errors: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { input: {}, errors: ["powerBudget must be an object"] };
+  }
+  const record = input as UnknownRecord;
+  const parsed: PowerBudgetInput = {};
+  const errors: string[] = [];
+  const isNonNegative = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  if (record.ambientC !== undefined) {
+    if (typeof record.ambientC !== "number" || !Number.isFinite(record.ambientC)) {
+      errors.push("powerBudget.ambientC must be a number");
+    } else {
+      parsed.ambientC = record.ambientC;
+    }
+  }
+
+  if (record.loads !== undefined) {
+    if (!Array.isArray(record.loads)) {
+      errors.push("powerBudget.loads must be an array");
+    } else {
+      parsed.loads = [];
+      record.loads.forEach((entry, index) => {
+        const item = entry as UnknownRecord | null;
+        const component = typeof item?.component === "string" ? item.component.trim() : "";
+        const mpn = typeof item?.mpn === "string" ? item.mpn.trim() : "";
+        if (!component && !mpn) {
+          errors.push(`powerBudget.loads[${index}] must name a component or an mpn`);
+          return;
+        }
+        if (item?.typicalMa === undefined && item?.maxMa === undefined) {
+          errors.push(`powerBudget.loads[${index}] must set typicalMa or maxMa`);
+          return;
+        }
+        for (const key of ["typicalMa", "maxMa"] as const) {
+          if (item?.[key] !== undefined && !isNonNegative(item[key])) {
+            errors.push(`powerBudget.loads[${index}].${key} must be a non-negative number`);
+            return;
+          }
+        }
+        parsed.loads!.push({
+          ...(component ? { component } : {}),
+          ...(mpn ? { mpn } : {}),
+          ...(item?.typicalMa !== undefined ? { typicalMa: item.typicalMa as number } : {}),
+          ...(item?.maxMa !== undefined ? { maxMa: item.maxMa as number } : {}),
+        });
+      });
+    }
+  }
+
+  return { input: parsed, errors };
+}
+
+function findOverride(component: ElectricalComponent, overrides: PowerBudgetLoadOverride[]) {
+  const mpn = component.manufacturerPartNumber?.toUpperCase() ?? null;
+  return (
+    overrides.find((entry) => entry.component?.toUpperCase() === component.name.toUpperCase()) ??
+    overrides.find((entry) => entry.mpn && mpn?.startsWith(entry.mpn.toUpperCase()))
+  );
+}
+
+function loadFor(component: ElectricalComponent, overrides: PowerBudgetLoadOverride[]): PowerBudgetLoad | null {
+  const override = findOverride(component, overrides);
+  if (override) {
+    const typicalMa = override.typicalMa ?? override.maxMa!;
+    return { component: component.name, typicalMa, maxMa: Math.max(override.maxMa ?? typicalMa, typicalMa), basis: "override" };
+  }
+  const known = findPartCurrent(component.manufacturerPartNumber, component.ftype);
+  return known ? { component: component.name, ...known.current, basis: known.basis } : null;
+}
+
+function makeBudgetDiagnostic(
+  category: string,
+  severity: number,
+  message: string,
+  ids: string[],
+  location: Point | null,
+): ValidationDiagnostic {
+  const located = location ? `${message} (at ${formatPoint(location)})` : message;
+  return {
+    category,
+    message: located,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+    handling: "must_repair",
+  };
+}
+
+function roundTo(value: number, digits: number): number {
+  return Number(value.toFixed(digits));
+}
+
+/**
+ * Sum typical and peak current per rail of the power tree and check each
+ * regulator against it. A part's current comes from the request's overrides,
+ * else the parts table by MPN, else a per-type default (LEDs); chips with none
+ * are listed in `unknownLoads` and count as zero. Each load is charged to the
+ * rail its supply pins sit on, and a rail's total includes everything it feeds
+ * through regulators and pass-through parts. Regulators whose output current
+ * exceeds the rating are `power_budget_regulator_overload`; linear regulators
+ * whose (Vin - Vout) x I dissipation takes the junction past 125°C through the
+ * package's thermal resistance are `power_budget_regulator_thermal`. Either is
+ * severity 8 at typical load and 6 when only the peak exceeds the limit.
+ */
+export function computePowerBudget(
+  circuitJson: unknown[],
+  tree: PowerTree,
+  input: PowerBudgetInput = {},
+): { budget: PowerBudget; diagnostics: ValidationDiagnostic[] } {
+  const ambientC = input.ambientC ?? DEFAULT_AMBIENT_C;
+  const overrides = input.loads ?? [];
+  const { components } = buildElectricalNetlist(circuitJson);
+  const byName = new Map(components.map((component) => [component.name, component]));
+  const railByNet = new Map(tree.rails.map((rail) => [rail.net, rail]));
+  const conveyors = new Set(tree.edges.map((edge) => edge.via));
+
+  // Each part counts once, on the rail its supply pin sits on, else the first rail it touches.
+  const loadsByRail = new Map<string, PowerBudgetLoad[]>();
+  const unknownLoads: string[] = [];
+  for (const component of components) {
+    if (conveyors.has(component.name)) continue;
+    const railPins = component.pins.filter((entry) => {
+      const rail = entry.netName ? railByNet.get(entry.netName) : undefined;
+      return rail !== undefined && !rail.sources.includes(component.name);
+    });
+    const pin = railPins.find((entry) => entry.labels.some((label) => SUPPLY_PIN_PATTERN.test(label))) ?? railPins[0];
+    if (!pin?.netName) continue;
+    const load = loadFor(component, overrides);
+    if (!load) {
+      if (component.ftype === "simple_chip") unknownLoads.push(component.name);
+      continue;
+    }
+    loadsByRail.set(pin.netName, [...(loadsByRail.get(pin.netName) ?? []), load]);
+  }
+
+  const totals = new Map<string, { typicalMa: number; maxMa: number }>();
+  const visiting = new Set<string>();
+  const totalFor = (net: string): { typicalMa: number; maxMa: number } => {
+    const cached = totals.get(net);
+    if (cached) return cached;
+    const total = { typicalMa: 0, maxMa: 0 };
+    if (visiting.has(net)) return total;
+    visiting.add(net);
+    for (const load of loadsByRail.get(net) ?? []) {
+      total.typicalMa += load.typicalMa;
+      total.maxMa += load.maxMa;
+    }
+    const fed = new Set(tree.edges.filter((edge) => edge.from === net).map((edge) => edge.to));
+    for (const child of fed) {
+      const downstream = totalFor(child);
+      total.typicalMa += downstream.typicalMa;
+      total.maxMa += downstream.maxMa;
+    }
+    visiting.delete(net);
+    totals.set(net, total);
+    return total;
+  };
+
+  const rails: PowerBudgetRail[] = tree.rails.map((rail) => {
+    const total = totalFor(rail.net);
+    return {
+      net: rail.net,
+      voltage: rail.voltage,
+      typicalMa: roundTo(total.typicalMa, 2),
+      maxMa: roundTo(total.maxMa, 2),
+      loads: loadsByRail.get(rail.net) ?? [],
+    };
+  });
+
+  const diagnostics: ValidationDiagnostic[] = [];
+  const regulators: PowerBudgetRegulator[] = [];
+  const seen = new Set<string>();
+  for (const edge of tree.edges) {
+    if (edge.kind !== "regulator" || seen.has(edge.via)) continue;
+    seen.add(edge.via);
+    const component = byName.get(edge.via);
+    const mpn = component?.manufacturerPartNumber ?? null;
+    const spec = findRegulatorSpec(mpn);
+    const output = totalFor(edge.to);
+    const inputV = railByNet.get(edge.from)?.voltage ?? null;
+    const outputV = railByNet.get(edge.to)?.voltage ?? spec?.outputV ?? null;
+    const dropV = inputV !== null && outputV !== null ? Math.max(0, inputV - outputV) : null;
+    const dissipationW = dropV !== null ? (dropV * output.maxMa) / 1000 : null;
+    const junctionC =
+      dissipationW !== null && spec ? ambientC + dissipationW * spec.thetaJaCPerW : null;
+    regulators.push({
+      component: edge.via,
+      mpn,
+      inputNet: edge.from,
+      outputNet: edge.to,
+      inputV,
+      outputV,
+      ratedMa: spec?.ratedMa ?? null,
+      typicalMa: roundTo(output.typicalMa, 2),
+      maxMa: roundTo(output.maxMa, 2),
+      package: spec?.package ?? null,
+      thermalResistanceCPerW: spec?.thetaJaCPerW ?? null,
+      dissipationW: dissipationW !== null ? roundTo(dissipationW, 3) : null,
+      junctionC: junctionC !== null ? roundTo(junctionC, 1) : null,
+    });
+    if (!spec) continue;
+    const label = `${edge.via} (${mpn})`;
+    const location = component?.center ?? null;
+
+    if (output.maxMa > spec.ratedMa) {
+      const typicalOver = output.typicalMa > spec.ratedMa;
+      diagnostics.push(
+        makeBudgetDiagnostic(
+          POWER_BUDGET_OVERLOAD_CATEGORY,
+          typicalOver ? EXCEEDED_SEVERITY : PEAK_EXCEEDED_SEVERITY,
+          `${label} supplies ${edge.to} with ${roundTo(output.typicalMa, 1)}mA typical and ${roundTo(output.maxMa, 1)}mA peak, ${typicalOver ? "above" : "peaking above"} its ${spec.ratedMa}mA rating. Use a higher-current regulator or move loads to another rail.`,
+          [edge.via, edge.to],
+          location,
+        ),
+      );
+    }
+
+    if (dropV === null) continue;
+    const maxDissipationW = (REGULATOR_MAX_JUNCTION_C - ambientC) / spec.thetaJaCPerW;
+    const typicalW = (dropV * output.typicalMa) / 1000;
+    if (dissipationW! <= maxDissipationW) continue;
+    const typicalOver = typicalW > maxDissipationW;
+    diagnostics.push(
+      makeBudgetDiagnostic(
+        POWER_BUDGET_THERMAL_CATEGORY,
+        typicalOver ? EXCEEDED_SEVERITY : PEAK_EXCEEDED_SEVERITY,
+        `${label} drops ${roundTo(dropV, 2)}V from ${edge.from} to ${edge.to}: ${roundTo(dissipationW!, 2)}W at ${roundTo(output.maxMa, 1)}mA peak (${roundTo(typicalW, 2)}W typical). At ${ambientC}°C ambient its ${spec.package} (${spec.thetaJaCPerW}°C/W) reaches about ${Math.round(junctionC!)}°C against a ${REGULATOR_MAX_JUNCTION_C}°C limit, so it can dissipate ${roundTo(maxDissipationW, 2)}W. Lower the input voltage, use a switching regulator or a larger package.`,
+        [edge.via, edge.to],
+        location,
+      ),
+    );
+  }
+
+  return {
+    budget: { ambientC, rails, regulators, unknownLoads },
+    diagnostics,
+  };
+}
+
+function formatMa(value: number): string {
+  return `${roundTo(value, 1)}mA`;
+}
+
+/** Markdown table of rail totals and regulator load for summaries and reports. */
+export function formatPowerBudgetTable(budget: PowerBudget): string {
+  const lines = [
+    "| Rail | Voltage | Typical | Peak | Regulator | Rating | Dissipation | Junction |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- |",
+  ];
+  for (const rail of budget.rails) {
+    const regulator = budget.regulators.find((entry) => entry.outputNet === rail.net);
+    const cells = [
+      rail.net,
+      rail.voltage !== null ? `${roundTo(rail.voltage, 2)}V` : "?",
+      formatMa(rail.typicalMa),
+      formatMa(rail.maxMa),
+      regulator ? (regulator.mpn ? `${regulator.component} ${regulator.mpn}` : regulator.component) : "",
+      regulator?.ratedMa ? `${regulator.ratedMa}mA` : "",
+      typeof regulator?.dissipationW === "number" ? `${regulator.dissipationW}W` : "",
+      typeof regulator?.junctionC === "number" ? `${Math.round(regulator.junctionC)}°C` : "",
+    ];
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+  if (budget.unknownLoads.length > 0) {
+    lines.push("", `No current figure for ${budget.unknownLoads.join(", ")}; set them in \`powerBudget.loads\`.`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,408 @@
+import type {
+  PowerRail,
+  PowerTree,
+  PowerTreeEdge,
+  RequirementItem,
+  ValidationDiagnostic,
+} from "@/lib/stream/types";
+import type { Point } from "@/lib/manufacturing/circuitJson";
+import { formatPoint } from "@/lib/manufacturing/copperGeometry";
+import {
+  buildElectricalNetlist,
+  type ElectricalComponent,
+  type ElectricalNet,
+  type PinRecord,
+} from "./netlist";
+import { findPartVoltageLimit, findRegulatorSpec } from "./parts";
+
+export const POWER_PIN_OVERVOLTAGE_CATEGORY = "power_pin_overvoltage";
+export const POWER_RAIL_UNSOURCED_CATEGORY = "power_rail_unsourced";
+export const POWER_RAIL_CONTENTION_CATEGORY = "power_rail_contention";
+
+export interface PowerTreeAnalysis {
+  tree: PowerTree;
+  diagnostics: ValidationDiagnostic[];
+}
+
+/** CMOS inputs typically tolerate their own supply plus this much. */
+const SUPPLY_MARGIN_V = 0.3;
+const VOLTAGE_TOLERANCE = 0.05;
+
+const SUPPLY_PIN_PATTERN = /^[AD]?V(DD|CC)[A-Z0-9_]*$/i;
+const POWER_LABEL_PATTERN = /^([AD]?V(DD|CC|SS|EE)[A-Z0-9_]*|V(IN|BAT|BUS|SYS|OUT|REF)\d*|[AD]?GND\d*|EN|CE)$/i;
+const REGULATOR_INPUT_PATTERN = /^(VIN|IN|VI)\d?$/i;
+const REGULATOR_OUTPUT_PATTERN = /^(VOUT|OUT|VO)\d?$/i;
+const POSITIVE_PIN_PATTERN = /^(pos|positive|plus|anode|\+|vout|v\+)$/i;
+
+/** Two-terminal parts that pass a rail through unchanged for the purposes of this analysis. */
+const PASS_THROUGH_FTYPES = new Set(["simple_fuse", "simple_inductor", "simple_switch", "simple_push_button", "simple_diode"]);
+/** A resistor at or below this is a jumper or sense resistor, not a divider. */
+const PASS_THROUGH_MAX_OHMS = 1;
+const SOURCE_FTYPES = new Set(["simple_battery", "simple_power_source", "simple_voltage_source"]);
+const CONNECTOR_FTYPES = new Set(["simple_pin_header"]);
+
+interface Regulator {
+  component: ElectricalComponent;
+  outputV: number | null;
+  maxInputV: number | null;
+  inputNets: string[];
+  outputNets: string[];
+}
+
+interface RailState {
+  net: ElectricalNet;
+  voltage: number | null;
+  basis: PowerRail["voltageBasis"];
+  sources: Set<string>;
+  regulators: Set<string>;
+  issues: string[];
+}
+
+/** Rail voltage implied by a net name: V3V3, +3V3, VCC_1V8, 5V, 3.3V, VBUS. */
+export function voltageFromNetName(name: string): number | null {
+  const upper = name.toUpperCase();
+  if (/^(USB_?)?VBUS$/.test(upper)) return 5;
+  const decimal = /^\+?(\d+(?:\.\d+)?)V$/.exec(upper);
+  if (decimal) return Number.parseFloat(decimal[1]);
+  const split = /(?:^|[^0-9])(\d{1,2})V(\d{1,2})?$/.exec(upper);
+  if (split) return Number.parseFloat(split[2] ? `${split[1]}.${split[2]}` : split[1]);
+  return null;
+}
+
+interface RequirementSupply {
+  voltage: number;
+  kind: "usb" | "battery" | "input";
+}
+
+/** Supplies stated in requirements: "runs from USB", "2xAA", "LiPo", "12V input". */
+export function suppliesFromRequirements(requirements: RequirementItem[]): RequirementSupply[] {
+  const supplies: RequirementSupply[] = [];
+  for (const item of requirements) {
+    if (item.status === "rejected") continue;
+    const text = [item.title, item.value].filter(Boolean).join(" ");
+    if (/\busb\b/i.test(text) && /\b(power(ed)?|runs?|suppl(y|ied)|from)\b/i.test(text)) {
+      supplies.push({ voltage: 5, kind: "usb" });
+    }
+    const cells = /(\d+)\s*(?:x|×)\s*AAA?\b|(\d+)\s*AAA?\s+(?:cells?|batter)/i.exec(text);
+    if (cells) {
+      supplies.push({ voltage: Number.parseInt(cells[1] ?? cells[2], 10) * 1.5, kind: "battery" });
+    } else if (/\b(li-?po|li-?ion|18650)\b/i.test(text)) {
+      supplies.push({ voltage: 4.2, kind: "battery" });
+    }
+    const input =
+      /(\d+(?:\.\d+)?)\s*V\s*(?:DC\s*)?(?:input|adapter|barrel|wall|battery)\b/i.exec(text) ??
+      /\b(?:input|adapter|barrel jack)\b[^.]*?(\d+(?:\.\d+)?)\s*V\b/i.exec(text);
+    if (input) {
+      supplies.push({ voltage: Number.parseFloat(input[1]), kind: "input" });
+    }
+  }
+  return supplies;
+}
+
+function railsForSupply(supply: RequirementSupply, candidates: RailState[]): RailState[] {
+  const byName = (pattern: RegExp) => candidates.filter((rail) => pattern.test(rail.net.name));
+  const named =
+    supply.kind === "usb" ? byName(/VBUS/i) : supply.kind === "battery" ? byName(/BAT/i) : byName(/^(VIN|VSUPPLY|VEXT|VDC)/i);
+  return named.length > 0 ? named : candidates;
+}
+
+function positivePinNet(component: ElectricalComponent, nets: Map<string, ElectricalNet>): string | null {
+  const powered = component.pins.filter((pin) => pin.netName && !nets.get(pin.netName)?.isGround);
+  const labelled = powered.find((pin) => pin.labels.some((label) => POSITIVE_PIN_PATTERN.test(label)));
+  return (labelled ?? powered[0])?.netName ?? null;
+}
+
+function isPassThrough(component: ElectricalComponent): boolean {
+  if (component.pins.length !== 2) return false;
+  if (PASS_THROUGH_FTYPES.has(component.ftype ?? "")) return true;
+  const resistance = component.source.resistance;
+  return component.ftype === "simple_resistor" && typeof resistance === "number" && resistance <= PASS_THROUGH_MAX_OHMS;
+}
+
+function findRegulators(components: ElectricalComponent[]): Regulator[] {
+  const regulators: Regulator[] = [];
+  for (const component of components) {
+    if (component.ftype !== "simple_chip") continue;
+    const spec = findRegulatorSpec(component.manufacturerPartNumber);
+    const netsFor = (pattern: RegExp) =>
+      Array.from(
+        new Set(
+          component.pins
+            .filter((pin) => pin.netName && pin.labels.some((label) => pattern.test(label)))
+            .map((pin) => pin.netName!),
+        ),
+      );
+    const inputNets = netsFor(REGULATOR_INPUT_PATTERN);
+    const outputNets = netsFor(REGULATOR_OUTPUT_PATTERN);
+    if (!spec && (inputNets.length === 0 || outputNets.length === 0)) continue;
+    regulators.push({
+      component,
+      outputV: spec?.outputV ?? null,
+      maxInputV: spec?.maxInputV ?? null,
+      inputNets,
+      outputNets,
+    });
+  }
+  return regulators;
+}
+
+function makePowerDiagnostic(
+  category: string,
+  severity: number,
+  message: string,
+  ids: string[],
+  location: Point | null,
+): ValidationDiagnostic {
+  const located = location ? `${message} (at ${formatPoint(location)})` : message;
+  return {
+    category,
+    message: located,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+    handling: "must_repair",
+  };
+}
+
+function formatVolts(value: number): string {
+  return `${Number(value.toFixed(2))}V`;
+}
+
+function describeBasis(rail: RailState): string {
+  switch (rail.basis) {
+    case "regulator":
+      return `set by ${Array.from(rail.regulators).join(", ")}`;
+    case "net_name":
+      return "from its net name";
+    case "requirement":
+      return "from the requirements";
+    case "propagated":
+      return "carried through from an upstream rail";
+    default:
+      return "";
+  }
+}
+
+/** Highest voltage a chip pin tolerates, and why; null when nothing is known. */
+function pinLimit(
+  chip: ElectricalComponent,
+  pin: PinRecord,
+  rails: Map<string, RailState>,
+): { maxV: number; basis: string } | null {
+  const mpn = chip.manufacturerPartNumber;
+  const part = findPartVoltageLimit(mpn);
+  if (part) {
+    const override = part.pinLimits?.find((entry) => pin.labels.some((label) => entry.label.test(label)));
+    if (override) return { maxV: override.maxV, basis: `${mpn} ${pin.name} absolute max` };
+    if (part.supplyOnly && !pin.labels.some((label) => SUPPLY_PIN_PATTERN.test(label))) return null;
+    return { maxV: part.maxV, basis: `${mpn} absolute max` };
+  }
+  // Unknown part: its I/O tolerates its highest VDD/VCC supply plus a CMOS margin.
+  if (pin.labels.some((label) => POWER_LABEL_PATTERN.test(label))) return null;
+  const supplies = chip.pins
+    .filter((other) => other.labels.some((label) => SUPPLY_PIN_PATTERN.test(label)))
+    .map((other) => (other.netName ? rails.get(other.netName)?.voltage : null))
+    .filter((voltage): voltage is number => typeof voltage === "number");
+  if (supplies.length === 0) return null;
+  const supply = Math.max(...supplies);
+  return { maxV: supply + SUPPLY_MARGIN_V, basis: `I/O limit of a ${formatVolts(supply)} supplied part` };
+}
+
+/**
+ * Build the design's power tree and check it. Rail voltages come from, in
+ * order of trust: fixed-output regulator MPNs, net names (V3V3, VBUS), supplies
+ * stated in requirements ("runs from USB", "2xAA"), then propagation through
+ * fuses, ferrites, switches, diodes and 0Ω links. Pins on a rail above their
+ * known absolute maximum are `power_pin_overvoltage`; rails with loads but
+ * nothing driving them are `power_rail_unsourced`; rails driven by two
+ * regulators are `power_rail_contention`.
+ */
+export function analyzePowerTree(circuitJson: unknown[], requirements: RequirementItem[] = []): PowerTreeAnalysis {
+  const { components, nets } = buildElectricalNetlist(circuitJson);
+  const regulators = findRegulators(components);
+  const passThroughs = components.filter(isPassThrough);
+
+  const rails = new Map<string, RailState>();
+  const railFor = (netName: string) => {
+    const net = nets.get(netName);
+    if (!net || net.isGround) return null;
+    let rail = rails.get(netName);
+    if (!rail) {
+      rail = { net, voltage: null, basis: null, sources: new Set(), regulators: new Set(), issues: [] };
+      rails.set(netName, rail);
+    }
+    return rail;
+  };
+  for (const net of nets.values()) {
+    if (net.isPower || (!net.isGround && voltageFromNetName(net.name) !== null)) railFor(net.name);
+  }
+
+  const edges: PowerTreeEdge[] = [];
+  for (const regulator of regulators) {
+    for (const outputNet of regulator.outputNets) {
+      const rail = railFor(outputNet);
+      if (!rail) continue;
+      rail.sources.add(regulator.component.name);
+      rail.regulators.add(regulator.component.name);
+      if (regulator.outputV !== null && rail.basis !== "regulator") {
+        rail.voltage = regulator.outputV;
+        rail.basis = "regulator";
+      }
+      for (const inputNet of regulator.inputNets) {
+        if (railFor(inputNet)) edges.push({ from: inputNet, to: outputNet, via: regulator.component.name, kind: "regulator" });
+      }
+    }
+  }
+  for (const component of components) {
+    if (SOURCE_FTYPES.has(component.ftype ?? "")) {
+      const netName = positivePinNet(component, nets);
+      const rail = netName ? railFor(netName) : null;
+      if (!rail) continue;
+      rail.sources.add(component.name);
+      const voltage = component.source.voltage;
+      if (typeof voltage === "number" && rail.basis === null) {
+        rail.voltage = voltage;
+        rail.basis = "regulator";
+      }
+    } else if (CONNECTOR_FTYPES.has(component.ftype ?? "") || /^(J|USB|CN|BT)\d+$/i.test(component.name)) {
+      // Power can enter through any connector pin; treat it as a source rather than guess the cable.
+      for (const pin of component.pins) {
+        const rail = pin.netName ? rails.get(pin.netName) : undefined;
+        rail?.sources.add(component.name);
+      }
+    }
+  }
+
+  for (const rail of rails.values()) {
+    if (rail.basis !== null) continue;
+    const named = voltageFromNetName(rail.net.name);
+    if (named !== null) {
+      rail.voltage = named;
+      rail.basis = "net_name";
+    }
+  }
+
+  // Supplies from the requirements land on the matching input rail, else on rails feeding a regulator.
+  for (const supply of suppliesFromRequirements(requirements)) {
+    const candidates = Array.from(rails.values()).filter(
+      (rail) =>
+        rail.voltage === null &&
+        rail.regulators.size === 0 &&
+        (/VBUS|BAT|VIN/i.test(rail.net.name) ||
+          regulators.some((regulator) => regulator.inputNets.includes(rail.net.name))),
+    );
+    for (const rail of railsForSupply(supply, candidates)) {
+      rail.voltage = supply.voltage;
+      rail.basis = "requirement";
+    }
+  }
+
+  // Carry voltages and sources across pass-through parts until nothing changes.
+  const links = passThroughs
+    .map((component) => ({ component, ends: component.pins.map((pin) => pin.netName) }))
+    .filter((link): link is { component: ElectricalComponent; ends: [string, string] } =>
+      link.ends.every((end) => end !== null && !nets.get(end)?.isGround) && link.ends[0] !== link.ends[1],
+    );
+  for (const link of links) {
+    if (rails.has(link.ends[0]) || rails.has(link.ends[1])) link.ends.forEach((end) => railFor(end));
+  }
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const { component, ends } of links) {
+      const [a, b] = ends.map((end) => rails.get(end));
+      if (!a || !b) continue;
+      for (const [from, to] of [
+        [a, b],
+        [b, a],
+      ]) {
+        if (from.sources.size > 0 && to.sources.size === 0) {
+          to.sources.add(component.name);
+          if (to.voltage === null && from.voltage !== null) {
+            to.voltage = from.voltage;
+            to.basis = "propagated";
+          }
+          edges.push({ from: from.net.name, to: to.net.name, via: component.name, kind: "pass_through" });
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const diagnostics: ValidationDiagnostic[] = [];
+  for (const rail of rails.values()) {
+    if (rail.regulators.size > 1) {
+      rail.issues.push(`${rail.regulators.size} regulators`);
+      diagnostics.push(
+        makePowerDiagnostic(
+          POWER_RAIL_CONTENTION_CATEGORY,
+          8,
+          `${rail.net.name} is driven by ${rail.regulators.size} regulators (${Array.from(rail.regulators).join(", ")}); regulator outputs fight when tied. Give each its own rail or remove one.`,
+          [rail.net.name],
+          null,
+        ),
+      );
+    }
+    const loads = rail.net.pins.filter((pin) => !rail.sources.has(pin.componentName));
+    if (rail.sources.size === 0 && loads.length > 0) {
+      rail.issues.push("no source");
+      diagnostics.push(
+        makePowerDiagnostic(
+          POWER_RAIL_UNSOURCED_CATEGORY,
+          7,
+          `${rail.net.name} powers ${Array.from(new Set(loads.map((pin) => pin.componentName))).join(", ")} but nothing drives it: no regulator output, battery, power source or connector is on the net.`,
+          [rail.net.name],
+          loads[0].position,
+        ),
+      );
+    }
+  }
+
+  for (const chip of components) {
+    if (chip.ftype !== "simple_chip") continue;
+    const regulator = regulators.find((entry) => entry.component === chip);
+    for (const pin of chip.pins) {
+      const rail = pin.netName ? rails.get(pin.netName) : undefined;
+      if (!rail || rail.voltage === null) continue;
+      const isRegulatorInput = pin.labels.some((label) => REGULATOR_INPUT_PATTERN.test(label));
+      const limit =
+        regulator && isRegulatorInput
+          ? regulator.maxInputV !== null
+            ? { maxV: regulator.maxInputV, basis: `${chip.manufacturerPartNumber} input absolute max` }
+            : null
+          : regulator
+            ? null
+            : pinLimit(chip, pin, rails);
+      if (!limit || rail.voltage <= limit.maxV + VOLTAGE_TOLERANCE) continue;
+      if (!rail.issues.includes("overvoltage")) rail.issues.push("overvoltage");
+      diagnostics.push(
+        makePowerDiagnostic(
+          POWER_PIN_OVERVOLTAGE_CATEGORY,
+          9,
+          `${chip.name}.${pin.name} is on ${rail.net.name} at ${formatVolts(rail.voltage)} (${describeBasis(rail)}), above its ${formatVolts(limit.maxV)} ${limit.basis}. Move the pin to a lower rail or add a level shifter or divider.`,
+          [chip.name, pin.name, rail.net.name],
+          pin.position,
+        ),
+      );
+    }
+  }
+
+  const sourceNames = (rail: RailState) => Array.from(rail.sources).sort();
+  const tree: PowerTree = {
+    rails: Array.from(rails.values())
+      .map((rail) => ({
+        net: rail.net.name,
+        voltage: rail.voltage,
+        voltageBasis: rail.basis,
+        sources: sourceNames(rail),
+        loads: Array.from(
+          new Set(rail.net.pins.map((pin) => pin.componentName).filter((name) => !rail.sources.has(name))),
+        ).sort(),
+        issues: rail.issues,
+      }))
+      .sort((a, b) => (b.voltage ?? -1) - (a.voltage ?? -1) || a.net.localeCompare(b.net)),
+    edges,
+  };
+  return { tree, diagnostics };
+}
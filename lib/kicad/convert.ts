@@ -10,6 +10,20 @@ export interface KicadConversionResult {
   metadata: Record<string, unknown>;
 }
 
+export interface KicadPcbConversionResult {
+  ok: boolean;
+  kicadPcb?: string;
+  kicadPro?: string;
+  diagnostics: ValidationDiagnostic[];
+  metadata: Record<string, unknown>;
+}
+
+export interface KicadProjectNames {
+  projectName: string;
+  pcbFilename: string;
+  schematicFilename: string;
+}
+
 function toDiagnostic(category: string, message: string): ValidationDiagnostic {
   return {
     category,
@@ -209,3 +223,125 @@ export async function convertTscircuitCircuitJsonToKicadSchema(
     },
   };
 }
+
+export function resolveKicadProjectNames(projectName = "circuitforge"): KicadProjectNames {
+  const safeName = projectName.trim().replace(/[^A-Za-z0-9_-]/g, "_") || "circuitforge";
+  return {
+    projectName: safeName,
+    pcbFilename: `${safeName}.kicad_pcb`,
+    schematicFilename: `${safeName}.kicad_sch`,
+  };
+}
+
+function convertPcbWithPrimaryLibrary(
+  module: LibraryFunctionMap,
+  circuitJson: unknown[],
+): string {
+  const converterCtor = getMember(module, "CircuitJsonToKicadPcbConverter") as
+    | (new (circuitJson: unknown[]) => {
+        runUntilFinished(): void;
+        getOutputString(): unknown;
+      })
+    | undefined;
+
+  if (typeof converterCtor !== "function") {
+    throw new Error("CircuitJsonToKicadPcbConverter is unavailable");
+  }
+
+  const converter = new converterCtor(circuitJson);
+  converter.runUntilFinished();
+  const output = converter.getOutputString();
+  const pcbText = typeof output === "string" ? output : output?.toString?.();
+  if (!pcbText || typeof pcbText !== "string" || !pcbText.includes("(kicad_pcb")) {
+    throw new Error("circuit-json-to-kicad converter did not return kicad_pcb text");
+  }
+  return pcbText;
+}
+
+function convertProWithPrimaryLibrary(
+  module: LibraryFunctionMap,
+  circuitJson: unknown[],
+  names: KicadProjectNames,
+): string {
+  const converterCtor = getMember(module, "CircuitJsonToKicadProConverter") as
+    | (new (
+        circuitJson: unknown[],
+        options?: { projectName?: string; schematicFilename?: string; pcbFilename?: string },
+      ) => {
+        runUntilFinished(): void;
+        getOutputString(): unknown;
+      })
+    | undefined;
+
+  if (typeof converterCtor !== "function") {
+    throw new Error("CircuitJsonToKicadProConverter is unavailable");
+  }
+
+  const converter = new converterCtor(circuitJson, names);
+  converter.runUntilFinished();
+  const output = converter.getOutputString();
+  const proText = typeof output === "string" ? output : output?.toString?.();
+  if (!proText || typeof proText !== "string") {
+    throw new Error("circuit-json-to-kicad converter did not return kicad_pro text");
+  }
+  return proText;
+}
+
+/**
+ * Convert compiled circuit JSON (pcb_component, pcb_trace, pcb_via, pcb_board)
+ * into a KiCad board plus matching project file. There is no kicad-sch-ts
+ * fallback here: it only understands schematics.
+ */
+export async function convertTscircuitCircuitJsonToKicadPcb(
+  circuitJson: unknown[],
+  names: KicadProjectNames = resolveKicadProjectNames(),
+): Promise<KicadPcbConversionResult> {
+  const metadata: Record<string, unknown> = {
+    source: "circuit-json",
+    generatedAt: Date.now(),
+    projectName: names.projectName,
+  };
+
+  const library = await loadKicadLibrary();
+  if (!library || library.__source !== "circuit-json-to-kicad") {
+    metadata.conversionBackend = library?.__source ?? "none";
+    metadata.loadFailure = true;
+    return {
+      ok: false,
+      diagnostics: [
+        toDiagnostic(
+          "kicad_library_missing",
+          "circuit-json-to-kicad is not available; KiCad PCB output was skipped",
+        ),
+      ],
+      metadata,
+    };
+  }
+
+  metadata.conversionBackend = "circuit-json-to-kicad";
+  try {
+    const kicadPcb = convertPcbWithPrimaryLibrary(library as LibraryFunctionMap, circuitJson);
+    const kicadPro = convertProWithPrimaryLibrary(library as LibraryFunctionMap, circuitJson, names);
+    return {
+      ok: true,
+      kicadPcb,
+      kicadPro,
+      diagnostics: [],
+      metadata,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      diagnostics: [
+        toDiagnostic(
+          "kicad_pcb_converter_error",
+          `circuit-json-to-kicad: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      ],
+      metadata: {
+        ...metadata,
+        conversionFailure: true,
+      },
+    };
+  }
+}
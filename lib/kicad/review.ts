@@ -1,4 +1,6 @@
 import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { validateCircuitJson } from "@/lib/manufacturing/circuitJsonValidation";
+import { DEFAULT_RULE_DECK, applyRuleDeck, defaultSeverity, type RuleDeck } from "@/lib/rules/ruleDeck";
 import { convertTscircuitCircuitJsonToKicadSchema } from "./convert";
 import { join } from "node:path";
 import { mkdtemp, rm, writeFile } from "node:fs/promises";
@@ -63,18 +65,27 @@ function normalizeMessage(item: UnknownRecord): string {
   );
 }
 
-function normalizeSeverityFromCategory(category: string): number {
-  if (category.includes("short") || category.includes("collision") || category.includes("error")) return 9;
-  if (category.includes("clearance") || category.includes("overlap") || category.includes("spacing")) return 7;
-  if (category.includes("warning") || category.includes("dfm") || category.includes("manufactur")) return 6;
-  return 5;
-}
+/**
+ * Native DRC categories and the tscircuit families they behave like, so the
+ * repair loop picks the same strategy (router retry, congestion relief) for a
+ * DRC clearance finding as for the equivalent tscircuit error.
+ */
+const DRC_CATEGORY_FAMILIES: Record<string, string> = {
+  drc_trace_clearance: "pcb_trace_error",
+  drc_trace_pad_clearance: "pcb_trace_error",
+  drc_via_clearance: "pcb_via_clearance_error",
+  drc_pad_clearance: "pcb_footprint_overlap_error",
+  drc_copper_to_edge: "pcb_component_out_of_bounds_error",
+};
 
 export function resolveDiagnosticFamily(category: string, message?: string): string {
   const normalizedCategory = category.trim().toLowerCase();
   const normalizedMessage = (message ?? "").trim().toLowerCase();
   const combined = `${normalizedCategory} ${normalizedMessage}`;
 
+  const drcFamily = DRC_CATEGORY_FAMILIES[normalizedCategory];
+  if (drcFamily) return drcFamily;
+
   const lowSignalPinConflict =
     combined.includes("pin conflict") &&
     combined.includes("unspecified connected to unspecified");
@@ -129,15 +140,19 @@ export function resolveDiagnosticFamily(category: string, message?: string): str
   return normalizedCategory || "validation";
 }
 
-function makeDiagnosticFromUnknown(raw: UnknownRecord): ValidationDiagnostic {
+function makeDiagnosticFromUnknown(raw: UnknownRecord, deck: RuleDeck): ValidationDiagnostic {
   const category = normalizeCategory(raw);
   const message = normalizeMessage(raw);
   const family = resolveDiagnosticFamily(category, message);
   return {
     category,
     message,
-    severity: typeof raw.severity === "number" ? raw.severity : normalizeSeverityFromCategory(category),
+    severity:
+      typeof raw.severity === "number"
+        ? raw.severity
+        : defaultSeverity(deck, { category, message, family, source: "kicad" }),
     signature: `${category}|${message.slice(0, 160)}`,
+    source: "kicad",
     family,
   };
 }
@@ -195,21 +210,6 @@ function normalizeErcSeverity(raw: string): number {
   }
 }
 
-function adjustErcSeverityForKnownNonBlocking(
-  code: string,
-  message: string,
-  baseSeverity: number,
-): number {
-  const upperCode = code.toUpperCase();
-  if (upperCode !== "DUPLICATE_REFERENCE") return baseSeverity;
-
-  const normalizedMessage = message.toLowerCase();
-  const isPowerSymbolDuplicate =
-    /\b(gnd|vcc|vdd|vss|3v3|v3v3|5v|v5v|\+3v3|\+5v)\b/.test(normalizedMessage);
-  if (isPowerSymbolDuplicate) return Math.min(baseSeverity, 4);
-  return Math.min(baseSeverity, 6);
-}
-
 function safePoint(point: unknown): string | null {
   if (!point || typeof point !== "object") return null;
   const p = point as Record<string, unknown>;
@@ -243,17 +243,20 @@ function normalizeKicadSchemaFindingsFromAnalyses(
 
 function summarizeKicadNets(nets: UnknownRecord[]) {
   const samples: string[] = [];
+  const netNames: string[] = [];
   for (const net of nets) {
     const name = asString(net.name) ?? "unnamed";
     const wireCount = typeof net.wireCount === "number" ? net.wireCount : 0;
     const pinCount = Array.isArray(net.pins) ? net.pins.length : 0;
     samples.push(`${name}(pins=${pinCount}, wires=${wireCount})`);
+    if (name !== "unnamed") netNames.push(name);
   }
 
   return {
     nets: nets.length,
     unconnectedPins: 0,
     sampledNets: samples.slice(0, 100),
+    netNames,
   };
 }
 
@@ -285,6 +288,7 @@ function runConnectivityAnalysis(
   const netSummaries = Array.isArray(nets) ? summarizeKicadNets(nets as UnknownRecord[]) : null;
   metadata.connectivity_nets = netSummaries?.nets ?? 0;
   metadata.connectivity_sample_nets = netSummaries?.sampledNets ?? [];
+  metadata.connectivity_net_names = netSummaries?.netNames ?? [];
 
   if (Array.isArray(unconnectedPins) && unconnectedPins.length > 0) {
     for (const pin of unconnectedPins as UnknownRecord[]) {
@@ -353,12 +357,8 @@ function runErcAnalysis(
     const location = asString((violation.location as Record<string, unknown> | null)?.element)
       ? ` (${asString((violation.location as Record<string, unknown> | null)?.element)})`
       : "";
-    const baseSeverity = normalizeErcSeverity(sev);
-    const severity = adjustErcSeverityForKnownNonBlocking(
-      code,
-      message,
-      baseSeverity,
-    );
+    // Per-code adjustments (duplicate references never block) come from the rule deck.
+    const severity = normalizeErcSeverity(sev);
     findings.push(
       makeDiagnosticFromKicad(
         code,
@@ -490,6 +490,7 @@ async function runKicadSchemaValidations(
               nets: metadata.connectivity_nets ?? 0,
               unconnectedPins: metadata.connectivity_unconnected_pins ?? 0,
               sampledNets: metadata.connectivity_sample_nets ?? [],
+              netNames: metadata.connectivity_net_names ?? [],
             }
           : null,
       traceability: {
@@ -527,7 +528,7 @@ async function runKicadSchemaValidations(
   }
 }
 
-function summarizeConnectivity(circuitJson: unknown[]) {
+export function summarizeConnectivity(circuitJson: unknown[]) {
   let components = 0;
   let traces = 0;
   const nets = new Set<string>();
@@ -555,6 +556,7 @@ function summarizeConnectivity(circuitJson: unknown[]) {
     traces,
     netCount: nets.size,
     sampledNets: Array.from(nets).slice(0, 80),
+    netNames: Array.from(nets),
     componentNameSamples: Array.from(pins).slice(0, 120),
   };
 }
@@ -574,17 +576,26 @@ function summarizeTraceability(circuitJson: unknown[]) {
   return map;
 }
 
-export function assessKicadFindingsFromRaw(rawFindings: unknown[]): ValidationDiagnostic[] {
+/**
+ * Normalizes raw KiCad review output into diagnostics: findings without a
+ * severity are scored by the deck's defaults, duplicates keep the highest
+ * severity, and the deck's rules are applied last.
+ */
+export function assessKicadFindingsFromRaw(
+  rawFindings: unknown[],
+  deck: RuleDeck = DEFAULT_RULE_DECK,
+): ValidationDiagnostic[] {
   if (!Array.isArray(rawFindings)) return [];
   const normalized = rawFindings
     .filter((item): item is UnknownRecord => item !== null && typeof item === "object")
-    .map((item) => makeDiagnosticFromUnknown(item))
+    .map((item) => makeDiagnosticFromUnknown(item, deck))
     .concat(
       rawFindings.filter((item) => typeof item === "string").map((line) => ({
         category: "kicad_finding",
         message: line,
         severity: 6,
         signature: `kicad_finding|${line.slice(0, 160)}`,
+        source: "kicad" as const,
         family: resolveDiagnosticFamily("kicad_finding", line),
       }))
     );
@@ -597,16 +608,32 @@ export function assessKicadFindingsFromRaw(rawFindings: unknown[]): ValidationDi
       deduped.set(key, diagnostic);
     }
   }
-  return Array.from(deduped.values());
+  return applyRuleDeck(Array.from(deduped.values()), deck);
 }
 
-export async function assessKicadFindings(circuitJson: unknown[]): Promise<KicadValidationResult> {
+export async function assessKicadFindings(
+  circuitJson: unknown[],
+  deck: RuleDeck = DEFAULT_RULE_DECK,
+): Promise<KicadValidationResult> {
   const metadata: Record<string, unknown> = {
     source: "kicad-review",
     generatedAt: Date.now(),
     inputEntries: circuitJson.length,
   };
 
+  // Structurally broken input makes the converter throw from deep inside; report
+  // the offending elements instead of a conversion stack trace.
+  const circuitJsonValidation = validateCircuitJson(circuitJson);
+  metadata.circuitJsonDiagnostics = circuitJsonValidation.diagnostics.length + circuitJsonValidation.truncatedCount;
+  if (!circuitJsonValidation.ok) {
+    return {
+      ok: false,
+      findings: assessKicadFindingsFromRaw(circuitJsonValidation.diagnostics, deck),
+      diagnostics: circuitJsonValidation.diagnostics,
+      metadata: { ...metadata, conversionOk: false, circuitJsonValid: false },
+    };
+  }
+
   const conversion = await convertTscircuitCircuitJsonToKicadSchema(circuitJson);
   const findings: unknown[] = [];
   const diagnostics: ValidationDiagnostic[] = [];
@@ -639,7 +666,7 @@ export async function assessKicadFindings(circuitJson: unknown[]): Promise<Kicad
     });
   }
 
-  const normalized = assessKicadFindingsFromRaw(findings);
+  const normalized = assessKicadFindingsFromRaw(findings, deck);
   return {
     ok: conversion.ok,
     findings: normalized,
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { buildCircuitJsonModel } from "../circuitJson";
+
+const circuitJson = [
+  { type: "source_component", source_component_id: "sc_r1", name: "R1", ftype: "simple_resistor", display_resistance: "1k" },
+  { type: "source_component", source_component_id: "sc_j1", name: "J1", ftype: "simple_chip" },
+  { type: "source_port", source_port_id: "sp_r1_1", name: "pin1", source_component_id: "sc_r1" },
+  { type: "source_port", source_port_id: "sp_r1_2", name: "pin2", source_component_id: "sc_r1" },
+  { type: "source_port", source_port_id: "sp_j1_1", name: "pin1", source_component_id: "sc_j1" },
+  { type: "source_port", source_port_id: "sp_j1_2", name: "pin2", source_component_id: "sc_j1" },
+  { type: "source_net", source_net_id: "net_gnd", name: "GND" },
+  { type: "source_trace", source_trace_id: "st_0", connected_source_port_ids: ["sp_r1_2", "sp_j1_1"], connected_source_net_ids: [] },
+  { type: "source_trace", source_trace_id: "st_1", connected_source_port_ids: ["sp_j1_2"], connected_source_net_ids: ["net_gnd"] },
+  { type: "pcb_board", center: { x: 0, y: 0 }, width: 10, height: 8, thickness: 1.2, num_layers: 2 },
+  { type: "pcb_component", pcb_component_id: "pc_r1", source_component_id: "sc_r1", center: { x: -2, y: 0 }, layer: "top", rotation: 90 },
+  { type: "pcb_component", pcb_component_id: "pc_j1", source_component_id: "sc_j1", center: { x: 2, y: 0 }, layer: "top", rotation: 0 },
+  { type: "pcb_port", pcb_port_id: "pp_r1_1", source_port_id: "sp_r1_1" },
+  { type: "pcb_port", pcb_port_id: "pp_r1_2", source_port_id: "sp_r1_2" },
+  { type: "pcb_port", pcb_port_id: "pp_j1_1", source_port_id: "sp_j1_1" },
+  { type: "pcb_port", pcb_port_id: "pp_j1_2", source_port_id: "sp_j1_2" },
+  { type: "pcb_smtpad", pcb_smtpad_id: "pad_r1_1", pcb_component_id: "pc_r1", pcb_port_id: "pp_r1_1", x: -2, y: -0.5, width: 0.6, height: 0.5, shape: "rect", layer: "top" },
+  { type: "pcb_smtpad", pcb_smtpad_id: "pad_r1_2", pcb_component_id: "pc_r1", pcb_port_id: "pp_r1_2", x: -2, y: 0.5, width: 0.6, height: 0.5, shape: "rect", layer: "top" },
+  { type: "pcb_plated_hole", pcb_plated_hole_id: "ph_j1_1", pcb_component_id: "pc_j1", pcb_port_id: "pp_j1_1", x: 2, y: 1, outer_diameter: 1.6, hole_diameter: 1, shape: "circle", layers: ["top", "bottom"] },
+  { type: "pcb_plated_hole", pcb_plated_hole_id: "ph_j1_2", pcb_component_id: "pc_j1", pcb_port_id: "pp_j1_2", x: 2, y: -1, outer_diameter: 1.6, hole_diameter: 1, shape: "circle", layers: ["top", "bottom"] },
+  {
+    type: "pcb_trace",
+    pcb_trace_id: "pt_0",
+    source_trace_id: "st_0",
+    route: [
+      { route_type: "wire", x: -2, y: 0.5, width: 0.25, layer: "top", start_pcb_port_id: "pp_r1_2" },
+      { route_type: "wire", x: 0, y: 0.5, width: 0.25, layer: "top" },
+      { route_type: "via", x: 0, y: 0.5, from_layer: "top", to_layer: "bottom", hole_diameter: 0.3, outer_diameter: 0.6 },
+      { route_type: "wire", x: 0, y: 0.5, width: 0.25, layer: "bottom" },
+      { route_type: "wire", x: 2, y: 1, width: 0.25, layer: "bottom", end_pcb_port_id: "pp_j1_1" },
+    ],
+  },
+  { type: "pcb_hole", pcb_hole_id: "mount_0", x: 4, y: 3, hole_diameter: 3.2 },
+];
+
+describe("buildCircuitJsonModel", () => {
+  it("resolves named and unnamed nets through source traces", () => {
+    const model = buildCircuitJsonModel(circuitJson);
+
+    expect(model.nets.map((net) => net.name)).toEqual(["GND", "Net-(J1-pin1)"]);
+    const signal = model.nets.find((net) => net.name === "Net-(J1-pin1)")!;
+    expect(signal.pads.sort()).toEqual(["pad_r1_2", "ph_j1_1"]);
+    const gnd = model.nets.find((net) => net.name === "GND")!;
+    expect(gnd.sourceNetId).toBe("net_gnd");
+    expect(gnd.pads).toEqual(["ph_j1_2"]);
+  });
+
+  it("splits routes into per-layer segments and vias", () => {
+    const model = buildCircuitJsonModel(circuitJson);
+
+    expect(model.traces).toHaveLength(2);
+    expect(model.traces.map((segment) => segment.side)).toEqual(["top", "bottom"]);
+    expect(model.traces.every((segment) => segment.netName === "Net-(J1-pin1)")).toBe(true);
+    expect(model.vias).toHaveLength(1);
+    expect(model.vias[0]).toMatchObject({ holeDiameter: 0.3, netName: "Net-(J1-pin1)" });
+    expect(model.holes).toEqual([{ id: "mount_0", center: { x: 4, y: 3 }, diameter: 3.2 }]);
+  });
+
+  it("reads board geometry and ignores malformed rows", () => {
+    const model = buildCircuitJsonModel([...circuitJson, null, "junk", { type: "pcb_smtpad" }]);
+
+    expect(model.board).toMatchObject({ width: 10, height: 8, thickness: 1.2, numLayers: 2 });
+    expect(model.board?.outline).toHaveLength(4);
+    expect(model.pads).toHaveLength(4);
+    expect(model.components.find((component) => component.name === "R1")).toMatchObject({
+      value: "1k",
+      rotation: 90,
+      side: "top",
+    });
+  });
+});
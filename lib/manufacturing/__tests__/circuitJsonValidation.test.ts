@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { summarizeCircuitJsonValidation, validateCircuitJson } from "../circuitJsonValidation";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const fixture = simpleCircuit as Array<Record<string, unknown>>;
+
+describe("circuit JSON validation", () => {
+  it("accepts the simple fixture without diagnostics", () => {
+    expect(validateCircuitJson(fixture)).toEqual({
+      ok: true,
+      elementCount: fixture.length,
+      diagnostics: [],
+      truncatedCount: 0,
+    });
+  });
+
+  it("rejects malformed entries and elements missing required fields", () => {
+    const result = validateCircuitJson([
+      ...fixture.filter((element) => String(element.type).startsWith("source_")),
+      "pcb_board",
+      { name: "no type" },
+      { type: "pcb_port", pcb_port_id: "pcb_port_9", source_port_id: "source_port_0", x: 0, layers: ["top"] },
+    ]);
+    expect(result.ok).toBe(false);
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.category, diagnostic.severity])).toEqual([
+      ["circuit_json_malformed_element", 8],
+      ["circuit_json_malformed_element", 8],
+      ["circuit_json_schema_error", 8],
+    ]);
+    expect(result.diagnostics[2].message).toContain("pcb_port pcb_port_9");
+    expect(result.diagnostics[2].message).toContain("(y: ");
+  });
+
+  it("reports pcb_ports that point at a missing pcb_component", () => {
+    const withoutComponents = fixture.filter((element) => element.type !== "pcb_component");
+    const result = validateCircuitJson(withoutComponents);
+    const dangling = result.diagnostics.filter(
+      (diagnostic) => diagnostic.category === "circuit_json_dangling_reference",
+    );
+    expect(result.ok).toBe(false);
+    expect(dangling.map((diagnostic) => diagnostic.message)).toContainEqual(
+      expect.stringMatching(/^pcb_port pcb_port_\d+ references missing pcb_component/),
+    );
+    expect(summarizeCircuitJsonValidation(result, 2)).toHaveLength(3);
+  });
+
+  it("keeps unknown types and optional-field mismatches advisory", () => {
+    const result = validateCircuitJson([
+      ...fixture,
+      { type: "future_widget", future_widget_id: "w1" },
+      { type: "pcb_hole", pcb_hole_id: "h1", hole_shape: "circle", hole_diameter: 1, x: 0, y: 0, pcb_component_id: null },
+    ]);
+    expect(result.ok).toBe(true);
+    expect(result.diagnostics.map((diagnostic) => [diagnostic.category, diagnostic.severity])).toEqual([
+      ["circuit_json_unknown_element", 3],
+      ["circuit_json_schema_error", 5],
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  FAB_CAPABILITY_PROFILES,
+  isBlockingDfmFinding,
+  parseFabCapabilityOverrides,
+  resolveFabCapabilityProfile,
+  runDfmChecks,
+} from "../dfm";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const board = { type: "pcb_board", pcb_board_id: "board", center: { x: 0, y: 0 }, width: 20, height: 20 };
+
+function pad(id: string, x: number, y: number, extra: Record<string, unknown> = {}) {
+  return { type: "pcb_smtpad", pcb_smtpad_id: id, layer: "top", shape: "rect", width: 0.6, height: 0.6, x, y, ...extra };
+}
+
+function wire(id: string, points: Array<[number, number]>, width = 0.2) {
+  return {
+    type: "pcb_trace",
+    pcb_trace_id: id,
+    route: points.map(([x, y]) => ({ x, y, layer: "top", width, route_type: "wire" })),
+  };
+}
+
+function categories(circuitJson: unknown[], profileId: "default" | "jlcpcb" | "pcbway" | "oshpark" = "default") {
+  return runDfmChecks(circuitJson, FAB_CAPABILITY_PROFILES[profileId]).map((finding) => finding.category);
+}
+
+describe("DFM checks", () => {
+  it("passes the simple fixture on every built-in profile", () => {
+    for (const id of ["default", "jlcpcb", "pcbway", "oshpark"] as const) {
+      expect(categories(simpleCircuit, id)).toEqual([]);
+    }
+  });
+
+  it("flags narrow traces and copper closer than the minimum spacing", () => {
+    const findings = runDfmChecks([
+      board,
+      wire("t_narrow", [[-5, 0], [5, 0]], 0.1),
+      wire("t_close", [[-5, 0.2], [5, 0.2]]),
+    ]);
+
+    expect(findings.map((finding) => finding.category)).toEqual(["dfm_trace_width", "dfm_copper_spacing"]);
+    expect(findings[0].message).toContain("0.100mm wide");
+    expect(findings.every((finding) => isBlockingDfmFinding(finding))).toBe(true);
+  });
+
+  it("checks drills and annular rings on vias and plated holes", () => {
+    const findings = runDfmChecks([
+      board,
+      { type: "pcb_via", pcb_via_id: "v1", x: 0, y: 0, outer_diameter: 0.4, hole_diameter: 0.2 },
+      {
+        type: "pcb_plated_hole",
+        pcb_plated_hole_id: "ph1",
+        shape: "circle",
+        outer_diameter: 3,
+        hole_diameter: 7,
+        x: 4,
+        y: 4,
+      },
+    ]);
+
+    expect(findings.map((finding) => [finding.category, finding.signature.split("|")[1]])).toEqual([
+      ["dfm_annular_ring", "v1"],
+      ["dfm_annular_ring", "ph1"],
+      ["dfm_drill_size", "v1"],
+      ["dfm_drill_size", "ph1"],
+    ]);
+  });
+
+  it("reports via-in-pad only for fabs that do not support it", () => {
+    const circuit = [
+      board,
+      pad("p1", 0, 0),
+      { type: "pcb_via", pcb_via_id: "v1", x: 0.1, y: 0, outer_diameter: 0.6, hole_diameter: 0.3 },
+    ];
+
+    expect(categories(circuit, "jlcpcb")).toContain("dfm_via_in_pad");
+    expect(categories(circuit, "pcbway")).not.toContain("dfm_via_in_pad");
+  });
+
+  it("measures copper against the board outline", () => {
+    const findings = runDfmChecks([board, pad("p_edge", 9.6, 0), pad("p_out", 12, 0)]);
+
+    expect(findings.map((finding) => finding.category)).toEqual(["dfm_copper_to_edge", "dfm_copper_to_edge"]);
+    expect(findings[0].message).toContain("0.100mm from the board edge");
+    expect(findings[1].message).toContain("outside the board outline");
+  });
+
+  it("treats silkscreen over pads as advisory", () => {
+    const findings = runDfmChecks([
+      board,
+      pad("p1", 0, 0),
+      {
+        type: "pcb_silkscreen_line",
+        pcb_silkscreen_line_id: "silk1",
+        layer: "top",
+        stroke_width: 0.1,
+        x1: -1,
+        y1: 0.3,
+        x2: 1,
+        y2: 0.3,
+      },
+      {
+        type: "pcb_silkscreen_text",
+        pcb_silkscreen_text_id: "label",
+        layer: "bottom",
+        text: "R1",
+        font_size: 1,
+        anchor_position: { x: 0, y: 0 },
+      },
+    ]);
+
+    expect(findings.map((finding) => finding.category)).toEqual(["dfm_silkscreen_over_pad"]);
+    expect(findings[0].message).toContain("overlaps pad p1");
+    expect(isBlockingDfmFinding(findings[0])).toBe(false);
+  });
+
+  it("merges validated overrides onto the fab profile", () => {
+    const { overrides, errors } = parseFabCapabilityOverrides({
+      minTraceWidthMm: 0.2,
+      minSpacingMm: -1,
+      allowViaInPad: "yes",
+    });
+
+    expect(errors).toEqual([
+      "fabCapabilities.minSpacingMm must be a non-negative number",
+      "fabCapabilities.allowViaInPad must be a boolean",
+    ]);
+    expect(resolveFabCapabilityProfile("oshpark", overrides)).toMatchObject({
+      id: "oshpark",
+      minTraceWidthMm: 0.2,
+      minSpacingMm: 0.152,
+    });
+    expect(parseFabCapabilityOverrides([]).errors).toEqual(["fabCapabilities must be an object"]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAssemblyDrawing,
+  buildFabricationDrawing,
+  renderDrawingSvg,
+  resolvePolarityMarks,
+  type DrawingItem,
+} from "../drawings";
+import { renderDrawingPdf } from "../drawingPdf";
+import type { PadRecord } from "../circuitJson";
+import { resolveExportStackup } from "../stackup";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+function texts(items: DrawingItem[]): string[] {
+  return items.flatMap((item) => (item.kind === "text" ? [item.text] : []));
+}
+
+function pad(portName: string, x: number): PadRecord {
+  return {
+    id: `pad_${portName}`,
+    kind: "smt",
+    pcbComponentId: "pcb_component_0",
+    pcbPortId: null,
+    portName,
+    center: { x, y: 0 },
+    width: 0.6,
+    height: 0.6,
+    shape: "rect",
+    sides: ["top"],
+    holeDiameter: null,
+    netName: null,
+  };
+}
+
+describe("drawings", () => {
+  it("labels every top-side component and mirrors the bottom view", () => {
+    const top = buildAssemblyDrawing(simpleCircuit, "top", { projectName: "demo" });
+    expect(texts(top.items)).toEqual(expect.arrayContaining(["R1", "C1", "Assembly drawing - Top"]));
+    expect(texts(top.items).some((text) => text.startsWith("demo | 2 part(s) | board 20.00 x 15.00 mm"))).toBe(true);
+
+    expect(texts(buildAssemblyDrawing(simpleCircuit, "bottom").items)).not.toContain("R1");
+
+    const flipped = (simpleCircuit as Array<Record<string, unknown>>).map((row) =>
+      row.type === "pcb_component" && row.pcb_component_id === "pcb_component_0"
+        ? { ...row, layer: "bottom" }
+        : row,
+    );
+    const bottom = buildAssemblyDrawing(flipped, "bottom");
+    const r1Top = top.items.find((item) => item.kind === "text" && item.text === "R1");
+    const r1Bottom = bottom.items.find((item) => item.kind === "text" && item.text === "R1");
+    // R1 sits at x=-3 on a 20 mm board: 7 mm from the left edge, 13 mm once mirrored.
+    expect(r1Top?.kind === "text" && r1Top.position.x).toBe(17);
+    expect(r1Bottom?.kind === "text" && r1Bottom.position.x).toBe(23);
+  });
+
+  it("places cathode, positive and pin-1 marks on the right pads", () => {
+    expect(resolvePolarityMarks({ ftype: "simple_diode" }, [pad("pin1", -1), pad("pin2", 1)])).toEqual([
+      { mark: "cathode", pad: expect.objectContaining({ portName: "pin2" }) },
+    ]);
+    expect(resolvePolarityMarks({ ftype: "simple_capacitor" }, [pad("pos", -1), pad("neg", 1)]).map((m) => m.mark)).toEqual([
+      "cathode",
+      "positive",
+    ]);
+    expect(resolvePolarityMarks({ ftype: "simple_resistor" }, [pad("pin1", -1), pad("pin2", 1)])).toEqual([]);
+    expect(
+      resolvePolarityMarks({ ftype: "simple_chip" }, [pad("pin1", -1), pad("pin2", 1)]).map((m) => m.mark),
+    ).toEqual(["pin1"]);
+  });
+
+  it("builds a fab drawing with drill table, stackup and notes", () => {
+    const withHoles = [
+      ...simpleCircuit,
+      { type: "pcb_via", pcb_via_id: "via_0", x: 0, y: 3, outer_diameter: 0.6, hole_diameter: 0.3, layers: ["top", "bottom"] },
+      { type: "pcb_via", pcb_via_id: "via_1", x: 1, y: 3, outer_diameter: 0.6, hole_diameter: 0.3, layers: ["top", "bottom"] },
+      { type: "pcb_hole", pcb_hole_id: "hole_0", hole_shape: "circle", hole_diameter: 3.2, x: 7, y: 5 },
+    ];
+    const sheet = buildFabricationDrawing(withHoles, resolveExportStackup({ finish: "ENIG" }, null));
+    const labels = texts(sheet.items);
+
+    expect(labels).toEqual(expect.arrayContaining(["DRILL TABLE", "STACKUP", "20.00 mm", "15.00 mm"]));
+    expect(labels).toEqual(expect.arrayContaining(["0.300", "PTH", "2", "3.200", "NPTH", "1"]));
+    expect(labels).toEqual(expect.arrayContaining(["F.Cu", "B.Cu", "FR4", "4. Surface finish: ENIG."]));
+  });
+
+  it("renders sheets as SVG and PDF", () => {
+    const sheet = buildAssemblyDrawing(simpleCircuit, "top", { projectName: "a<b" });
+    const svg = renderDrawingSvg(sheet);
+    expect(svg).toContain(`viewBox="0 0 ${sheet.width} ${sheet.height}"`);
+    expect(svg).toContain(`width="${sheet.width}mm"`);
+    expect(svg).toContain("a&lt;b");
+
+    const pdf = renderDrawingPdf(sheet);
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf).toContain("(R1) Tj");
+    const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+    const firstObjectOffset = Number(/xref\n0 7\n0000000000 65535 f \n(\d{10})/.exec(pdf)?.[1]);
+    expect(pdf.slice(firstObjectOffset).startsWith("1 0 obj")).toBe(true);
+  });
+});
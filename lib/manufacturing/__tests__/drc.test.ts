@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DRC_RULES,
+  parseDrcRuleOverrides,
+  resolveDrcRules,
+  runDrcChecks,
+  withFabMinimums,
+} from "../drc";
+import { FAB_CAPABILITY_PROFILES, runDfmChecks } from "../dfm";
+import { SpatialIndex, type Bounds } from "../copperGeometry";
+import { resolveDiagnosticFamily } from "@/lib/kicad/review";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const board = { type: "pcb_board", pcb_board_id: "board", center: { x: 0, y: 0 }, width: 20, height: 20 };
+
+function pad(id: string, x: number, y: number) {
+  return { type: "pcb_smtpad", pcb_smtpad_id: id, layer: "top", shape: "rect", width: 0.6, height: 0.6, x, y };
+}
+
+function wire(id: string, points: Array<[number, number]>, width = 0.2) {
+  return {
+    type: "pcb_trace",
+    pcb_trace_id: id,
+    route: points.map(([x, y]) => ({ x, y, layer: "top", width, route_type: "wire" })),
+  };
+}
+
+function via(id: string, x: number, y: number) {
+  return { type: "pcb_via", pcb_via_id: id, x, y, outer_diameter: 0.6, hole_diameter: 0.3 };
+}
+
+describe("DRC checks", () => {
+  it("passes the simple fixture with the default rules", () => {
+    expect(runDrcChecks(simpleCircuit)).toEqual([]);
+  });
+
+  it("classifies each clearance by the kinds of copper involved", () => {
+    const findings = runDrcChecks([
+      board,
+      pad("p1", -5, 5),
+      pad("p2", -4.3, 5),
+      wire("t1", [[-5, 0], [5, 0]]),
+      wire("t2", [[-5, 0.3], [5, 0.3]]),
+      pad("p3", 0, -2.5),
+      wire("t3", [[-5, -2.1], [5, -2.1]]),
+      via("v1", 5, 5),
+      via("v2", 5, 5.7),
+    ]);
+
+    expect(findings.map((finding) => [finding.category, finding.signature.split("|").slice(1, 3)])).toEqual([
+      ["drc_pad_clearance", ["p1", "p2"]],
+      ["drc_trace_pad_clearance", ["p3", "t3"]],
+      ["drc_via_clearance", ["v1", "v2"]],
+      ["drc_trace_clearance", ["t1", "t2"]],
+    ]);
+    expect(findings[3].message).toBe(
+      "trace t1 and trace t2 on top are 0.100mm apart; trace-to-trace clearance is 0.150mm. (at -5.00,0.00)",
+    );
+    expect(findings.every((finding) => finding.severity === 8)).toBe(true);
+  });
+
+  it("maps DRC categories onto the tscircuit families the repair loop acts on", () => {
+    const findings = runDrcChecks([board, wire("t1", [[-5, 0], [5, 0]]), wire("t2", [[-5, 0.3], [5, 0.3]])]);
+    expect(findings[0].family).toBe("pcb_trace_error");
+    expect(resolveDiagnosticFamily("drc_via_clearance")).toBe("pcb_via_clearance_error");
+    expect(resolveDiagnosticFamily("drc_pad_clearance")).toBe("pcb_footprint_overlap_error");
+    expect(resolveDiagnosticFamily("drc_copper_to_edge")).toBe("pcb_component_out_of_bounds_error");
+  });
+
+  it("applies rule overrides and checks copper against the board edge", () => {
+    const circuit = [board, pad("p_edge", 9.4, 0), wire("t1", [[-5, 0], [5, 0]]), wire("t2", [[-5, 0.3], [5, 0.3]])];
+
+    const defaults = runDrcChecks(circuit);
+    expect(defaults.map((finding) => finding.category)).toEqual(["drc_trace_clearance", "drc_copper_to_edge"]);
+    expect(defaults[1].message).toContain("0.300mm from the board edge");
+
+    const relaxed = runDrcChecks(circuit, resolveDrcRules({ traceToTraceMm: 0.1, copperToEdgeMm: 0.25 }));
+    expect(relaxed).toEqual([]);
+  });
+
+  it("reports a clearance defect once when DFM leaves clearances to DRC", () => {
+    const circuit = [board, pad("p_edge", 9.6, 0), wire("t1", [[-5, 0], [5, 0]]), wire("t2", [[-5, 0.32], [5, 0.32]])];
+    const profile = FAB_CAPABILITY_PROFILES.default;
+    const relaxed = resolveDrcRules({ traceToTraceMm: 0.1, copperToEdgeMm: 0.05 });
+    expect(runDrcChecks(circuit, relaxed)).toEqual([]);
+    expect(runDfmChecks(circuit, profile).map((finding) => finding.category)).toEqual([
+      "dfm_copper_spacing",
+      "dfm_copper_to_edge",
+    ]);
+
+    const findings = [
+      ...runDfmChecks(circuit, profile, { clearances: false }),
+      ...runDrcChecks(circuit, withFabMinimums(relaxed, profile)),
+    ];
+    expect(findings.map((finding) => finding.category)).toEqual(["drc_trace_clearance", "drc_copper_to_edge"]);
+    expect(findings[0].message).toContain("trace-to-trace clearance is 0.127mm");
+    expect(findings.every((finding) => finding.source === undefined)).toBe(true);
+  });
+
+  it("validates overrides from a request body", () => {
+    const { overrides, errors } = parseDrcRuleOverrides({ viaToViaMm: 0.3, padToPadMm: "wide" });
+    expect(errors).toEqual(["drcRules.padToPadMm must be a non-negative number"]);
+    expect(resolveDrcRules(overrides)).toEqual({ ...DEFAULT_DRC_RULES, viaToViaMm: 0.3 });
+    expect(parseDrcRuleOverrides("strict").errors).toEqual(["drcRules must be an object"]);
+  });
+
+  it("finds neighbours through the spatial index without duplicates", () => {
+    const index = new SpatialIndex<{ id: string; bounds: Bounds }>(1);
+    index.insert({ id: "long", bounds: { minX: -3, minY: 0, maxX: 3, maxY: 0.2 } });
+    index.insert({ id: "near", bounds: { minX: 0, minY: 0.4, maxX: 0.5, maxY: 0.9 } });
+    index.insert({ id: "far", bounds: { minX: 8, minY: 8, maxX: 9, maxY: 9 } });
+
+    const found = index.query({ minX: 0, minY: 0.4, maxX: 0.5, maxY: 0.9 }, 0.25).map((item) => item.id);
+    expect(found.sort()).toEqual(["long", "near"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { readExportSourceRequest, resolveExportCircuitJson, type ExportSourceRequestBody } from "../exportRequest";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+function makeRequest(body: unknown): Request {
+  return new Request("http://localhost/api/export", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+async function readError(body: unknown) {
+  const result = await readExportSourceRequest(makeRequest(body));
+  if (!(result instanceof Response)) throw new Error("expected an error response");
+  return { status: result.status, ...((await result.json()) as { error: string; details?: string }) };
+}
+
+describe("export request parsing", () => {
+  it("rejects the shared fields with the routes' 400s", async () => {
+    expect(await readError("{")).toEqual({ status: 400, error: "Invalid JSON body" });
+    for (const body of ["null", "[]", "3"]) {
+      expect(await readError(body)).toEqual({
+        status: 400,
+        error: "Invalid JSON body",
+        details: "the body must be a JSON object",
+      });
+    }
+    expect(await readError({ tscircuit_code: "  " })).toEqual({
+      status: 400,
+      error: "Missing 'circuit_json' array, 'tscircuit_code' string or 'fs_map' object in body",
+    });
+    expect(await readError({ fs_map: "main.tsx" })).toMatchObject({ status: 400, error: "Invalid fs_map" });
+    expect(await readError({ circuit_json: [], routing: "fast" })).toMatchObject({ error: "Invalid routing options" });
+    expect(await readError({ circuit_json: [], fabPreset: "acme" })).toEqual({
+      status: 400,
+      error: "Invalid fabPreset",
+      details: "fabPreset must be one of jlcpcb, pcbway, oshpark",
+    });
+    expect(await readError({ circuit_json: [], panel: { rows: 0 } })).toMatchObject({ error: "Invalid panel options" });
+  });
+
+  it("reads the circuit source and validates client circuit JSON", async () => {
+    const request = await readExportSourceRequest<ExportSourceRequestBody & { sessionId?: string }>(
+      makeRequest({ tscircuit_code: " export default () => <board /> ", routing: { seed: 3 }, sessionId: "s1" }),
+    );
+    expect(request).toMatchObject({
+      body: { sessionId: "s1" },
+      hasCircuitJson: false,
+      tscircuitCode: "export default () => <board />",
+      projectFiles: null,
+      routing: { seed: 3 },
+    });
+
+    const valid = await readExportSourceRequest(makeRequest({ circuit_json: simpleCircuit }));
+    if (valid instanceof Response) throw new Error("expected a request");
+    expect(await resolveExportCircuitJson(valid, new AbortController().signal)).toEqual(simpleCircuit);
+
+    const invalid = await readExportSourceRequest(makeRequest({ circuit_json: [{ type: "pcb_smtpad" }] }));
+    if (invalid instanceof Response) throw new Error("expected a request");
+    const response = await resolveExportCircuitJson(invalid, new AbortController().signal);
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(422);
+    expect(await (response as Response).json()).toMatchObject({ error: "Invalid circuit_json" });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildCircuitJsonModel } from "../circuitJson";
+import {
+  buildFabBomLines,
+  buildFabCplLines,
+  collectFabPresetWarnings,
+  getFabPreset,
+  isFabPresetId,
+  renderFabCsv,
+  resolveGerberFileName,
+} from "../fabPresets";
+import { resolveExportStackup } from "../stackup";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const model = buildCircuitJsonModel(simpleCircuit);
+const stackup = resolveExportStackup(undefined, model.board);
+
+const bomRows = [
+  { designator: "R1", comment: "10k", value: "10k", footprint: "", supplier_part_number_columns: { "JLCPCB Part #": "C25804" } },
+  { designator: "R2", comment: "10k", value: "10k", footprint: "", supplier_part_number_columns: { "JLCPCB Part #": "C25804" } },
+  { designator: "C1", comment: "100n", value: "100n", footprint: "" },
+];
+
+describe("fab presets", () => {
+  it("recognizes preset ids", () => {
+    expect(isFabPresetId("jlcpcb")).toBe(true);
+    expect(isFabPresetId("seeed")).toBe(false);
+    expect(isFabPresetId(undefined)).toBe(false);
+  });
+
+  it("renames Gerber layers per fab and keeps unknown layers", () => {
+    expect(resolveGerberFileName(getFabPreset("jlcpcb"), "F_Cu")).toBe("circuitforge.gtl");
+    expect(resolveGerberFileName(getFabPreset("oshpark"), "Edge_Cuts")).toBe("circuitforge.GKO");
+    expect(resolveGerberFileName(getFabPreset("pcbway"), "In15_Cu")).toBe("In15_Cu.gbr");
+    expect(resolveGerberFileName(null, "F_Cu")).toBe("F_Cu.gbr");
+  });
+
+  it("names every layer of a 4-layer board per fab", () => {
+    const layers = ["F_Cu", "In1_Cu", "In2_Cu", "B_Cu"];
+    const names = (id: "jlcpcb" | "pcbway" | "oshpark") =>
+      layers.map((layer) => resolveGerberFileName(getFabPreset(id), layer));
+
+    expect(names("jlcpcb")).toEqual(["circuitforge.gtl", "circuitforge.g1", "circuitforge.g2", "circuitforge.gbl"]);
+    expect(names("pcbway")).toEqual(["circuitforge.GTL", "circuitforge.G1", "circuitforge.G2", "circuitforge.GBL"]);
+    expect(names("oshpark")).toEqual(["circuitforge.GTL", "circuitforge.G2L", "circuitforge.G3L", "circuitforge.GBL"]);
+    expect(resolveGerberFileName(getFabPreset("jlcpcb"), "In18_Cu")).toBe("circuitforge.g18");
+  });
+
+  it("groups BOM lines into JLCPCB columns", () => {
+    const preset = getFabPreset("jlcpcb");
+    const lines = buildFabBomLines(bomRows, model);
+    const csv = renderFabCsv(preset.bom!.columns, lines);
+
+    expect(csv.split("\n")[0]).toBe("Comment,Designator,Footprint,LCSC Part #");
+    expect(csv).toContain('10k,"R1,R2",,C25804');
+    expect(csv).toContain("100n,C1,,C14663");
+  });
+
+  it("writes CPL rows with fab units and layer labels", () => {
+    const rows = [
+      { designator: "R1", mid_x: -3, mid_y: 0, layer: "top", rotation: -90 },
+      { designator: "C1", mid_x: 3.25, mid_y: 1, layer: "bottom", rotation: 450 },
+    ];
+    const lines = buildFabCplLines(rows, model);
+
+    const jlc = renderFabCsv(getFabPreset("jlcpcb").cpl!.columns, lines).split("\n");
+    expect(jlc[0]).toBe("Designator,Mid X,Mid Y,Layer,Rotation");
+    expect(jlc[1]).toBe("R1,-3mm,0mm,Top,270");
+    expect(jlc[2]).toBe("C1,3.25mm,1mm,Bottom,90");
+
+    const pcbway = renderFabCsv(getFabPreset("pcbway").cpl!.columns, lines).split("\n");
+    expect(pcbway[2]).toBe("C1,,3.25,1,B,90,100nF");
+  });
+
+  it("warns about missing LCSC numbers and unsupported layer counts", () => {
+    const lines = buildFabBomLines(
+      [{ designator: "U1", comment: "ATmega", value: "", footprint: "tqfp32" }],
+      model,
+    );
+    const jlc = collectFabPresetWarnings(getFabPreset("jlcpcb"), lines, stackup);
+    expect(jlc.map((d) => d.category)).toEqual(["fab_preset_missing_supplier_part"]);
+
+    const osh = collectFabPresetWarnings(getFabPreset("oshpark"), lines, {
+      ...stackup,
+      layerCount: 6,
+    });
+    expect(osh.map((d) => d.category)).toEqual(["fab_preset_unsupported_layer_count"]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  annotateGerberLayers,
+  buildGerberJobFile,
+  resolveGerberLayerAttributes,
+} from "../gerberJob";
+import { resolveExportStackup, validateStackupInput } from "../stackup";
+
+const board = {
+  center: { x: 0, y: 0 },
+  width: 20,
+  height: 15,
+  thickness: 1.6,
+  numLayers: 2,
+  outline: [],
+};
+
+const header = [
+  "%TF.GenerationSoftware,tscircuit,circuit-json-to-gerber,0.0.46*%",
+  "%TF.SameCoordinates,Original*%",
+  "%TF.FileFunction,Copper,L2,Bot*%",
+  "%TF.FilePolarity,Positive*%",
+  "%FSLAX46Y46*%",
+  "%MOMM*%",
+  "M02*",
+].join("\n");
+
+describe("stackup", () => {
+  it("defaults from the board and converts copper weight to thickness", () => {
+    expect(resolveExportStackup(undefined, board)).toMatchObject({
+      layerCount: 2,
+      boardThicknessMm: 1.6,
+      copperWeightOz: 1,
+      copperThicknessMm: 0.035,
+      finish: "HASL_LEAD_FREE",
+    });
+    expect(
+      resolveExportStackup({ copperWeightOz: 2, finish: "ENIG", layerCount: 4 }, board),
+    ).toMatchObject({ layerCount: 4, copperThicknessMm: 0.07, finish: "ENIG" });
+  });
+
+  it("reports invalid fields", () => {
+    expect(validateStackupInput({ layerCount: 3, finish: "GOLD", boardThicknessMm: 0 })).toEqual([
+      "stackup.layerCount must be 1 or an even integer up to 32",
+      "stackup.boardThicknessMm must be between 0.2 and 6",
+      "stackup.finish must be one of HASL, HASL_LEAD_FREE, ENIG, ENEPIG, OSP, IMMERSION_SILVER, IMMERSION_TIN, NONE",
+    ]);
+    expect(validateStackupInput("thick")).toEqual(["stackup must be an object"]);
+    expect(validateStackupInput(undefined)).toEqual([]);
+  });
+});
+
+describe("Gerber X2 attributes", () => {
+  it("numbers the bottom copper layer from the stackup layer count", () => {
+    expect(resolveGerberLayerAttributes("B_Cu", 4)?.fileFunction).toBe("Copper,L4,Bot");
+    expect(resolveGerberLayerAttributes("In1_Cu", 4)?.fileFunction).toBe("Copper,L2,Inr");
+    expect(resolveGerberLayerAttributes("Edge_Cuts", 2)).toEqual({
+      fileFunction: "Profile,NP",
+      filePolarity: null,
+    });
+    expect(resolveGerberLayerAttributes("Unknown", 2)).toBeNull();
+  });
+
+  it("replaces existing file attributes instead of duplicating them", () => {
+    const stackup = resolveExportStackup({ layerCount: 4 }, board);
+    const { B_Cu } = annotateGerberLayers({ B_Cu: header }, stackup);
+    const lines = B_Cu.split("\n");
+
+    expect(lines.filter((line) => line.startsWith("%TF.FileFunction"))).toEqual([
+      "%TF.FileFunction,Copper,L4,Bot*%",
+    ]);
+    expect(lines.indexOf("%TF.Part,Single*%")).toBe(2);
+    expect(lines.filter((line) => line.startsWith("%TF.FilePolarity"))).toHaveLength(1);
+  });
+});
+
+describe("buildGerberJobFile", () => {
+  it("lists layers, drills, thickness, copper weight and finish", () => {
+    const stackup = resolveExportStackup({ finish: "ENIG", copperWeightOz: 2 }, board);
+    const job = JSON.parse(
+      buildGerberJobFile({
+        layerFiles: { F_Cu: header, B_Cu: header, Edge_Cuts: header },
+        drillFiles: [{ path: "plated.drl", plated: true }],
+        stackup,
+        board,
+        generatedAt: new Date("2026-01-01T00:00:00.000Z"),
+      }),
+    );
+
+    expect(job.GeneralSpecs).toMatchObject({
+      Size: { X: 20, Y: 15 },
+      LayerNumber: 2,
+      BoardThickness: 1.6,
+      Finish: "ENIG",
+    });
+    expect(job.FilesAttributes).toEqual([
+      { Path: "F_Cu.gbr", FileFunction: "Copper,L1,Top", FilePolarity: "Positive" },
+      { Path: "B_Cu.gbr", FileFunction: "Copper,L2,Bot", FilePolarity: "Positive" },
+      { Path: "Edge_Cuts.gbr", FileFunction: "Profile,NP" },
+      { Path: "plated.drl", FileFunction: "Plated,1,2,PTH,Drill", FilePolarity: "Positive" },
+    ]);
+    const copper = job.MaterialStackup.filter((layer: { Type: string }) => layer.Type === "Copper");
+    expect(copper).toHaveLength(2);
+    expect(copper[0]).toMatchObject({ Thickness: 0.07, Notes: "2 oz" });
+  });
+});
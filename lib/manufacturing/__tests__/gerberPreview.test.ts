@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertSoupToGerberCommands,
+  stringifyGerberCommandLayers,
+  convertSoupToExcellonDrillCommands,
+  stringifyExcellonDrill,
+} from "circuit-json-to-gerber";
+import {
+  buildGerberPreview,
+  countExpectedDrills,
+  evaluateMacroExpression,
+  parseExcellonDrill,
+  parseGerber,
+} from "../gerberPreview";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const withDrills = [
+  ...simpleCircuit,
+  { type: "pcb_via", pcb_via_id: "via_0", x: 0, y: 3, outer_diameter: 0.6, hole_diameter: 0.3, layers: ["top", "bottom"] },
+  { type: "pcb_hole", pcb_hole_id: "hole_0", hole_shape: "circle", hole_diameter: 3.2, x: 7, y: 5 },
+];
+
+function gerberLayers(circuitJson: unknown[]): Record<string, string> {
+  return stringifyGerberCommandLayers(convertSoupToGerberCommands(circuitJson as never) as never) as Record<
+    string,
+    string
+  >;
+}
+
+describe("gerberPreview", () => {
+  it("evaluates aperture macro arithmetic", () => {
+    expect(evaluateMacroExpression("$1+$1", { 1: 0.25 })).toBe(0.5);
+    expect(evaluateMacroExpression("0.0-$4", { 4: 1.5 })).toBe(-1.5);
+    expect(evaluateMacroExpression("($1+2)x$2/4", { 1: 2, 2: 3 })).toBe(3);
+    expect(() => evaluateMacroExpression("$1+", { 1: 1 })).toThrow();
+  });
+
+  it("parses flashes and draws from generated copper", () => {
+    const parsed = parseGerber(gerberLayers(withDrills).F_Cu);
+
+    // Four pads, one via flash and one trace segment.
+    expect(parsed.featureCount).toBe(6);
+    expect(parsed.strokes).toEqual([{ d: "M-2.5 0 L2.5 0", width: 0.16, square: false }]);
+    expect(parsed.bounds).toEqual({ minX: -3.8, minY: -0.3, maxX: 3.8, maxY: 3.3 });
+    expect(parsed.unsupported).toEqual([]);
+  });
+
+  it("handles arcs, regions, macros and inch units", () => {
+    const parsed = parseGerber(
+      [
+        "%FSLAX24Y24*%",
+        "%MOIN*%",
+        "%AMBOX*21,1,$1,$2,0,0,0*%",
+        "%ADD10C,0.0100*%",
+        "%ADD11BOX,0.1000X0.0500*%",
+        "D10*",
+        "X10000Y0D02*",
+        "G03*",
+        "X10000Y0I-10000J0D01*",
+        "G01*",
+        "D11*",
+        "X0Y0D03*",
+        "G36*",
+        "X0Y0D02*",
+        "X10000Y0D01*",
+        "X0Y10000D01*",
+        "X0Y0D01*",
+        "G37*",
+        "M02*",
+      ].join("\n"),
+    );
+
+    expect(parsed.featureCount).toBe(3);
+    expect(parsed.strokes[0].d).toBe("M25.4 0 A25.4 25.4 0 0 1 -25.4 0 A25.4 25.4 0 0 1 25.4 0");
+    expect(parsed.fills[0]).toBe("M-1.27 -0.635 L1.27 -0.635 L1.27 0.635 L-1.27 0.635 Z");
+    expect(parsed.fills[1]).toBe("M0 0 L25.4 0 L0 25.4 L0 0 Z");
+  });
+
+  it("reads Excellon tools, hits and slots", () => {
+    const platedDrill = stringifyExcellonDrill(
+      convertSoupToExcellonDrillCommands({ circuitJson: withDrills as never, is_plated: true }) as never,
+    );
+    expect(parseExcellonDrill(platedDrill)).toContainEqual({ center: { x: 0, y: 3 }, diameter: 0.3 });
+    expect(parseExcellonDrill("M48\nINCH\nT1C0.0400\n%\nT1\nX01000Y-00500\nM30")).toEqual([
+      { center: { x: 2.54, y: -1.27 }, diameter: 1.016 },
+    ]);
+    expect(parseExcellonDrill("M48\nMETRIC\nT10C1.0\n%\nT10\nX6.0000Y3.5000\nG85X6.000Y4.500\nM30")).toEqual([
+      { center: { x: 6, y: 3.5 }, diameter: 1, slotEnd: { x: 6, y: 4.5 } },
+    ]);
+    expect(countExpectedDrills(withDrills)).toEqual({ plated: 1, unplated: 1 });
+  });
+
+  it("stacks every layer and drill file on one shared viewBox", () => {
+    const preview = buildGerberPreview({
+      layers: gerberLayers(withDrills),
+      drills: [
+        {
+          fileName: "plated.drl",
+          content: stringifyExcellonDrill(
+            convertSoupToExcellonDrillCommands({ circuitJson: withDrills as never, is_plated: true }) as never,
+          ),
+          plated: true,
+        },
+        { fileName: "unplated.drl", content: null, plated: false },
+      ],
+      layerCount: 2,
+    });
+
+    // 20x15 board plus half the 0.05 mm outline stroke and a 1 mm margin.
+    expect(preview.bounds).toEqual({ minX: -11.025, minY: -8.525, maxX: 11.025, maxY: 8.525 });
+    expect(preview.layers[0].id).toBe("Edge_Cuts");
+    expect(preview.layers.at(-1)?.id).toBe("drill_plated");
+    const viewBoxes = new Set(preview.layers.map((layer) => /viewBox="([^"]+)"/.exec(layer.svg)?.[1]));
+    expect(Array.from(viewBoxes)).toEqual(["-11.025 -8.525 22.05 17.05"]);
+    expect(preview.layers.find((layer) => layer.id === "F_Cu")).toMatchObject({
+      kind: "copper",
+      side: "top",
+      fileFunction: "Copper,L1,Top",
+      fileName: "F_Cu.gbr",
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { convertCircuitJsonToIpc2581 } from "../ipc2581";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const generatedAt = new Date("2026-01-01T00:00:00.000Z");
+
+describe("convertCircuitJsonToIpc2581", () => {
+  it("emits stackup, copper and drill layers", () => {
+    const { xml } = convertCircuitJsonToIpc2581(simpleCircuit, { generatedAt });
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(xml).toContain('<Stackup name="primary" overallThickness="1.6"');
+    expect(xml).toContain('<Layer name="TOP" layerFunction="SIGNAL" side="TOP"');
+    expect(xml).toContain('<Layer name="BOTTOM" layerFunction="SIGNAL" side="BOTTOM"');
+    expect(xml).toContain('<LayerFeature layerRef="DRILL_PLATED">');
+    expect(xml).toContain("<Profile>");
+    expect(xml).toContain('<LineDesc lineWidth="0.16" lineEnd="ROUND"/>');
+  });
+
+  it("carries the netlist and BOM", () => {
+    const { xml, metadata } = convertCircuitJsonToIpc2581(simpleCircuit, { generatedAt });
+
+    expect(metadata.components).toBe(2);
+    expect(metadata.nets).toBe(1);
+    expect(xml).toContain('<LogicalNet name="Net-(R1-pin2)">');
+    expect(xml).toContain('<PinRef componentRef="R1" pin="pin2"/>');
+    expect(xml).toContain('<PinRef componentRef="C1" pin="pin1"/>');
+    expect(xml).toContain('<RefDes name="C1"');
+    expect(xml).toContain('textualCharacteristicValue="C25804"');
+  });
+
+  it("escapes XML-significant characters", () => {
+    const { xml } = convertCircuitJsonToIpc2581([
+      {
+        type: "source_component",
+        source_component_id: "sc_0",
+        name: "R<1>",
+        display_value: 'a&b"',
+      },
+      {
+        type: "pcb_component",
+        pcb_component_id: "pc_0",
+        source_component_id: "sc_0",
+        center: { x: 0, y: 0 },
+      },
+    ]);
+
+    expect(xml).toContain('refDes="R&lt;1&gt;"');
+    expect(xml).toContain('textualCharacteristicValue="a&amp;b&quot;"');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { convertCircuitJsonToIpcD356, crossCheckIpcD356Nets } from "../ipcD356";
+import { summarizeConnectivity } from "@/lib/kicad/review";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+const generatedAt = new Date("2026-01-01T00:00:00.000Z");
+
+function records(netlist: string) {
+  return netlist.split("\n").filter((line) => /^3[12]7/.test(line));
+}
+
+describe("convertCircuitJsonToIpcD356", () => {
+  it("writes a metric header and terminator", () => {
+    const { netlist } = convertCircuitJsonToIpcD356(simpleCircuit, { generatedAt });
+    const lines = netlist.trimEnd().split("\n");
+
+    expect(lines).toContain("P  UNITS CUST 1");
+    expect(lines).toContain("P  VER   IPC-D-356A");
+    expect(lines[lines.length - 1]).toBe("999");
+  });
+
+  it("emits fixed-column SMT records aliased to 14-character net names", () => {
+    const { netlist, nets } = convertCircuitJsonToIpcD356(simpleCircuit, { generatedAt });
+
+    expect(nets).toEqual([{ name: "Net-(R1-pin2)", alias: "Net-(R1-pin2)", testPoints: 2 }]);
+    const smt = records(netlist);
+    expect(smt).toHaveLength(4);
+    const r1pin2 = smt.find((line) => line.slice(20, 31) === "R1    -2   ")!;
+    expect(r1pin2.slice(0, 3)).toBe("327");
+    expect(r1pin2.slice(3, 17).trim()).toBe("Net-(R1-pin2)");
+    expect(r1pin2.slice(38, 41)).toBe("A01");
+    expect(r1pin2.slice(41, 57)).toMatch(/^X[+-]\d{6}Y[+-]\d{6}$/);
+    expect(r1pin2.slice(57, 71)).toBe("X0600Y0600R000");
+    expect(r1pin2.slice(72, 74)).toBe("S1");
+    expect(smt.filter((line) => line.slice(3, 17).trim() === "N/C")).toHaveLength(2);
+  });
+
+  it("aliases long net names and records plated holes", () => {
+    const { netlist } = convertCircuitJsonToIpcD356([
+      { type: "source_component", source_component_id: "sc_j1", name: "J1" },
+      { type: "source_port", source_port_id: "sp_1", name: "pin1", source_component_id: "sc_j1" },
+      { type: "source_net", source_net_id: "net_0", name: "VERY_LONG_SUPPLY_RAIL" },
+      { type: "source_trace", connected_source_port_ids: ["sp_1"], connected_source_net_ids: ["net_0"] },
+      { type: "pcb_component", pcb_component_id: "pc_j1", source_component_id: "sc_j1", center: { x: 0, y: 0 } },
+      { type: "pcb_port", pcb_port_id: "pp_1", source_port_id: "sp_1" },
+      {
+        type: "pcb_plated_hole",
+        pcb_plated_hole_id: "ph_1",
+        pcb_component_id: "pc_j1",
+        pcb_port_id: "pp_1",
+        x: 1.27,
+        y: -2.54,
+        outer_diameter: 1.7,
+        hole_diameter: 1,
+        shape: "circle",
+        layers: ["top", "bottom"],
+      },
+    ]);
+
+    expect(netlist).toContain("P  NNAME1    VERY_LONG_SUPPLY_RAIL");
+    const [record] = records(netlist);
+    expect(record.slice(0, 3)).toBe("317");
+    expect(record.slice(3, 17).trim()).toBe("NNAME1");
+    expect(record.slice(32, 38)).toBe("D1000P");
+    expect(record.slice(38, 41)).toBe("A00");
+    expect(record.slice(41, 57)).toBe("X+001270Y-002540");
+  });
+});
+
+describe("crossCheckIpcD356Nets", () => {
+  const nets = [
+    { name: "GND", alias: "GND", testPoints: 3 },
+    { name: "VBUS", alias: "VBUS", testPoints: 0 },
+  ];
+
+  it("warns for connectivity nets missing or unprobeable in copper", () => {
+    const diagnostics = crossCheckIpcD356Nets(nets, {
+      sampledNets: ["GND(pins=3, wires=2)"],
+      netNames: ["GND", "/VBUS", "SDA"],
+    });
+
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Net "/VBUS" has no copper pads or vias to probe in the IPC-D-356 netlist.',
+      'Net "SDA" from the connectivity summary is missing from the IPC-D-356 copper netlist.',
+    ]);
+    expect(diagnostics.every((d) => d.category === "ipc356_net_missing_copper")).toBe(true);
+    expect(crossCheckIpcD356Nets(nets, null)).toEqual([]);
+  });
+
+  it("checks every connectivity net, not the summary's sample", () => {
+    const names = Array.from({ length: 150 }, (_, index) => `N${index}`);
+    const copper = names.map((name, index) => ({ name, alias: name, testPoints: index === 149 ? 0 : 2 }));
+    const connectivity = summarizeConnectivity(names.map((net) => ({ type: "source_trace", net })));
+    expect(connectivity.sampledNets).toHaveLength(80);
+    expect(crossCheckIpcD356Nets(copper, connectivity).map((d) => d.signature)).toEqual([
+      "ipc356|ipc356_net_missing_copper|N149",
+    ]);
+  });
+});
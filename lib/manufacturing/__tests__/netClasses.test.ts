@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import type { RequirementItem } from "@/lib/stream/types";
+import {
+  assignNetClasses,
+  inferNetClassRules,
+  ipc2221TraceWidthMm,
+  parseNetClassInput,
+  resolveNetClassSettings,
+  runNetClassChecks,
+} from "../netClasses";
+import { runDrcChecks } from "../drc";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+function requirement(id: string, title: string): RequirementItem {
+  return { id, title, category: "extracted", status: "collected", createdAt: 0 };
+}
+
+const board = { type: "pcb_board", pcb_board_id: "board", center: { x: 0, y: 0 }, width: 20, height: 20 };
+
+function netPad(id: string, portId: string, x: number, y: number) {
+  return {
+    type: "pcb_smtpad",
+    pcb_smtpad_id: id,
+    pcb_port_id: portId,
+    layer: "top",
+    shape: "rect",
+    width: 0.6,
+    height: 0.6,
+    x,
+    y,
+  };
+}
+
+/** Two pads on a named net, joined by a trace of the given width along `points`. */
+function routedNet(net: string, points: Array<[number, number]>, width: number) {
+  const key = net.toLowerCase();
+  const [start, end] = [points[0], points[points.length - 1]];
+  return [
+    { type: "source_net", source_net_id: `net_${key}`, name: net },
+    { type: "source_port", source_port_id: `sp_${key}_a`, name: "pin1" },
+    { type: "source_port", source_port_id: `sp_${key}_b`, name: "pin2" },
+    {
+      type: "source_trace",
+      source_trace_id: `st_${key}`,
+      connected_source_port_ids: [`sp_${key}_a`, `sp_${key}_b`],
+      connected_source_net_ids: [`net_${key}`],
+    },
+    { type: "pcb_port", pcb_port_id: `pp_${key}_a`, source_port_id: `sp_${key}_a`, x: start[0], y: start[1], layers: ["top"] },
+    { type: "pcb_port", pcb_port_id: `pp_${key}_b`, source_port_id: `sp_${key}_b`, x: end[0], y: end[1], layers: ["top"] },
+    netPad(`pad_${key}_a`, `pp_${key}_a`, start[0], start[1]),
+    netPad(`pad_${key}_b`, `pp_${key}_b`, end[0], end[1]),
+    {
+      type: "pcb_trace",
+      pcb_trace_id: `trace_${key}`,
+      source_trace_id: `st_${key}`,
+      route: points.map(([x, y]) => ({ x, y, layer: "top", width, route_type: "wire" })),
+    },
+  ];
+}
+
+describe("net classes", () => {
+  it("sizes traces for current with the IPC-2221 outer-layer formula", () => {
+    expect(ipc2221TraceWidthMm(1)).toBeCloseTo(0.3, 2);
+    expect(ipc2221TraceWidthMm(2)).toBeCloseTo(0.78, 2);
+    expect(ipc2221TraceWidthMm(2, 10, 2)).toBeCloseTo(0.39, 2);
+    expect(ipc2221TraceWidthMm(0)).toBe(0);
+  });
+
+  it("infers classes from requirement items", () => {
+    const rules = inferNetClassRules([
+      requirement("req-1", "2A motor supply"),
+      requirement("req-2", "500mA for VLED"),
+      requirement("req-3", "USB data to the MCU"),
+      requirement("req-4", "Status LED at 5mA"),
+    ]);
+    expect(rules.map((rule) => [rule.requirementId, rule.netClass, rule.currentA, rule.netFragments])).toEqual([
+      ["req-1", "high_current", 2, ["MOT"]],
+      ["req-2", "power", 0.5, ["VLED"]],
+      ["req-3", "differential", null, []],
+    ]);
+  });
+
+  it("prefers declared assignments and leaves unclassed nets to the DRC defaults", () => {
+    const settings = resolveNetClassSettings({ assignments: [{ net: "vmot", netClass: "power", currentA: 0.5 }] }, [
+      requirement("req-1", "2A motor supply"),
+      requirement("req-2", "USB data"),
+    ]);
+    const assigned = assignNetClasses(["VMOT", "VMOT_B", "USB_DP", "USB_DM", "GND", "Net-(R1-pin1)"], settings);
+    expect(Array.from(assigned.values()).map((entry) => [entry.net, entry.netClass, entry.source])).toEqual([
+      ["VMOT", "power", "declared"],
+      ["VMOT_B", "high_current", "inferred"],
+      ["USB_DP", "differential", "inferred"],
+      ["USB_DM", "differential", "inferred"],
+    ]);
+  });
+
+  it("reports traces narrower than their class needs as must-repair", () => {
+    const circuit = [
+      board,
+      ...routedNet("VMOT", [[-5, 0], [5, 0]], 0.25),
+      ...routedNet("VCC", [[-5, 3], [5, 3]], 0.25),
+    ];
+    const findings = runNetClassChecks(circuit, resolveNetClassSettings({}, [requirement("req-1", "2A motor supply")]));
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      category: "net_class_trace_width",
+      severity: 8,
+      handling: "must_repair",
+      signature: "net_class_trace_width|trace_vmot|VMOT",
+    });
+    expect(findings[0].message).toBe(
+      'Trace trace_vmot on VMOT (high_current, 2A) is 0.250mm wide; it needs 0.781mm (IPC-2221 for 2A at 10°C rise on 1oz copper). Set thickness="0.78mm" on the <trace>.',
+    );
+
+    const widened = [board, ...routedNet("VMOT", [[-5, 0], [5, 0]], 0.8)];
+    expect(runNetClassChecks(widened, resolveNetClassSettings({}, [requirement("req-1", "2A motor supply")]))).toEqual(
+      [],
+    );
+    expect(runNetClassChecks(simpleCircuit, resolveNetClassSettings())).toEqual([]);
+  });
+
+  it("widens DRC clearances around classed nets", () => {
+    // The signal trace runs 0.17mm from the motor trace: enough for signals, not for high current.
+    const circuit = [
+      board,
+      ...routedNet("VMOT", [[-5, 0], [5, 0]], 0.3),
+      ...routedNet("SIG", [[-1, 3], [-1, 0.42], [1, 0.42], [1, 3]], 0.2),
+    ];
+    expect(runDrcChecks(circuit)).toEqual([]);
+    const settings = resolveNetClassSettings({ assignments: [{ net: "VMOT", netClass: "high_current" }] });
+    expect(runDrcChecks(circuit, undefined, settings).map((finding) => finding.message)).toEqual([
+      "trace trace_vmot and trace trace_sig on top are 0.170mm apart; trace-to-trace clearance is 0.250mm. (at -5.00,0.00)",
+    ]);
+  });
+
+  it("validates net classes from a request body", () => {
+    const { input, errors } = parseNetClassInput({
+      classes: { power: { minTraceWidthMm: 0.4 }, ground: {} },
+      assignments: [{ net: "VIN", netClass: "power", currentA: -1 }],
+      tempRiseC: 20,
+    });
+    expect(errors).toEqual([
+      "netClasses.classes.ground is not one of: power, high_current, signal, differential",
+      "netClasses.assignments[0].currentA must be a non-negative number",
+    ]);
+    expect(resolveNetClassSettings(input).classes.power.minTraceWidthMm).toBe(0.4);
+    expect(parseNetClassInput([]).errors).toEqual(["netClasses must be an object"]);
+  });
+});
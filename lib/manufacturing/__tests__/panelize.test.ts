@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildVScoreGerber,
+  panelizeCircuitJson,
+  panelizePickAndPlaceRows,
+  validatePanelInput,
+} from "../panelize";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+type Row = Record<string, unknown>;
+
+function rowsOfType(circuitJson: unknown[], type: string): Row[] {
+  return (circuitJson as Row[]).filter((row) => row.type === type);
+}
+
+describe("panelize", () => {
+  it("validates panel options", () => {
+    expect(validatePanelInput(undefined)).toEqual([]);
+    expect(validatePanelInput({ rows: 2, columns: 3, separation: "v_score" })).toEqual([]);
+    expect(validatePanelInput({ rows: 0, columns: 2.5, rails: "sides", fiducials: "yes" })).toEqual([
+      "panel.rows must be an integer from 1 to 20",
+      "panel.columns must be an integer from 1 to 20",
+      "panel.rails must be one of top_bottom, left_right, all, none",
+      "panel.fiducials must be a boolean",
+    ]);
+    expect(validatePanelInput({ rows: 20, columns: 20 })).toEqual([
+      "panel must not hold more than 100 boards",
+    ]);
+  });
+
+  it("steps boards with routed gaps, mouse bites and rail features", () => {
+    const { circuitJson, layout, warnings } = panelizeCircuitJson(simpleCircuit, { rows: 2, columns: 3 });
+
+    expect(warnings).toEqual([]);
+    expect([layout.width, layout.height]).toEqual([64, 46]);
+    expect(layout.boards.map((board) => board.offset)).toEqual([
+      { x: -22, y: 8.5 },
+      { x: 0, y: 8.5 },
+      { x: 22, y: 8.5 },
+      { x: -22, y: -8.5 },
+      { x: 0, y: -8.5 },
+      { x: 22, y: -8.5 },
+    ]);
+    expect(rowsOfType(circuitJson, "pcb_panel")).toHaveLength(1);
+    expect(rowsOfType(circuitJson, "pcb_board")).toHaveLength(0);
+
+    const pads = rowsOfType(circuitJson, "pcb_smtpad");
+    expect(pads.filter((pad) => String(pad.pcb_smtpad_id).startsWith("pcb_smtpad_0_"))).toHaveLength(6);
+    expect(pads.find((pad) => pad.pcb_smtpad_id === "pcb_smtpad_0_r1c2")).toMatchObject({ x: 18.5, y: -8.5 });
+
+    const holes = rowsOfType(circuitJson, "pcb_hole");
+    expect(holes.filter((hole) => String(hole.pcb_hole_id).startsWith("panel_tooling_hole_"))).toHaveLength(4);
+    expect(holes.some((hole) => String(hole.pcb_hole_id).startsWith("panel_mouse_bite_"))).toBe(true);
+    expect(rowsOfType(circuitJson, "pcb_cutout").length).toBeGreaterThan(0);
+    expect(layout.fiducials).toEqual([
+      { x: -22, y: 20.5 },
+      { x: 22, y: 20.5 },
+      { x: -22, y: -20.5 },
+    ]);
+  });
+
+  it("butts boards together and emits V-score lines", () => {
+    const { circuitJson, layout } = panelizeCircuitJson(simpleCircuit, {
+      rows: 1,
+      columns: 2,
+      separation: "v_score",
+      rails: "left_right",
+      fiducials: false,
+    });
+
+    expect([layout.width, layout.height]).toEqual([50, 15]);
+    expect(rowsOfType(circuitJson, "pcb_cutout")).toHaveLength(0);
+    expect(layout.vScoreLines.map((line) => [line.start, line.end])).toEqual([
+      [{ x: -20, y: -7.5 }, { x: -20, y: 7.5 }],
+      [{ x: 0, y: -7.5 }, { x: 0, y: 7.5 }],
+      [{ x: 20, y: -7.5 }, { x: 20, y: 7.5 }],
+    ]);
+
+    const gerber = buildVScoreGerber(layout);
+    expect(gerber).toContain("%TF.FileFunction,Other,V-Score*%");
+    expect(gerber).toContain("X-20000000Y-7500000D02*");
+    expect(gerber.trimEnd().endsWith("M02*")).toBe(true);
+  });
+
+  it("warns when rail features are requested without rails", () => {
+    const { layout, warnings } = panelizeCircuitJson(simpleCircuit, { rows: 1, columns: 2, rails: "none" });
+    expect(layout.toolingHoles).toEqual([]);
+    expect(warnings.map((warning) => warning.category)).toEqual(["panel_rails_missing"]);
+  });
+
+  it("repeats pick-and-place rows per board", () => {
+    const { layout } = panelizeCircuitJson(simpleCircuit, { rows: 1, columns: 2 });
+    const rows = panelizePickAndPlaceRows(
+      [{ designator: "R1", mid_x: -3, mid_y: 0, layer: "top", rotation: 90 }],
+      layout,
+    );
+    expect(rows).toEqual([
+      { designator: "R1_1", mid_x: -14, mid_y: 0, layer: "top", rotation: 90 },
+      { designator: "R1_2", mid_x: 8, mid_y: 0, layer: "top", rotation: 90 },
+    ]);
+  });
+});
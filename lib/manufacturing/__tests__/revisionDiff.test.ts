@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { buildCircuitJsonModel } from "../circuitJson";
+import {
+  buildDesignSnapshot,
+  createRevisionDiff,
+  hashLayerContent,
+  loadPreviousExport,
+  renderRevisionDiffMarkdown,
+  type DesignSnapshot,
+} from "../revisionDiff";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+type Row = Record<string, unknown>;
+
+function snapshotOf(circuitJson: unknown[], layers: Record<string, string> = {}): DesignSnapshot {
+  return buildDesignSnapshot(buildCircuitJsonModel(circuitJson), layers);
+}
+
+/** Move R1, re-value C1 and drop the R1–C1 trace. */
+function reviseFixture(): Row[] {
+  return (simpleCircuit as Row[])
+    .filter((row) => row.type !== "source_trace" && row.type !== "pcb_trace")
+    .map((row) => {
+      if (row.type === "pcb_component" && row.pcb_component_id === "pcb_component_0") {
+        return { ...row, center: { x: -4, y: 1 }, rotation: 90 };
+      }
+      if (row.type === "source_component" && row.name === "C1") {
+        return { ...row, capacitance: 1e-6, display_capacitance: "1uF" };
+      }
+      return row;
+    });
+}
+
+describe("revisionDiff", () => {
+  it("snapshots placements, nets and date-independent layer hashes", () => {
+    const snapshot = snapshotOf(simpleCircuit, {
+      F_Cu: "%TF.CreationDate,2026-01-01T00:00:00Z*%\nD10*\nM02*",
+    });
+
+    expect(snapshot.components.map((component) => [component.name, component.x, component.side])).toEqual([
+      ["C1", 3, "top"],
+      ["R1", -3, "top"],
+    ]);
+    expect(Object.values(snapshot.nets)).toEqual([["C1.pin1", "R1.pin2"]]);
+    expect(snapshot.traceCount).toBe(1);
+    expect(snapshot.layerHashes.F_Cu).toBe(hashLayerContent("%TF.CreationDate,2027-05-05T00:00:00Z*%\nD10*\nM02*"));
+  });
+
+  it("reports moves, value and BOM changes, removed nets and changed layers", () => {
+    const previous = snapshotOf(simpleCircuit, { F_Cu: "A", B_Cu: "B", plated_drill: "D" });
+    const next = snapshotOf(reviseFixture(), { F_Cu: "A2", B_Cu: "B", Edge_Cuts: "E" });
+    const diff = createRevisionDiff(previous, next);
+
+    expect(diff.addedComponents).toEqual([]);
+    expect(diff.changedComponentValues).toEqual([{ name: "C1", from: "100nF", to: "1uF" }]);
+    expect(diff.movedComponents).toEqual([
+      {
+        name: "R1",
+        from: { x: -3, y: 0, rotation: 0, side: "top" },
+        to: { x: -4, y: 1, rotation: 90, side: "top" },
+        distanceMm: 1.414,
+      },
+    ]);
+    expect(diff.traceCountDelta).toBe(-1);
+    expect(diff.netChanges).toEqual([
+      expect.objectContaining({ change: "removed", removedPins: ["C1.pin1", "R1.pin2"] }),
+    ]);
+    expect(diff.bomChanges.map((line) => [line.change, line.line])).toEqual([
+      ["removed", "100nF / ?"],
+      ["added", "1uF / ?"],
+    ]);
+    expect(diff.layerChanges).toEqual([
+      { layer: "Edge_Cuts", change: "added" },
+      { layer: "F_Cu", change: "changed" },
+      { layer: "plated_drill", change: "removed" },
+    ]);
+    expect(diff.summary).toBe(
+      "1 value changes, 1 moved, -1 traces, 1 net changes, 2 BOM line changes, 3 layers changed",
+    );
+
+    const markdown = renderRevisionDiffMarkdown(diff, { previousGeneratedAt: null, generatedAt: "2026-10-19T00:00:00.000Z" });
+    expect(markdown).toContain("- R1: moved (-3, 0) 0° top → (-4, 1) 90° top (1.414 mm)");
+    expect(markdown).toContain("- F_Cu: changed");
+  });
+
+  it("treats an identical pin set under a new name as a rename", () => {
+    const previous: DesignSnapshot = { components: [], nets: { "Net-(R1-pin2)": ["C1.pin1", "R1.pin2"] }, traceCount: 0, layerHashes: {} };
+    const next: DesignSnapshot = { ...previous, nets: { SIG: ["C1.pin1", "R1.pin2"] } };
+    expect(createRevisionDiff(previous, next).netChanges).toEqual([
+      { name: "SIG", change: "renamed", previousName: "Net-(R1-pin2)", addedPins: [], removedPins: [] },
+    ]);
+    expect(createRevisionDiff(previous, previous).summary).toBe("No physical changes detected");
+  });
+
+  it("loads the previous snapshot from a zip or manifest", async () => {
+    const design = snapshotOf(simpleCircuit);
+    const manifest = { generatedAt: "2026-10-01T00:00:00.000Z", files: [], design };
+    const zip = new JSZip();
+    zip.file("manifest.json", JSON.stringify(manifest));
+    const zipBase64 = await zip.generateAsync({ type: "base64" });
+
+    await expect(loadPreviousExport({ zip: zipBase64 })).resolves.toEqual({
+      snapshot: design,
+      generatedAt: "2026-10-01T00:00:00.000Z",
+      errors: [],
+    });
+    expect((await loadPreviousExport({ manifest })).snapshot).toEqual(design);
+    expect((await loadPreviousExport({ manifest: { files: [] } })).errors).toEqual([
+      "previousExport manifest has no design snapshot; re-export the previous revision first",
+    ]);
+    expect((await loadPreviousExport({ zip: "bm90IGEgemlw" })).errors).toEqual([
+      "previousExport.zip is not a base64-encoded zip archive",
+    ]);
+    expect((await loadPreviousExport("x")).errors).toHaveLength(1);
+  });
+});
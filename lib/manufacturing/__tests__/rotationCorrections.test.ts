@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { buildCircuitJsonModel } from "../circuitJson";
+import {
+  BUILT_IN_ROTATION_CORRECTIONS,
+  applyRotationCorrections,
+  builtInRotationCorrectionsFor,
+  parseRotationCorrections,
+  renderPickAndPlaceCsv,
+  resolveRotationCorrection,
+} from "../rotationCorrections";
+
+const model = buildCircuitJsonModel([
+  { type: "source_component", source_component_id: "sc_u1", name: "U1", supplier_part_numbers: { jlcpcb: ["C999"] } },
+  { type: "source_component", source_component_id: "sc_q1", name: "Q1" },
+  { type: "source_component", source_component_id: "sc_r1", name: "R1" },
+  { type: "pcb_component", pcb_component_id: "pc_u1", source_component_id: "sc_u1", center: { x: 0, y: 0 } },
+  { type: "pcb_component", pcb_component_id: "pc_q1", source_component_id: "sc_q1", center: { x: 5, y: 0 }, layer: "bottom" },
+  { type: "pcb_component", pcb_component_id: "pc_r1", source_component_id: "sc_r1", center: { x: -5, y: 0 } },
+  { type: "cad_component", pcb_component_id: "pc_u1", footprinter_string: "soic8" },
+  { type: "cad_component", pcb_component_id: "pc_q1", footprinter_string: "sot23" },
+  { type: "cad_component", pcb_component_id: "pc_r1", footprinter_string: "0402" },
+]);
+
+const rows = [
+  { designator: "U1", mid_x: 0, mid_y: 0, layer: "top", rotation: 0 },
+  { designator: "Q1", mid_x: 5, mid_y: 0, layer: "bottom", rotation: 90 },
+  { designator: "R1", mid_x: -5, mid_y: 0, layer: "top", rotation: 0 },
+];
+
+const table = { builtin: BUILT_IN_ROTATION_CORRECTIONS, project: [], request: [] };
+
+describe("rotation corrections", () => {
+  it("applies built-in footprint rules and mirrors bottom-side corrections", () => {
+    const { rows: corrected, applied } = applyRotationCorrections(rows, model, table);
+
+    expect(corrected.map((row) => row.rotation)).toEqual([270, 270, 0]);
+    expect(applied.map((entry) => [entry.designator, entry.source, entry.matchedBy])).toEqual([
+      ["U1", "builtin", "footprint"],
+      ["Q1", "builtin", "footprint"],
+    ]);
+  });
+
+  it("keeps the JLCPCB built-in table to JLCPCB exports", () => {
+    expect(builtInRotationCorrectionsFor("jlcpcb")).toBe(BUILT_IN_ROTATION_CORRECTIONS);
+    for (const fab of ["pcbway", "oshpark", null] as const) {
+      const builtin = builtInRotationCorrectionsFor(fab);
+      expect(applyRotationCorrections(rows, model, { ...table, builtin }).applied).toEqual([]);
+    }
+  });
+
+  it("lets project and request rules override, with LCSC beating footprint", () => {
+    const match = resolveRotationCorrection(
+      {
+        builtin: BUILT_IN_ROTATION_CORRECTIONS,
+        project: [{ footprint: "soic8", rotation: 90 }, { lcsc: "C999", rotation: 180 }],
+        request: [],
+      },
+      "soic8",
+      "C999",
+    );
+    expect(match).toMatchObject({ source: "project", matchedBy: "lcsc", rule: { rotation: 180 } });
+
+    const requestMatch = resolveRotationCorrection(
+      { builtin: BUILT_IN_ROTATION_CORRECTIONS, project: [], request: [{ footprint: "soic*", rotation: 0 }] },
+      "soic8",
+      null,
+    );
+    expect(requestMatch).toMatchObject({ source: "request", rule: { rotation: 0 } });
+  });
+
+  it("shifts placement by rotated offsets", () => {
+    const { rows: corrected } = applyRotationCorrections(
+      [{ designator: "R1", mid_x: -5, mid_y: 0, layer: "top", rotation: 90 }],
+      model,
+      { builtin: [], project: [], request: [{ footprint: "0402", rotation: 0, offsetX: 1 }] },
+    );
+    expect(corrected[0]).toMatchObject({ mid_x: -5, mid_y: 1, rotation: 90 });
+  });
+
+  it("validates user rules", () => {
+    const { corrections, errors } = parseRotationCorrections([
+      { lcsc: "c123", rotation: 90, note: "flipped" },
+      { rotation: 90 },
+      { footprint: "qfn*", rotation: "90" },
+    ]);
+    expect(corrections).toEqual([{ lcsc: "C123", rotation: 90, note: "flipped" }]);
+    expect(errors).toEqual([
+      "rotationCorrections[1] needs a footprint or lcsc key",
+      "rotationCorrections[2].rotation must be a number",
+    ]);
+    expect(parseRotationCorrections({}).errors).toEqual(["rotationCorrections must be an array"]);
+  });
+
+  it("renders the same CSV layout as circuit-json-to-pnp-csv", () => {
+    expect(renderPickAndPlaceCsv(rows.slice(0, 1))).toBe(
+      "Designator,Mid X,Mid Y,Layer,Rotation\r\nU1,0.000,0.000,top,0",
+    );
+  });
+});
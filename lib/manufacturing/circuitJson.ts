@@ -0,0 +1,513 @@
+type UnknownRecord = Record<string, unknown>;
+
+export type CopperSide = "top" | "bottom";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface BoardGeometry {
+  center: Point;
+  width: number;
+  height: number;
+  thickness: number;
+  numLayers: number;
+  outline: Point[];
+}
+
+export interface ComponentRecord {
+  pcbComponentId: string;
+  sourceComponentId: string | null;
+  name: string;
+  ftype: string | null;
+  value: string | null;
+  footprint: string | null;
+  manufacturerPartNumber: string | null;
+  supplierPartNumbers: Record<string, string[]>;
+  center: Point;
+  width: number;
+  height: number;
+  rotation: number;
+  side: CopperSide;
+}
+
+export interface PadRecord {
+  id: string;
+  kind: "smt" | "plated_hole";
+  pcbComponentId: string | null;
+  pcbPortId: string | null;
+  portName: string | null;
+  center: Point;
+  width: number;
+  height: number;
+  shape: string;
+  sides: CopperSide[];
+  holeDiameter: number | null;
+  netName: string | null;
+}
+
+export interface ViaRecord {
+  id: string;
+  center: Point;
+  outerDiameter: number;
+  holeDiameter: number;
+  sides: CopperSide[];
+  netName: string | null;
+}
+
+export interface HoleRecord {
+  id: string;
+  center: Point;
+  diameter: number;
+}
+
+export interface TraceSegment {
+  traceId: string;
+  start: Point;
+  end: Point;
+  width: number;
+  side: CopperSide;
+  netName: string | null;
+}
+
+export interface NetRecord {
+  name: string;
+  sourceNetId: string | null;
+  sourcePortIds: string[];
+  pads: string[];
+}
+
+export interface CircuitJsonModel {
+  board: BoardGeometry | null;
+  components: ComponentRecord[];
+  pads: PadRecord[];
+  vias: ViaRecord[];
+  holes: HoleRecord[];
+  traces: TraceSegment[];
+  nets: NetRecord[];
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") {
+    const parsed = Number.parseFloat(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function asPoint(value: unknown): Point | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as UnknownRecord;
+  const x = asNumber(record.x);
+  const y = asNumber(record.y);
+  if (x === null || y === null) return null;
+  return { x, y };
+}
+
+function asSide(value: unknown): CopperSide | null {
+  const layer = asString(value)?.toLowerCase();
+  if (layer === "top") return "top";
+  if (layer === "bottom") return "bottom";
+  return null;
+}
+
+function asSides(value: unknown): CopperSide[] {
+  if (!Array.isArray(value)) return ["top", "bottom"];
+  const sides = value
+    .map((entry) => asSide(entry))
+    .filter((entry): entry is CopperSide => entry !== null);
+  return sides.length > 0 ? Array.from(new Set(sides)) : ["top", "bottom"];
+}
+
+function formatValue(record: UnknownRecord): string | null {
+  return (
+    asString(record.display_value) ??
+    asString(record.display_resistance) ??
+    asString(record.display_capacitance) ??
+    asString(record.display_inductance) ??
+    (asNumber(record.resistance) !== null ? String(record.resistance) : null) ??
+    (asNumber(record.capacitance) !== null ? String(record.capacitance) : null)
+  );
+}
+
+function readSupplierPartNumbers(value: unknown): Record<string, string[]> {
+  if (!value || typeof value !== "object") return {};
+  const result: Record<string, string[]> = {};
+  for (const [supplier, numbers] of Object.entries(value as UnknownRecord)) {
+    if (!Array.isArray(numbers)) continue;
+    const cleaned = numbers
+      .map((entry) => asString(entry))
+      .filter((entry): entry is string => entry !== null);
+    if (cleaned.length > 0) result[supplier] = cleaned;
+  }
+  return result;
+}
+
+function readBoard(entry: UnknownRecord): BoardGeometry | null {
+  const center = asPoint(entry.center) ?? { x: 0, y: 0 };
+  const outline = Array.isArray(entry.outline)
+    ? entry.outline.map((point) => asPoint(point)).filter((point): point is Point => point !== null)
+    : [];
+  let width = asNumber(entry.width);
+  let height = asNumber(entry.height);
+  if ((width === null || height === null) && outline.length >= 3) {
+    const xs = outline.map((point) => point.x);
+    const ys = outline.map((point) => point.y);
+    width = Math.max(...xs) - Math.min(...xs);
+    height = Math.max(...ys) - Math.min(...ys);
+  }
+  if (!width || !height) return null;
+
+  return {
+    center,
+    width,
+    height,
+    thickness: asNumber(entry.thickness) ?? 1.6,
+    numLayers: asNumber(entry.num_layers) ?? 2,
+    outline:
+      outline.length >= 3
+        ? outline
+        : [
+            { x: center.x - width / 2, y: center.y - height / 2 },
+            { x: center.x + width / 2, y: center.y - height / 2 },
+            { x: center.x + width / 2, y: center.y + height / 2 },
+            { x: center.x - width / 2, y: center.y + height / 2 },
+          ],
+  };
+}
+
+function readPadSize(entry: UnknownRecord): { width: number; height: number } {
+  const radius = asNumber(entry.radius);
+  if (radius !== null) return { width: radius * 2, height: radius * 2 };
+
+  const outerDiameter = asNumber(entry.outer_diameter);
+  if (outerDiameter !== null) return { width: outerDiameter, height: outerDiameter };
+
+  const width =
+    asNumber(entry.width) ?? asNumber(entry.rect_pad_width) ?? asNumber(entry.outer_width);
+  const height =
+    asNumber(entry.height) ?? asNumber(entry.rect_pad_height) ?? asNumber(entry.outer_height);
+  if (width !== null && height !== null) return { width, height };
+
+  if (Array.isArray(entry.points)) {
+    const points = entry.points
+      .map((point) => asPoint(point))
+      .filter((point): point is Point => point !== null);
+    if (points.length > 0) {
+      const xs = points.map((point) => point.x);
+      const ys = points.map((point) => point.y);
+      return {
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys),
+      };
+    }
+  }
+
+  return { width: 0, height: 0 };
+}
+
+export function readBoardGeometry(circuitJson: unknown[]): BoardGeometry | null {
+  const boardRow = circuitJson.find(
+    (item): item is UnknownRecord =>
+      item !== null && typeof item === "object" && (item as UnknownRecord).type === "pcb_board",
+  );
+  return boardRow ? readBoard(boardRow) : null;
+}
+
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  find(id: string): string {
+    const parent = this.parent.get(id);
+    if (parent === undefined) {
+      this.parent.set(id, id);
+      return id;
+    }
+    if (parent === id) return id;
+    const root = this.find(parent);
+    this.parent.set(id, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent.set(rootB, rootA);
+  }
+}
+
+/**
+ * Normalize the pieces of circuit JSON that manufacturing outputs need:
+ * board outline, placed components, copper pads/vias/traces and a netlist
+ * resolved through source_trace connectivity. Malformed rows are skipped.
+ */
+export function buildCircuitJsonModel(circuitJson: unknown[]): CircuitJsonModel {
+  const rows = circuitJson.filter(
+    (item): item is UnknownRecord => item !== null && typeof item === "object",
+  );
+  const byType = (type: string) => rows.filter((row) => row.type === type);
+
+  const board = readBoardGeometry(rows);
+
+  const sourceComponents = new Map<string, UnknownRecord>();
+  for (const row of byType("source_component")) {
+    const id = asString(row.source_component_id);
+    if (id) sourceComponents.set(id, row);
+  }
+
+  const footprintsByPcbComponent = new Map<string, string>();
+  for (const row of byType("cad_component")) {
+    const pcbComponentId = asString(row.pcb_component_id);
+    const footprint = asString(row.footprinter_string);
+    if (pcbComponentId && footprint) footprintsByPcbComponent.set(pcbComponentId, footprint);
+  }
+
+  const sourcePorts = new Map<string, UnknownRecord>();
+  for (const row of byType("source_port")) {
+    const id = asString(row.source_port_id);
+    if (id) sourcePorts.set(id, row);
+  }
+
+  const sourceNets = new Map<string, UnknownRecord>();
+  for (const row of byType("source_net")) {
+    const id = asString(row.source_net_id);
+    if (id) sourceNets.set(id, row);
+  }
+
+  const connectivity = new UnionFind();
+  const traceAnchors = new Map<string, string>();
+  for (const row of byType("source_trace")) {
+    const traceId = asString(row.source_trace_id);
+    const members = [
+      ...(Array.isArray(row.connected_source_port_ids) ? row.connected_source_port_ids : []),
+      ...(Array.isArray(row.connected_source_net_ids) ? row.connected_source_net_ids : []),
+    ]
+      .map((id) => asString(id))
+      .filter((id): id is string => id !== null);
+    if (members.length === 0) continue;
+    for (const member of members.slice(1)) connectivity.union(members[0], member);
+    if (traceId) traceAnchors.set(traceId, members[0]);
+  }
+  for (const row of sourcePorts.values()) {
+    const portId = asString(row.source_port_id)!;
+    const componentId = asString(row.source_component_id);
+    const internal = componentId
+      ? sourceComponents.get(componentId)?.internally_connected_source_port_ids
+      : null;
+    connectivity.find(portId);
+    if (!Array.isArray(internal)) continue;
+    for (const group of internal) {
+      if (!Array.isArray(group) || !group.includes(portId)) continue;
+      for (const other of group) {
+        const otherId = asString(other);
+        if (otherId) connectivity.union(portId, otherId);
+      }
+    }
+  }
+
+  const membersByRoot = new Map<string, { ports: string[]; netIds: string[] }>();
+  for (const portId of sourcePorts.keys()) {
+    const root = connectivity.find(portId);
+    const group = membersByRoot.get(root) ?? { ports: [], netIds: [] };
+    group.ports.push(portId);
+    membersByRoot.set(root, group);
+  }
+  for (const netId of sourceNets.keys()) {
+    const root = connectivity.find(netId);
+    const group = membersByRoot.get(root) ?? { ports: [], netIds: [] };
+    group.netIds.push(netId);
+    membersByRoot.set(root, group);
+  }
+
+  const portLabel = (portId: string) => {
+    const port = sourcePorts.get(portId);
+    const componentId = asString(port?.source_component_id);
+    const componentName = componentId
+      ? asString(sourceComponents.get(componentId)?.name) ?? componentId
+      : "unknown";
+    return `${componentName}-${asString(port?.name) ?? portId}`;
+  };
+
+  const netNameByRoot = new Map<string, string>();
+  const nets: NetRecord[] = [];
+  const usedNames = new Set<string>();
+  for (const [root, group] of membersByRoot.entries()) {
+    const namedNetId = group.netIds.find((id) => asString(sourceNets.get(id)?.name));
+    if (!namedNetId && group.ports.length < 2) continue;
+    let name = namedNetId
+      ? asString(sourceNets.get(namedNetId)!.name)!
+      : `Net-(${portLabel(group.ports.slice().sort()[0])})`;
+    if (usedNames.has(name)) name = `${name}_${usedNames.size}`;
+    usedNames.add(name);
+    netNameByRoot.set(root, name);
+    nets.push({
+      name,
+      sourceNetId: namedNetId ?? null,
+      sourcePortIds: group.ports.slice().sort(),
+      pads: [],
+    });
+  }
+  const netBySourcePort = (sourcePortId: string | null) =>
+    sourcePortId ? netNameByRoot.get(connectivity.find(sourcePortId)) ?? null : null;
+
+  const pcbPorts = new Map<string, UnknownRecord>();
+  for (const row of byType("pcb_port")) {
+    const id = asString(row.pcb_port_id);
+    if (id) pcbPorts.set(id, row);
+  }
+  const netByPcbPort = (pcbPortId: string | null) =>
+    pcbPortId ? netBySourcePort(asString(pcbPorts.get(pcbPortId)?.source_port_id)) : null;
+
+  const components: ComponentRecord[] = [];
+  for (const row of byType("pcb_component")) {
+    const pcbComponentId = asString(row.pcb_component_id);
+    const center = asPoint(row.center);
+    if (!pcbComponentId || !center) continue;
+    const sourceComponentId = asString(row.source_component_id);
+    const source = sourceComponentId ? sourceComponents.get(sourceComponentId) : undefined;
+    components.push({
+      pcbComponentId,
+      sourceComponentId,
+      name: asString(source?.name) ?? pcbComponentId,
+      ftype: asString(source?.ftype),
+      value: source ? formatValue(source) : null,
+      footprint: footprintsByPcbComponent.get(pcbComponentId) ?? asString(source?.footprint),
+      manufacturerPartNumber: asString(source?.manufacturer_part_number),
+      supplierPartNumbers: readSupplierPartNumbers(source?.supplier_part_numbers),
+      center,
+      width: asNumber(row.width) ?? 0,
+      height: asNumber(row.height) ?? 0,
+      rotation: asNumber(row.rotation) ?? 0,
+      side: asSide(row.layer) ?? "top",
+    });
+  }
+
+  const pads: PadRecord[] = [];
+  for (const row of [...byType("pcb_smtpad"), ...byType("pcb_plated_hole")]) {
+    const isHole = row.type === "pcb_plated_hole";
+    const id = asString(isHole ? row.pcb_plated_hole_id : row.pcb_smtpad_id);
+    const x = asNumber(row.x);
+    const y = asNumber(row.y);
+    if (!id || x === null || y === null) continue;
+    const pcbPortId = asString(row.pcb_port_id);
+    const sourcePortId = pcbPortId ? asString(pcbPorts.get(pcbPortId)?.source_port_id) : null;
+    const size = readPadSize(row);
+    const portHints = Array.isArray(row.port_hints) ? row.port_hints : [];
+    const netName = netByPcbPort(pcbPortId);
+    pads.push({
+      id,
+      kind: isHole ? "plated_hole" : "smt",
+      pcbComponentId: asString(row.pcb_component_id),
+      pcbPortId,
+      portName:
+        (sourcePortId ? asString(sourcePorts.get(sourcePortId)?.name) : null) ??
+        asString(portHints[0]),
+      center: { x, y },
+      width: size.width,
+      height: size.height,
+      shape: asString(row.shape) ?? "rect",
+      sides: isHole ? asSides(row.layers) : [asSide(row.layer) ?? "top"],
+      holeDiameter: isHole ? asNumber(row.hole_diameter) ?? asNumber(row.hole_width) : null,
+      netName,
+    });
+    if (netName) nets.find((net) => net.name === netName)?.pads.push(id);
+  }
+
+  const netByPcbTrace = new Map<string, string>();
+  const traces: TraceSegment[] = [];
+  const vias: ViaRecord[] = [];
+  for (const row of byType("pcb_trace")) {
+    const traceId = asString(row.pcb_trace_id) ?? `pcb_trace_${traces.length}`;
+    const sourceTraceId = asString(row.source_trace_id);
+    const anchor = sourceTraceId ? traceAnchors.get(sourceTraceId) : undefined;
+    const route = Array.isArray(row.route)
+      ? row.route.filter((point): point is UnknownRecord => !!point && typeof point === "object")
+      : [];
+    let netName = anchor ? netNameByRoot.get(connectivity.find(anchor)) ?? null : null;
+    if (!netName) {
+      for (const point of route) {
+        netName =
+          netByPcbPort(asString(point.start_pcb_port_id)) ??
+          netByPcbPort(asString(point.end_pcb_port_id));
+        if (netName) break;
+      }
+    }
+    if (netName) netByPcbTrace.set(traceId, netName);
+
+    for (let index = 0; index < route.length; index++) {
+      const point = route[index];
+      const position = asPoint(point);
+      if (!position) continue;
+      if (point.route_type === "via") {
+        vias.push({
+          id: `${traceId}_via_${index}`,
+          center: position,
+          outerDiameter: asNumber(point.outer_diameter) ?? 0.6,
+          holeDiameter: asNumber(point.hole_diameter) ?? 0.3,
+          sides: ["top", "bottom"],
+          netName,
+        });
+        continue;
+      }
+      const next = route[index + 1];
+      const nextPosition = next ? asPoint(next) : null;
+      if (!next || !nextPosition || next.route_type === "via") continue;
+      const side = asSide(point.layer) ?? "top";
+      if ((asSide(next.layer) ?? "top") !== side) continue;
+      traces.push({
+        traceId,
+        start: position,
+        end: nextPosition,
+        width: asNumber(point.width) ?? asNumber(row.trace_width) ?? 0.15,
+        side,
+        netName,
+      });
+    }
+  }
+
+  for (const row of byType("pcb_via")) {
+    const id = asString(row.pcb_via_id);
+    const x = asNumber(row.x);
+    const y = asNumber(row.y);
+    if (!id || x === null || y === null) continue;
+    const duplicate = vias.some(
+      (via) => Math.abs(via.center.x - x) < 1e-6 && Math.abs(via.center.y - y) < 1e-6,
+    );
+    if (duplicate) continue;
+    const traceId = asString(row.pcb_trace_id);
+    vias.push({
+      id,
+      center: { x, y },
+      outerDiameter: asNumber(row.outer_diameter) ?? 0.6,
+      holeDiameter: asNumber(row.hole_diameter) ?? 0.3,
+      sides: asSides(row.layers),
+      netName: traceId ? netByPcbTrace.get(traceId) ?? null : null,
+    });
+  }
+
+  const holes: HoleRecord[] = [];
+  for (const row of byType("pcb_hole")) {
+    const id = asString(row.pcb_hole_id);
+    const x = asNumber(row.x);
+    const y = asNumber(row.y);
+    const diameter = asNumber(row.hole_diameter) ?? asNumber(row.hole_width);
+    if (!id || x === null || y === null || diameter === null) continue;
+    holes.push({ id, center: { x, y }, diameter });
+  }
+
+  return {
+    board,
+    components,
+    pads,
+    vias,
+    holes,
+    traces,
+    nets: nets.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
@@ -0,0 +1,243 @@
+import { any_circuit_element } from "circuit-json";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+
+type UnknownRecord = Record<string, unknown>;
+
+export const CIRCUIT_JSON_MALFORMED_CATEGORY = "circuit_json_malformed_element";
+export const CIRCUIT_JSON_SCHEMA_CATEGORY = "circuit_json_schema_error";
+export const CIRCUIT_JSON_DANGLING_REFERENCE_CATEGORY = "circuit_json_dangling_reference";
+export const CIRCUIT_JSON_UNKNOWN_TYPE_CATEGORY = "circuit_json_unknown_element";
+
+const BLOCKING_SEVERITY = 8;
+const WARNING_SEVERITY = 5;
+const ADVISORY_SEVERITY = 3;
+
+/** Upper bound on reported diagnostics so a garbage payload cannot produce a megabyte error body. */
+const MAX_DIAGNOSTICS = 50;
+
+/**
+ * Id fields that point at another element, and the element type that owns
+ * them. Only references the converters dereference are listed; looser links
+ * such as `subcircuit_id`, or the solver-generated `source_trace_id` on
+ * schematic traces, are routinely left dangling by the compiler itself.
+ */
+const REFERENCE_FIELDS: Record<string, string> = {
+  source_component_id: "source_component",
+  source_port_id: "source_port",
+  source_net_id: "source_net",
+  pcb_component_id: "pcb_component",
+  pcb_port_id: "pcb_port",
+  schematic_component_id: "schematic_component",
+};
+
+/** Array fields holding references, keyed by the owning element type. */
+const REFERENCE_LIST_FIELDS: Record<string, string> = {
+  connected_source_port_ids: "source_port",
+  connected_source_net_ids: "source_net",
+  pcb_port_ids: "pcb_port",
+  pcb_component_ids: "pcb_component",
+};
+
+export interface CircuitJsonValidationResult {
+  /** False when the payload cannot be converted: malformed entries, schema errors or dangling references. */
+  ok: boolean;
+  elementCount: number;
+  diagnostics: ValidationDiagnostic[];
+  /** Diagnostics dropped after the first `MAX_DIAGNOSTICS`. */
+  truncatedCount: number;
+}
+
+/**
+ * The parts of a `circuit-json` zod schema used here. circuit-json bundles its
+ * own zod major version, so its schemas are not typed against ours.
+ */
+interface ElementSchema {
+  _def: { typeName?: string; options?: ElementSchema[]; schema?: ElementSchema };
+  shape?: Record<string, { _def?: { value?: unknown }; isOptional?: () => boolean }>;
+  safeParse(
+    value: unknown,
+  ): { success: true } | { success: false; error: { issues: Array<{ path: PropertyKey[]; message: string }> } };
+}
+
+let schemasByType: Map<string, ElementSchema[]> | null = null;
+
+function collectSchemas(schema: ElementSchema, into: Map<string, ElementSchema[]>) {
+  const def = schema._def;
+  if (def.options) {
+    for (const option of def.options) collectSchemas(option, into);
+    return;
+  }
+  if (def.typeName === "ZodEffects" && def.schema) {
+    collectSchemas(def.schema, into);
+    return;
+  }
+  const literal = schema.shape?.type?._def?.value;
+  if (typeof literal !== "string") return;
+  into.set(literal, [...(into.get(literal) ?? []), schema]);
+}
+
+/** Element schemas from `circuit-json`, keyed by `type`; some types (pads, holes) have one schema per shape. */
+function getSchemasByType(): Map<string, ElementSchema[]> {
+  if (!schemasByType) {
+    schemasByType = new Map();
+    collectSchemas(any_circuit_element as unknown as ElementSchema, schemasByType);
+  }
+  return schemasByType;
+}
+
+function elementId(element: UnknownRecord, type: string): string {
+  const own = element[`${type}_id`];
+  return typeof own === "string" ? own : type;
+}
+
+function makeDiagnostic(category: string, severity: number, message: string, ids: string[]): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+  };
+}
+
+interface SchemaIssue {
+  detail: string;
+  /** True when every mismatch is on an optional field; the compiler's own output often has these. */
+  optionalOnly: boolean;
+  count: number;
+}
+
+/** First zod issue of the shape-variant that came closest to matching. */
+function firstSchemaIssue(element: UnknownRecord, schemas: ElementSchema[]): SchemaIssue | null {
+  let best: SchemaIssue | null = null;
+  for (const schema of schemas) {
+    const parsed = schema.safeParse(element);
+    if (parsed.success) return null;
+    const issues = parsed.error.issues;
+    const path = issues[0].path.map(String).join(".");
+    const candidate: SchemaIssue = {
+      detail: path ? `${path}: ${issues[0].message}` : issues[0].message,
+      optionalOnly: issues.every((issue) => schema.shape?.[String(issue.path[0])]?.isOptional?.() ?? false),
+      count: issues.length,
+    };
+    if (!best || candidate.count < best.count) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Check circuit JSON from a client against the `circuit-json` element schemas
+ * before it reaches the KiCad or fabrication converters, which otherwise fail
+ * deep inside with errors that do not name the offending element.
+ */
+export function validateCircuitJson(circuitJson: unknown[]): CircuitJsonValidationResult {
+  const schemas = getSchemasByType();
+  const diagnostics: ValidationDiagnostic[] = [];
+  const idsByType = new Map<string, Set<string>>();
+  const elements: Array<{ element: UnknownRecord; type: string; index: number }> = [];
+
+  circuitJson.forEach((entry, index) => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+      diagnostics.push(
+        makeDiagnostic(CIRCUIT_JSON_MALFORMED_CATEGORY, BLOCKING_SEVERITY, `circuit_json[${index}] is not an object`, [
+          String(index),
+        ]),
+      );
+      return;
+    }
+    const element = entry as UnknownRecord;
+    if (typeof element.type !== "string" || element.type.length === 0) {
+      diagnostics.push(
+        makeDiagnostic(
+          CIRCUIT_JSON_MALFORMED_CATEGORY,
+          BLOCKING_SEVERITY,
+          `circuit_json[${index}] has no string "type"`,
+          [String(index)],
+        ),
+      );
+      return;
+    }
+    const type = element.type;
+    const ownId = element[`${type}_id`];
+    if (typeof ownId === "string") {
+      const ids = idsByType.get(type) ?? new Set<string>();
+      ids.add(ownId);
+      idsByType.set(type, ids);
+    }
+    elements.push({ element, type, index });
+  });
+
+  for (const { element, type, index } of elements) {
+    const id = elementId(element, type);
+    const typeSchemas = schemas.get(type);
+    if (!typeSchemas) {
+      diagnostics.push(
+        makeDiagnostic(
+          CIRCUIT_JSON_UNKNOWN_TYPE_CATEGORY,
+          ADVISORY_SEVERITY,
+          `circuit_json[${index}] has unknown type "${type}"; it will be ignored by the converters`,
+          [type, id],
+        ),
+      );
+      continue;
+    }
+    const issue = firstSchemaIssue(element, typeSchemas);
+    if (issue) {
+      diagnostics.push(
+        makeDiagnostic(
+          CIRCUIT_JSON_SCHEMA_CATEGORY,
+          issue.optionalOnly ? WARNING_SEVERITY : BLOCKING_SEVERITY,
+          `${type} ${id} does not match the circuit-json schema (${issue.detail})`,
+          [type, id],
+        ),
+      );
+    }
+
+    const ownKey = `${type}_id`;
+    for (const [field, targetType] of Object.entries(REFERENCE_FIELDS)) {
+      if (field === ownKey) continue;
+      const value = element[field];
+      if (typeof value !== "string" || idsByType.get(targetType)?.has(value)) continue;
+      diagnostics.push(
+        makeDiagnostic(
+          CIRCUIT_JSON_DANGLING_REFERENCE_CATEGORY,
+          BLOCKING_SEVERITY,
+          `${type} ${id} references missing ${targetType} ${value} via ${field}`,
+          [type, id, field, value],
+        ),
+      );
+    }
+    for (const [field, targetType] of Object.entries(REFERENCE_LIST_FIELDS)) {
+      const values = element[field];
+      if (!Array.isArray(values)) continue;
+      for (const value of values) {
+        if (typeof value !== "string" || idsByType.get(targetType)?.has(value)) continue;
+        diagnostics.push(
+          makeDiagnostic(
+            CIRCUIT_JSON_DANGLING_REFERENCE_CATEGORY,
+            BLOCKING_SEVERITY,
+            `${type} ${id} references missing ${targetType} ${value} via ${field}`,
+            [type, id, field, value],
+          ),
+        );
+      }
+    }
+  }
+
+  return {
+    ok: !diagnostics.some((diagnostic) => diagnostic.severity >= BLOCKING_SEVERITY),
+    elementCount: circuitJson.length,
+    diagnostics: diagnostics.slice(0, MAX_DIAGNOSTICS),
+    truncatedCount: Math.max(0, diagnostics.length - MAX_DIAGNOSTICS),
+  };
+}
+
+/** One-line reasons for an error response body, blocking diagnostics first. */
+export function summarizeCircuitJsonValidation(result: CircuitJsonValidationResult, limit = 5): string[] {
+  const blocking = result.diagnostics.filter((diagnostic) => diagnostic.severity >= BLOCKING_SEVERITY);
+  const lines = blocking.slice(0, limit).map((diagnostic) => diagnostic.message);
+  const remaining = blocking.length - lines.length + result.truncatedCount;
+  if (remaining > 0) lines.push(`${remaining} more problem(s) not shown`);
+  return lines;
+}
@@ -0,0 +1,338 @@
+import type { CircuitJsonModel, CopperSide, Point } from "./circuitJson";
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export type CoreShape =
+  | { type: "segment"; a: Point; b: Point; radius: number }
+  | { type: "rect"; center: Point; halfWidth: number; halfHeight: number };
+
+export type CopperFeatureKind = "pad" | "via" | "trace";
+
+export interface CopperFeature {
+  id: string;
+  kind: CopperFeatureKind;
+  label: string;
+  netName: string | null;
+  group: string;
+  sides: CopperSide[];
+  shape: CoreShape;
+  bounds: Bounds;
+}
+
+export function pointShape(center: Point, radius: number): CoreShape {
+  return { type: "segment", a: center, b: center, radius };
+}
+
+export function shapeBounds(shape: CoreShape): Bounds {
+  if (shape.type === "rect") {
+    return {
+      minX: shape.center.x - shape.halfWidth,
+      minY: shape.center.y - shape.halfHeight,
+      maxX: shape.center.x + shape.halfWidth,
+      maxY: shape.center.y + shape.halfHeight,
+    };
+  }
+  return {
+    minX: Math.min(shape.a.x, shape.b.x) - shape.radius,
+    minY: Math.min(shape.a.y, shape.b.y) - shape.radius,
+    maxX: Math.max(shape.a.x, shape.b.x) + shape.radius,
+    maxY: Math.max(shape.a.y, shape.b.y) + shape.radius,
+  };
+}
+
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function segmentSegmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    pointSegmentDistance(a, c, d),
+    pointSegmentDistance(b, c, d),
+    pointSegmentDistance(c, a, b),
+    pointSegmentDistance(d, a, b),
+  );
+}
+
+function rectCorners(rect: Extract<CoreShape, { type: "rect" }>): Point[] {
+  const { center, halfWidth, halfHeight } = rect;
+  return [
+    { x: center.x - halfWidth, y: center.y - halfHeight },
+    { x: center.x + halfWidth, y: center.y - halfHeight },
+    { x: center.x + halfWidth, y: center.y + halfHeight },
+    { x: center.x - halfWidth, y: center.y + halfHeight },
+  ];
+}
+
+function pointRectDistance(p: Point, rect: Extract<CoreShape, { type: "rect" }>): number {
+  const dx = Math.max(Math.abs(p.x - rect.center.x) - rect.halfWidth, 0);
+  const dy = Math.max(Math.abs(p.y - rect.center.y) - rect.halfHeight, 0);
+  return Math.hypot(dx, dy);
+}
+
+function segmentRectDistance(a: Point, b: Point, rect: Extract<CoreShape, { type: "rect" }>): number {
+  const corners = rectCorners(rect);
+  if (pointRectDistance(a, rect) === 0 || pointRectDistance(b, rect) === 0) return 0;
+  for (let index = 0; index < corners.length; index++) {
+    if (segmentsIntersect(a, b, corners[index], corners[(index + 1) % corners.length])) return 0;
+  }
+  return Math.min(
+    pointRectDistance(a, rect),
+    pointRectDistance(b, rect),
+    ...corners.map((corner) => pointSegmentDistance(corner, a, b)),
+  );
+}
+
+/** Edge-to-edge distance between two shapes; negative values mean overlap. */
+export function shapeDistance(first: CoreShape, second: CoreShape): number {
+  if (first.type === "segment" && second.type === "segment") {
+    return segmentSegmentDistance(first.a, first.b, second.a, second.b) - first.radius - second.radius;
+  }
+  if (first.type === "rect" && second.type === "rect") {
+    const dx = Math.max(Math.abs(first.center.x - second.center.x) - first.halfWidth - second.halfWidth, 0);
+    const dy = Math.max(Math.abs(first.center.y - second.center.y) - first.halfHeight - second.halfHeight, 0);
+    return Math.hypot(dx, dy);
+  }
+  const segment = (first.type === "segment" ? first : second) as Extract<CoreShape, { type: "segment" }>;
+  const rect = (first.type === "rect" ? first : second) as Extract<CoreShape, { type: "rect" }>;
+  return segmentRectDistance(segment.a, segment.b, rect) - segment.radius;
+}
+
+export function shapeEdgeDistance(shape: CoreShape, a: Point, b: Point): number {
+  if (shape.type === "rect") return segmentRectDistance(a, b, shape);
+  return segmentSegmentDistance(shape.a, shape.b, a, b) - shape.radius;
+}
+
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function shapeAnchor(shape: CoreShape): Point {
+  return shape.type === "rect" ? shape.center : shape.a;
+}
+
+export function formatMm(value: number): string {
+  return `${value.toFixed(3)}mm`;
+}
+
+export function formatPoint(point: Point): string {
+  return `${point.x.toFixed(2)},${point.y.toFixed(2)}`;
+}
+
+export function collectCopperFeatures(model: CircuitJsonModel): CopperFeature[] {
+  const componentNames = new Map(
+    model.components.map((component) => [component.pcbComponentId, component.name]),
+  );
+  const features: CopperFeature[] = [];
+  const push = (feature: Omit<CopperFeature, "bounds">) =>
+    features.push({ ...feature, bounds: shapeBounds(feature.shape) });
+
+  for (const pad of model.pads) {
+    const owner = pad.pcbComponentId ? componentNames.get(pad.pcbComponentId) ?? pad.pcbComponentId : null;
+    const label = owner ? `${owner} pad ${pad.portName ?? pad.id}` : `pad ${pad.id}`;
+    const shape: CoreShape =
+      pad.shape === "circle" || (pad.kind === "plated_hole" && pad.width === pad.height)
+        ? pointShape(pad.center, pad.width / 2)
+        : { type: "rect", center: pad.center, halfWidth: pad.width / 2, halfHeight: pad.height / 2 };
+    push({ id: pad.id, kind: "pad", label, netName: pad.netName, group: pad.id, sides: pad.sides, shape });
+  }
+  for (const via of model.vias) {
+    push({
+      id: via.id,
+      kind: "via",
+      label: `via ${via.id}`,
+      netName: via.netName,
+      group: via.id,
+      sides: via.sides,
+      shape: pointShape(via.center, via.outerDiameter / 2),
+    });
+  }
+  model.traces.forEach((segment, index) => {
+    push({
+      id: `${segment.traceId}#${index}`,
+      kind: "trace",
+      label: `trace ${segment.traceId}`,
+      netName: segment.netName,
+      group: segment.traceId,
+      sides: [segment.side],
+      shape: { type: "segment", a: segment.start, b: segment.end, radius: segment.width / 2 },
+    });
+  });
+  return features;
+}
+
+/**
+ * Uniform grid over feature bounds. Clearance checks only compare features
+ * whose padded bounds share a cell, instead of every pair on the board.
+ */
+export class SpatialIndex<T extends { bounds: Bounds }> {
+  private readonly cells = new Map<string, T[]>();
+
+  constructor(private readonly cellSize: number) {}
+
+  private cellRange(bounds: Bounds, padding: number) {
+    return {
+      minX: Math.floor((bounds.minX - padding) / this.cellSize),
+      minY: Math.floor((bounds.minY - padding) / this.cellSize),
+      maxX: Math.floor((bounds.maxX + padding) / this.cellSize),
+      maxY: Math.floor((bounds.maxY + padding) / this.cellSize),
+    };
+  }
+
+  insert(item: T) {
+    const range = this.cellRange(item.bounds, 0);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const key = `${x}:${y}`;
+        const cell = this.cells.get(key);
+        if (cell) cell.push(item);
+        else this.cells.set(key, [item]);
+      }
+    }
+  }
+
+  /** Items whose bounds come within `padding` of `bounds`; each item is returned once. */
+  query(bounds: Bounds, padding = 0): T[] {
+    const range = this.cellRange(bounds, padding);
+    const found = new Set<T>();
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        for (const item of this.cells.get(`${x}:${y}`) ?? []) {
+          if (
+            item.bounds.minX <= bounds.maxX + padding &&
+            item.bounds.maxX >= bounds.minX - padding &&
+            item.bounds.minY <= bounds.maxY + padding &&
+            item.bounds.maxY >= bounds.minY - padding
+          ) {
+            found.add(item);
+          }
+        }
+      }
+    }
+    return Array.from(found);
+  }
+}
+
+// Rounding slack so copper exactly at a limit is not reported.
+const CLEARANCE_EPSILON = 1e-6;
+const CLEARANCE_CELL_SIZE_MM = 1;
+
+export interface ClearanceViolation<R> {
+  first: CopperFeature;
+  second: CopperFeature;
+  side: CopperSide;
+  gap: number;
+  rule: R;
+}
+
+/**
+ * Pairs of copper on different nets that share a side and sit closer than the
+ * clearance `ruleFor` gives them, once per pair and rule key. `maxClearance`
+ * bounds the search. Copper without a resolved net that touches other copper
+ * is most likely the intended connection; only near-misses are reported for it.
+ */
+export function findClearanceViolations<R extends { key: string; clearance: number }>(
+  features: CopperFeature[],
+  maxClearance: number,
+  ruleFor: (first: CopperFeature, second: CopperFeature) => R,
+): ClearanceViolation<R>[] {
+  const index = new SpatialIndex<CopperFeature>(CLEARANCE_CELL_SIZE_MM);
+  for (const feature of features) index.insert(feature);
+  const order = new Map(features.map((feature, position) => [feature, position]));
+
+  const violations: ClearanceViolation<R>[] = [];
+  const reported = new Set<string>();
+  for (const first of features) {
+    for (const second of index.query(first.bounds, maxClearance)) {
+      // Each pair is seen from both sides; only handle it from the earlier feature.
+      if (order.get(second)! <= order.get(first)!) continue;
+      if (first.group === second.group) continue;
+      if (first.netName && first.netName === second.netName) continue;
+      const side = first.sides.find((entry) => second.sides.includes(entry));
+      if (!side) continue;
+
+      const rule = ruleFor(first, second);
+      const gap = shapeDistance(first.shape, second.shape);
+      if (gap >= rule.clearance - CLEARANCE_EPSILON) continue;
+      if ((!first.netName || !second.netName) && gap <= 0) continue;
+
+      const pairKey = `${rule.key}|${[first.group, second.group].sort().join("|")}`;
+      if (reported.has(pairKey)) continue;
+      reported.add(pairKey);
+      violations.push({ first, second, side, gap, rule });
+    }
+  }
+  return violations;
+}
+
+export interface EdgeViolation {
+  feature: CopperFeature;
+  /** Closest distance to the outline; only meaningful when `inside`. */
+  clearance: number;
+  inside: boolean;
+}
+
+/** Copper closer than `minClearanceMm` to the board outline, or outside it, once per group. */
+export function findCopperToEdgeViolations(
+  model: CircuitJsonModel,
+  features: CopperFeature[],
+  minClearanceMm: number,
+): EdgeViolation[] {
+  const outline = model.board?.outline ?? [];
+  if (outline.length < 3) return [];
+  const violations = new Map<string, EdgeViolation>();
+
+  for (const feature of features) {
+    if (violations.has(feature.group)) continue;
+    const inside = pointInPolygon(shapeAnchor(feature.shape), outline);
+    let clearance = Number.POSITIVE_INFINITY;
+    for (let index = 0; index < outline.length; index++) {
+      clearance = Math.min(
+        clearance,
+        shapeEdgeDistance(feature.shape, outline[index], outline[(index + 1) % outline.length]),
+      );
+    }
+    if (inside && clearance >= minClearanceMm - CLEARANCE_EPSILON) continue;
+    violations.set(feature.group, { feature, clearance, inside });
+  }
+  return Array.from(violations.values());
+}
+
+/** How an edge violation reads in a finding: its distance, or that it left the board. */
+export function describeEdgeViolation(violation: EdgeViolation): string {
+  return violation.inside
+    ? `is ${formatMm(Math.max(violation.clearance, 0))} from the board edge`
+    : "lies outside the board outline";
+}
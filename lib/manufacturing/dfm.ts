@@ -0,0 +1,456 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import {
+  buildCircuitJsonModel,
+  type CircuitJsonModel,
+  type CopperSide,
+  type Point,
+} from "./circuitJson";
+import {
+  collectCopperFeatures,
+  describeEdgeViolation,
+  findClearanceViolations,
+  findCopperToEdgeViolations,
+  formatMm,
+  formatPoint,
+  pointShape,
+  shapeAnchor,
+  shapeDistance,
+  type CopperFeature,
+  type CoreShape,
+} from "./copperGeometry";
+import type { FabPresetId } from "./fabPresets";
+
+type UnknownRecord = Record<string, unknown>;
+
+/** Minimum manufacturable geometry for one fab, in millimetres. */
+export interface FabCapabilityProfile {
+  id: FabPresetId | "default";
+  label: string;
+  minTraceWidthMm: number;
+  minSpacingMm: number;
+  minAnnularRingMm: number;
+  minDrillMm: number;
+  maxDrillMm: number;
+  minCopperToEdgeMm: number;
+  minSilkToPadMm: number;
+  allowViaInPad: boolean;
+}
+
+export type FabCapabilityOverrides = Partial<Omit<FabCapabilityProfile, "id" | "label">>;
+
+/**
+ * Standard-service limits for 2-layer boards as published by each fab. The
+ * default profile is the conservative intersection used when no fab is chosen.
+ */
+export const FAB_CAPABILITY_PROFILES: Record<FabCapabilityProfile["id"], FabCapabilityProfile> = {
+  default: {
+    id: "default",
+    label: "Generic fab",
+    minTraceWidthMm: 0.127,
+    minSpacingMm: 0.127,
+    minAnnularRingMm: 0.13,
+    minDrillMm: 0.3,
+    maxDrillMm: 6.3,
+    minCopperToEdgeMm: 0.3,
+    minSilkToPadMm: 0.15,
+    allowViaInPad: false,
+  },
+  jlcpcb: {
+    id: "jlcpcb",
+    label: "JLCPCB",
+    minTraceWidthMm: 0.127,
+    minSpacingMm: 0.127,
+    minAnnularRingMm: 0.13,
+    minDrillMm: 0.3,
+    maxDrillMm: 6.3,
+    minCopperToEdgeMm: 0.3,
+    minSilkToPadMm: 0.15,
+    allowViaInPad: false,
+  },
+  pcbway: {
+    id: "pcbway",
+    label: "PCBWay",
+    minTraceWidthMm: 0.1,
+    minSpacingMm: 0.1,
+    minAnnularRingMm: 0.15,
+    minDrillMm: 0.2,
+    maxDrillMm: 6.3,
+    minCopperToEdgeMm: 0.25,
+    minSilkToPadMm: 0.15,
+    allowViaInPad: true,
+  },
+  oshpark: {
+    id: "oshpark",
+    label: "OSH Park",
+    minTraceWidthMm: 0.152,
+    minSpacingMm: 0.152,
+    minAnnularRingMm: 0.127,
+    minDrillMm: 0.254,
+    maxDrillMm: 6.35,
+    minCopperToEdgeMm: 0.381,
+    minSilkToPadMm: 0.1,
+    allowViaInPad: true,
+  },
+};
+
+const NUMERIC_CAPABILITY_KEYS = [
+  "minTraceWidthMm",
+  "minSpacingMm",
+  "minAnnularRingMm",
+  "minDrillMm",
+  "maxDrillMm",
+  "minCopperToEdgeMm",
+  "minSilkToPadMm",
+] as const;
+
+const MAX_FINDINGS_PER_RULE = 25;
+const BLOCKING_SEVERITY = 8;
+// Rounding slack so e.g. a 0.6/0.3mm via is not reported against a 0.15mm ring limit.
+const EPSILON = 1e-6;
+
+/** Validate `fabCapabilities` overrides from a request body. */
+export function parseFabCapabilityOverrides(input: unknown): {
+  overrides: FabCapabilityOverrides;
+  errors: string[];
+} {
+  if (input === undefined || input === null) return { overrides: {}, errors: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { overrides: {}, errors: ["fabCapabilities must be an object"] };
+  }
+
+  const record = input as UnknownRecord;
+  const overrides: FabCapabilityOverrides = {};
+  const errors: string[] = [];
+  for (const key of NUMERIC_CAPABILITY_KEYS) {
+    const value = record[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push(`fabCapabilities.${key} must be a non-negative number`);
+      continue;
+    }
+    overrides[key] = value;
+  }
+  if (record.allowViaInPad !== undefined) {
+    if (typeof record.allowViaInPad !== "boolean") {
+      errors.push("fabCapabilities.allowViaInPad must be a boolean");
+    } else {
+      overrides.allowViaInPad = record.allowViaInPad;
+    }
+  }
+  return { overrides, errors };
+}
+
+export function resolveFabCapabilityProfile(
+  presetId: FabPresetId | null | undefined,
+  overrides: FabCapabilityOverrides = {},
+): FabCapabilityProfile {
+  return { ...FAB_CAPABILITY_PROFILES[presetId ?? "default"], ...overrides };
+}
+
+export function isBlockingDfmFinding(diagnostic: ValidationDiagnostic): boolean {
+  return diagnostic.category.startsWith("dfm_") && diagnostic.severity >= BLOCKING_SEVERITY;
+}
+
+interface SilkscreenFeature {
+  id: string;
+  side: CopperSide;
+  shape: CoreShape;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function asPoint(value: unknown): Point | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as UnknownRecord;
+  const x = asNumber(record.x);
+  const y = asNumber(record.y);
+  return x === null || y === null ? null : { x, y };
+}
+
+function textShape(row: UnknownRecord, anchor: Point): CoreShape {
+  const fontSize = asNumber(row.font_size) ?? 1;
+  const text = typeof row.text === "string" ? row.text : "";
+  const halfWidth = (fontSize * 0.6 * Math.max(text.length, 1)) / 2;
+  const halfHeight = fontSize / 2;
+  const alignment = typeof row.anchor_alignment === "string" ? row.anchor_alignment : "center";
+  const center = { ...anchor };
+  if (alignment.includes("left")) center.x += halfWidth;
+  if (alignment.includes("right")) center.x -= halfWidth;
+  if (alignment.includes("top")) center.y -= halfHeight;
+  if (alignment.includes("bottom")) center.y += halfHeight;
+  return { type: "rect", center, halfWidth, halfHeight };
+}
+
+function collectSilkscreenFeatures(circuitJson: unknown[]): SilkscreenFeature[] {
+  const features: SilkscreenFeature[] = [];
+  for (const item of circuitJson) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as UnknownRecord;
+    const side: CopperSide = row.layer === "bottom" ? "bottom" : "top";
+    const strokeRadius = (asNumber(row.stroke_width) ?? 0.1) / 2;
+
+    if (row.type === "pcb_silkscreen_path" && Array.isArray(row.route)) {
+      const points = row.route.map((point) => asPoint(point)).filter((point): point is Point => point !== null);
+      for (let index = 0; index + 1 < points.length; index++) {
+        features.push({
+          id: `${String(row.pcb_silkscreen_path_id ?? "pcb_silkscreen_path")}#${index}`,
+          side,
+          shape: { type: "segment", a: points[index], b: points[index + 1], radius: strokeRadius },
+        });
+      }
+    } else if (row.type === "pcb_silkscreen_line") {
+      const x1 = asNumber(row.x1);
+      const y1 = asNumber(row.y1);
+      const x2 = asNumber(row.x2);
+      const y2 = asNumber(row.y2);
+      if (x1 === null || y1 === null || x2 === null || y2 === null) continue;
+      features.push({
+        id: String(row.pcb_silkscreen_line_id ?? "pcb_silkscreen_line"),
+        side,
+        shape: { type: "segment", a: { x: x1, y: y1 }, b: { x: x2, y: y2 }, radius: strokeRadius },
+      });
+    } else if (row.type === "pcb_silkscreen_text") {
+      const anchor = asPoint(row.anchor_position);
+      if (!anchor) continue;
+      features.push({
+        id: String(row.pcb_silkscreen_text_id ?? "pcb_silkscreen_text"),
+        side,
+        shape: textShape(row, anchor),
+      });
+    } else if (row.type === "pcb_silkscreen_rect") {
+      const center = asPoint(row.center);
+      const width = asNumber(row.width);
+      const height = asNumber(row.height);
+      if (!center || width === null || height === null) continue;
+      features.push({
+        id: String(row.pcb_silkscreen_rect_id ?? "pcb_silkscreen_rect"),
+        side,
+        shape: { type: "rect", center, halfWidth: width / 2, halfHeight: height / 2 },
+      });
+    } else if (row.type === "pcb_silkscreen_circle") {
+      const center = asPoint(row.center);
+      const radius = asNumber(row.radius);
+      if (!center || radius === null) continue;
+      features.push({
+        id: String(row.pcb_silkscreen_circle_id ?? "pcb_silkscreen_circle"),
+        side,
+        shape: pointShape(center, radius),
+      });
+    }
+  }
+  return features;
+}
+
+function makeFinding(
+  category: string,
+  severity: number,
+  message: string,
+  ids: string[],
+  location: Point,
+): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    severity,
+    signature: `${[category, ...ids].join("|")}|${formatPoint(location)}`,
+    family: category,
+  };
+}
+
+function checkTraceWidths(model: CircuitJsonModel, profile: FabCapabilityProfile): ValidationDiagnostic[] {
+  const findings = new Map<string, ValidationDiagnostic>();
+  for (const segment of model.traces) {
+    if (segment.width >= profile.minTraceWidthMm - EPSILON || findings.has(segment.traceId)) continue;
+    findings.set(
+      segment.traceId,
+      makeFinding(
+        "dfm_trace_width",
+        8,
+        `Trace ${segment.traceId} on ${segment.side} is ${formatMm(segment.width)} wide; ${profile.label} minimum is ${formatMm(profile.minTraceWidthMm)}.`,
+        [segment.traceId],
+        segment.start,
+      ),
+    );
+  }
+  return Array.from(findings.values());
+}
+
+function checkCopperSpacing(features: CopperFeature[], profile: FabCapabilityProfile): ValidationDiagnostic[] {
+  const rule = { key: "dfm_copper_spacing", clearance: profile.minSpacingMm };
+  return findClearanceViolations(features, profile.minSpacingMm, () => rule).map(({ first, second, side, gap }) =>
+    makeFinding(
+      "dfm_copper_spacing",
+      8,
+      `${first.label} and ${second.label} on ${side} are ${formatMm(Math.max(gap, 0))} apart; ${profile.label} minimum spacing is ${formatMm(profile.minSpacingMm)}.`,
+      [first.group, second.group].sort(),
+      shapeAnchor(first.shape),
+    ),
+  );
+}
+
+function checkDrills(model: CircuitJsonModel, profile: FabCapabilityProfile): ValidationDiagnostic[] {
+  const findings: ValidationDiagnostic[] = [];
+  const drills = [
+    ...model.vias.map((via) => ({ id: via.id, label: `Via ${via.id}`, center: via.center, diameter: via.holeDiameter })),
+    ...model.pads
+      .filter((pad) => pad.kind === "plated_hole" && pad.holeDiameter !== null)
+      .map((pad) => ({ id: pad.id, label: `Plated hole ${pad.id}`, center: pad.center, diameter: pad.holeDiameter! })),
+    ...model.holes.map((hole) => ({ id: hole.id, label: `Hole ${hole.id}`, center: hole.center, diameter: hole.diameter })),
+  ];
+
+  for (const drill of drills) {
+    if (drill.diameter < profile.minDrillMm - EPSILON) {
+      findings.push(
+        makeFinding(
+          "dfm_drill_size",
+          8,
+          `${drill.label} drill is ${formatMm(drill.diameter)}; ${profile.label} minimum is ${formatMm(profile.minDrillMm)}.`,
+          [drill.id],
+          drill.center,
+        ),
+      );
+    } else if (drill.diameter > profile.maxDrillMm + EPSILON) {
+      findings.push(
+        makeFinding(
+          "dfm_drill_size",
+          8,
+          `${drill.label} drill is ${formatMm(drill.diameter)}; ${profile.label} maximum is ${formatMm(profile.maxDrillMm)}.`,
+          [drill.id],
+          drill.center,
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+function checkAnnularRings(model: CircuitJsonModel, profile: FabCapabilityProfile): ValidationDiagnostic[] {
+  const rings = [
+    ...model.vias.map((via) => ({
+      id: via.id,
+      label: `Via ${via.id}`,
+      center: via.center,
+      ring: (via.outerDiameter - via.holeDiameter) / 2,
+    })),
+    ...model.pads
+      .filter((pad) => pad.kind === "plated_hole" && pad.holeDiameter !== null)
+      .map((pad) => ({
+        id: pad.id,
+        label: `Plated hole ${pad.id}`,
+        center: pad.center,
+        ring: (Math.min(pad.width, pad.height) - pad.holeDiameter!) / 2,
+      })),
+  ];
+
+  return rings
+    .filter((entry) => entry.ring < profile.minAnnularRingMm - EPSILON)
+    .map((entry) =>
+      makeFinding(
+        "dfm_annular_ring",
+        8,
+        `${entry.label} has a ${formatMm(Math.max(entry.ring, 0))} annular ring; ${profile.label} minimum is ${formatMm(profile.minAnnularRingMm)}.`,
+        [entry.id],
+        entry.center,
+      ),
+    );
+}
+
+function checkViaInPad(model: CircuitJsonModel, features: CopperFeature[], profile: FabCapabilityProfile) {
+  if (profile.allowViaInPad) return [];
+  const smtPads = features.filter((feature) =>
+    model.pads.some((pad) => pad.id === feature.id && pad.kind === "smt"),
+  );
+  const findings: ValidationDiagnostic[] = [];
+  for (const via of model.vias) {
+    const drill = pointShape(via.center, via.holeDiameter / 2);
+    const pad = smtPads.find(
+      (candidate) =>
+        candidate.sides.some((side) => via.sides.includes(side)) && shapeDistance(drill, candidate.shape) < 0,
+    );
+    if (!pad) continue;
+    findings.push(
+      makeFinding(
+        "dfm_via_in_pad",
+        6,
+        `Via ${via.id} is drilled inside ${pad.label}; ${profile.label} standard service does not fill or cap via-in-pad.`,
+        [via.id, pad.id],
+        via.center,
+      ),
+    );
+  }
+  return findings;
+}
+
+function checkCopperToEdge(model: CircuitJsonModel, features: CopperFeature[], profile: FabCapabilityProfile) {
+  return findCopperToEdgeViolations(model, features, profile.minCopperToEdgeMm).map((violation) =>
+    makeFinding(
+      "dfm_copper_to_edge",
+      8,
+      `${violation.feature.label} ${describeEdgeViolation(violation)}; ${profile.label} minimum copper-to-edge is ${formatMm(profile.minCopperToEdgeMm)}.`,
+      [violation.feature.group],
+      shapeAnchor(violation.feature.shape),
+    ),
+  );
+}
+
+function checkSilkscreenOverPads(
+  circuitJson: unknown[],
+  features: CopperFeature[],
+  model: CircuitJsonModel,
+  profile: FabCapabilityProfile,
+) {
+  const padIds = new Set(model.pads.map((pad) => pad.id));
+  const pads = features.filter((feature) => padIds.has(feature.id));
+  const findings: ValidationDiagnostic[] = [];
+  const reported = new Set<string>();
+
+  for (const silk of collectSilkscreenFeatures(circuitJson)) {
+    const silkKey = silk.id.split("#")[0];
+    for (const pad of pads) {
+      if (!pad.sides.includes(silk.side)) continue;
+      const pairKey = `${silkKey}|${pad.id}`;
+      if (reported.has(pairKey)) continue;
+      const gap = shapeDistance(silk.shape, pad.shape);
+      if (gap >= profile.minSilkToPadMm - EPSILON) continue;
+      reported.add(pairKey);
+      findings.push(
+        makeFinding(
+          "dfm_silkscreen_over_pad",
+          4,
+          `Silkscreen ${silkKey} ${gap <= 0 ? "overlaps" : "is too close to"} ${pad.label}; ${profile.label} clips silkscreen within ${formatMm(profile.minSilkToPadMm)} of exposed copper.`,
+          [silkKey, pad.id],
+          shapeAnchor(silk.shape),
+        ),
+      );
+    }
+  }
+  return findings;
+}
+
+/**
+ * Check copper, drills and silkscreen against a fab capability profile.
+ * Violations the fab cannot build are severity 8 (blocking); via-in-pad and
+ * silkscreen clipping are advisory. Each rule reports at most 25 findings.
+ * With `clearances: false` copper spacing and copper-to-edge are left to a
+ * DRC pass run with `withFabMinimums`, so each defect is reported once.
+ */
+export function runDfmChecks(
+  circuitJson: unknown[],
+  profile: FabCapabilityProfile = FAB_CAPABILITY_PROFILES.default,
+  { clearances = true }: { clearances?: boolean } = {},
+): ValidationDiagnostic[] {
+  const model = buildCircuitJsonModel(circuitJson);
+  const features = collectCopperFeatures(model);
+
+  return [
+    checkTraceWidths(model, profile),
+    clearances ? checkCopperSpacing(features, profile) : [],
+    checkAnnularRings(model, profile),
+    checkDrills(model, profile),
+    checkViaInPad(model, features, profile),
+    clearances ? checkCopperToEdge(model, features, profile) : [],
+    checkSilkscreenOverPads(circuitJson, features, model, profile),
+  ].flatMap((findings) => findings.slice(0, MAX_FINDINGS_PER_RULE));
+}
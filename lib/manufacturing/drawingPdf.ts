@@ -0,0 +1,151 @@
+import type { Point } from "./circuitJson";
+import type { DrawingItem, DrawingSheet } from "./drawings";
+
+const POINTS_PER_MM = 72 / 25.4;
+// Cubic Bezier control distance for a quarter circle.
+const KAPPA = 0.5523;
+// Rough Helvetica advance width, used only to centre or right-align text.
+const HELVETICA_ADVANCE = 0.55;
+
+function num(value: number): string {
+  return (Math.round(value * 1000) / 1000).toString();
+}
+
+function parseColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return [0, 0, 0];
+  const value = Number.parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => channel / 255) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+function escapePdfText(value: string): string {
+  return value
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function pathOps(points: Point[], toPdf: (point: Point) => Point, close: boolean): string[] {
+  const ops = points.map((point, index) => {
+    const p = toPdf(point);
+    return `${num(p.x)} ${num(p.y)} ${index === 0 ? "m" : "l"}`;
+  });
+  if (close) ops.push("h");
+  return ops;
+}
+
+function circleOps(center: Point, radius: number, toPdf: (point: Point) => Point): string[] {
+  const c = toPdf(center);
+  const r = radius * POINTS_PER_MM;
+  const k = r * KAPPA;
+  return [
+    `${num(c.x + r)} ${num(c.y)} m`,
+    `${num(c.x + r)} ${num(c.y + k)} ${num(c.x + k)} ${num(c.y + r)} ${num(c.x)} ${num(c.y + r)} c`,
+    `${num(c.x - k)} ${num(c.y + r)} ${num(c.x - r)} ${num(c.y + k)} ${num(c.x - r)} ${num(c.y)} c`,
+    `${num(c.x - r)} ${num(c.y - k)} ${num(c.x - k)} ${num(c.y - r)} ${num(c.x)} ${num(c.y - r)} c`,
+    `${num(c.x + k)} ${num(c.y - r)} ${num(c.x + r)} ${num(c.y - k)} ${num(c.x + r)} ${num(c.y)} c`,
+    "h",
+  ];
+}
+
+function paintOp(stroke: string | null, fill: string | null, width: number): string[] {
+  const ops: string[] = [];
+  if (stroke) ops.push(`${parseColor(stroke).map(num).join(" ")} RG`, `${num(width * POINTS_PER_MM)} w`);
+  if (fill) ops.push(`${parseColor(fill).map(num).join(" ")} rg`);
+  return ops;
+}
+
+function paintSuffix(stroke: string | null, fill: string | null): string {
+  if (stroke && fill) return "B";
+  if (fill) return "f";
+  if (stroke) return "S";
+  return "n";
+}
+
+function itemOps(item: DrawingItem, toPdf: (point: Point) => Point): string[] {
+  switch (item.kind) {
+    case "line":
+      return [...paintOp(item.stroke, null, item.width), ...pathOps([item.from, item.to], toPdf, false), "S"];
+    case "polyline":
+      return [...paintOp(item.stroke, null, item.width), ...pathOps(item.points, toPdf, false), "S"];
+    case "polygon":
+      return [
+        ...paintOp(item.stroke, item.fill, item.width),
+        ...pathOps(item.points, toPdf, true),
+        paintSuffix(item.stroke, item.fill),
+      ];
+    case "circle":
+      return [
+        ...paintOp(item.stroke, item.fill, item.width),
+        ...circleOps(item.center, item.radius, toPdf),
+        paintSuffix(item.stroke, item.fill),
+      ];
+    case "text": {
+      const size = item.size * POINTS_PER_MM;
+      const advance = item.text.length * size * HELVETICA_ADVANCE;
+      const shift = item.anchor === "middle" ? advance / 2 : item.anchor === "end" ? advance : 0;
+      // Sheet rotation is clockwise in a y-down frame; PDF rotates counter-clockwise in y-up.
+      const theta = (-(item.rotation ?? 0) * Math.PI) / 180;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      const origin = toPdf(item.position);
+      const x = origin.x - shift * cos;
+      const y = origin.y - shift * sin;
+      return [
+        `${parseColor(item.color).map(num).join(" ")} rg`,
+        "BT",
+        `/F1 ${num(size)} Tf`,
+        `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(x)} ${num(y)} Tm`,
+        `(${escapePdfText(item.text)}) Tj`,
+        "ET",
+      ];
+    }
+  }
+}
+
+/**
+ * Render a drawing sheet as a single-page PDF 1.4 document. Output is plain
+ * ASCII with an uncompressed content stream and the built-in Helvetica font,
+ * so no PDF library is required.
+ */
+export function renderDrawingPdf(sheet: DrawingSheet): string {
+  const pageWidth = sheet.width * POINTS_PER_MM;
+  const pageHeight = sheet.height * POINTS_PER_MM;
+  const toPdf = (point: Point): Point => ({
+    x: point.x * POINTS_PER_MM,
+    y: pageHeight - point.y * POINTS_PER_MM,
+  });
+
+  const content = [
+    "1 j 1 J",
+    "1 1 1 rg",
+    `0 0 ${num(pageWidth)} ${num(pageHeight)} re f`,
+    ...sheet.items.flatMap((item) => itemOps(item, toPdf)),
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    `<< /Title (${escapePdfText(sheet.title)}) /Producer (CircuitForge) >>`,
+  ];
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return output;
+}
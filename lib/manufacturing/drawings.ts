@@ -0,0 +1,648 @@
+import {
+  buildCircuitJsonModel,
+  type CircuitJsonModel,
+  type ComponentRecord,
+  type CopperSide,
+  type PadRecord,
+  type Point,
+} from "./circuitJson";
+import { buildMaterialStackup } from "./gerberJob";
+import type { ExportStackup } from "./stackup";
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * One vector primitive on a drawing sheet. Sheet coordinates are millimetres
+ * with the origin at the top-left corner and y pointing down.
+ */
+export type DrawingItem =
+  | { kind: "line"; from: Point; to: Point; stroke: string; width: number }
+  | { kind: "polyline"; points: Point[]; stroke: string; width: number }
+  | { kind: "polygon"; points: Point[]; stroke: string | null; fill: string | null; width: number }
+  | { kind: "circle"; center: Point; radius: number; stroke: string | null; fill: string | null; width: number }
+  | {
+      kind: "text";
+      position: Point;
+      text: string;
+      size: number;
+      anchor: "start" | "middle" | "end";
+      color: string;
+      rotation?: number;
+    };
+
+export interface DrawingSheet {
+  name: string;
+  title: string;
+  width: number;
+  height: number;
+  items: DrawingItem[];
+}
+
+export interface DrawingOptions {
+  projectName?: string;
+}
+
+const INK = "#111827";
+const FAINT = "#9ca3af";
+const MARGIN_MM = 10;
+const TITLE_BLOCK_MM = 18;
+const PIN_ONE_FTYPES = new Set([
+  "simple_chip",
+  "simple_op_amp",
+  "simple_transistor",
+  "simple_mosfet",
+  "simple_pin_header",
+  "simple_pinout",
+  "simple_crystal",
+]);
+const CATHODE_FTYPES = new Set(["simple_diode", "simple_led"]);
+
+interface BoardFrame {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  originX: number;
+  originY: number;
+  mirror: boolean;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function boardExtents(model: CircuitJsonModel) {
+  const points: Point[] = model.board
+    ? model.board.outline
+    : [
+        ...model.components.flatMap((component) => [
+          { x: component.center.x - component.width / 2, y: component.center.y - component.height / 2 },
+          { x: component.center.x + component.width / 2, y: component.center.y + component.height / 2 },
+        ]),
+        ...model.pads.map((pad) => pad.center),
+      ];
+  if (points.length === 0) throw new Error("Drawings need a pcb_board or placed components");
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+function toSheet(frame: BoardFrame, point: Point): Point {
+  return {
+    x: round(frame.originX + (frame.mirror ? frame.maxX - point.x : point.x - frame.minX)),
+    y: round(frame.originY + (frame.maxY - point.y)),
+  };
+}
+
+function rectPoints(center: Point, width: number, height: number): Point[] {
+  return [
+    { x: center.x - width / 2, y: center.y - height / 2 },
+    { x: center.x + width / 2, y: center.y - height / 2 },
+    { x: center.x + width / 2, y: center.y + height / 2 },
+    { x: center.x - width / 2, y: center.y + height / 2 },
+  ];
+}
+
+function outlineItem(model: CircuitJsonModel, frame: BoardFrame): DrawingItem {
+  const outline = model.board?.outline ?? rectPoints(
+    { x: (frame.minX + frame.maxX) / 2, y: (frame.minY + frame.maxY) / 2 },
+    frame.maxX - frame.minX,
+    frame.maxY - frame.minY,
+  );
+  return {
+    kind: "polygon",
+    points: outline.map((point) => toSheet(frame, point)),
+    stroke: INK,
+    fill: null,
+    width: 0.2,
+  };
+}
+
+function padItem(pad: PadRecord, frame: BoardFrame): DrawingItem {
+  if (pad.shape === "circle" || (pad.kind === "plated_hole" && pad.width === pad.height)) {
+    return { kind: "circle", center: toSheet(frame, pad.center), radius: pad.width / 2, stroke: FAINT, fill: null, width: 0.05 };
+  }
+  return {
+    kind: "polygon",
+    points: rectPoints(pad.center, pad.width, pad.height).map((point) => toSheet(frame, point)),
+    stroke: FAINT,
+    fill: null,
+    width: 0.05,
+  };
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function asPoint(value: unknown): Point | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as UnknownRecord;
+  const x = asNumber(record.x);
+  const y = asNumber(record.y);
+  return x === null || y === null ? null : { x, y };
+}
+
+/** Silkscreen graphics for one side. Silkscreen text is replaced by drawn designators. */
+function silkscreenItems(circuitJson: unknown[], side: CopperSide, frame: BoardFrame): DrawingItem[] {
+  const items: DrawingItem[] = [];
+  for (const item of circuitJson) {
+    if (!item || typeof item !== "object") continue;
+    const row = item as UnknownRecord;
+    if ((row.layer === "bottom" ? "bottom" : "top") !== side) continue;
+    const width = asNumber(row.stroke_width) ?? 0.1;
+
+    if (row.type === "pcb_silkscreen_path" && Array.isArray(row.route)) {
+      const points = row.route.map((point) => asPoint(point)).filter((point): point is Point => point !== null);
+      if (points.length >= 2) {
+        items.push({ kind: "polyline", points: points.map((point) => toSheet(frame, point)), stroke: FAINT, width });
+      }
+    } else if (row.type === "pcb_silkscreen_line") {
+      const from = asPoint({ x: row.x1, y: row.y1 });
+      const to = asPoint({ x: row.x2, y: row.y2 });
+      if (from && to) items.push({ kind: "line", from: toSheet(frame, from), to: toSheet(frame, to), stroke: FAINT, width });
+    } else if (row.type === "pcb_silkscreen_rect") {
+      const center = asPoint(row.center);
+      const rectWidth = asNumber(row.width);
+      const rectHeight = asNumber(row.height);
+      if (center && rectWidth !== null && rectHeight !== null) {
+        items.push({
+          kind: "polygon",
+          points: rectPoints(center, rectWidth, rectHeight).map((point) => toSheet(frame, point)),
+          stroke: FAINT,
+          fill: null,
+          width,
+        });
+      }
+    } else if (row.type === "pcb_silkscreen_circle") {
+      const center = asPoint(row.center);
+      const radius = asNumber(row.radius);
+      if (center && radius !== null) {
+        items.push({ kind: "circle", center: toSheet(frame, center), radius, stroke: FAINT, fill: null, width });
+      }
+    }
+  }
+  return items;
+}
+
+function componentBody(component: ComponentRecord, pads: PadRecord[]): { center: Point; width: number; height: number } {
+  if (component.width > 0 && component.height > 0) {
+    return { center: component.center, width: component.width, height: component.height };
+  }
+  if (pads.length === 0) return { center: component.center, width: 1, height: 1 };
+  const xs = pads.flatMap((pad) => [pad.center.x - pad.width / 2, pad.center.x + pad.width / 2]);
+  const ys = pads.flatMap((pad) => [pad.center.y - pad.height / 2, pad.center.y + pad.height / 2]);
+  return {
+    center: { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 },
+    width: Math.max(...xs) - Math.min(...xs) + 0.2,
+    height: Math.max(...ys) - Math.min(...ys) + 0.2,
+  };
+}
+
+function pinNumber(pad: PadRecord): number | null {
+  const match = /^(?:pin)?(\d+)$/i.exec(pad.portName ?? "");
+  return match ? Number(match[1]) : null;
+}
+
+export type PolarityMark = "pin1" | "cathode" | "positive";
+
+/**
+ * Decide which pad carries a polarity mark: cathode bars for diodes/LEDs (or
+ * any `cathode`/`neg` pin), `+` for positive terminals, and a pin-1 dot for ICs,
+ * transistors, connectors and any part with more than three pads.
+ */
+export function resolvePolarityMarks(
+  component: Pick<ComponentRecord, "ftype">,
+  pads: PadRecord[],
+): Array<{ mark: PolarityMark; pad: PadRecord }> {
+  const named = (pattern: RegExp) => pads.find((pad) => pattern.test(pad.portName ?? ""));
+  const marks: Array<{ mark: PolarityMark; pad: PadRecord }> = [];
+
+  const cathode =
+    named(/^(cathode|k|neg|negative|-)$/i) ??
+    (CATHODE_FTYPES.has(component.ftype ?? "") ? pads.find((pad) => pinNumber(pad) === 2) : undefined);
+  if (cathode) marks.push({ mark: "cathode", pad: cathode });
+
+  const positive = named(/^(pos|positive|\+)$/i);
+  if (positive) marks.push({ mark: "positive", pad: positive });
+
+  if (PIN_ONE_FTYPES.has(component.ftype ?? "") || pads.length > 3) {
+    const pinOne = pads.find((pad) => pinNumber(pad) === 1);
+    if (pinOne) marks.push({ mark: "pin1", pad: pinOne });
+  }
+  return marks;
+}
+
+function polarityItems(
+  body: { center: Point },
+  marks: Array<{ mark: PolarityMark; pad: PadRecord }>,
+  frame: BoardFrame,
+): DrawingItem[] {
+  const items: DrawingItem[] = [];
+  for (const { mark, pad } of marks) {
+    const dx = pad.center.x - body.center.x;
+    const dy = pad.center.y - body.center.y;
+    const distance = Math.hypot(dx, dy);
+    const direction = distance > 1e-6 ? { x: dx / distance, y: dy / distance } : { x: -1, y: 0 };
+    const padExtent = Math.max(pad.width, pad.height) / 2;
+
+    if (mark === "cathode") {
+      const anchor = {
+        x: body.center.x + direction.x * distance * 0.55,
+        y: body.center.y + direction.y * distance * 0.55,
+      };
+      const normal = { x: -direction.y, y: direction.x };
+      const half = padExtent + 0.2;
+      items.push({
+        kind: "line",
+        from: toSheet(frame, { x: anchor.x - normal.x * half, y: anchor.y - normal.y * half }),
+        to: toSheet(frame, { x: anchor.x + normal.x * half, y: anchor.y + normal.y * half }),
+        stroke: INK,
+        width: 0.25,
+      });
+      continue;
+    }
+
+    const outside = {
+      x: pad.center.x + direction.x * (padExtent + 0.5),
+      y: pad.center.y + direction.y * (padExtent + 0.5),
+    };
+    if (mark === "pin1") {
+      items.push({ kind: "circle", center: toSheet(frame, outside), radius: 0.3, stroke: null, fill: INK, width: 0 });
+    } else {
+      const position = toSheet(frame, outside);
+      items.push({
+        kind: "text",
+        position: { x: position.x, y: round(position.y + 0.35) },
+        text: "+",
+        size: 1,
+        anchor: "middle",
+        color: INK,
+      });
+    }
+  }
+  return items;
+}
+
+function titleBlock(sheetWidth: number, top: number, lines: string[]): DrawingItem[] {
+  const items: DrawingItem[] = [
+    {
+      kind: "polygon",
+      points: rectPoints({ x: sheetWidth / 2, y: top + TITLE_BLOCK_MM / 2 }, sheetWidth - 2 * 4, TITLE_BLOCK_MM - 4),
+      stroke: INK,
+      fill: null,
+      width: 0.2,
+    },
+  ];
+  lines.forEach((line, index) => {
+    items.push({
+      kind: "text",
+      position: { x: 8, y: round(top + 6 + index * 4) },
+      text: line,
+      size: index === 0 ? 3 : 2.2,
+      anchor: "start",
+      color: INK,
+    });
+  });
+  return items;
+}
+
+function formatMm(value: number): string {
+  return value.toFixed(2);
+}
+
+/**
+ * Assembly drawing for one side: board outline, faint pads and silkscreen,
+ * component bodies with reference designators, and polarity marks. The bottom
+ * side is mirrored, as seen when the board is flipped over.
+ */
+export function buildAssemblyDrawing(
+  circuitJson: unknown[],
+  side: CopperSide,
+  options: DrawingOptions = {},
+): DrawingSheet {
+  const model = buildCircuitJsonModel(circuitJson);
+  const extents = boardExtents(model);
+  const boardWidth = extents.maxX - extents.minX;
+  const boardHeight = extents.maxY - extents.minY;
+  const frame: BoardFrame = { ...extents, originX: MARGIN_MM, originY: MARGIN_MM, mirror: side === "bottom" };
+  const width = round(Math.max(boardWidth + 2 * MARGIN_MM, 120));
+  const height = round(boardHeight + 2 * MARGIN_MM + TITLE_BLOCK_MM);
+
+  const components = model.components.filter((component) => component.side === side);
+  const sidePads = model.pads.filter((pad) => pad.sides.includes(side));
+  const items: DrawingItem[] = [
+    outlineItem(model, frame),
+    ...sidePads.map((pad) => padItem(pad, frame)),
+    ...silkscreenItems(circuitJson, side, frame),
+  ];
+
+  for (const component of components) {
+    const pads = sidePads.filter((pad) => pad.pcbComponentId === component.pcbComponentId);
+    const body = componentBody(component, pads);
+    items.push({
+      kind: "polygon",
+      points: rectPoints(body.center, body.width, body.height).map((point) => toSheet(frame, point)),
+      stroke: INK,
+      fill: null,
+      width: 0.12,
+    });
+    items.push(...polarityItems(body, resolvePolarityMarks(component, pads), frame));
+
+    const vertical = body.height > body.width * 1.5;
+    const size = round(Math.min(1.5, Math.max(0.6, Math.min(body.width, body.height) * 0.6)));
+    const center = toSheet(frame, body.center);
+    items.push({
+      kind: "text",
+      position: vertical ? { x: round(center.x + size * 0.35), y: center.y } : { x: center.x, y: round(center.y + size * 0.35) },
+      text: component.name,
+      size,
+      anchor: "middle",
+      color: INK,
+      ...(vertical ? { rotation: -90 } : {}),
+    });
+  }
+
+  const sideLabel = side === "top" ? "Top" : "Bottom (viewed from bottom)";
+  items.push(
+    ...titleBlock(width, height - TITLE_BLOCK_MM, [
+      `Assembly drawing - ${sideLabel}`,
+      `${options.projectName ?? "circuitforge"} | ${components.length} part(s) | board ${formatMm(boardWidth)} x ${formatMm(boardHeight)} mm`,
+      "Dot = pin 1, bar = cathode, + = positive terminal",
+    ]),
+  );
+
+  return { name: `assembly-${side}`, title: `Assembly drawing - ${sideLabel}`, width, height, items };
+}
+
+interface DrillGroup {
+  diameter: number;
+  plated: boolean;
+  positions: Point[];
+}
+
+function collectDrillGroups(model: CircuitJsonModel): DrillGroup[] {
+  const groups = new Map<string, DrillGroup>();
+  const add = (diameter: number, plated: boolean, position: Point) => {
+    const key = `${plated ? "P" : "N"}|${diameter.toFixed(3)}`;
+    const group = groups.get(key) ?? { diameter, plated, positions: [] };
+    group.positions.push(position);
+    groups.set(key, group);
+  };
+  for (const via of model.vias) add(via.holeDiameter, true, via.center);
+  for (const pad of model.pads) {
+    if (pad.kind === "plated_hole" && pad.holeDiameter !== null) add(pad.holeDiameter, true, pad.center);
+  }
+  for (const hole of model.holes) add(hole.diameter, false, hole.center);
+  return Array.from(groups.values()).sort(
+    (a, b) => Number(b.plated) - Number(a.plated) || a.diameter - b.diameter,
+  );
+}
+
+function regularPolygon(center: Point, radius: number, sides: number, rotation: number): Point[] {
+  return Array.from({ length: sides }, (_, index) => {
+    const angle = rotation + (index * 2 * Math.PI) / sides;
+    return { x: round(center.x + radius * Math.cos(angle)), y: round(center.y + radius * Math.sin(angle)) };
+  });
+}
+
+/** Distinct drill-chart symbol per tool; tools past the sixth get lettered circles. */
+function drillSymbol(index: number, center: Point, size = 1): DrawingItem[] {
+  const r = size / 2;
+  const stroke = { stroke: INK, width: 0.1 };
+  switch (index) {
+    case 0:
+      return [
+        { kind: "circle", center, radius: r, fill: null, ...stroke },
+        { kind: "line", from: { x: center.x - r, y: center.y }, to: { x: center.x + r, y: center.y }, ...stroke },
+        { kind: "line", from: { x: center.x, y: center.y - r }, to: { x: center.x, y: center.y + r }, ...stroke },
+      ];
+    case 1:
+      return [{ kind: "polygon", points: rectPoints(center, size, size), fill: null, ...stroke }];
+    case 2:
+      return [{ kind: "polygon", points: regularPolygon(center, r * 1.15, 3, -Math.PI / 2), fill: null, ...stroke }];
+    case 3:
+      return [{ kind: "polygon", points: regularPolygon(center, r * 1.2, 4, 0), fill: null, ...stroke }];
+    case 4:
+      return [
+        { kind: "line", from: { x: center.x - r, y: center.y - r }, to: { x: center.x + r, y: center.y + r }, ...stroke },
+        { kind: "line", from: { x: center.x - r, y: center.y + r }, to: { x: center.x + r, y: center.y - r }, ...stroke },
+      ];
+    case 5:
+      return [{ kind: "polygon", points: regularPolygon(center, r * 1.1, 6, 0), fill: null, ...stroke }];
+    default:
+      return [
+        { kind: "circle", center, radius: r, fill: null, ...stroke },
+        {
+          kind: "text",
+          position: { x: center.x, y: round(center.y + size * 0.25) },
+          text: String.fromCharCode(65 + ((index - 6) % 26)),
+          size: size * 0.7,
+          anchor: "middle",
+          color: INK,
+        },
+      ];
+  }
+}
+
+function tableItems(origin: Point, columnWidths: number[], rows: string[][], rowHeight = 5): DrawingItem[] {
+  const items: DrawingItem[] = [];
+  const totalWidth = columnWidths.reduce((sum, value) => sum + value, 0);
+  rows.forEach((cells, rowIndex) => {
+    const top = origin.y + rowIndex * rowHeight;
+    items.push({
+      kind: "polygon",
+      points: rectPoints({ x: origin.x + totalWidth / 2, y: top + rowHeight / 2 }, totalWidth, rowHeight),
+      stroke: INK,
+      fill: rowIndex === 0 ? "#e5e7eb" : null,
+      width: 0.1,
+    });
+    let left = origin.x;
+    cells.forEach((cell, columnIndex) => {
+      if (cell) {
+        items.push({
+          kind: "text",
+          position: { x: round(left + 1.5), y: round(top + rowHeight / 2 + 0.8) },
+          text: cell,
+          size: 2.2,
+          anchor: "start",
+          color: INK,
+        });
+      }
+      left += columnWidths[columnIndex];
+    });
+  });
+  return items;
+}
+
+function dimensionItems(from: Point, to: Point, label: string, vertical: boolean): DrawingItem[] {
+  const tick = 1.5;
+  const ticks: DrawingItem[] = [from, to].map((point) => ({
+    kind: "line",
+    from: vertical ? { x: point.x - tick, y: point.y } : { x: point.x, y: point.y - tick },
+    to: vertical ? { x: point.x + tick, y: point.y } : { x: point.x, y: point.y + tick },
+    stroke: INK,
+    width: 0.1,
+  }));
+  const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+  return [
+    { kind: "line", from, to, stroke: INK, width: 0.1 },
+    ...ticks,
+    {
+      kind: "text",
+      position: vertical ? { x: round(mid.x + 3), y: round(mid.y) } : { x: round(mid.x), y: round(mid.y + 3.5) },
+      text: label,
+      size: 2.2,
+      anchor: "middle",
+      color: INK,
+      ...(vertical ? { rotation: -90 } : {}),
+    },
+  ];
+}
+
+/**
+ * Fabrication drawing: dimensioned board outline with a drill symbol at every
+ * hole, a drill table per tool, the layer stackup and standard fab notes.
+ */
+export function buildFabricationDrawing(
+  circuitJson: unknown[],
+  stackup: ExportStackup,
+  options: DrawingOptions = {},
+): DrawingSheet {
+  const model = buildCircuitJsonModel(circuitJson);
+  const extents = boardExtents(model);
+  const boardWidth = extents.maxX - extents.minX;
+  const boardHeight = extents.maxY - extents.minY;
+  const origin = 15;
+  const frame: BoardFrame = { ...extents, originX: origin, originY: origin, mirror: false };
+  const items: DrawingItem[] = [outlineItem(model, frame)];
+
+  const boardRight = origin + boardWidth;
+  const boardBottom = origin + boardHeight;
+  items.push(
+    ...dimensionItems(
+      { x: origin, y: boardBottom + 6 },
+      { x: round(boardRight), y: boardBottom + 6 },
+      `${formatMm(boardWidth)} mm`,
+      false,
+    ),
+    ...dimensionItems(
+      { x: round(boardRight + 6), y: origin },
+      { x: round(boardRight + 6), y: round(boardBottom) },
+      `${formatMm(boardHeight)} mm`,
+      true,
+    ),
+  );
+
+  const drillGroups = collectDrillGroups(model);
+  drillGroups.forEach((group, index) => {
+    for (const position of group.positions) items.push(...drillSymbol(index, toSheet(frame, position)));
+  });
+
+  const tableLeft = round(boardRight + 15);
+  const drillColumns = [12, 20, 18, 12];
+  items.push({ kind: "text", position: { x: tableLeft, y: origin - 2 }, text: "DRILL TABLE", size: 2.5, anchor: "start", color: INK });
+  items.push(
+    ...tableItems({ x: tableLeft, y: origin }, drillColumns, [
+      ["SYM", "DIA (mm)", "PLATING", "QTY"],
+      ...drillGroups.map((group) => ["", group.diameter.toFixed(3), group.plated ? "PTH" : "NPTH", String(group.positions.length)]),
+    ]),
+  );
+  drillGroups.forEach((group, index) => {
+    items.push(...drillSymbol(index, { x: tableLeft + 6, y: origin + 5 * (index + 1) + 2.5 }, 2));
+  });
+  const drillTableBottom = origin + 5 * (drillGroups.length + 1);
+
+  const stackupTop = Math.max(drillTableBottom + 12, origin);
+  const stackupRows = buildMaterialStackup(stackup).map((layer) => [
+    String(layer.Name ?? ""),
+    String(layer.Type ?? ""),
+    typeof layer.Thickness === "number" ? layer.Thickness.toFixed(3) : "",
+    String(layer.Color ?? layer.Material ?? layer.Notes ?? ""),
+  ]);
+  const stackupColumns = [26, 22, 16, 22];
+  items.push({ kind: "text", position: { x: tableLeft, y: stackupTop - 2 }, text: "STACKUP", size: 2.5, anchor: "start", color: INK });
+  items.push(...tableItems({ x: tableLeft, y: stackupTop }, stackupColumns, [["LAYER", "TYPE", "MM", "NOTES"], ...stackupRows]));
+  const stackupBottom = stackupTop + 5 * (stackupRows.length + 1);
+
+  const notes = [
+    "NOTES:",
+    "1. Fabricate per IPC-6012 Class 2; inspect per IPC-A-600 Class 2.",
+    `2. FR-4, ${stackup.layerCount} copper layer(s), finished thickness ${formatMm(stackup.boardThicknessMm)} mm +/-10%.`,
+    `3. Copper ${stackup.copperWeightOz} oz (${stackup.copperThicknessMm.toFixed(3)} mm) finished on outer layers.`,
+    `4. Surface finish: ${stackup.finish}.`,
+    `5. Soldermask ${stackup.soldermaskColor} both sides; silkscreen ${stackup.silkscreenColor}.`,
+    "6. Drill sizes are finished hole sizes. All dimensions in millimetres.",
+  ];
+  const notesTop = boardBottom + 16;
+  notes.forEach((line, index) => {
+    items.push({
+      kind: "text",
+      position: { x: origin, y: round(notesTop + index * 4) },
+      text: line,
+      size: index === 0 ? 2.5 : 2.2,
+      anchor: "start",
+      color: INK,
+    });
+  });
+  const notesBottom = notesTop + notes.length * 4;
+
+  const width = round(Math.max(tableLeft + stackupColumns.reduce((sum, value) => sum + value, 0) + MARGIN_MM, 160));
+  const contentBottom = Math.max(notesBottom, stackupBottom) + 4;
+  const height = round(contentBottom + TITLE_BLOCK_MM);
+  items.push(
+    ...titleBlock(width, contentBottom, [
+      "Fabrication drawing",
+      `${options.projectName ?? "circuitforge"} | board ${formatMm(boardWidth)} x ${formatMm(boardHeight)} mm | ${drillGroups.reduce((sum, group) => sum + group.positions.length, 0)} hole(s)`,
+    ]),
+  );
+
+  return { name: "fabrication", title: "Fabrication drawing", width, height, items };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paint(stroke: string | null, fill: string | null, width: number): string {
+  return `fill="${fill ?? "none"}" stroke="${stroke ?? "none"}" stroke-width="${width}"`;
+}
+
+function pointList(points: Point[]): string {
+  return points.map((point) => `${point.x},${point.y}`).join(" ");
+}
+
+export function renderDrawingSvg(sheet: DrawingSheet): string {
+  const body = sheet.items.map((item) => {
+    switch (item.kind) {
+      case "line":
+        return `<line x1="${item.from.x}" y1="${item.from.y}" x2="${item.to.x}" y2="${item.to.y}" stroke="${item.stroke}" stroke-width="${item.width}" stroke-linecap="round"/>`;
+      case "polyline":
+        return `<polyline points="${pointList(item.points)}" ${paint(item.stroke, null, item.width)} stroke-linecap="round" stroke-linejoin="round"/>`;
+      case "polygon":
+        return `<polygon points="${pointList(item.points)}" ${paint(item.stroke, item.fill, item.width)}/>`;
+      case "circle":
+        return `<circle cx="${item.center.x}" cy="${item.center.y}" r="${round(item.radius)}" ${paint(item.stroke, item.fill, item.width)}/>`;
+      case "text": {
+        const transform = item.rotation
+          ? ` transform="rotate(${item.rotation} ${item.position.x} ${item.position.y})"`
+          : "";
+        return `<text x="${item.position.x}" y="${item.position.y}" font-family="Helvetica, Arial, sans-serif" font-size="${item.size}" text-anchor="${item.anchor}" fill="${item.color}"${transform}>${escapeXml(item.text)}</text>`;
+      }
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheet.width}mm" height="${sheet.height}mm" viewBox="0 0 ${sheet.width} ${sheet.height}">`,
+    `<title>${escapeXml(sheet.title)}</title>`,
+    `<rect x="0" y="0" width="${sheet.width}" height="${sheet.height}" fill="#ffffff"/>`,
+    ...body,
+    "</svg>",
+    "",
+  ].join("\n");
+}
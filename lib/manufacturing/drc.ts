@@ -0,0 +1,214 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { resolveDiagnosticFamily } from "@/lib/kicad/review";
+import { buildCircuitJsonModel, type CircuitJsonModel, type Point } from "./circuitJson";
+import {
+  collectCopperFeatures,
+  describeEdgeViolation,
+  findClearanceViolations,
+  findCopperToEdgeViolations,
+  formatMm,
+  formatPoint,
+  shapeAnchor,
+  type CopperFeature,
+  type CopperFeatureKind,
+} from "./copperGeometry";
+import type { FabCapabilityProfile } from "./dfm";
+import { assignNetClasses, type NetClassSettings } from "./netClasses";
+
+type UnknownRecord = Record<string, unknown>;
+
+/** Design-rule clearances in millimetres, edge to edge. */
+export interface DrcRules {
+  padToPadMm: number;
+  traceToTraceMm: number;
+  traceToPadMm: number;
+  viaToViaMm: number;
+  /** Via to a trace or pad of another net. */
+  viaToCopperMm: number;
+  copperToEdgeMm: number;
+}
+
+export type DrcRuleOverrides = Partial<DrcRules>;
+
+/**
+ * Typical 2-layer design clearances, with extra margin between vias and at
+ * the board edge where drill wander and routing tolerance matter.
+ */
+export const DEFAULT_DRC_RULES: DrcRules = {
+  padToPadMm: 0.15,
+  traceToTraceMm: 0.15,
+  traceToPadMm: 0.15,
+  viaToViaMm: 0.25,
+  viaToCopperMm: 0.15,
+  copperToEdgeMm: 0.4,
+};
+
+const DRC_RULE_KEYS = Object.keys(DEFAULT_DRC_RULES) as Array<keyof DrcRules>;
+
+export const DRC_CATEGORIES = {
+  padClearance: "drc_pad_clearance",
+  traceClearance: "drc_trace_clearance",
+  tracePadClearance: "drc_trace_pad_clearance",
+  viaClearance: "drc_via_clearance",
+  copperToEdge: "drc_copper_to_edge",
+} as const;
+
+const MAX_FINDINGS_PER_RULE = 25;
+const CLEARANCE_SEVERITY = 8;
+const SHORT_SEVERITY = 9;
+
+/** Validate `drcRules` overrides from a request body. */
+export function parseDrcRuleOverrides(input: unknown): { overrides: DrcRuleOverrides; errors: string[] } {
+  if (input === undefined || input === null) return { overrides: {}, errors: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { overrides: {}, errors: ["drcRules must be an object"] };
+  }
+  const record = input as UnknownRecord;
+  const overrides: DrcRuleOverrides = {};
+  const errors: string[] = [];
+  for (const key of DRC_RULE_KEYS) {
+    const value = record[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      errors.push(`drcRules.${key} must be a non-negative number`);
+      continue;
+    }
+    overrides[key] = value;
+  }
+  return { overrides, errors };
+}
+
+export function resolveDrcRules(overrides: DrcRuleOverrides = {}): DrcRules {
+  return { ...DEFAULT_DRC_RULES, ...overrides };
+}
+
+/**
+ * Raise every clearance to at least the fab's minimum spacing and edge
+ * distance, so a DRC pass covers what DFM would report for copper clearance
+ * and the same defect is not reported by both.
+ */
+export function withFabMinimums(rules: DrcRules, profile: FabCapabilityProfile): DrcRules {
+  return {
+    padToPadMm: Math.max(rules.padToPadMm, profile.minSpacingMm),
+    traceToTraceMm: Math.max(rules.traceToTraceMm, profile.minSpacingMm),
+    traceToPadMm: Math.max(rules.traceToPadMm, profile.minSpacingMm),
+    viaToViaMm: Math.max(rules.viaToViaMm, profile.minSpacingMm),
+    viaToCopperMm: Math.max(rules.viaToCopperMm, profile.minSpacingMm),
+    copperToEdgeMm: Math.max(rules.copperToEdgeMm, profile.minCopperToEdgeMm),
+  };
+}
+
+function pairRule(first: CopperFeatureKind, second: CopperFeatureKind, rules: DrcRules) {
+  const kinds = [first, second].sort().join("-");
+  switch (kinds) {
+    case "pad-pad":
+      return { category: DRC_CATEGORIES.padClearance, clearance: rules.padToPadMm, label: "pad-to-pad" };
+    case "trace-trace":
+      return { category: DRC_CATEGORIES.traceClearance, clearance: rules.traceToTraceMm, label: "trace-to-trace" };
+    case "pad-trace":
+      return { category: DRC_CATEGORIES.tracePadClearance, clearance: rules.traceToPadMm, label: "trace-to-pad" };
+    case "via-via":
+      return { category: DRC_CATEGORIES.viaClearance, clearance: rules.viaToViaMm, label: "via-to-via" };
+    default:
+      return { category: DRC_CATEGORIES.viaClearance, clearance: rules.viaToCopperMm, label: "via-to-copper" };
+  }
+}
+
+function makeDrcDiagnostic(
+  category: string,
+  severity: number,
+  message: string,
+  ids: string[],
+  location: Point,
+): ValidationDiagnostic {
+  const located = `${message} (at ${formatPoint(location)})`;
+  return {
+    category,
+    message: located,
+    severity,
+    signature: `${[category, ...ids].join("|")}|${formatPoint(location)}`,
+    family: resolveDiagnosticFamily(category, located),
+  };
+}
+
+function checkClearances(
+  features: CopperFeature[],
+  rules: DrcRules,
+  netClearances: Map<string, number>,
+): ValidationDiagnostic[] {
+  const maxClearance = Math.max(
+    rules.padToPadMm,
+    rules.traceToTraceMm,
+    rules.traceToPadMm,
+    rules.viaToViaMm,
+    rules.viaToCopperMm,
+    ...netClearances.values(),
+  );
+  const netClearance = (feature: CopperFeature) => (feature.netName ? netClearances.get(feature.netName) ?? 0 : 0);
+
+  return findClearanceViolations(features, maxClearance, (first, second) => {
+    const kindRule = pairRule(first.kind, second.kind, rules);
+    // A net class can only widen the clearance its nets keep from other copper.
+    return {
+      ...kindRule,
+      key: kindRule.category,
+      clearance: Math.max(kindRule.clearance, netClearance(first), netClearance(second)),
+    };
+  }).map(({ first, second, side, gap, rule }) => {
+    const shorted = gap <= 0;
+    return makeDrcDiagnostic(
+      rule.category,
+      shorted ? SHORT_SEVERITY : CLEARANCE_SEVERITY,
+      shorted
+        ? `${first.label} (${first.netName}) and ${second.label} (${second.netName}) overlap on ${side}, shorting two nets.`
+        : `${first.label} and ${second.label} on ${side} are ${formatMm(gap)} apart; ${rule.label} clearance is ${formatMm(rule.clearance)}.`,
+      [first.group, second.group].sort(),
+      shapeAnchor(first.shape),
+    );
+  });
+}
+
+function checkCopperToEdge(model: CircuitJsonModel, features: CopperFeature[], rules: DrcRules) {
+  return findCopperToEdgeViolations(model, features, rules.copperToEdgeMm).map((violation) =>
+    makeDrcDiagnostic(
+      DRC_CATEGORIES.copperToEdge,
+      CLEARANCE_SEVERITY,
+      `${violation.feature.label} ${describeEdgeViolation(violation)}; copper-to-edge clearance is ${formatMm(rules.copperToEdgeMm)}.`,
+      [violation.feature.group],
+      shapeAnchor(violation.feature.shape),
+    ),
+  );
+}
+
+/**
+ * Check copper clearances between pads, traces and vias, and to the board
+ * edge, against design rules. Unlike DFM, which asks whether a fab can build
+ * the copper, DRC asks whether the layout keeps the margins the design
+ * intends. Each rule reports at most 25 findings. With net classes, copper on
+ * a classed net keeps at least its class clearance from other nets.
+ */
+export function runDrcChecks(
+  circuitJson: unknown[],
+  rules: DrcRules = DEFAULT_DRC_RULES,
+  netClasses?: NetClassSettings,
+): ValidationDiagnostic[] {
+  const model = buildCircuitJsonModel(circuitJson);
+  const features = collectCopperFeatures(model);
+  const netClearances = new Map<string, number>();
+  if (netClasses) {
+    const assignments = assignNetClasses(
+      model.nets.map((net) => net.name),
+      netClasses,
+    );
+    for (const [net, assignment] of assignments) netClearances.set(net, assignment.rule.clearanceMm);
+  }
+
+  const clearanceFindings = checkClearances(features, rules, netClearances);
+  const byCategory = new Map<string, ValidationDiagnostic[]>();
+  for (const finding of [...clearanceFindings, ...checkCopperToEdge(model, features, rules)]) {
+    const bucket = byCategory.get(finding.category) ?? [];
+    if (bucket.length < MAX_FINDINGS_PER_RULE) bucket.push(finding);
+    byCategory.set(finding.category, bucket);
+  }
+  return Array.from(byCategory.values()).flat();
+}
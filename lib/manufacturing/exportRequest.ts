@@ -0,0 +1,129 @@
+import { validateProjectFiles, type ProjectFiles } from "@/lib/agent/code";
+import { compileForValidation } from "@/lib/agent/repairLoop";
+import { validateRoutingOptions, type RoutingOptions } from "@/lib/compile/routing";
+import { summarizeCircuitJsonValidation, validateCircuitJson } from "./circuitJsonValidation";
+import { FAB_PRESET_IDS, isFabPresetId, type FabPresetId } from "./fabPresets";
+import { validatePanelInput, type PanelInput } from "./panelize";
+import { validateStackupInput, type ExportStackupInput } from "./stackup";
+
+/**
+ * The part of a request `/api/export` and `/api/export/preview` share: where
+ * the circuit comes from and the board options that shape its Gerbers.
+ */
+export interface ExportSourceRequestBody {
+  circuit_json?: unknown[];
+  tscircuit_code?: string;
+  /** Multi-file tscircuit project (file name → source) with a main.tsx entry; used instead of `tscircuit_code`. */
+  fs_map?: Record<string, string>;
+  /** Autorouter and seed for compiling `tscircuit_code` / `fs_map`. */
+  routing?: RoutingOptions;
+  stackup?: ExportStackupInput;
+  fabPreset?: FabPresetId;
+  panel?: PanelInput;
+}
+
+export interface ExportSourceRequest<Body extends ExportSourceRequestBody> {
+  body: Body;
+  hasCircuitJson: boolean;
+  /** Trimmed `tscircuit_code`, or null when the request sends none. */
+  tscircuitCode: string | null;
+  /** Validated `fs_map`, or null when `circuit_json` is sent or no project is. */
+  projectFiles: ProjectFiles | null;
+  routing: RoutingOptions;
+}
+
+/** The export routes' error shape: `{ error, details? }` plus any fields the error carries. */
+export function jsonErrorResponse(
+  status: number,
+  error: string,
+  details?: string,
+  extra: Record<string, unknown> = {},
+): Response {
+  return new Response(JSON.stringify({ error, ...(details === undefined ? {} : { details }), ...extra }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Read and validate the shared fields of an export request. Returns the 400
+ * response to send when the body is not JSON, names no circuit source, or any
+ * shared field is invalid.
+ */
+export async function readExportSourceRequest<Body extends ExportSourceRequestBody>(
+  req: Request,
+): Promise<ExportSourceRequest<Body> | Response> {
+  let body: Body;
+  try {
+    body = (await req.json()) as Body;
+  } catch {
+    return jsonErrorResponse(400, "Invalid JSON body");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return jsonErrorResponse(400, "Invalid JSON body", "the body must be a JSON object");
+  }
+
+  const hasCircuitJson = Array.isArray(body.circuit_json);
+  const tscircuitCode =
+    typeof body.tscircuit_code === "string" && body.tscircuit_code.trim().length > 0 ? body.tscircuit_code.trim() : null;
+  const hasFsMap = body.fs_map !== undefined;
+  if (!hasCircuitJson && !tscircuitCode && !hasFsMap) {
+    return jsonErrorResponse(400, "Missing 'circuit_json' array, 'tscircuit_code' string or 'fs_map' object in body");
+  }
+  const project = hasFsMap && !hasCircuitJson ? validateProjectFiles(body.fs_map) : null;
+  if (project && !project.files) {
+    return jsonErrorResponse(400, "Invalid fs_map", project.errors.join("; "));
+  }
+
+  const routing = body.routing === undefined ? { options: {}, errors: [] } : validateRoutingOptions(body.routing);
+  if (!routing.options) {
+    return jsonErrorResponse(400, "Invalid routing options", routing.errors.join("; "));
+  }
+  const stackupErrors = validateStackupInput(body.stackup);
+  if (stackupErrors.length > 0) {
+    return jsonErrorResponse(400, "Invalid stackup parameters", stackupErrors.join("; "));
+  }
+  if (body.fabPreset !== undefined && !isFabPresetId(body.fabPreset)) {
+    return jsonErrorResponse(400, "Invalid fabPreset", `fabPreset must be one of ${FAB_PRESET_IDS.join(", ")}`);
+  }
+  const panelErrors = validatePanelInput(body.panel);
+  if (panelErrors.length > 0) {
+    return jsonErrorResponse(400, "Invalid panel options", panelErrors.join("; "));
+  }
+
+  return { body, hasCircuitJson, tscircuitCode, projectFiles: project?.files ?? null, routing: routing.options };
+}
+
+/**
+ * The request's circuit JSON: `circuit_json` once it passes validation (422
+ * otherwise), else the compiled `fs_map` or `tscircuit_code` (400 when the
+ * compile fails).
+ */
+export async function resolveExportCircuitJson(
+  request: ExportSourceRequest<ExportSourceRequestBody>,
+  signal: AbortSignal,
+  sessionId?: string,
+): Promise<unknown[] | Response> {
+  if (request.hasCircuitJson) {
+    const soup = request.body.circuit_json as unknown[];
+    const circuitJsonValidation = validateCircuitJson(soup);
+    if (!circuitJsonValidation.ok) {
+      return jsonErrorResponse(
+        422,
+        "Invalid circuit_json",
+        summarizeCircuitJsonValidation(circuitJsonValidation).join("; "),
+        { diagnostics: circuitJsonValidation.diagnostics },
+      );
+    }
+    return soup;
+  }
+
+  const compile = await compileForValidation(request.projectFiles ?? request.tscircuitCode!, signal, {
+    sessionId,
+    routing: request.routing,
+  });
+  if (!compile.ok || !compile.circuitJson) {
+    return jsonErrorResponse(400, "Export compile failed", compile.errorMessage ?? "compile failed");
+  }
+  return compile.circuitJson;
+}
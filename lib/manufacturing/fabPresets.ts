@@ -0,0 +1,322 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import type { CircuitJsonModel, CopperSide } from "./circuitJson";
+import type { ExportStackup } from "./stackup";
+
+export type FabPresetId = "jlcpcb" | "pcbway" | "oshpark";
+
+export const FAB_PRESET_IDS: FabPresetId[] = ["jlcpcb", "pcbway", "oshpark"];
+
+/** Minimal view of a `circuit-json-to-bom-csv` row. */
+export interface BomRowInput {
+  designator: string;
+  comment: string;
+  value: string;
+  footprint: string;
+  supplier_part_number_columns?: Partial<Record<string, string>>;
+}
+
+/** Minimal view of a `circuit-json-to-pnp-csv` row. */
+export interface PnpRowInput {
+  designator: string;
+  mid_x: number;
+  mid_y: number;
+  layer: string;
+  rotation: number;
+}
+
+export interface FabBomLine {
+  designators: string[];
+  quantity: number;
+  comment: string;
+  value: string;
+  footprint: string;
+  manufacturerPartNumber: string;
+  supplierPartNumbers: Record<string, string>;
+  mountType: "SMD" | "THT";
+}
+
+export interface FabCplLine {
+  designator: string;
+  x: number;
+  y: number;
+  side: CopperSide;
+  rotation: number;
+  footprint: string;
+  value: string;
+}
+
+interface FabColumn<T> {
+  header: string;
+  value: (row: T, index: number) => string;
+}
+
+export interface FabPreset {
+  id: FabPresetId;
+  label: string;
+  gerberFileNames: Record<string, string>;
+  drillFileNames: { plated: string; unplated: string };
+  bom: { fileName: string; columns: FabColumn<FabBomLine>[] } | null;
+  cpl: { fileName: string; columns: FabColumn<FabCplLine>[] } | null;
+  requiredSupplier: string | null;
+  supportedLayerCounts: number[];
+}
+
+const BASE_NAME = "circuitforge";
+
+/** Protel inner copper extensions `.g1`, `.g2`, ... for In1_Cu onward, up to `count` layers. */
+function numberedInnerExtensions(count: number): string[] {
+  return Array.from({ length: count }, (_, index) => `g${index + 1}`);
+}
+
+/**
+ * Protel-style Gerber names keyed by KiCad layer. `innerExtensions[i]` names
+ * In{i+1}_Cu, so each fab can use its own inner-layer scheme.
+ */
+function protelGerberNames(outlineExtension: string, upperCase: boolean, innerExtensions: string[]) {
+  const extensions: Record<string, string> = {
+    F_Cu: "gtl",
+    B_Cu: "gbl",
+    F_Mask: "gts",
+    B_Mask: "gbs",
+    F_SilkScreen: "gto",
+    B_SilkScreen: "gbo",
+    F_Paste: "gtp",
+    B_Paste: "gbp",
+    Edge_Cuts: outlineExtension,
+    ...Object.fromEntries(innerExtensions.map((extension, index) => [`In${index + 1}_Cu`, extension])),
+  };
+  return Object.fromEntries(
+    Object.entries(extensions).map(([layer, extension]) => [
+      layer,
+      `${BASE_NAME}.${upperCase ? extension.toUpperCase() : extension}`,
+    ]),
+  );
+}
+
+function millimetres(value: number, suffix: string): string {
+  return `${value.toFixed(4).replace(/\.?0+$/, "") || "0"}${suffix}`;
+}
+
+function normalizeRotation(rotation: number): number {
+  return ((Math.round(rotation * 100) / 100) % 360 + 360) % 360;
+}
+
+const FAB_PRESETS: Record<FabPresetId, FabPreset> = {
+  jlcpcb: {
+    id: "jlcpcb",
+    label: "JLCPCB",
+    gerberFileNames: protelGerberNames("gko", false, numberedInnerExtensions(18)),
+    drillFileNames: { plated: `${BASE_NAME}-PTH.drl`, unplated: `${BASE_NAME}-NPTH.drl` },
+    bom: {
+      fileName: "jlcpcb_bom.csv",
+      columns: [
+        { header: "Comment", value: (row) => row.comment || row.value },
+        { header: "Designator", value: (row) => row.designators.join(",") },
+        { header: "Footprint", value: (row) => row.footprint },
+        { header: "LCSC Part #", value: (row) => row.supplierPartNumbers.jlcpcb ?? "" },
+      ],
+    },
+    cpl: {
+      fileName: "jlcpcb_cpl.csv",
+      columns: [
+        { header: "Designator", value: (row) => row.designator },
+        { header: "Mid X", value: (row) => millimetres(row.x, "mm") },
+        { header: "Mid Y", value: (row) => millimetres(row.y, "mm") },
+        { header: "Layer", value: (row) => (row.side === "top" ? "Top" : "Bottom") },
+        { header: "Rotation", value: (row) => String(normalizeRotation(row.rotation)) },
+      ],
+    },
+    requiredSupplier: "jlcpcb",
+    supportedLayerCounts: [1, 2, 4, 6, 8, 10, 12, 14, 16, 18, 20],
+  },
+  pcbway: {
+    id: "pcbway",
+    label: "PCBWay",
+    gerberFileNames: protelGerberNames("gko", true, numberedInnerExtensions(12)),
+    drillFileNames: { plated: `${BASE_NAME}.drl`, unplated: `${BASE_NAME}-NPTH.drl` },
+    bom: {
+      fileName: "pcbway_bom.csv",
+      columns: [
+        { header: "Item #", value: (_row, index) => String(index + 1) },
+        { header: "Designator", value: (row) => row.designators.join(",") },
+        { header: "Qty", value: (row) => String(row.quantity) },
+        { header: "Manufacturer", value: () => "" },
+        { header: "Mfg Part #", value: (row) => row.manufacturerPartNumber },
+        { header: "Description / Value", value: (row) => row.value || row.comment },
+        { header: "Package/Footprint", value: (row) => row.footprint },
+        { header: "Type", value: (row) => row.mountType },
+      ],
+    },
+    cpl: {
+      fileName: "pcbway_centroid.csv",
+      columns: [
+        { header: "Designator", value: (row) => row.designator },
+        { header: "Footprint", value: (row) => row.footprint },
+        { header: "Mid X(mm)", value: (row) => millimetres(row.x, "") },
+        { header: "Mid Y(mm)", value: (row) => millimetres(row.y, "") },
+        { header: "Layer", value: (row) => (row.side === "top" ? "T" : "B") },
+        { header: "Rotation", value: (row) => String(normalizeRotation(row.rotation)) },
+        { header: "Comment", value: (row) => row.value },
+      ],
+    },
+    requiredSupplier: null,
+    supportedLayerCounts: [1, 2, 4, 6, 8, 10, 12, 14],
+  },
+  oshpark: {
+    id: "oshpark",
+    label: "OSH Park",
+    // OSH Park names inner layers by board position: .G2L (In1_Cu) and .G3L (In2_Cu).
+    gerberFileNames: protelGerberNames("gko", true, ["g2l", "g3l"]),
+    drillFileNames: { plated: `${BASE_NAME}.XLN`, unplated: `${BASE_NAME}-NPTH.XLN` },
+    bom: null,
+    cpl: null,
+    requiredSupplier: null,
+    supportedLayerCounts: [2, 4],
+  },
+};
+
+export function isFabPresetId(value: unknown): value is FabPresetId {
+  return typeof value === "string" && (FAB_PRESET_IDS as string[]).includes(value);
+}
+
+export function getFabPreset(id: FabPresetId): FabPreset {
+  return FAB_PRESETS[id];
+}
+
+/** File name a preset gives a Gerber layer, falling back to `<layer>.gbr`. */
+export function resolveGerberFileName(preset: FabPreset | null, layerName: string): string {
+  return preset?.gerberFileNames[layerName] ?? `${layerName}.gbr`;
+}
+
+function componentsByName(model: CircuitJsonModel) {
+  return new Map(model.components.map((component) => [component.name, component]));
+}
+
+/**
+ * Group BOM rows into fab lines (one per comment + footprint + supplier part),
+ * filling footprint and supplier numbers from circuit JSON where rows lack them.
+ */
+export function buildFabBomLines(rows: BomRowInput[], model: CircuitJsonModel): FabBomLine[] {
+  const components = componentsByName(model);
+  const throughHole = new Set(
+    model.pads.filter((pad) => pad.kind === "plated_hole").map((pad) => pad.pcbComponentId),
+  );
+  const groups = new Map<string, FabBomLine>();
+
+  for (const row of rows) {
+    const component = components.get(row.designator);
+    const supplierPartNumbers: Record<string, string> = {};
+    for (const [supplier, numbers] of Object.entries(component?.supplierPartNumbers ?? {})) {
+      if (numbers[0]) supplierPartNumbers[supplier] = numbers[0];
+    }
+    const jlcpcbColumn = row.supplier_part_number_columns?.["JLCPCB Part #"];
+    if (jlcpcbColumn) supplierPartNumbers.jlcpcb = jlcpcbColumn;
+
+    const line: FabBomLine = {
+      designators: [row.designator],
+      quantity: 1,
+      comment: row.comment,
+      value: row.value,
+      footprint: row.footprint || component?.footprint || "",
+      manufacturerPartNumber: component?.manufacturerPartNumber ?? "",
+      supplierPartNumbers,
+      mountType: component && throughHole.has(component.pcbComponentId) ? "THT" : "SMD",
+    };
+    const key = [
+      line.comment,
+      line.value,
+      line.footprint,
+      line.manufacturerPartNumber,
+      line.supplierPartNumbers.jlcpcb ?? "",
+    ].join("|");
+    const existing = groups.get(key);
+    if (existing) {
+      existing.designators.push(row.designator);
+      existing.quantity += 1;
+    } else {
+      groups.set(key, line);
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+export function buildFabCplLines(rows: PnpRowInput[], model: CircuitJsonModel): FabCplLine[] {
+  const components = componentsByName(model);
+  return rows.map((row) => {
+    const component = components.get(row.designator);
+    return {
+      designator: row.designator,
+      x: row.mid_x,
+      y: row.mid_y,
+      side: row.layer === "bottom" ? "bottom" : "top",
+      rotation: row.rotation,
+      footprint: component?.footprint ?? "",
+      value: component?.value ?? "",
+    };
+  });
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderFabCsv<T>(columns: FabColumn<T>[], rows: T[]): string {
+  const lines = [columns.map((column) => csvCell(column.header)).join(",")];
+  rows.forEach((row, index) => {
+    lines.push(columns.map((column) => csvCell(column.value(row, index))).join(","));
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function presetDiagnostic(
+  preset: FabPreset,
+  category: string,
+  message: string,
+  key: string,
+): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    signature: `fab_preset|${preset.id}|${category}|${key}`,
+    severity: 6,
+    family: category,
+  };
+}
+
+/** Per-fab rule checks that do not block export but need attention before upload. */
+export function collectFabPresetWarnings(
+  preset: FabPreset,
+  bomLines: FabBomLine[],
+  stackup: ExportStackup,
+): ValidationDiagnostic[] {
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  if (!preset.supportedLayerCounts.includes(stackup.layerCount)) {
+    diagnostics.push(
+      presetDiagnostic(
+        preset,
+        "fab_preset_unsupported_layer_count",
+        `${preset.label} does not offer ${stackup.layerCount}-layer boards (supported: ${preset.supportedLayerCounts.join(", ")}).`,
+        String(stackup.layerCount),
+      ),
+    );
+  }
+
+  if (preset.requiredSupplier) {
+    for (const line of bomLines) {
+      if (line.supplierPartNumbers[preset.requiredSupplier]) continue;
+      const designators = line.designators.join(",");
+      diagnostics.push(
+        presetDiagnostic(
+          preset,
+          "fab_preset_missing_supplier_part",
+          `${designators} has no ${preset.label} part number; the assembly BOM line will be rejected or left unplaced.`,
+          designators,
+        ),
+      );
+    }
+  }
+
+  return diagnostics;
+}
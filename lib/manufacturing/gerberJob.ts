@@ -0,0 +1,222 @@
+import type { BoardGeometry } from "./circuitJson";
+import type { ExportStackup, SurfaceFinish } from "./stackup";
+
+export interface GerberLayerAttributes {
+  fileFunction: string;
+  filePolarity: "Positive" | "Negative" | null;
+}
+
+export interface GerberDrillFile {
+  path: string;
+  plated: boolean;
+}
+
+export interface GerberJobOptions {
+  layerFiles: Record<string, string>;
+  layerPaths?: Record<string, string>;
+  drillFiles: GerberDrillFile[];
+  stackup: ExportStackup;
+  board: BoardGeometry | null;
+  projectName?: string;
+  generatedAt?: Date;
+}
+
+const JOB_FILE_FINISH: Record<SurfaceFinish, string> = {
+  HASL: "HAL SnPb",
+  HASL_LEAD_FREE: "HAL lead-free",
+  ENIG: "ENIG",
+  ENEPIG: "ENEPIG",
+  OSP: "OSP",
+  IMMERSION_SILVER: "Immersion Ag",
+  IMMERSION_TIN: "Immersion Sn",
+  NONE: "None",
+};
+
+const SOLDERMASK_THICKNESS_MM = 0.01;
+
+/**
+ * Map a layer key from `stringifyGerberCommandLayers` (F_Cu, B_Mask, In1_Cu,
+ * Edge_Cuts, ...) to its X2 file function for the given copper layer count.
+ */
+export function resolveGerberLayerAttributes(
+  layerName: string,
+  layerCount: number,
+): GerberLayerAttributes | null {
+  const inner = /^In(\d+)_Cu$/.exec(layerName);
+  if (inner) {
+    return { fileFunction: `Copper,L${Number(inner[1]) + 1},Inr`, filePolarity: "Positive" };
+  }
+  switch (layerName) {
+    case "F_Cu":
+      return { fileFunction: "Copper,L1,Top", filePolarity: "Positive" };
+    case "B_Cu":
+      return { fileFunction: `Copper,L${Math.max(2, layerCount)},Bot`, filePolarity: "Positive" };
+    case "F_SilkScreen":
+      return { fileFunction: "Legend,Top", filePolarity: "Positive" };
+    case "B_SilkScreen":
+      return { fileFunction: "Legend,Bot", filePolarity: "Positive" };
+    case "F_Mask":
+      return { fileFunction: "Soldermask,Top", filePolarity: "Negative" };
+    case "B_Mask":
+      return { fileFunction: "Soldermask,Bot", filePolarity: "Negative" };
+    case "F_Paste":
+      return { fileFunction: "Paste,Top", filePolarity: "Positive" };
+    case "B_Paste":
+      return { fileFunction: "Paste,Bot", filePolarity: "Positive" };
+    case "Edge_Cuts":
+      return { fileFunction: "Profile,NP", filePolarity: null };
+    default:
+      return null;
+  }
+}
+
+function insertAttributes(content: string, attributes: string[]): string {
+  const lines = content
+    .split("\n")
+    .filter(
+      (line) =>
+        !line.startsWith("%TF.FileFunction,") &&
+        !line.startsWith("%TF.FilePolarity,") &&
+        !line.startsWith("%TF.Part,"),
+    );
+  let insertAt = lines.findIndex((line) => line.startsWith("%TF.SameCoordinates"));
+  if (insertAt === -1) {
+    insertAt = lines.findIndex((line) => line.startsWith("%TF.GenerationSoftware"));
+  }
+  lines.splice(insertAt + 1, 0, ...attributes);
+  return lines.join("\n");
+}
+
+/**
+ * Rewrite the X2 file attributes on each Gerber layer so FileFunction,
+ * FilePolarity and Part match the requested stackup.
+ */
+export function annotateGerberLayers(
+  layers: Record<string, string>,
+  stackup: ExportStackup,
+): Record<string, string> {
+  const annotated: Record<string, string> = {};
+  for (const [name, content] of Object.entries(layers)) {
+    const attributes = resolveGerberLayerAttributes(name, stackup.layerCount);
+    if (!attributes || typeof content !== "string") {
+      annotated[name] = content;
+      continue;
+    }
+    annotated[name] = insertAttributes(content, [
+      "%TF.Part,Single*%",
+      `%TF.FileFunction,${attributes.fileFunction}*%`,
+      ...(attributes.filePolarity ? [`%TF.FilePolarity,${attributes.filePolarity}*%`] : []),
+    ]);
+  }
+  return annotated;
+}
+
+/** Job-file `MaterialStackup` entries, top legend to bottom legend. */
+export function buildMaterialStackup(stackup: ExportStackup): Record<string, unknown>[] {
+  const copperLayers = Math.max(1, stackup.layerCount);
+  const dielectricCount = Math.max(1, copperLayers - 1);
+  const dielectricThickness = Math.max(
+    0,
+    (stackup.boardThicknessMm -
+      copperLayers * stackup.copperThicknessMm -
+      2 * SOLDERMASK_THICKNESS_MM) /
+      dielectricCount,
+  );
+  const copperName = (index: number) =>
+    index === 1 ? "F.Cu" : index === copperLayers ? "B.Cu" : `In${index - 1}.Cu`;
+
+  const layers: Record<string, unknown>[] = [
+    { Type: "Legend", Color: stackup.silkscreenColor, Name: "Top Silk Screen" },
+    { Type: "SolderPaste", Name: "Top Solder Paste" },
+    {
+      Type: "SolderMask",
+      Color: stackup.soldermaskColor,
+      Thickness: SOLDERMASK_THICKNESS_MM,
+      Name: "Top Solder Mask",
+    },
+  ];
+  for (let index = 1; index <= copperLayers; index++) {
+    layers.push({
+      Type: "Copper",
+      Thickness: stackup.copperThicknessMm,
+      Name: copperName(index),
+      Notes: `${stackup.copperWeightOz} oz`,
+    });
+    if (index < copperLayers) {
+      layers.push({
+        Type: "Dielectric",
+        Thickness: Number(dielectricThickness.toFixed(4)),
+        Material: "FR4",
+        Name: `${copperName(index)}/${copperName(index + 1)}`,
+        Notes: `Type: dielectric layer ${index} (from ${copperName(index)} to ${copperName(index + 1)})`,
+      });
+    }
+  }
+  if (copperLayers > 1) {
+    layers.push(
+      {
+        Type: "SolderMask",
+        Color: stackup.soldermaskColor,
+        Thickness: SOLDERMASK_THICKNESS_MM,
+        Name: "Bottom Solder Mask",
+      },
+      { Type: "SolderPaste", Name: "Bottom Solder Paste" },
+      { Type: "Legend", Color: stackup.silkscreenColor, Name: "Bottom Silk Screen" },
+    );
+  }
+  return layers;
+}
+
+/**
+ * Build a Gerber X2 job file (.gbrjob, JSON) describing every layer file,
+ * board size, thickness, copper weight and surface finish.
+ */
+export function buildGerberJobFile(options: GerberJobOptions): string {
+  const { stackup, board } = options;
+  const generatedAt = (options.generatedAt ?? new Date()).toISOString();
+  const filesAttributes: Record<string, unknown>[] = [];
+
+  for (const [name, content] of Object.entries(options.layerFiles)) {
+    const attributes = resolveGerberLayerAttributes(name, stackup.layerCount);
+    if (!attributes || typeof content !== "string") continue;
+    filesAttributes.push({
+      Path: options.layerPaths?.[name] ?? `${name}.gbr`,
+      FileFunction: attributes.fileFunction,
+      ...(attributes.filePolarity ? { FilePolarity: attributes.filePolarity } : {}),
+    });
+  }
+  for (const drill of options.drillFiles) {
+    filesAttributes.push({
+      Path: drill.path,
+      FileFunction: drill.plated
+        ? `Plated,1,${stackup.layerCount},PTH,Drill`
+        : `NonPlated,1,${stackup.layerCount},NPTH,Drill`,
+      FilePolarity: "Positive",
+    });
+  }
+
+  const job = {
+    Header: {
+      GenerationSoftware: {
+        Vendor: "CircuitForge",
+        Application: "CircuitForge",
+        Version: "1",
+      },
+      CreationDate: generatedAt,
+    },
+    GeneralSpecs: {
+      ProjectId: {
+        Name: options.projectName ?? "circuitforge",
+        Revision: "1",
+      },
+      ...(board ? { Size: { X: board.width, Y: board.height } } : {}),
+      LayerNumber: stackup.layerCount,
+      BoardThickness: stackup.boardThicknessMm,
+      Finish: JOB_FILE_FINISH[stackup.finish],
+    },
+    FilesAttributes: filesAttributes,
+    MaterialStackup: buildMaterialStackup(stackup),
+  };
+
+  return `${JSON.stringify(job, null, 2)}\n`;
+}
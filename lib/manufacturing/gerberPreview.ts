@@ -0,0 +1,689 @@
+import type { Point } from "./circuitJson";
+import { resolveGerberLayerAttributes } from "./gerberJob";
+
+type UnknownRecord = Record<string, unknown>;
+
+export type PreviewLayerKind = "copper" | "soldermask" | "silkscreen" | "paste" | "outline" | "drill" | "other";
+
+export interface PreviewBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface PreviewLayer {
+  id: string;
+  fileName: string;
+  kind: PreviewLayerKind;
+  side: "top" | "bottom" | "inner" | null;
+  fileFunction: string | null;
+  color: string;
+  /** Paint order, lowest first, for a top-down stacked view. */
+  order: number;
+  featureCount: number;
+  svg: string;
+}
+
+export interface DrillHole {
+  center: Point;
+  diameter: number;
+  /** End point of a routed slot (G85); absent for a plain hit. */
+  slotEnd?: Point;
+}
+
+/** Filled outlines and stroked segments parsed from one Gerber file, in mm. */
+export interface ParsedGerber {
+  fills: string[];
+  strokes: Array<{ d: string; width: number; square: boolean }>;
+  featureCount: number;
+  bounds: PreviewBounds | null;
+  unsupported: string[];
+}
+
+interface Aperture {
+  kind: "circle" | "rect" | "obround" | "polygon" | "macro";
+  params: number[];
+  macro?: string;
+}
+
+const INCH_TO_MM = 25.4;
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function emptyBounds(): PreviewBounds {
+  return { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+}
+
+function extendBounds(bounds: PreviewBounds, x: number, y: number, pad = 0): void {
+  bounds.minX = Math.min(bounds.minX, x - pad);
+  bounds.minY = Math.min(bounds.minY, y - pad);
+  bounds.maxX = Math.max(bounds.maxX, x + pad);
+  bounds.maxY = Math.max(bounds.maxY, y + pad);
+}
+
+function finiteBounds(bounds: PreviewBounds): PreviewBounds | null {
+  return Number.isFinite(bounds.minX) ? bounds : null;
+}
+
+/**
+ * Evaluate an aperture macro expression (`$1+$1`, `0.0-$4`, `$2x0.5`) with
+ * Gerber's operators: + - x / and parentheses.
+ */
+export function evaluateMacroExpression(expression: string, variables: Record<number, number>): number {
+  const source = expression.replace(/\s+/g, "").replace(/X/g, "x");
+  let index = 0;
+
+  const parsePrimary = (): number => {
+    const char = source[index];
+    if (char === "(") {
+      index++;
+      const value = parseSum();
+      index++;
+      return value;
+    }
+    if (char === "-" || char === "+") {
+      index++;
+      const value = parsePrimary();
+      return char === "-" ? -value : value;
+    }
+    if (char === "$") {
+      const match = /^\$(\d+)/.exec(source.slice(index));
+      if (!match) throw new Error(`Bad macro variable in '${expression}'`);
+      index += match[0].length;
+      return variables[Number(match[1])] ?? 0;
+    }
+    const match = /^\d*\.?\d+(?:[eE][-+]?\d+)?/.exec(source.slice(index));
+    if (!match) throw new Error(`Bad macro expression '${expression}'`);
+    index += match[0].length;
+    return Number(match[0]);
+  };
+  const parseProduct = (): number => {
+    let value = parsePrimary();
+    while (source[index] === "x" || source[index] === "/") {
+      const op = source[index++];
+      const rhs = parsePrimary();
+      value = op === "x" ? value * rhs : value / rhs;
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (source[index] === "+" || source[index] === "-") {
+      const op = source[index++];
+      const rhs = parseProduct();
+      value = op === "+" ? value + rhs : value - rhs;
+    }
+    return value;
+  };
+
+  const value = parseSum();
+  if (index !== source.length) throw new Error(`Bad macro expression '${expression}'`);
+  return value;
+}
+
+function rotate(point: Point, degrees: number): Point {
+  if (!degrees) return point;
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+}
+
+function polygonPath(points: Point[]): string {
+  return `${points.map((point, index) => `${index === 0 ? "M" : "L"}${round(point.x)} ${round(point.y)}`).join(" ")} Z`;
+}
+
+function circlePath(center: Point, radius: number): string {
+  const r = round(radius);
+  return `M${round(center.x - radius)} ${round(center.y)} a${r} ${r} 0 1 0 ${round(2 * radius)} 0 a${r} ${r} 0 1 0 ${round(-2 * radius)} 0 Z`;
+}
+
+function rectPoints(center: Point, width: number, height: number, rotation = 0): Point[] {
+  return [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ].map((corner) => {
+    const rotated = rotate(corner, rotation);
+    return { x: center.x + rotated.x, y: center.y + rotated.y };
+  });
+}
+
+function obroundPath(center: Point, width: number, height: number): string {
+  if (Math.abs(width - height) < 1e-9) return circlePath(center, width / 2);
+  const r = round(Math.min(width, height) / 2);
+  if (width > height) {
+    const half = (width - height) / 2;
+    return `M${round(center.x - half)} ${round(center.y - r)} L${round(center.x + half)} ${round(center.y - r)} A${r} ${r} 0 0 1 ${round(center.x + half)} ${round(center.y + r)} L${round(center.x - half)} ${round(center.y + r)} A${r} ${r} 0 0 1 ${round(center.x - half)} ${round(center.y - r)} Z`;
+  }
+  const half = (height - width) / 2;
+  return `M${round(center.x + r)} ${round(center.y - half)} L${round(center.x + r)} ${round(center.y + half)} A${r} ${r} 0 0 1 ${round(center.x - r)} ${round(center.y + half)} L${round(center.x - r)} ${round(center.y - half)} A${r} ${r} 0 0 1 ${round(center.x + r)} ${round(center.y - half)} Z`;
+}
+
+function regularPolygonPoints(center: Point, diameter: number, vertices: number, rotation: number): Point[] {
+  return Array.from({ length: vertices }, (_, index) => {
+    const angle = ((rotation + (index * 360) / vertices) * Math.PI) / 180;
+    return { x: center.x + (diameter / 2) * Math.cos(angle), y: center.y + (diameter / 2) * Math.sin(angle) };
+  });
+}
+
+/** Expand macro primitives into filled outlines centred on `at`. Clear exposure is ignored. */
+function macroShapes(body: string[], params: number[], at: Point, unsupported: Set<string>): string[] {
+  const variables: Record<number, number> = {};
+  params.forEach((value, index) => {
+    variables[index + 1] = value;
+  });
+  const shapes: string[] = [];
+  const offset = (point: Point) => ({ x: at.x + point.x, y: at.y + point.y });
+
+  for (const block of body) {
+    const assignment = /^\$(\d+)=(.+)$/.exec(block);
+    if (assignment) {
+      variables[Number(assignment[1])] = evaluateMacroExpression(assignment[2], variables);
+      continue;
+    }
+    const [codeText, ...args] = block.split(",");
+    const code = Number(codeText);
+    const values = args.map((arg) => evaluateMacroExpression(arg, variables));
+    if (values[0] === 0) continue;
+
+    if (code === 1) {
+      const [, diameter, cx, cy, rotation = 0] = values;
+      shapes.push(circlePath(offset(rotate({ x: cx, y: cy }, rotation)), diameter / 2));
+    } else if (code === 20) {
+      const [, width, x1, y1, x2, y2, rotation = 0] = values;
+      const length = Math.hypot(x2 - x1, y2 - y1);
+      const angle = (Math.atan2(y2 - y1, x2 - x1) * 180) / Math.PI;
+      const mid = { x: (x1 + x2) / 2, y: (y1 + y2) / 2 };
+      const points = rectPoints({ x: 0, y: 0 }, length, width, angle).map((point) =>
+        offset(rotate({ x: point.x + mid.x, y: point.y + mid.y }, rotation)),
+      );
+      shapes.push(polygonPath(points));
+    } else if (code === 21) {
+      const [, width, height, cx, cy, rotation = 0] = values;
+      const points = rectPoints({ x: cx, y: cy }, width, height).map((point) => offset(rotate(point, rotation)));
+      shapes.push(polygonPath(points));
+    } else if (code === 4) {
+      const count = values[1];
+      const coordinates = values.slice(2, 2 + 2 * (count + 1));
+      const rotation = values[2 + 2 * (count + 1)] ?? 0;
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < coordinates.length; i += 2) {
+        points.push(offset(rotate({ x: coordinates[i], y: coordinates[i + 1] }, rotation)));
+      }
+      shapes.push(polygonPath(points));
+    } else if (code === 5) {
+      const [, vertices, cx, cy, diameter, rotation = 0] = values;
+      const points = regularPolygonPoints({ x: 0, y: 0 }, diameter, vertices, 0).map((point) =>
+        offset(rotate({ x: point.x + cx, y: point.y + cy }, rotation)),
+      );
+      shapes.push(polygonPath(points));
+    } else {
+      unsupported.add(`macro primitive ${code}`);
+    }
+  }
+  return shapes;
+}
+
+function apertureExtent(aperture: Aperture): number {
+  if (aperture.kind === "macro") return Math.max(0, ...aperture.params.map((value) => Math.abs(value)));
+  return Math.max(aperture.params[0] ?? 0, aperture.params[1] ?? 0) / 2;
+}
+
+function flashAperture(
+  aperture: Aperture,
+  at: Point,
+  macros: Map<string, string[]>,
+  unsupported: Set<string>,
+): string[] {
+  const [a = 0, b = a, c = 0] = aperture.params;
+  switch (aperture.kind) {
+    case "circle":
+      return [circlePath(at, a / 2)];
+    case "rect":
+      return [polygonPath(rectPoints(at, a, b))];
+    case "obround":
+      return [obroundPath(at, a, b)];
+    case "polygon":
+      return [polygonPath(regularPolygonPoints(at, a, Math.round(b), c))];
+    case "macro": {
+      const body = macros.get(aperture.macro ?? "");
+      if (!body) {
+        unsupported.add(`macro ${aperture.macro}`);
+        return [];
+      }
+      return macroShapes(body, aperture.params, at, unsupported);
+    }
+  }
+}
+
+/** Split Gerber source into word commands and `%...%` extended command groups. */
+function tokenizeGerber(source: string): Array<{ extended: boolean; blocks: string[] }> {
+  const tokens: Array<{ extended: boolean; blocks: string[] }> = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === "%") {
+      const end = source.indexOf("%", index + 1);
+      if (end === -1) break;
+      const blocks = source
+        .slice(index + 1, end)
+        .split("*")
+        .map((block) => block.trim())
+        .filter(Boolean);
+      tokens.push({ extended: true, blocks });
+      index = end + 1;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    const end = source.indexOf("*", index);
+    if (end === -1) break;
+    tokens.push({ extended: false, blocks: [source.slice(index, end).trim()] });
+    index = end + 1;
+  }
+  return tokens;
+}
+
+function arcPath(from: Point, to: Point, centerOffset: Point, clockwise: boolean): string {
+  const center = { x: from.x + centerOffset.x, y: from.y + centerOffset.y };
+  const radius = round(Math.hypot(from.x - center.x, from.y - center.y));
+  // Gerber coordinates are y-up, so counter-clockwise is the positive SVG sweep here.
+  const sweep = clockwise ? 0 : 1;
+  const startAngle = Math.atan2(from.y - center.y, from.x - center.x);
+  const endAngle = Math.atan2(to.y - center.y, to.x - center.x);
+  let span = clockwise ? startAngle - endAngle : endAngle - startAngle;
+  if (span <= 1e-9) span += 2 * Math.PI;
+
+  if (Math.hypot(to.x - from.x, to.y - from.y) < 1e-9) {
+    const opposite = { x: 2 * center.x - from.x, y: 2 * center.y - from.y };
+    return `A${radius} ${radius} 0 0 ${sweep} ${round(opposite.x)} ${round(opposite.y)} A${radius} ${radius} 0 0 ${sweep} ${round(to.x)} ${round(to.y)}`;
+  }
+  return `A${radius} ${radius} 0 ${span > Math.PI ? 1 : 0} ${sweep} ${round(to.x)} ${round(to.y)}`;
+}
+
+/**
+ * Parse the RS-274X subset emitted by circuit-json-to-gerber (FS/MO, standard
+ * and macro apertures, D01/D02/D03, G01/G02/G03, G36/G37 regions) into SVG
+ * path data in millimetres, y-up.
+ */
+export function parseGerber(source: string): ParsedGerber {
+  let decimalDigits = 6;
+  let unitScale = 1;
+  let interpolation: "linear" | "cw" | "ccw" = "linear";
+  let current: Point = { x: 0, y: 0 };
+  let aperture: Aperture | null = null;
+  let inRegion = false;
+  let regionPath: string[] = [];
+
+  const apertures = new Map<string, Aperture>();
+  const macros = new Map<string, string[]>();
+  const unsupported = new Set<string>();
+  const bounds = emptyBounds();
+  const fills: string[] = [];
+  const strokes: ParsedGerber["strokes"] = [];
+  let featureCount = 0;
+
+  const parseCoordinate = (text: string | undefined, fallback: number): number => {
+    if (text === undefined) return fallback;
+    if (text.includes(".")) return Number(text) * unitScale;
+    const negative = text.startsWith("-");
+    const digits = text.replace(/^[+-]/, "");
+    const value = Number(digits) / 10 ** decimalDigits;
+    return (negative ? -value : value) * unitScale;
+  };
+  const parseOffset = (text: string | undefined): number =>
+    text === undefined ? 0 : parseCoordinate(text, 0);
+
+  const flushRegion = () => {
+    if (regionPath.length > 1) {
+      fills.push(`${regionPath.join(" ")} Z`);
+      featureCount++;
+    }
+    regionPath = [];
+  };
+
+  for (const token of tokenizeGerber(source)) {
+    if (token.extended) {
+      const [head, ...rest] = token.blocks;
+      if (!head) continue;
+      if (head.startsWith("FS")) {
+        const match = /X\d(\d)Y/.exec(head);
+        if (match) decimalDigits = Number(match[1]);
+      } else if (head.startsWith("MO")) {
+        unitScale = head === "MOIN" ? INCH_TO_MM : 1;
+      } else if (head.startsWith("AM")) {
+        macros.set(
+          head.slice(2),
+          rest.filter((block) => !/^0(\s|$)/.test(block)).map((block) => block.replace(/\s+/g, "")),
+        );
+      } else if (head.startsWith("AD")) {
+        const match = /^ADD(\d+)([^,]+),?(.*)$/.exec(head);
+        if (!match) continue;
+        const params = match[3] ? match[3].split("X").map(Number) : [];
+        const template = match[2];
+        const kind: Aperture["kind"] =
+          template === "C" ? "circle" : template === "R" ? "rect" : template === "O" ? "obround" : template === "P" ? "polygon" : "macro";
+        apertures.set(`D${match[1]}`, {
+          kind,
+          // Polygon vertex count and rotation are not lengths.
+          params: params.map((value, index) => (kind === "polygon" && index > 0 ? value : value * unitScale)),
+          ...(kind === "macro" ? { macro: template } : {}),
+        });
+      } else if (head.startsWith("LPC")) {
+        unsupported.add("clear polarity (LPC)");
+      }
+      continue;
+    }
+
+    let block = token.blocks[0];
+    if (!block || block.startsWith("G04") || block === "M02") continue;
+
+    const gMatch = /^G0?(\d+)/.exec(block);
+    if (gMatch) {
+      const code = Number(gMatch[1]);
+      if (code === 1) interpolation = "linear";
+      else if (code === 2) interpolation = "cw";
+      else if (code === 3) interpolation = "ccw";
+      else if (code === 36) {
+        inRegion = true;
+        regionPath = [];
+      } else if (code === 37) {
+        flushRegion();
+        inRegion = false;
+      }
+      block = block.slice(gMatch[0].length);
+      if (!block) continue;
+    }
+
+    const select = /^D(\d+)$/.exec(block);
+    if (select && Number(select[1]) >= 10) {
+      aperture = apertures.get(`D${select[1]}`) ?? null;
+      if (!aperture) unsupported.add(`undefined aperture D${select[1]}`);
+      continue;
+    }
+
+    const operation = /^(?:X([+-]?[\d.]+))?(?:Y([+-]?[\d.]+))?(?:I([+-]?[\d.]+))?(?:J([+-]?[\d.]+))?D0?([123])$/.exec(block);
+    if (!operation) continue;
+    const next = { x: parseCoordinate(operation[1], current.x), y: parseCoordinate(operation[2], current.y) };
+    const code = Number(operation[5]);
+
+    if (code === 2) {
+      if (inRegion) {
+        flushRegion();
+        regionPath.push(`M${round(next.x)} ${round(next.y)}`);
+      }
+    } else if (code === 1) {
+      const segment =
+        interpolation === "linear"
+          ? `L${round(next.x)} ${round(next.y)}`
+          : arcPath(current, next, { x: parseOffset(operation[3]), y: parseOffset(operation[4]) }, interpolation === "cw");
+      if (inRegion) {
+        if (regionPath.length === 0) regionPath.push(`M${round(current.x)} ${round(current.y)}`);
+        regionPath.push(segment);
+        extendBounds(bounds, next.x, next.y);
+      } else if (aperture) {
+        const width = aperture.kind === "circle" ? aperture.params[0] : Math.min(aperture.params[0], aperture.params[1] ?? aperture.params[0]);
+        strokes.push({
+          d: `M${round(current.x)} ${round(current.y)} ${segment}`,
+          width: round(width),
+          square: aperture.kind === "rect",
+        });
+        extendBounds(bounds, current.x, current.y, width / 2);
+        extendBounds(bounds, next.x, next.y, width / 2);
+        featureCount++;
+      }
+    } else if (code === 3 && aperture) {
+      fills.push(...flashAperture(aperture, next, macros, unsupported));
+      extendBounds(bounds, next.x, next.y, apertureExtent(aperture));
+      featureCount++;
+    }
+    current = next;
+  }
+  if (inRegion) flushRegion();
+
+  return { fills, strokes, featureCount, bounds: finiteBounds(bounds), unsupported: Array.from(unsupported) };
+}
+
+/**
+ * Parse an Excellon drill file: tool table from the header (`T10C0.3`) and
+ * `X..Y..` hits in the body, with `G85` routed slots. Decimal coordinates are taken as-is; integer
+ * coordinates use 3.3 (metric) or 2.4 (inch) leading-zero format.
+ */
+export function parseExcellonDrill(source: string): DrillHole[] {
+  let unitScale = 1;
+  let implicitDecimals = 3;
+  const tools = new Map<string, number>();
+  const holes: DrillHole[] = [];
+  let tool: number | null = null;
+  let current: Point = { x: 0, y: 0 };
+
+  const parseCoordinate = (text: string | undefined, fallback: number): number => {
+    if (text === undefined) return fallback;
+    if (text.includes(".")) return Number(text) * unitScale;
+    const negative = text.startsWith("-");
+    const digits = text.replace(/^[+-]/, "");
+    const value = Number(digits) / 10 ** implicitDecimals;
+    return (negative ? -value : value) * unitScale;
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) continue;
+    if (/^METRIC/.test(line)) {
+      unitScale = 1;
+      implicitDecimals = 3;
+      continue;
+    }
+    if (/^INCH/.test(line)) {
+      unitScale = INCH_TO_MM;
+      implicitDecimals = 4;
+      continue;
+    }
+    const definition = /^T(\d+)(?:[FS]\d+)*C([\d.]+)/.exec(line);
+    if (definition) {
+      tools.set(String(Number(definition[1])), Number(definition[2]) * unitScale);
+      continue;
+    }
+    const selection = /^T(\d+)$/.exec(line);
+    if (selection) {
+      tool = tools.get(String(Number(selection[1]))) ?? null;
+      continue;
+    }
+    const hit = /^(?:X([+-]?[\d.]+))?(?:Y([+-]?[\d.]+))?(?:G85(?:X([+-]?[\d.]+))?(?:Y([+-]?[\d.]+))?)?$/.exec(line);
+    if (!hit || tool === null) continue;
+    if (hit[1] !== undefined || hit[2] !== undefined) {
+      current = { x: parseCoordinate(hit[1], current.x), y: parseCoordinate(hit[2], current.y) };
+      holes.push({ center: current, diameter: tool });
+    }
+    if (line.includes("G85") && holes.length > 0) {
+      const slotEnd = { x: parseCoordinate(hit[3], current.x), y: parseCoordinate(hit[4], current.y) };
+      holes[holes.length - 1].slotEnd = slotEnd;
+      current = slotEnd;
+    }
+  }
+  return holes;
+}
+
+const LAYER_STYLES: Record<string, { kind: PreviewLayerKind; side: PreviewLayer["side"]; color: string; order: number }> = {
+  Edge_Cuts: { kind: "outline", side: null, color: "#e5e7eb", order: 0 },
+  B_Cu: { kind: "copper", side: "bottom", color: "#4d7fc4", order: 10 },
+  B_Mask: { kind: "soldermask", side: "bottom", color: "#8b5cf6", order: 11 },
+  B_Paste: { kind: "paste", side: "bottom", color: "#94a3b8", order: 12 },
+  B_SilkScreen: { kind: "silkscreen", side: "bottom", color: "#e8b2a7", order: 13 },
+  F_Cu: { kind: "copper", side: "top", color: "#c83434", order: 30 },
+  F_Mask: { kind: "soldermask", side: "top", color: "#d946ef", order: 31 },
+  F_Paste: { kind: "paste", side: "top", color: "#cbd5e1", order: 32 },
+  F_SilkScreen: { kind: "silkscreen", side: "top", color: "#f2eda1", order: 33 },
+};
+const INNER_COPPER_COLORS = ["#c2c200", "#c200c2", "#00c2c2", "#c27f00"];
+
+function layerStyle(layerName: string) {
+  const inner = /^In(\d+)_Cu$/.exec(layerName);
+  if (inner) {
+    const index = Number(inner[1]);
+    return { kind: "copper" as const, side: "inner" as const, color: INNER_COPPER_COLORS[(index - 1) % INNER_COPPER_COLORS.length], order: 20 + index };
+  }
+  return LAYER_STYLES[layerName] ?? { kind: "other" as const, side: null, color: "#a3a3a3", order: 40 };
+}
+
+function mergeBounds(all: Array<PreviewBounds | null>): PreviewBounds | null {
+  const merged = emptyBounds();
+  for (const bounds of all) {
+    if (!bounds) continue;
+    extendBounds(merged, bounds.minX, bounds.minY);
+    extendBounds(merged, bounds.maxX, bounds.maxY);
+  }
+  return finiteBounds(merged);
+}
+
+/** Wrap y-up millimetre content in an SVG whose viewBox is shared by every layer. */
+function wrapSvg(bounds: PreviewBounds, content: string[]): string {
+  const width = round(bounds.maxX - bounds.minX);
+  const height = round(bounds.maxY - bounds.minY);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${round(bounds.minX)} ${round(-bounds.maxY)} ${width} ${height}" width="${width}mm" height="${height}mm">`,
+    '<g transform="scale(1 -1)">',
+    ...content,
+    "</g>",
+    "</svg>",
+  ].join("\n");
+}
+
+function gerberLayerContent(parsed: ParsedGerber, color: string): string[] {
+  const content: string[] = [];
+  if (parsed.fills.length > 0) {
+    content.push(`<path d="${parsed.fills.join(" ")}" fill="${color}" fill-rule="nonzero"/>`);
+  }
+  const byStyle = new Map<string, string[]>();
+  for (const stroke of parsed.strokes) {
+    const key = `${stroke.width}|${stroke.square ? "square" : "round"}`;
+    byStyle.set(key, [...(byStyle.get(key) ?? []), stroke.d]);
+  }
+  for (const [key, paths] of byStyle) {
+    const [width, cap] = key.split("|");
+    content.push(
+      `<path d="${paths.join(" ")}" fill="none" stroke="${color}" stroke-width="${width}" stroke-linecap="${cap}" stroke-linejoin="round"/>`,
+    );
+  }
+  return content;
+}
+
+function drillLayerContent(holes: DrillHole[], color: string): string[] {
+  const hits = holes.filter((hole) => !hole.slotEnd);
+  const content: string[] = [];
+  if (hits.length > 0) {
+    content.push(`<path d="${hits.map((hole) => circlePath(hole.center, hole.diameter / 2)).join(" ")}" fill="${color}"/>`);
+  }
+  for (const slot of holes.filter((hole) => hole.slotEnd)) {
+    const end = slot.slotEnd!;
+    content.push(
+      `<path d="M${round(slot.center.x)} ${round(slot.center.y)} L${round(end.x)} ${round(end.y)}" fill="none" stroke="${color}" stroke-width="${round(slot.diameter)}" stroke-linecap="round"/>`,
+    );
+  }
+  return content;
+}
+
+export interface GerberPreviewInput {
+  layers: Record<string, string>;
+  layerFileNames?: Record<string, string>;
+  drills: Array<{ fileName: string; content: string | null; plated: boolean }>;
+  layerCount: number;
+}
+
+export interface GerberPreview {
+  bounds: PreviewBounds | null;
+  layers: PreviewLayer[];
+  unsupported: string[];
+}
+
+/**
+ * Render every Gerber layer and drill file to its own SVG. All SVGs share one
+ * viewBox so they can be stacked directly on top of each other.
+ */
+export function buildGerberPreview(input: GerberPreviewInput): GerberPreview {
+  const parsedLayers = Object.entries(input.layers)
+    .filter((entry): entry is [string, string] => typeof entry[1] === "string")
+    .map(([name, content]) => ({ name, parsed: parseGerber(content) }));
+  const parsedDrills = input.drills.map((drill) => ({
+    ...drill,
+    holes: drill.content ? parseExcellonDrill(drill.content) : [],
+  }));
+
+  const drillBounds = parsedDrills.flatMap((drill) =>
+    drill.holes.map((hole) => {
+      const end = hole.slotEnd ?? hole.center;
+      return {
+        minX: Math.min(hole.center.x, end.x) - hole.diameter / 2,
+        minY: Math.min(hole.center.y, end.y) - hole.diameter / 2,
+        maxX: Math.max(hole.center.x, end.x) + hole.diameter / 2,
+        maxY: Math.max(hole.center.y, end.y) + hole.diameter / 2,
+      };
+    }),
+  );
+  const contentBounds = mergeBounds([...parsedLayers.map((layer) => layer.parsed.bounds), ...drillBounds]);
+  if (!contentBounds) return { bounds: null, layers: [], unsupported: [] };
+  const margin = Math.max(1, 0.02 * Math.max(contentBounds.maxX - contentBounds.minX, contentBounds.maxY - contentBounds.minY));
+  const bounds = {
+    minX: round(contentBounds.minX - margin),
+    minY: round(contentBounds.minY - margin),
+    maxX: round(contentBounds.maxX + margin),
+    maxY: round(contentBounds.maxY + margin),
+  };
+
+  const layers: PreviewLayer[] = parsedLayers.map(({ name, parsed }) => {
+    const style = layerStyle(name);
+    return {
+      id: name,
+      fileName: input.layerFileNames?.[name] ?? `${name}.gbr`,
+      kind: style.kind,
+      side: style.side,
+      fileFunction: resolveGerberLayerAttributes(name, input.layerCount)?.fileFunction ?? null,
+      color: style.color,
+      order: style.order,
+      featureCount: parsed.featureCount,
+      svg: wrapSvg(bounds, gerberLayerContent(parsed, style.color)),
+    };
+  });
+
+  for (const drill of parsedDrills) {
+    if (drill.content === null) continue;
+    const color = drill.plated ? "#f5f5f4" : "#fbbf24";
+    layers.push({
+      id: drill.plated ? "drill_plated" : "drill_unplated",
+      fileName: drill.fileName,
+      kind: "drill",
+      side: null,
+      fileFunction: drill.plated ? "Plated,PTH" : "NonPlated,NPTH",
+      color,
+      order: drill.plated ? 50 : 51,
+      featureCount: drill.holes.length,
+      svg: wrapSvg(bounds, drillLayerContent(drill.holes, color)),
+    });
+  }
+
+  return {
+    bounds,
+    layers: layers.sort((a, b) => a.order - b.order),
+    unsupported: Array.from(new Set(parsedLayers.flatMap((layer) => layer.parsed.unsupported))),
+  };
+}
+
+/** Count drilled features a circuit JSON expects, so an empty drill file stands out. */
+export function countExpectedDrills(circuitJson: unknown[]): { plated: number; unplated: number } {
+  let plated = 0;
+  let unplated = 0;
+  for (const item of circuitJson) {
+    if (!item || typeof item !== "object") continue;
+    const type = (item as UnknownRecord).type;
+    if (type === "pcb_via" || type === "pcb_plated_hole") plated++;
+    else if (type === "pcb_hole") unplated++;
+  }
+  return { plated, unplated };
+}
@@ -0,0 +1,451 @@
+import {
+  buildCircuitJsonModel,
+  type CircuitJsonModel,
+  type ComponentRecord,
+  type CopperSide,
+  type PadRecord,
+  type Point,
+} from "./circuitJson";
+import { resolveExportStackup, type ExportStackup } from "./stackup";
+
+export interface Ipc2581Options {
+  stepName?: string;
+  stackup?: ExportStackup;
+  generatedAt?: Date;
+}
+
+export interface Ipc2581Result {
+  xml: string;
+  metadata: {
+    components: number;
+    nets: number;
+    pads: number;
+    vias: number;
+    drills: number;
+    traces: number;
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(4)).toString();
+}
+
+function attrs(values: Record<string, string | number | boolean | null | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === "number" ? num(value) : String(value);
+      return `${key}="${escapeXml(text)}"`;
+    })
+    .join(" ");
+}
+
+function layerName(side: CopperSide): string {
+  return side === "top" ? "TOP" : "BOTTOM";
+}
+
+function primitiveId(shape: string, width: number, height: number): string {
+  if (shape === "circle") return `CIRCLE_${num(width)}`;
+  return `RECT_${num(width)}x${num(height)}`;
+}
+
+function padPrimitiveId(pad: Pick<PadRecord, "shape" | "width" | "height">): string {
+  return primitiveId(pad.shape === "circle" ? "circle" : "rect", pad.width, pad.height);
+}
+
+function toPackageLocal(component: ComponentRecord, point: Point): Point {
+  const dx = point.x - component.center.x;
+  const dy = point.y - component.center.y;
+  const radians = (-component.rotation * Math.PI) / 180;
+  return {
+    x: dx * Math.cos(radians) - dy * Math.sin(radians),
+    y: dx * Math.sin(radians) + dy * Math.cos(radians),
+  };
+}
+
+function packageNameFor(component: ComponentRecord): string {
+  return component.footprint ?? `${component.ftype ?? "component"}_${component.name}`;
+}
+
+function collectPrimitives(model: CircuitJsonModel) {
+  const primitives = new Map<string, string>();
+  for (const pad of model.pads) {
+    const id = padPrimitiveId(pad);
+    if (primitives.has(id)) continue;
+    primitives.set(
+      id,
+      pad.shape === "circle"
+        ? `<Circle ${attrs({ diameter: pad.width })}/>`
+        : `<RectCenter ${attrs({ width: pad.width, height: pad.height })}/>`,
+    );
+  }
+  for (const via of model.vias) {
+    const id = primitiveId("circle", via.outerDiameter, via.outerDiameter);
+    if (!primitives.has(id)) {
+      primitives.set(id, `<Circle ${attrs({ diameter: via.outerDiameter })}/>`);
+    }
+  }
+  return primitives;
+}
+
+function renderBom(model: CircuitJsonModel, stepName: string): string[] {
+  const groups = new Map<string, ComponentRecord[]>();
+  for (const component of model.components) {
+    const key = [
+      component.manufacturerPartNumber ?? "",
+      component.value ?? "",
+      packageNameFor(component),
+    ].join("|");
+    const list = groups.get(key) ?? [];
+    list.push(component);
+    groups.set(key, list);
+  }
+
+  const lines = [
+    `  <Bom ${attrs({ name: "bom" })}>`,
+    `    <BomHeader ${attrs({ assembly: stepName, revision: "1" })}>`,
+    `      <StepRef ${attrs({ name: stepName })}/>`,
+    "    </BomHeader>",
+  ];
+  for (const members of groups.values()) {
+    const first = members[0];
+    const pinCount = model.pads.filter((pad) => pad.pcbComponentId === first.pcbComponentId).length;
+    const supplierParts = Object.entries(first.supplierPartNumbers);
+    lines.push(
+      `    <BomItem ${attrs({
+        OEMDesignNumberRef: first.manufacturerPartNumber ?? `${packageNameFor(first)}_${first.value ?? first.name}`,
+        quantity: members.length,
+        pinCount,
+        category: "ELECTRICAL",
+      })}>`,
+    );
+    for (const member of members) {
+      lines.push(
+        `      <RefDes ${attrs({
+          name: member.name,
+          packageRef: packageNameFor(member),
+          populate: true,
+          layerRef: layerName(member.side),
+        })}/>`,
+      );
+    }
+    lines.push(`      <Characteristics ${attrs({ category: "ELECTRICAL" })}>`);
+    if (first.value) {
+      lines.push(
+        `        <Textual ${attrs({
+          definitionSource: "CircuitForge",
+          textualCharacteristicName: "Value",
+          textualCharacteristicValue: first.value,
+        })}/>`,
+      );
+    }
+    for (const [supplier, numbers] of supplierParts) {
+      lines.push(
+        `        <Textual ${attrs({
+          definitionSource: supplier,
+          textualCharacteristicName: "SupplierPartNumber",
+          textualCharacteristicValue: numbers[0],
+        })}/>`,
+      );
+    }
+    lines.push("      </Characteristics>", "    </BomItem>");
+  }
+  lines.push("  </Bom>");
+  return lines;
+}
+
+function copperSides(stackup: ExportStackup): CopperSide[] {
+  return stackup.layerCount >= 2 ? ["top", "bottom"] : ["top"];
+}
+
+function renderStackup(stackup: ExportStackup): string[] {
+  const overall = stackup.boardThicknessMm;
+  const copperThickness = stackup.copperThicknessMm;
+  const copperLayers = copperSides(stackup);
+  const dielectric = Math.max(0, overall - copperThickness * copperLayers.length);
+  const lines = [
+    `      <Stackup ${attrs({
+      name: "primary",
+      overallThickness: overall,
+      tolPlus: 0.1,
+      tolMinus: 0.1,
+      whereMeasured: "METAL",
+    })}>`,
+    `        <StackupGroup ${attrs({ name: "board", thickness: overall, tolPlus: 0.1, tolMinus: 0.1 })}>`,
+    `          <StackupLayer ${attrs({ layerOrGroupRef: "TOP", thickness: copperThickness, tolPlus: 0, tolMinus: 0, sequence: 1 })}/>`,
+  ];
+  if (copperLayers.length > 1) {
+    lines.push(
+      `          <StackupLayer ${attrs({ layerOrGroupRef: "DIELECTRIC_1", thickness: dielectric, tolPlus: 0, tolMinus: 0, sequence: 2 })}/>`,
+      `          <StackupLayer ${attrs({ layerOrGroupRef: "BOTTOM", thickness: copperThickness, tolPlus: 0, tolMinus: 0, sequence: 3 })}/>`,
+    );
+  }
+  lines.push("        </StackupGroup>", "      </Stackup>");
+  return lines;
+}
+
+function renderLayerFeatures(model: CircuitJsonModel, stackup: ExportStackup): string[] {
+  const lines: string[] = [];
+  for (const side of copperSides(stackup)) {
+    lines.push(`        <LayerFeature ${attrs({ layerRef: layerName(side) })}>`);
+    const pads = model.pads.filter((pad) => pad.sides.includes(side));
+    for (const pad of pads) {
+      lines.push(
+        `          <Set ${attrs({ net: pad.netName ?? undefined })}>`,
+        `            <Pad ${attrs({ padUsage: "TERMINATION" })}>`,
+        `              <Location ${attrs({ x: pad.center.x, y: pad.center.y })}/>`,
+        `              <StandardPrimitiveRef ${attrs({ id: padPrimitiveId(pad) })}/>`,
+        `              <PinRef ${attrs({
+          componentRef:
+            model.components.find((component) => component.pcbComponentId === pad.pcbComponentId)
+              ?.name ?? undefined,
+          pin: pad.portName ?? pad.id,
+        })}/>`,
+        "            </Pad>",
+        "          </Set>",
+      );
+    }
+    for (const via of model.vias.filter((entry) => entry.sides.includes(side))) {
+      lines.push(
+        `          <Set ${attrs({ net: via.netName ?? undefined, padUsage: "VIA" })}>`,
+        "            <Pad>",
+        `              <Location ${attrs({ x: via.center.x, y: via.center.y })}/>`,
+        `              <StandardPrimitiveRef ${attrs({ id: primitiveId("circle", via.outerDiameter, via.outerDiameter) })}/>`,
+        "            </Pad>",
+        "          </Set>",
+      );
+    }
+    for (const segment of model.traces.filter((entry) => entry.side === side)) {
+      lines.push(
+        `          <Set ${attrs({ net: segment.netName ?? undefined })}>`,
+        "            <Features>",
+        `              <Line ${attrs({
+          startX: segment.start.x,
+          startY: segment.start.y,
+          endX: segment.end.x,
+          endY: segment.end.y,
+        })}>`,
+        `                <LineDesc ${attrs({ lineWidth: segment.width, lineEnd: "ROUND" })}/>`,
+        "              </Line>",
+        "            </Features>",
+        "          </Set>",
+      );
+    }
+    lines.push("        </LayerFeature>");
+  }
+
+  const platedHoles = [
+    ...model.pads
+      .filter((pad) => pad.kind === "plated_hole" && pad.holeDiameter)
+      .map((pad) => ({ id: pad.id, center: pad.center, diameter: pad.holeDiameter!, net: pad.netName })),
+    ...model.vias.map((via) => ({
+      id: via.id,
+      center: via.center,
+      diameter: via.holeDiameter,
+      net: via.netName,
+    })),
+  ];
+  lines.push(`        <LayerFeature ${attrs({ layerRef: "DRILL_PLATED" })}>`);
+  for (const hole of platedHoles) {
+    lines.push(
+      `          <Set ${attrs({ net: hole.net ?? undefined })}>`,
+      `            <Hole ${attrs({
+        name: hole.id,
+        diameter: hole.diameter,
+        platingStatus: "PLATED",
+        plusTol: 0,
+        minusTol: 0,
+        x: hole.center.x,
+        y: hole.center.y,
+      })}/>`,
+      "          </Set>",
+    );
+  }
+  lines.push("        </LayerFeature>");
+
+  lines.push(`        <LayerFeature ${attrs({ layerRef: "DRILL_NPTH" })}>`);
+  for (const hole of model.holes) {
+    lines.push(
+      "          <Set>",
+      `            <Hole ${attrs({
+        name: hole.id,
+        diameter: hole.diameter,
+        platingStatus: "NONPLATED",
+        plusTol: 0,
+        minusTol: 0,
+        x: hole.center.x,
+        y: hole.center.y,
+      })}/>`,
+      "          </Set>",
+    );
+  }
+  lines.push("        </LayerFeature>");
+  return lines;
+}
+
+function renderStep(model: CircuitJsonModel, stepName: string, stackup: ExportStackup): string[] {
+  const lines = [`      <Step ${attrs({ name: stepName })}>`, `        <Datum ${attrs({ x: 0, y: 0 })}/>`];
+
+  const outline = model.board?.outline ?? [];
+  if (outline.length >= 3) {
+    lines.push("        <Profile>", "          <Polygon>");
+    lines.push(`            <PolyBegin ${attrs({ x: outline[0].x, y: outline[0].y })}/>`);
+    for (const point of [...outline.slice(1), outline[0]]) {
+      lines.push(`            <PolyStepSegment ${attrs({ x: point.x, y: point.y })}/>`);
+    }
+    lines.push("          </Polygon>", "        </Profile>");
+  }
+
+  const packages = new Map<string, ComponentRecord>();
+  for (const component of model.components) {
+    const name = packageNameFor(component);
+    if (!packages.has(name)) packages.set(name, component);
+  }
+  for (const [name, component] of packages.entries()) {
+    const pads = model.pads.filter((pad) => pad.pcbComponentId === component.pcbComponentId);
+    lines.push(`        <Package ${attrs({ name, type: "OTHER", pinOne: pads[0]?.portName ?? "1" })}>`);
+    for (const pad of pads) {
+      const local = toPackageLocal(component, pad.center);
+      lines.push(
+        `          <Pin ${attrs({
+          number: pad.portName ?? pad.id,
+          type: pad.kind === "plated_hole" ? "THRU" : "SURFACE",
+          electricalType: "ELECTRICAL",
+        })}>`,
+        `            <Location ${attrs({ x: local.x, y: local.y })}/>`,
+        `            <StandardPrimitiveRef ${attrs({ id: padPrimitiveId(pad) })}/>`,
+        "          </Pin>",
+      );
+    }
+    lines.push("        </Package>");
+  }
+
+  for (const component of model.components) {
+    const hasThroughHole = model.pads.some(
+      (pad) => pad.pcbComponentId === component.pcbComponentId && pad.kind === "plated_hole",
+    );
+    lines.push(
+      `        <Component ${attrs({
+        refDes: component.name,
+        packageRef: packageNameFor(component),
+        layerRef: layerName(component.side),
+        mountType: hasThroughHole ? "THMT" : "SMT",
+        part: component.manufacturerPartNumber ?? component.value ?? undefined,
+      })}>`,
+      `          <Xform ${attrs({ rotation: component.rotation, mirror: component.side === "bottom" })}/>`,
+      `          <Location ${attrs({ x: component.center.x, y: component.center.y })}/>`,
+      "        </Component>",
+    );
+  }
+
+  const componentNames = new Map(
+    model.components.map((component) => [component.pcbComponentId, component.name]),
+  );
+  for (const net of model.nets) {
+    lines.push(`        <LogicalNet ${attrs({ name: net.name })}>`);
+    for (const padId of net.pads) {
+      const pad = model.pads.find((entry) => entry.id === padId);
+      const componentRef = pad?.pcbComponentId ? componentNames.get(pad.pcbComponentId) : null;
+      if (!pad || !componentRef) continue;
+      lines.push(`          <PinRef ${attrs({ componentRef, pin: pad.portName ?? pad.id })}/>`);
+    }
+    lines.push("        </LogicalNet>");
+  }
+
+  lines.push(...renderLayerFeatures(model, stackup));
+  lines.push("      </Step>");
+  return lines;
+}
+
+/**
+ * Build a single-file IPC-2581 (rev C) fabrication + assembly package from
+ * compiled circuit JSON: stackup, copper layers, drills, netlist and BOM.
+ */
+export function convertCircuitJsonToIpc2581(
+  circuitJson: unknown[],
+  options?: Ipc2581Options,
+): Ipc2581Result {
+  const model = buildCircuitJsonModel(circuitJson);
+  const stepName = options?.stepName ?? "circuitforge";
+  const stackup = options?.stackup ?? resolveExportStackup(null, model.board);
+  const generatedAt = (options?.generatedAt ?? new Date()).toISOString();
+  const primitives = collectPrimitives(model);
+  const copperLayers = copperSides(stackup);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<IPC-2581 ${attrs({ revision: "C", xmlns: "http://webstds.ipc.org/2581" })}>`,
+    `  <Content ${attrs({ roleRef: "Owner" })}>`,
+    `    <FunctionMode ${attrs({ mode: "FULL" })}/>`,
+    `    <StepRef ${attrs({ name: stepName })}/>`,
+    ...copperLayers.map((side) => `    <LayerRef ${attrs({ name: layerName(side) })}/>`),
+    `    <LayerRef ${attrs({ name: "DRILL_PLATED" })}/>`,
+    `    <LayerRef ${attrs({ name: "DRILL_NPTH" })}/>`,
+    `    <BomRef ${attrs({ name: "bom" })}/>`,
+    `    <DictionaryStandard ${attrs({ units: "MILLIMETER" })}>`,
+    ...Array.from(primitives.entries()).flatMap(([id, body]) => [
+      `      <EntryStandard ${attrs({ id })}>`,
+      `        ${body}`,
+      "      </EntryStandard>",
+    ]),
+    "    </DictionaryStandard>",
+    "  </Content>",
+    "  <LogisticHeader>",
+    `    <Role ${attrs({ id: "Owner", roleFunction: "SENDER" })}/>`,
+    `    <Enterprise ${attrs({ id: "CircuitForge", code: "NONE" })}/>`,
+    `    <Person ${attrs({ name: "CircuitForge", enterpriseRef: "CircuitForge", roleRef: "Owner" })}/>`,
+    "  </LogisticHeader>",
+    `  <HistoryRecord ${attrs({ number: 1, origination: generatedAt, software: "CircuitForge", lastChange: generatedAt })}>`,
+    `    <FileRevision ${attrs({ fileRevisionId: "1", comment: "Generated from circuit JSON" })}>`,
+    `      <SoftwarePackage ${attrs({ name: "CircuitForge", revision: "1", vendor: "CircuitForge" })}/>`,
+    "    </FileRevision>",
+    "  </HistoryRecord>",
+    ...renderBom(model, stepName),
+    `  <Ecad ${attrs({ name: stepName })}>`,
+    `    <CadHeader ${attrs({ units: "MILLIMETER" })}/>`,
+    "    <CadData>",
+    ...copperLayers.map(
+      (side) =>
+        `      <Layer ${attrs({ name: layerName(side), layerFunction: "SIGNAL", side: side.toUpperCase(), polarity: "POSITIVE" })}/>`,
+    ),
+    ...(copperLayers.length > 1
+      ? [`      <Layer ${attrs({ name: "DIELECTRIC_1", layerFunction: "DIELCORE", side: "INTERNAL", polarity: "POSITIVE" })}/>`]
+      : []),
+    `      <Layer ${attrs({ name: "DRILL_PLATED", layerFunction: "DRILL", side: "ALL", polarity: "POSITIVE" })}>`,
+    `        <Span ${attrs({ fromLayer: "TOP", toLayer: layerName(copperLayers[copperLayers.length - 1]) })}/>`,
+    "      </Layer>",
+    `      <Layer ${attrs({ name: "DRILL_NPTH", layerFunction: "DRILL", side: "ALL", polarity: "POSITIVE" })}>`,
+    `        <Span ${attrs({ fromLayer: "TOP", toLayer: layerName(copperLayers[copperLayers.length - 1]) })}/>`,
+    "      </Layer>",
+    ...renderStackup(stackup),
+    ...renderStep(model, stepName, stackup),
+    "    </CadData>",
+    "  </Ecad>",
+    "</IPC-2581>",
+    "",
+  ];
+
+  return {
+    xml: lines.join("\n"),
+    metadata: {
+      components: model.components.length,
+      nets: model.nets.length,
+      pads: model.pads.length,
+      vias: model.vias.length,
+      drills:
+        model.pads.filter((pad) => pad.kind === "plated_hole").length +
+        model.vias.length +
+        model.holes.length,
+      traces: model.traces.length,
+    },
+  };
+}
@@ -0,0 +1,229 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import {
+  buildCircuitJsonModel,
+  type CircuitJsonModel,
+  type CopperSide,
+  type Point,
+} from "./circuitJson";
+
+type UnknownRecord = Record<string, unknown>;
+
+export interface IpcD356NetSummary {
+  name: string;
+  alias: string;
+  testPoints: number;
+}
+
+export interface IpcD356Result {
+  netlist: string;
+  nets: IpcD356NetSummary[];
+}
+
+export interface IpcD356Options {
+  jobName?: string;
+  generatedAt?: Date;
+}
+
+const RECORD_WIDTH = 80;
+const MAX_NET_NAME_LENGTH = 14;
+const UNCONNECTED_NET = "N/C";
+
+function field(record: string[], column: number, text: string, width: number) {
+  const value = text.slice(0, width).padEnd(width, " ");
+  for (let index = 0; index < width; index++) {
+    record[column - 1 + index] = value[index];
+  }
+}
+
+/** Coordinates and sizes are written in CUST 1 units: 0.001 mm. */
+function microns(value: number, digits: number): string {
+  const scaled = Math.min(Math.round(Math.abs(value) * 1000), 10 ** digits - 1);
+  return String(scaled).padStart(digits, "0");
+}
+
+function signed(value: number): string {
+  return `${value < 0 ? "-" : "+"}${microns(value, 6)}`;
+}
+
+function accessCode(sides: CopperSide[]): string {
+  if (sides.includes("top") && sides.includes("bottom")) return "A00";
+  return sides.includes("bottom") ? "A02" : "A01";
+}
+
+function soldermaskCode(sides: CopperSide[]): string {
+  if (sides.includes("top") && sides.includes("bottom")) return "S0";
+  return sides.includes("bottom") ? "S2" : "S1";
+}
+
+function pinField(portName: string | null, fallback: string): string {
+  const name = portName ?? fallback;
+  return name.replace(/^pin/i, "") || name;
+}
+
+interface TestPointRecord {
+  opcode: "317" | "327";
+  net: string;
+  refdes: string;
+  pin: string;
+  midpoint: boolean;
+  holeDiameter: number | null;
+  center: Point;
+  width: number;
+  height: number;
+  rotation: number;
+  sides: CopperSide[];
+}
+
+function formatTestPoint(entry: TestPointRecord): string {
+  const record = new Array<string>(RECORD_WIDTH).fill(" ");
+  field(record, 1, entry.opcode, 3);
+  field(record, 4, entry.net, 14);
+  field(record, 21, entry.refdes, 6);
+  field(record, 27, "-", 1);
+  field(record, 28, entry.pin, 4);
+  if (entry.midpoint) field(record, 32, "M", 1);
+  if (entry.holeDiameter !== null) {
+    field(record, 33, `D${microns(entry.holeDiameter, 4)}`, 5);
+    field(record, 38, "P", 1);
+  }
+  field(record, 39, accessCode(entry.sides), 3);
+  field(record, 42, `X${signed(entry.center.x)}Y${signed(entry.center.y)}`, 16);
+  field(
+    record,
+    58,
+    `X${microns(entry.width, 4)}Y${microns(entry.height, 4)}R${String(Math.round(((entry.rotation % 360) + 360) % 360)).padStart(3, "0")}`,
+    14,
+  );
+  field(record, 73, soldermaskCode(entry.sides), 2);
+  return record.join("").trimEnd();
+}
+
+function assignNetAliases(model: CircuitJsonModel) {
+  const aliases = new Map<string, string>();
+  const aliasRecords: string[] = [];
+  for (const net of model.nets) {
+    if (net.name.length <= MAX_NET_NAME_LENGTH && !/\s/.test(net.name)) {
+      aliases.set(net.name, net.name);
+      continue;
+    }
+    const alias = `NNAME${aliasRecords.length + 1}`;
+    aliases.set(net.name, alias);
+    aliasRecords.push(`P  ${alias.padEnd(10, " ")}${net.name}`);
+  }
+  return { aliases, aliasRecords };
+}
+
+/**
+ * Build an IPC-D-356A netlist (CUST 1 / metric) for flying-probe bare-board
+ * test: one record per copper pad and via, keyed by the resolved net.
+ */
+export function convertCircuitJsonToIpcD356(
+  circuitJson: unknown[],
+  options?: IpcD356Options,
+): IpcD356Result {
+  const model = buildCircuitJsonModel(circuitJson);
+  const { aliases, aliasRecords } = assignNetAliases(model);
+  const components = new Map(model.components.map((component) => [component.pcbComponentId, component]));
+  const testPoints: TestPointRecord[] = [];
+
+  for (const pad of model.pads) {
+    const component = pad.pcbComponentId ? components.get(pad.pcbComponentId) : undefined;
+    testPoints.push({
+      opcode: pad.kind === "plated_hole" ? "317" : "327",
+      net: pad.netName ? aliases.get(pad.netName) ?? UNCONNECTED_NET : UNCONNECTED_NET,
+      refdes: component?.name ?? "NOREF",
+      pin: pinField(pad.portName, pad.id),
+      midpoint: false,
+      holeDiameter: pad.kind === "plated_hole" ? pad.holeDiameter : null,
+      center: pad.center,
+      width: pad.width,
+      height: pad.height,
+      rotation: component?.rotation ?? 0,
+      sides: pad.sides,
+    });
+  }
+
+  for (const via of model.vias) {
+    testPoints.push({
+      opcode: "317",
+      net: via.netName ? aliases.get(via.netName) ?? UNCONNECTED_NET : UNCONNECTED_NET,
+      refdes: "VIA",
+      pin: "",
+      midpoint: true,
+      holeDiameter: via.holeDiameter,
+      center: via.center,
+      width: via.outerDiameter,
+      height: via.outerDiameter,
+      rotation: 0,
+      sides: via.sides,
+    });
+  }
+
+  testPoints.sort((a, b) => a.net.localeCompare(b.net) || a.refdes.localeCompare(b.refdes));
+
+  const lines = [
+    `C  IPC-D-356A netlist generated by CircuitForge ${(options?.generatedAt ?? new Date()).toISOString()}`,
+    `P  JOB   ${options?.jobName ?? "circuitforge"}`,
+    "P  CODE  00",
+    "P  UNITS CUST 1",
+    "P  DIM   N",
+    "P  VER   IPC-D-356A",
+    "P  IMAGE PRIMARY",
+    ...aliasRecords,
+    ...testPoints.map((entry) => formatTestPoint(entry)),
+    "999",
+    "",
+  ];
+
+  return {
+    netlist: lines.join("\n"),
+    nets: model.nets.map((net) => ({
+      name: net.name,
+      alias: aliases.get(net.name) ?? net.name,
+      testPoints:
+        net.pads.length + model.vias.filter((via) => via.netName === net.name).length,
+    })),
+  };
+}
+
+/** Every net name a connectivity summary (`lib/kicad/review.ts`) found, not just its sample. */
+function readConnectivityNetNames(connectivity: unknown): string[] {
+  if (!connectivity || typeof connectivity !== "object") return [];
+  const netNames = (connectivity as UnknownRecord).netNames;
+  if (!Array.isArray(netNames)) return [];
+  const names = new Set<string>();
+  for (const entry of netNames) {
+    if (typeof entry === "string" && entry.trim()) names.add(entry.trim());
+  }
+  return Array.from(names);
+}
+
+function normalizeNetName(name: string): string {
+  return name.trim().replace(/^\//, "").toLowerCase();
+}
+
+/**
+ * Compare every net the connectivity summary (lib/kicad/review.ts) found
+ * against the copper netlist. A net missing from copper, or without copper
+ * test points, becomes a warning.
+ */
+export function crossCheckIpcD356Nets(nets: IpcD356NetSummary[], connectivity: unknown): ValidationDiagnostic[] {
+  const copperNets = new Map(nets.map((net) => [normalizeNetName(net.name), net]));
+  const diagnostics: ValidationDiagnostic[] = [];
+
+  for (const name of readConnectivityNetNames(connectivity)) {
+    const copperNet = copperNets.get(normalizeNetName(name));
+    if (copperNet && copperNet.testPoints > 0) continue;
+    diagnostics.push({
+      category: "ipc356_net_missing_copper",
+      message: copperNet
+        ? `Net "${name}" has no copper pads or vias to probe in the IPC-D-356 netlist.`
+        : `Net "${name}" from the connectivity summary is missing from the IPC-D-356 copper netlist.`,
+      signature: `ipc356|ipc356_net_missing_copper|${name}`,
+      severity: 6,
+      family: "ipc356_net_missing_copper",
+    });
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,209 @@
+import { createHash } from "node:crypto";
+import type JSZip from "jszip";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import type { ResolvedRoutingOptions } from "@/lib/compile/routing";
+import type { DesignSnapshot } from "./revisionDiff";
+
+type UnknownRecord = Record<string, unknown>;
+
+export const MANIFEST_FILE_NAME = "manifest.json";
+export const MANIFEST_VERSION = 1;
+
+export interface ManifestFileEntry {
+  path: string;
+  sha256: string;
+  bytes: number;
+}
+
+/** Client-reported readiness counts at the moment the export was requested. */
+export interface ReadinessSnapshotInput {
+  diagnosticsCount?: number;
+  blockingDiagnosticsCount?: number;
+  warningDiagnosticsCount?: number;
+  openCriticalFindings?: number;
+}
+
+export interface ExportProvenance {
+  sessionId: string | null;
+  projectId: string | null;
+  attempt: number | null;
+  readinessScore: number | null;
+  criticalFindingsCount: number;
+  allowRiskyExport: boolean;
+  /** Name of the rule deck that weighed the export's findings. */
+  ruleDeck: string;
+  diagnostics: {
+    client: ReadinessSnapshotInput | null;
+    dfm: {
+      profile: string;
+      findingsCount: number;
+      blockingCount: number;
+      categories: Record<string, number>;
+    };
+  };
+}
+
+export interface ExportManifest {
+  version: number;
+  generator: string;
+  generatedAt: string;
+  source: {
+    tscircuitCodeSha256: string | null;
+    /** Per-file SHA-256 of a multi-file project; `tscircuitCodeSha256` is then its main.tsx. */
+    tscircuitFilesSha256?: Record<string, string>;
+    circuitJsonSha256: string;
+    /** Autorouter and seed the source was compiled with; absent when the request sent circuit JSON. */
+    routing?: ResolvedRoutingOptions;
+  };
+  provenance: ExportProvenance;
+  /** Physical design facts used to diff a later export against this one. */
+  design?: DesignSnapshot;
+  files: ManifestFileEntry[];
+}
+
+export interface ManifestVerification {
+  ok: boolean;
+  checkedCount: number;
+  mismatched: Array<{ path: string; expected: string; actual: string }>;
+  missing: string[];
+  unexpected: string[];
+}
+
+export function sha256Hex(content: string | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function asNonNegativeInteger(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+/** Keep only the known numeric counters from a client readiness snapshot. */
+export function sanitizeReadinessSnapshot(input: unknown): ReadinessSnapshotInput | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const record = input as UnknownRecord;
+  const snapshot: ReadinessSnapshotInput = {};
+  for (const key of [
+    "diagnosticsCount",
+    "blockingDiagnosticsCount",
+    "warningDiagnosticsCount",
+    "openCriticalFindings",
+  ] as const) {
+    const value = asNonNegativeInteger(record[key]);
+    if (value !== null) snapshot[key] = value;
+  }
+  return Object.keys(snapshot).length > 0 ? snapshot : null;
+}
+
+export function summarizeDfmFindings(
+  profile: string,
+  findings: ValidationDiagnostic[],
+  isBlocking: (finding: ValidationDiagnostic) => boolean,
+): ExportProvenance["diagnostics"]["dfm"] {
+  const categories: Record<string, number> = {};
+  for (const finding of findings) categories[finding.category] = (categories[finding.category] ?? 0) + 1;
+  return {
+    profile,
+    findingsCount: findings.length,
+    blockingCount: findings.filter(isBlocking).length,
+    categories,
+  };
+}
+
+async function hashZipEntries(zip: JSZip): Promise<ManifestFileEntry[]> {
+  const entries: ManifestFileEntry[] = [];
+  for (const [path, file] of Object.entries(zip.files)) {
+    if (file.dir || path === MANIFEST_FILE_NAME) continue;
+    const content = await file.async("uint8array");
+    entries.push({ path, sha256: sha256Hex(content), bytes: content.byteLength });
+  }
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Hash every file already in the zip and describe where the export came from.
+ * Call after all other files are written; `manifest.json` itself is not listed.
+ */
+export async function buildExportManifest(
+  zip: JSZip,
+  options: {
+    tscircuitCode: string | null;
+    tscircuitFiles?: Record<string, string> | null;
+    circuitJson: unknown[];
+    routing?: ResolvedRoutingOptions | null;
+    provenance: ExportProvenance;
+    design?: DesignSnapshot;
+    generatedAt?: Date;
+  },
+): Promise<ExportManifest> {
+  return {
+    version: MANIFEST_VERSION,
+    generator: "circuitforge",
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    source: {
+      tscircuitCodeSha256: options.tscircuitCode ? sha256Hex(options.tscircuitCode) : null,
+      ...(options.tscircuitFiles
+        ? {
+            tscircuitFilesSha256: Object.fromEntries(
+              Object.keys(options.tscircuitFiles)
+                .sort()
+                .map((name) => [name, sha256Hex(options.tscircuitFiles![name])]),
+            ),
+          }
+        : {}),
+      circuitJsonSha256: sha256Hex(JSON.stringify(options.circuitJson)),
+      ...(options.routing ? { routing: options.routing } : {}),
+    },
+    provenance: options.provenance,
+    ...(options.design ? { design: options.design } : {}),
+    files: await hashZipEntries(zip),
+  };
+}
+
+/** Read `manifest.json` from an export zip, or explain why it is unusable. */
+export async function readExportManifest(
+  zip: JSZip,
+): Promise<{ manifest: ExportManifest | null; error: string | null }> {
+  const file = zip.file(MANIFEST_FILE_NAME);
+  if (!file) return { manifest: null, error: `${MANIFEST_FILE_NAME} not found in archive` };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.async("string"));
+  } catch {
+    return { manifest: null, error: `${MANIFEST_FILE_NAME} is not valid JSON` };
+  }
+  const record = parsed as UnknownRecord;
+  const files = Array.isArray(record?.files) ? (record.files as unknown[]) : null;
+  const wellFormed =
+    files?.every((entry) => {
+      const item = entry as UnknownRecord;
+      return typeof item?.path === "string" && typeof item.sha256 === "string";
+    }) ?? false;
+  if (!wellFormed) return { manifest: null, error: `${MANIFEST_FILE_NAME} has no valid files list` };
+  return { manifest: parsed as ExportManifest, error: null };
+}
+
+/** Re-hash the archive and compare against the manifest's file list. */
+export async function verifyExportManifest(
+  zip: JSZip,
+  manifest: ExportManifest,
+): Promise<ManifestVerification> {
+  const actual = new Map((await hashZipEntries(zip)).map((entry) => [entry.path, entry.sha256]));
+  const expected = new Map(manifest.files.map((entry) => [entry.path, entry.sha256]));
+
+  const mismatched: ManifestVerification["mismatched"] = [];
+  const missing: string[] = [];
+  for (const [path, sha256] of expected) {
+    const found = actual.get(path);
+    if (found === undefined) missing.push(path);
+    else if (found !== sha256) mismatched.push({ path, expected: sha256, actual: found });
+  }
+  const unexpected = Array.from(actual.keys()).filter((path) => !expected.has(path));
+
+  return {
+    ok: mismatched.length === 0 && missing.length === 0 && unexpected.length === 0,
+    checkedCount: expected.size,
+    mismatched,
+    missing,
+    unexpected,
+  };
+}
@@ -0,0 +1,392 @@
+import type { RequirementItem, ValidationDiagnostic } from "@/lib/stream/types";
+import { buildCircuitJsonModel } from "./circuitJson";
+
+type UnknownRecord = Record<string, unknown>;
+
+export const NET_CLASS_NAMES = ["power", "high_current", "signal", "differential"] as const;
+export type NetClassName = (typeof NET_CLASS_NAMES)[number];
+
+/** Routing limits for every net in a class, in millimetres. */
+export interface NetClass {
+  minTraceWidthMm: number;
+  clearanceMm: number;
+  viaDiameterMm: number;
+  viaDrillMm: number;
+}
+
+export const DEFAULT_NET_CLASSES: Record<NetClassName, NetClass> = {
+  signal: { minTraceWidthMm: 0.15, clearanceMm: 0.15, viaDiameterMm: 0.6, viaDrillMm: 0.3 },
+  power: { minTraceWidthMm: 0.3, clearanceMm: 0.2, viaDiameterMm: 0.8, viaDrillMm: 0.4 },
+  high_current: { minTraceWidthMm: 0.5, clearanceMm: 0.25, viaDiameterMm: 1, viaDrillMm: 0.5 },
+  differential: { minTraceWidthMm: 0.2, clearanceMm: 0.2, viaDiameterMm: 0.6, viaDrillMm: 0.3 },
+};
+
+/** A net explicitly placed in a class by the request; `net` is a net name, matched case-insensitively. */
+export interface NetClassAssignment {
+  net: string;
+  netClass: NetClassName;
+  /** Continuous current the net carries; widens its traces beyond the class minimum per IPC-2221. */
+  currentA?: number;
+}
+
+/** `netClasses` as sent in a request body. */
+export interface NetClassInput {
+  classes?: Partial<Record<NetClassName, Partial<NetClass>>>;
+  assignments?: NetClassAssignment[];
+  /** Allowed conductor temperature rise for the IPC-2221 width calculation (default 10 °C). */
+  tempRiseC?: number;
+  /** Outer-layer copper weight for the IPC-2221 width calculation (default 1 oz). */
+  copperWeightOz?: number;
+}
+
+/**
+ * A class inferred from a requirement such as "2A motor supply". Net names are
+ * not known until the design compiles, so the rule keeps the name fragments
+ * that select its nets; with no fragments it applies to every supply net.
+ */
+export interface InferredNetClassRule {
+  requirementId: string;
+  requirement: string;
+  netClass: NetClassName;
+  currentA: number | null;
+  netFragments: string[];
+}
+
+export interface NetClassSettings {
+  classes: Record<NetClassName, NetClass>;
+  assignments: NetClassAssignment[];
+  inferred: InferredNetClassRule[];
+  tempRiseC: number;
+  copperWeightOz: number;
+}
+
+/** The class a compiled net ended up in, and why. */
+export interface ResolvedNetClass {
+  net: string;
+  netClass: NetClassName;
+  rule: NetClass;
+  currentA: number | null;
+  source: "declared" | "inferred";
+  requirementId?: string;
+}
+
+export const NET_CLASS_TRACE_WIDTH_CATEGORY = "net_class_trace_width";
+export const NET_CLASS_VIA_SIZE_CATEGORY = "net_class_via_size";
+
+const MAX_FINDINGS_PER_RULE = 25;
+const EPSILON = 1e-6;
+const MIL_TO_MM = 0.0254;
+const OZ_TO_MIL = 1.378;
+/** Below this a stated current is signal-level and the default rules already cover it. */
+const POWER_CURRENT_THRESHOLD_A = 0.1;
+/** Currents at or above this are routed as `high_current` rather than `power`. */
+const HIGH_CURRENT_THRESHOLD_A = 1;
+
+const CURRENT_PATTERN = /(\d+(?:\.\d+)?)\s*(ma|a)\b/i;
+const DIFFERENTIAL_PATTERN = /\b(differential|diff(?:erential)? pairs?|usb|lvds|ethernet|can bus|rs-?485)\b/i;
+const DIFFERENTIAL_NET_PATTERN = /(^|[_-])(d[+-]|d[pnm]|[a-z0-9]*_[pn])$/i;
+const SUPPLY_NET_PATTERN = /^(v[a-z0-9_]*|\+?\d+v\d*|pwr[a-z0-9_]*|[a-z0-9_]*_pwr)$/i;
+
+/** Load words in requirements and the net-name fragments boards usually give their supplies. */
+const LOAD_NET_FRAGMENTS: Array<[RegExp, string[]]> = [
+  [/\bmotors?\b/i, ["MOT"]],
+  [/\bservos?\b/i, ["SERVO", "SRV"]],
+  [/\bheaters?\b/i, ["HEAT", "HTR"]],
+  [/\bleds?\b|\blighting\b/i, ["LED"]],
+  [/\bbatter(y|ies)\b/i, ["BAT"]],
+  [/\busb\b/i, ["VBUS"]],
+  [/\bfans?\b/i, ["FAN"]],
+  [/\brelays?\b/i, ["RELAY", "RLY"]],
+  [/\bsolenoids?\b/i, ["SOL"]],
+  [/\bcharg(er|ing)\b/i, ["CHG", "CHRG"]],
+  [/\binput\b/i, ["VIN"]],
+];
+
+/**
+ * IPC-2221 conductor width for a continuous current on an outer layer:
+ * I = 0.048 · ΔT^0.44 · A^0.725, with A the cross-section in mil².
+ */
+export function ipc2221TraceWidthMm(currentA: number, tempRiseC = 10, copperWeightOz = 1): number {
+  if (currentA <= 0) return 0;
+  const areaMil2 = (currentA / (0.048 * tempRiseC ** 0.44)) ** (1 / 0.725);
+  return (areaMil2 / (copperWeightOz * OZ_TO_MIL)) * MIL_TO_MM;
+}
+
+function parseCurrentA(text: string): number | null {
+  const match = CURRENT_PATTERN.exec(text);
+  if (!match) return null;
+  const value = Number.parseFloat(match[1]);
+  return match[2].toLowerCase() === "ma" ? value / 1000 : value;
+}
+
+/** Classes implied by requirement items: a stated current makes a power class, interface names a differential one. */
+export function inferNetClassRules(requirements: RequirementItem[]): InferredNetClassRule[] {
+  const rules: InferredNetClassRule[] = [];
+  for (const item of requirements) {
+    if (item.status === "rejected") continue;
+    const text = [item.title, item.value].filter(Boolean).join(" ");
+    const currentA = parseCurrentA(text);
+    if (currentA !== null && currentA >= POWER_CURRENT_THRESHOLD_A) {
+      const explicitNets = text.match(/\b(V[A-Z0-9_]+|\+?\d+V\d*)\b/g) ?? [];
+      const loadFragments = LOAD_NET_FRAGMENTS.filter(([pattern]) => pattern.test(text)).flatMap(
+        ([, fragments]) => fragments,
+      );
+      rules.push({
+        requirementId: item.id,
+        requirement: item.title,
+        netClass: currentA >= HIGH_CURRENT_THRESHOLD_A ? "high_current" : "power",
+        currentA,
+        netFragments: [...new Set([...explicitNets, ...loadFragments].map((fragment) => fragment.toUpperCase()))],
+      });
+      continue;
+    }
+    if (DIFFERENTIAL_PATTERN.test(text)) {
+      rules.push({
+        requirementId: item.id,
+        requirement: item.title,
+        netClass: "differential",
+        currentA: null,
+        netFragments: [],
+      });
+    }
+  }
+  return rules;
+}
+
+/** Validate `netClasses` from a request body. */
+export function parseNetClassInput(input: unknown): { input: NetClassInput; errors: string[] } {
+  if (input === undefined || input === null) return { input: {}, errors: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { input: {}, errors: ["netClasses must be an object"] };
+  }
+  const record = input as UnknownRecord;
+  const parsed: NetClassInput = {};
+  const errors: string[] = [];
+  const isNonNegative = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  if (record.classes !== undefined) {
+    if (!record.classes || typeof record.classes !== "object" || Array.isArray(record.classes)) {
+      errors.push("netClasses.classes must be an object");
+    } else {
+      parsed.classes = {};
+      for (const [name, overrides] of Object.entries(record.classes as UnknownRecord)) {
+        if (!NET_CLASS_NAMES.includes(name as NetClassName)) {
+          errors.push(`netClasses.classes.${name} is not one of: ${NET_CLASS_NAMES.join(", ")}`);
+          continue;
+        }
+        const values: Partial<NetClass> = {};
+        for (const key of Object.keys(DEFAULT_NET_CLASSES.signal) as Array<keyof NetClass>) {
+          const value = (overrides as UnknownRecord | null)?.[key];
+          if (value === undefined) continue;
+          if (!isNonNegative(value)) errors.push(`netClasses.classes.${name}.${key} must be a non-negative number`);
+          else values[key] = value;
+        }
+        parsed.classes[name as NetClassName] = values;
+      }
+    }
+  }
+
+  if (record.assignments !== undefined) {
+    if (!Array.isArray(record.assignments)) {
+      errors.push("netClasses.assignments must be an array");
+    } else {
+      parsed.assignments = [];
+      record.assignments.forEach((entry, index) => {
+        const item = entry as UnknownRecord | null;
+        if (typeof item?.net !== "string" || item.net.trim().length === 0) {
+          errors.push(`netClasses.assignments[${index}].net must be a non-empty string`);
+          return;
+        }
+        if (!NET_CLASS_NAMES.includes(item.netClass as NetClassName)) {
+          errors.push(`netClasses.assignments[${index}].netClass must be one of: ${NET_CLASS_NAMES.join(", ")}`);
+          return;
+        }
+        if (item.currentA !== undefined && !isNonNegative(item.currentA)) {
+          errors.push(`netClasses.assignments[${index}].currentA must be a non-negative number`);
+          return;
+        }
+        parsed.assignments!.push({
+          net: item.net.trim(),
+          netClass: item.netClass as NetClassName,
+          ...(item.currentA !== undefined ? { currentA: item.currentA as number } : {}),
+        });
+      });
+    }
+  }
+
+  for (const key of ["tempRiseC", "copperWeightOz"] as const) {
+    const value = record[key];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      errors.push(`netClasses.${key} must be a positive number`);
+    } else {
+      parsed[key] = value;
+    }
+  }
+  return { input: parsed, errors };
+}
+
+export function resolveNetClassSettings(
+  input: NetClassInput = {},
+  requirements: RequirementItem[] = [],
+): NetClassSettings {
+  const classes = Object.fromEntries(
+    NET_CLASS_NAMES.map((name) => [name, { ...DEFAULT_NET_CLASSES[name], ...input.classes?.[name] }]),
+  ) as Record<NetClassName, NetClass>;
+  return {
+    classes,
+    assignments: input.assignments ?? [],
+    inferred: inferNetClassRules(requirements),
+    tempRiseC: input.tempRiseC ?? 10,
+    copperWeightOz: input.copperWeightOz ?? 1,
+  };
+}
+
+function ruleMatchesNet(rule: InferredNetClassRule, net: string): boolean {
+  const upper = net.toUpperCase();
+  if (rule.netClass === "differential") return DIFFERENTIAL_NET_PATTERN.test(net);
+  if (rule.netFragments.length > 0) return rule.netFragments.some((fragment) => upper.includes(fragment));
+  return SUPPLY_NET_PATTERN.test(net);
+}
+
+/**
+ * Put each compiled net in a class. Declared assignments win; otherwise the
+ * inferred rule with the highest current applies. Nets in no class are left
+ * to the DRC defaults.
+ */
+export function assignNetClasses(netNames: string[], settings: NetClassSettings): Map<string, ResolvedNetClass> {
+  const resolved = new Map<string, ResolvedNetClass>();
+  for (const net of netNames) {
+    const declared = settings.assignments.find((entry) => entry.net.toLowerCase() === net.toLowerCase());
+    if (declared) {
+      resolved.set(net, {
+        net,
+        netClass: declared.netClass,
+        rule: settings.classes[declared.netClass],
+        currentA: declared.currentA ?? null,
+        source: "declared",
+      });
+      continue;
+    }
+    const inferred = settings.inferred
+      .filter((rule) => ruleMatchesNet(rule, net))
+      .sort((a, b) => (b.currentA ?? 0) - (a.currentA ?? 0))[0];
+    if (!inferred) continue;
+    resolved.set(net, {
+      net,
+      netClass: inferred.netClass,
+      rule: settings.classes[inferred.netClass],
+      currentA: inferred.currentA,
+      source: "inferred",
+      requirementId: inferred.requirementId,
+    });
+  }
+  return resolved;
+}
+
+/** Trace width a net needs: its class minimum, or the IPC-2221 width for its current if wider. */
+export function requiredTraceWidthMm(assignment: ResolvedNetClass, settings: NetClassSettings): number {
+  const forCurrent =
+    assignment.currentA !== null
+      ? ipc2221TraceWidthMm(assignment.currentA, settings.tempRiseC, settings.copperWeightOz)
+      : 0;
+  return Math.max(assignment.rule.minTraceWidthMm, forCurrent);
+}
+
+function describeClass(assignment: ResolvedNetClass): string {
+  const current = assignment.currentA !== null ? `, ${assignment.currentA}A` : "";
+  return `${assignment.net} (${assignment.netClass}${current})`;
+}
+
+function makeNetClassDiagnostic(category: string, message: string, ids: string[]): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    severity: 8,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+    handling: "must_repair",
+  };
+}
+
+/**
+ * Check routed traces and vias against their net class. Trace width must meet
+ * the class minimum and the IPC-2221 width for the net's current; vias must
+ * meet the class pad and drill size. Violations are must-repair.
+ */
+export function runNetClassChecks(circuitJson: unknown[], settings: NetClassSettings): ValidationDiagnostic[] {
+  const model = buildCircuitJsonModel(circuitJson);
+  const assignments = assignNetClasses(
+    model.nets.map((net) => net.name),
+    settings,
+  );
+  if (assignments.size === 0) return [];
+
+  const widthFindings = new Map<string, ValidationDiagnostic>();
+  for (const segment of model.traces) {
+    const assignment = segment.netName ? assignments.get(segment.netName) : undefined;
+    if (!assignment || widthFindings.has(segment.traceId)) continue;
+    const required = requiredTraceWidthMm(assignment, settings);
+    if (segment.width >= required - EPSILON) continue;
+    const basis =
+      assignment.currentA !== null && required > assignment.rule.minTraceWidthMm
+        ? `IPC-2221 for ${assignment.currentA}A at ${settings.tempRiseC}°C rise on ${settings.copperWeightOz}oz copper`
+        : `${assignment.netClass} class minimum`;
+    widthFindings.set(
+      segment.traceId,
+      makeNetClassDiagnostic(
+        NET_CLASS_TRACE_WIDTH_CATEGORY,
+        `Trace ${segment.traceId} on ${describeClass(assignment)} is ${segment.width.toFixed(3)}mm wide; it needs ${required.toFixed(3)}mm (${basis}). Set thickness="${required.toFixed(2)}mm" on the <trace>.`,
+        [segment.traceId, assignment.net],
+      ),
+    );
+  }
+
+  const viaFindings: ValidationDiagnostic[] = [];
+  for (const via of model.vias) {
+    const assignment = via.netName ? assignments.get(via.netName) : undefined;
+    if (!assignment) continue;
+    const { viaDiameterMm, viaDrillMm } = assignment.rule;
+    if (via.outerDiameter >= viaDiameterMm - EPSILON && via.holeDiameter >= viaDrillMm - EPSILON) continue;
+    viaFindings.push(
+      makeNetClassDiagnostic(
+        NET_CLASS_VIA_SIZE_CATEGORY,
+        `Via ${via.id} on ${describeClass(assignment)} is ${via.outerDiameter.toFixed(2)}/${via.holeDiameter.toFixed(2)}mm; the ${assignment.netClass} class needs at least ${viaDiameterMm.toFixed(2)}/${viaDrillMm.toFixed(2)}mm.`,
+        [via.id, assignment.net],
+      ),
+    );
+  }
+
+  return [
+    ...Array.from(widthFindings.values()).slice(0, MAX_FINDINGS_PER_RULE),
+    ...viaFindings.slice(0, MAX_FINDINGS_PER_RULE),
+  ];
+}
+
+/** Prompt lines telling the agent which nets need wide traces, before any net exists. */
+export function describeNetClassesForPrompt(settings: NetClassSettings): string[] {
+  const width = (netClass: NetClassName, currentA: number | null) => {
+    const rule = settings.classes[netClass];
+    const forCurrent =
+      currentA !== null ? ipc2221TraceWidthMm(currentA, settings.tempRiseC, settings.copperWeightOz) : 0;
+    return `trace thickness >= ${Math.max(rule.minTraceWidthMm, forCurrent).toFixed(2)}mm, vias >= ${rule.viaDiameterMm}/${rule.viaDrillMm}mm`;
+  };
+  return [
+    ...settings.assignments.map(
+      (entry) =>
+        `- ${entry.net}: ${entry.netClass}${entry.currentA !== undefined ? ` (${entry.currentA}A)` : ""}; ${width(entry.netClass, entry.currentA ?? null)}`,
+    ),
+    ...settings.inferred.map((rule) => {
+      const target =
+        rule.netClass === "differential"
+          ? "differential pair nets"
+          : rule.netFragments.length > 0
+            ? `nets containing ${rule.netFragments.join(" / ")}`
+            : "supply nets";
+      const current = rule.currentA !== null ? ` (${rule.currentA}A)` : "";
+      return `- ${target} from "${rule.requirement}": ${rule.netClass}${current}; ${width(rule.netClass, rule.currentA)}`;
+    }),
+  ];
+}
@@ -0,0 +1,496 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { readBoardGeometry, type Point } from "./circuitJson";
+import type { PnpRowInput } from "./fabPresets";
+
+type UnknownRecord = Record<string, unknown>;
+
+export type PanelSeparation = "mouse_bites" | "v_score";
+export type PanelRails = "top_bottom" | "left_right" | "all" | "none";
+
+/** Panel parameters accepted from the export request body. */
+export interface PanelInput {
+  rows: number;
+  columns: number;
+  separation?: PanelSeparation;
+  rails?: PanelRails;
+  railWidthMm?: number;
+  spacingMm?: number;
+  fiducials?: boolean;
+  toolingHoles?: boolean;
+}
+
+export type PanelOptions = Required<PanelInput>;
+
+export interface PanelBoardInstance {
+  index: number;
+  row: number;
+  column: number;
+  offset: Point;
+}
+
+export interface PanelLayout {
+  width: number;
+  height: number;
+  boardWidth: number;
+  boardHeight: number;
+  options: PanelOptions;
+  boards: PanelBoardInstance[];
+  vScoreLines: Array<{ start: Point; end: Point }>;
+  fiducials: Point[];
+  toolingHoles: Point[];
+}
+
+export interface PanelizeResult {
+  circuitJson: unknown[];
+  layout: PanelLayout;
+  warnings: ValidationDiagnostic[];
+}
+
+export const PANEL_SEPARATIONS: PanelSeparation[] = ["mouse_bites", "v_score"];
+export const PANEL_RAILS: PanelRails[] = ["top_bottom", "left_right", "all", "none"];
+
+const MAX_PANEL_BOARDS = 100;
+const DEFAULT_RAIL_WIDTH_MM = 5;
+const DEFAULT_SPACING_MM = 2;
+const TAB_WIDTH_MM = 3;
+const TAB_PITCH_MM = 40;
+const MOUSE_BITE_DIAMETER_MM = 0.5;
+const MOUSE_BITE_PITCH_MM = 0.8;
+const FIDUCIAL_DIAMETER_MM = 1;
+const TOOLING_HOLE_DIAMETER_MM = 1.152;
+const RAIL_FEATURE_INSET_MM = 5;
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return isNumberInRange(value, min, max) && Number.isInteger(value);
+}
+
+/**
+ * Validate the shape of `panel` from an export request. Returns one message
+ * per invalid field; an empty list means the input is usable.
+ */
+export function validatePanelInput(input: unknown): string[] {
+  if (input === undefined || input === null) return [];
+  if (typeof input !== "object" || Array.isArray(input)) return ["panel must be an object"];
+  const record = input as UnknownRecord;
+  const errors: string[] = [];
+
+  if (!isIntegerInRange(record.rows, 1, 20)) errors.push("panel.rows must be an integer from 1 to 20");
+  if (!isIntegerInRange(record.columns, 1, 20)) {
+    errors.push("panel.columns must be an integer from 1 to 20");
+  }
+  if (
+    errors.length === 0 &&
+    (record.rows as number) * (record.columns as number) > MAX_PANEL_BOARDS
+  ) {
+    errors.push(`panel must not hold more than ${MAX_PANEL_BOARDS} boards`);
+  }
+  if (
+    record.separation !== undefined &&
+    !PANEL_SEPARATIONS.includes(record.separation as PanelSeparation)
+  ) {
+    errors.push(`panel.separation must be one of ${PANEL_SEPARATIONS.join(", ")}`);
+  }
+  if (record.rails !== undefined && !PANEL_RAILS.includes(record.rails as PanelRails)) {
+    errors.push(`panel.rails must be one of ${PANEL_RAILS.join(", ")}`);
+  }
+  if (record.railWidthMm !== undefined && !isNumberInRange(record.railWidthMm, 3, 20)) {
+    errors.push("panel.railWidthMm must be between 3 and 20");
+  }
+  if (record.spacingMm !== undefined && !isNumberInRange(record.spacingMm, 1, 10)) {
+    errors.push("panel.spacingMm must be between 1 and 10");
+  }
+  for (const key of ["fiducials", "toolingHoles"] as const) {
+    if (record[key] !== undefined && typeof record[key] !== "boolean") {
+      errors.push(`panel.${key} must be a boolean`);
+    }
+  }
+
+  return errors;
+}
+
+/** Fill panel defaults. Call `validatePanelInput` first. */
+export function resolvePanelOptions(input: PanelInput): PanelOptions {
+  const separation = input.separation ?? "mouse_bites";
+  return {
+    rows: input.rows,
+    columns: input.columns,
+    separation,
+    rails: input.rails ?? "top_bottom",
+    railWidthMm: input.railWidthMm ?? DEFAULT_RAIL_WIDTH_MM,
+    spacingMm: separation === "v_score" ? 0 : input.spacingMm ?? DEFAULT_SPACING_MM,
+    fiducials: input.fiducials ?? true,
+    toolingHoles: input.toolingHoles ?? true,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function shiftGeometry(value: unknown, dx: number, dy: number): unknown {
+  if (Array.isArray(value)) return value.map((entry) => shiftGeometry(entry, dx, dy));
+  if (!value || typeof value !== "object") return value;
+  const result: UnknownRecord = {};
+  for (const [key, entry] of Object.entries(value as UnknownRecord)) {
+    if (typeof entry === "number" && (key === "x" || key === "x1" || key === "x2")) {
+      result[key] = round(entry + dx);
+    } else if (typeof entry === "number" && (key === "y" || key === "y1" || key === "y2")) {
+      result[key] = round(entry + dy);
+    } else {
+      result[key] = shiftGeometry(entry, dx, dy);
+    }
+  }
+  return result;
+}
+
+function suffixIds(row: UnknownRecord, suffix: string): UnknownRecord {
+  const result: UnknownRecord = { ...row };
+  for (const [key, value] of Object.entries(row)) {
+    if (key.endsWith("_id") && typeof value === "string") {
+      result[key] = `${value}_${suffix}`;
+    } else if (key.endsWith("_ids") && Array.isArray(value)) {
+      result[key] = value.map((entry) => (typeof entry === "string" ? `${entry}_${suffix}` : entry));
+    }
+  }
+  return result;
+}
+
+function isRectangularOutline(outline: Point[]): boolean {
+  if (outline.length !== 4) return false;
+  return outline.every((point, index) => {
+    const next = outline[(index + 1) % outline.length];
+    return Math.abs(point.x - next.x) < 1e-6 || Math.abs(point.y - next.y) < 1e-6;
+  });
+}
+
+function panelWarning(category: string, message: string): ValidationDiagnostic {
+  return { category, message, signature: `panel|${category}`, severity: 5, family: category };
+}
+
+interface Interval {
+  min: number;
+  max: number;
+}
+
+/** Split a channel into routed pieces, leaving evenly spaced breakaway tabs. */
+function tabIntervals(span: Interval): { cuts: Interval[]; tabs: Interval[] } {
+  const length = span.max - span.min;
+  const count = Math.max(1, Math.round(length / TAB_PITCH_MM));
+  const tabs: Interval[] = [];
+  for (let index = 0; index < count; index++) {
+    const center = span.min + (length * (index + 0.5)) / count;
+    tabs.push({
+      min: Math.max(span.min, center - TAB_WIDTH_MM / 2),
+      max: Math.min(span.max, center + TAB_WIDTH_MM / 2),
+    });
+  }
+  const cuts: Interval[] = [];
+  let cursor = span.min;
+  for (const tab of tabs) {
+    if (tab.min - cursor > 0.01) cuts.push({ min: cursor, max: tab.min });
+    cursor = tab.max;
+  }
+  if (span.max - cursor > 0.01) cuts.push({ min: cursor, max: span.max });
+  return { cuts, tabs };
+}
+
+function mouseBitePositions(tab: Interval): number[] {
+  const count = Math.max(1, Math.floor((tab.max - tab.min - MOUSE_BITE_DIAMETER_MM) / MOUSE_BITE_PITCH_MM) + 1);
+  const center = (tab.min + tab.max) / 2;
+  return Array.from({ length: count }, (_, index) =>
+    round(center + (index - (count - 1) / 2) * MOUSE_BITE_PITCH_MM),
+  );
+}
+
+/**
+ * Step the single-board circuit JSON into a rows×columns panel centered on the
+ * origin. Board copper, silkscreen and drills are copied with suffixed ids; the
+ * panel outline, routed slots, mouse-bite holes, fiducials and tooling holes are
+ * added as `pcb_panel`, `pcb_cutout`, `pcb_smtpad` and `pcb_hole` rows so the
+ * regular Gerber/Excellon converters can render them. Boards are stepped on
+ * their outline's bounding box.
+ */
+export function panelizeCircuitJson(circuitJson: unknown[], input: PanelInput): PanelizeResult {
+  const board = readBoardGeometry(circuitJson);
+  if (!board) throw new Error("Panelization needs a pcb_board with a size or outline");
+  const options = resolvePanelOptions(input);
+  const warnings: ValidationDiagnostic[] = [];
+
+  const xs = board.outline.map((point) => point.x);
+  const ys = board.outline.map((point) => point.y);
+  const boardBox = { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  const boardWidth = boardBox.maxX - boardBox.minX;
+  const boardHeight = boardBox.maxY - boardBox.minY;
+  const boardCenter = { x: (boardBox.minX + boardBox.maxX) / 2, y: (boardBox.minY + boardBox.maxY) / 2 };
+  if (!isRectangularOutline(board.outline)) {
+    warnings.push(
+      panelWarning(
+        options.separation === "v_score" ? "panel_vscore_non_rectangular" : "panel_non_rectangular_outline",
+        "Board outline is not an axis-aligned rectangle; the panel is stepped on its bounding box and material outside the outline is not routed.",
+      ),
+    );
+  }
+
+  const gap = options.spacingMm;
+  const rails = {
+    top: options.rails === "top_bottom" || options.rails === "all",
+    bottom: options.rails === "top_bottom" || options.rails === "all",
+    left: options.rails === "left_right" || options.rails === "all",
+    right: options.rails === "left_right" || options.rails === "all",
+  };
+  const margin = (hasRail: boolean) => (hasRail ? gap + options.railWidthMm : 0);
+  const gridWidth = options.columns * boardWidth + (options.columns - 1) * gap;
+  const gridHeight = options.rows * boardHeight + (options.rows - 1) * gap;
+  const width = round(gridWidth + margin(rails.left) + margin(rails.right));
+  const height = round(gridHeight + margin(rails.top) + margin(rails.bottom));
+  const gridMinX = -width / 2 + margin(rails.left);
+  const gridMaxY = height / 2 - margin(rails.top);
+
+  const columnSpans: Interval[] = Array.from({ length: options.columns }, (_, column) => {
+    const min = gridMinX + column * (boardWidth + gap);
+    return { min, max: min + boardWidth };
+  });
+  const rowSpans: Interval[] = Array.from({ length: options.rows }, (_, row) => {
+    const max = gridMaxY - row * (boardHeight + gap);
+    return { min: max - boardHeight, max };
+  });
+
+  const boards: PanelBoardInstance[] = [];
+  rowSpans.forEach((rowSpan, row) => {
+    columnSpans.forEach((columnSpan, column) => {
+      boards.push({
+        index: boards.length + 1,
+        row,
+        column,
+        offset: {
+          x: round((columnSpan.min + columnSpan.max) / 2 - boardCenter.x),
+          y: round((rowSpan.min + rowSpan.max) / 2 - boardCenter.y),
+        },
+      });
+    });
+  });
+
+  const panelRows: UnknownRecord[] = [
+    {
+      type: "pcb_panel",
+      pcb_panel_id: "pcb_panel_0",
+      center: { x: 0, y: 0 },
+      width,
+      height,
+      thickness: board.thickness,
+      num_layers: board.numLayers,
+    },
+  ];
+
+  for (const instance of boards) {
+    const suffix = `r${instance.row}c${instance.column}`;
+    for (const item of circuitJson) {
+      if (!item || typeof item !== "object") continue;
+      const row = item as UnknownRecord;
+      if (typeof row.type !== "string" || !row.type.startsWith("pcb_")) continue;
+      if (row.type === "pcb_board" || row.type === "pcb_panel") continue;
+      panelRows.push(
+        shiftGeometry(suffixIds(row, suffix), instance.offset.x, instance.offset.y) as UnknownRecord,
+      );
+    }
+  }
+
+  const vScoreLines: PanelLayout["vScoreLines"] = [];
+  if (options.separation === "v_score") {
+    const xCuts = new Set<number>();
+    const yCuts = new Set<number>();
+    columnSpans.forEach((span, index) => {
+      if (index > 0 || rails.left) xCuts.add(round(span.min));
+      if (index < columnSpans.length - 1 || rails.right) xCuts.add(round(span.max));
+    });
+    rowSpans.forEach((span, index) => {
+      if (index > 0 || rails.top) yCuts.add(round(span.max));
+      if (index < rowSpans.length - 1 || rails.bottom) yCuts.add(round(span.min));
+    });
+    for (const x of Array.from(xCuts).sort((a, b) => a - b)) {
+      vScoreLines.push({ start: { x, y: round(-height / 2) }, end: { x, y: round(height / 2) } });
+    }
+    for (const y of Array.from(yCuts).sort((a, b) => a - b)) {
+      vScoreLines.push({ start: { x: round(-width / 2), y }, end: { x: round(width / 2), y } });
+    }
+  } else {
+    const verticalChannels: Interval[] = [];
+    const horizontalChannels: Interval[] = [];
+    columnSpans.forEach((span, index) => {
+      if (index === 0 && rails.left) verticalChannels.push({ min: span.min - gap, max: span.min });
+      if (index < columnSpans.length - 1 || rails.right) verticalChannels.push({ min: span.max, max: span.max + gap });
+    });
+    rowSpans.forEach((span, index) => {
+      if (index === 0 && rails.top) horizontalChannels.push({ min: span.max, max: span.max + gap });
+      if (index < rowSpans.length - 1 || rails.bottom) horizontalChannels.push({ min: span.min - gap, max: span.min });
+    });
+
+    let cutoutIndex = 0;
+    let holeIndex = 0;
+    const addCutout = (x: Interval, y: Interval) =>
+      panelRows.push({
+        type: "pcb_cutout",
+        pcb_cutout_id: `panel_cutout_${cutoutIndex++}`,
+        shape: "rect",
+        center: { x: round((x.min + x.max) / 2), y: round((y.min + y.max) / 2) },
+        width: round(x.max - x.min),
+        height: round(y.max - y.min),
+      });
+    const addMouseBite = (x: number, y: number) =>
+      panelRows.push({
+        type: "pcb_hole",
+        pcb_hole_id: `panel_mouse_bite_${holeIndex++}`,
+        hole_shape: "circle",
+        hole_diameter: MOUSE_BITE_DIAMETER_MM,
+        x: round(x),
+        y: round(y),
+      });
+
+    for (const channel of horizontalChannels) {
+      for (const span of columnSpans) {
+        const { cuts, tabs } = tabIntervals(span);
+        for (const cut of cuts) addCutout(cut, channel);
+        for (const tab of tabs) {
+          for (const x of mouseBitePositions(tab)) {
+            addMouseBite(x, channel.min);
+            addMouseBite(x, channel.max);
+          }
+        }
+      }
+      for (const vertical of verticalChannels) addCutout(vertical, channel);
+    }
+    for (const channel of verticalChannels) {
+      for (const span of rowSpans) {
+        const { cuts, tabs } = tabIntervals(span);
+        for (const cut of cuts) addCutout(channel, cut);
+        for (const tab of tabs) {
+          for (const y of mouseBitePositions(tab)) {
+            addMouseBite(channel.min, y);
+            addMouseBite(channel.max, y);
+          }
+        }
+      }
+    }
+  }
+
+  const railCenters: Point[] = [];
+  const inset = Math.min(RAIL_FEATURE_INSET_MM, width / 2, height / 2);
+  if (rails.top || rails.bottom) {
+    const railOffset = options.railWidthMm / 2;
+    if (rails.top) {
+      railCenters.push({ x: round(-width / 2 + inset), y: round(height / 2 - railOffset) });
+      railCenters.push({ x: round(width / 2 - inset), y: round(height / 2 - railOffset) });
+    }
+    if (rails.bottom) {
+      railCenters.push({ x: round(-width / 2 + inset), y: round(-height / 2 + railOffset) });
+      railCenters.push({ x: round(width / 2 - inset), y: round(-height / 2 + railOffset) });
+    }
+  } else if (rails.left || rails.right) {
+    const railOffset = options.railWidthMm / 2;
+    railCenters.push({ x: round(-width / 2 + railOffset), y: round(height / 2 - inset) });
+    railCenters.push({ x: round(-width / 2 + railOffset), y: round(-height / 2 + inset) });
+    railCenters.push({ x: round(width / 2 - railOffset), y: round(height / 2 - inset) });
+    railCenters.push({ x: round(width / 2 - railOffset), y: round(-height / 2 + inset) });
+  }
+
+  const toolingHoles: Point[] = [];
+  const fiducials: Point[] = [];
+  if ((options.fiducials || options.toolingHoles) && railCenters.length === 0) {
+    warnings.push(
+      panelWarning(
+        "panel_rails_missing",
+        "Fiducials and tooling holes need panel rails; none were added because rails are set to none.",
+      ),
+    );
+  } else {
+    railCenters.forEach((center, index) => {
+      if (options.toolingHoles) {
+        toolingHoles.push(center);
+        panelRows.push({
+          type: "pcb_hole",
+          pcb_hole_id: `panel_tooling_hole_${index}`,
+          hole_shape: "circle",
+          hole_diameter: TOOLING_HOLE_DIAMETER_MM,
+          x: center.x,
+          y: center.y,
+        });
+      }
+    });
+    if (options.fiducials) {
+      // Three of the four rail corners keep the pattern asymmetric; fiducials move
+      // along the rail past the tooling holes.
+      const step = options.toolingHoles ? RAIL_FEATURE_INSET_MM : 0;
+      const horizontalRails = rails.top || rails.bottom;
+      for (const center of railCenters.slice(0, 3)) {
+        const position = horizontalRails
+          ? { x: round(center.x - Math.sign(center.x) * step), y: center.y }
+          : { x: center.x, y: round(center.y - Math.sign(center.y) * step) };
+        fiducials.push(position);
+        panelRows.push({
+          type: "pcb_smtpad",
+          pcb_smtpad_id: `panel_fiducial_${fiducials.length - 1}`,
+          layer: "top",
+          shape: "circle",
+          radius: FIDUCIAL_DIAMETER_MM / 2,
+          x: position.x,
+          y: position.y,
+        });
+      }
+    }
+  }
+
+  return {
+    circuitJson: panelRows,
+    layout: {
+      width,
+      height,
+      boardWidth: round(boardWidth),
+      boardHeight: round(boardHeight),
+      options,
+      boards,
+      vScoreLines,
+      fiducials,
+      toolingHoles,
+    },
+    warnings,
+  };
+}
+
+/** Repeat pick-and-place rows once per board; designators get a `_<board index>` suffix. */
+export function panelizePickAndPlaceRows<T extends PnpRowInput>(rows: T[], layout: PanelLayout): T[] {
+  return layout.boards.flatMap((instance) =>
+    rows.map((row) => ({
+      ...row,
+      designator: `${row.designator}_${instance.index}`,
+      mid_x: round(row.mid_x + instance.offset.x),
+      mid_y: round(row.mid_y + instance.offset.y),
+    })),
+  );
+}
+
+function gerberCoordinate(value: number): string {
+  return String(Math.round(value * 1_000_000));
+}
+
+/** V-score lines as a standalone Gerber layer (FileFunction `Other,V-Score`). */
+export function buildVScoreGerber(layout: PanelLayout): string {
+  const lines = [
+    "%TF.GenerationSoftware,CircuitForge,panelize*%",
+    "%TF.FileFunction,Other,V-Score*%",
+    "%TF.FilePolarity,Positive*%",
+    "%FSLAX46Y46*%",
+    "%MOMM*%",
+    "%ADD10C,0.100000*%",
+    "D10*",
+  ];
+  for (const line of layout.vScoreLines) {
+    lines.push(`X${gerberCoordinate(line.start.x)}Y${gerberCoordinate(line.start.y)}D02*`);
+    lines.push(`X${gerberCoordinate(line.end.x)}Y${gerberCoordinate(line.end.y)}D01*`);
+  }
+  lines.push("M02*");
+  return `${lines.join("\n")}\n`;
+}
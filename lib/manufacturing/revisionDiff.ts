@@ -0,0 +1,415 @@
+import JSZip from "jszip";
+import type { IterationDiff } from "@/lib/stream/types";
+import type { CircuitJsonModel, CopperSide } from "./circuitJson";
+import { readExportManifest, sha256Hex } from "./manifest";
+
+type UnknownRecord = Record<string, unknown>;
+
+export interface DesignSnapshotComponent {
+  name: string;
+  value: string | null;
+  footprint: string | null;
+  mpn: string | null;
+  x: number;
+  y: number;
+  rotation: number;
+  side: CopperSide;
+}
+
+/**
+ * The physical facts of one export, small enough to live in `manifest.json`
+ * so a later export can be diffed against it without the original design.
+ */
+export interface DesignSnapshot {
+  components: DesignSnapshotComponent[];
+  /** Net name to sorted `Designator.port` pins. */
+  nets: Record<string, string[]>;
+  traceCount: number;
+  /** Layer key (F_Cu, Edge_Cuts, plated_drill, ...) to a hash that ignores creation dates. */
+  layerHashes: Record<string, string>;
+}
+
+export interface ComponentMove {
+  name: string;
+  from: { x: number; y: number; rotation: number; side: CopperSide };
+  to: { x: number; y: number; rotation: number; side: CopperSide };
+  distanceMm: number;
+}
+
+export interface NetChange {
+  name: string;
+  change: "added" | "removed" | "renamed" | "changed";
+  previousName?: string;
+  addedPins: string[];
+  removedPins: string[];
+}
+
+export interface BomLineChange {
+  line: string;
+  change: "added" | "removed" | "changed";
+  fromQuantity: number;
+  toQuantity: number;
+  addedDesignators: string[];
+  removedDesignators: string[];
+}
+
+export interface LayerChange {
+  layer: string;
+  change: "added" | "removed" | "changed";
+}
+
+export interface RevisionDiff extends IterationDiff {
+  movedComponents: ComponentMove[];
+  netChanges: NetChange[];
+  bomChanges: BomLineChange[];
+  layerChanges: LayerChange[];
+}
+
+/** Placement changes below this are treated as rounding noise. */
+const MOVE_TOLERANCE_MM = 0.01;
+const ROTATION_TOLERANCE_DEG = 0.5;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/** Drop generator timestamps so identical artwork hashes the same across exports. */
+export function hashLayerContent(content: string): string {
+  const stable = content
+    .split(/\r?\n/)
+    .filter((line) => !/CreationDate|^G04 Created by|^; DRILL file .* date /.test(line))
+    .join("\n");
+  return sha256Hex(stable);
+}
+
+export function buildDesignSnapshot(
+  model: CircuitJsonModel,
+  layerFiles: Record<string, string>,
+): DesignSnapshot {
+  const namesById = new Map(model.components.map((component) => [component.pcbComponentId, component.name]));
+  const padsById = new Map(model.pads.map((pad) => [pad.id, pad]));
+
+  const nets: Record<string, string[]> = {};
+  for (const net of model.nets) {
+    const pins = new Set<string>();
+    for (const padId of net.pads) {
+      const pad = padsById.get(padId);
+      if (!pad) continue;
+      const owner = pad.pcbComponentId ? namesById.get(pad.pcbComponentId) ?? pad.pcbComponentId : "board";
+      pins.add(`${owner}.${pad.portName ?? pad.id}`);
+    }
+    nets[net.name] = Array.from(pins).sort();
+  }
+
+  const layerHashes: Record<string, string> = {};
+  for (const [layer, content] of Object.entries(layerFiles)) {
+    if (typeof content === "string") layerHashes[layer] = hashLayerContent(content);
+  }
+
+  return {
+    components: model.components
+      .map((component) => ({
+        name: component.name,
+        value: component.value,
+        footprint: component.footprint,
+        mpn: component.manufacturerPartNumber,
+        x: round(component.center.x),
+        y: round(component.center.y),
+        rotation: round(component.rotation),
+        side: component.side,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    nets,
+    traceCount: new Set(model.traces.map((trace) => trace.traceId)).size,
+    layerHashes,
+  };
+}
+
+function isStringArrayRecord(value: unknown): value is Record<string, string[]> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.values(value).every((pins) => Array.isArray(pins) && pins.every((pin) => typeof pin === "string"))
+  );
+}
+
+/** Accept a snapshot read back from an uploaded manifest; null when it is not usable. */
+export function parseDesignSnapshot(input: unknown): DesignSnapshot | null {
+  if (!input || typeof input !== "object") return null;
+  const record = input as UnknownRecord;
+  if (!Array.isArray(record.components) || !isStringArrayRecord(record.nets)) return null;
+  const layerHashes = record.layerHashes;
+  if (!layerHashes || typeof layerHashes !== "object" || Array.isArray(layerHashes)) return null;
+  const componentsValid = record.components.every((entry) => {
+    const component = entry as UnknownRecord;
+    return (
+      typeof component?.name === "string" &&
+      typeof component.x === "number" &&
+      typeof component.y === "number" &&
+      typeof component.rotation === "number"
+    );
+  });
+  if (!componentsValid) return null;
+  return {
+    components: record.components as DesignSnapshotComponent[],
+    nets: record.nets,
+    traceCount: typeof record.traceCount === "number" ? record.traceCount : 0,
+    layerHashes: layerHashes as Record<string, string>,
+  };
+}
+
+export interface PreviousExportInput {
+  /** Base64-encoded export zip. */
+  zip?: string;
+  /** Or just its `manifest.json`, already parsed. */
+  manifest?: unknown;
+}
+
+/**
+ * Resolve `previousExport` from an export request to the design snapshot in
+ * its manifest. Errors read like the other request validation messages.
+ */
+export async function loadPreviousExport(input: unknown): Promise<{
+  snapshot: DesignSnapshot | null;
+  generatedAt: string | null;
+  errors: string[];
+}> {
+  const fail = (message: string) => ({ snapshot: null, generatedAt: null, errors: [message] });
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return fail("previousExport must be an object with 'zip' or 'manifest'");
+  }
+  const record = input as PreviousExportInput;
+
+  let manifest: unknown = record.manifest;
+  if (typeof record.zip === "string" && record.zip.trim()) {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(Buffer.from(record.zip, "base64"));
+    } catch {
+      return fail("previousExport.zip is not a base64-encoded zip archive");
+    }
+    const read = await readExportManifest(zip);
+    if (!read.manifest) return fail(`previousExport.zip: ${read.error}`);
+    manifest = read.manifest;
+  } else if (!manifest || typeof manifest !== "object") {
+    return fail("previousExport must include a 'zip' string or a 'manifest' object");
+  }
+
+  const manifestRecord = manifest as UnknownRecord;
+  const snapshot = parseDesignSnapshot(manifestRecord.design);
+  if (!snapshot) {
+    return fail("previousExport manifest has no design snapshot; re-export the previous revision first");
+  }
+  return {
+    snapshot,
+    generatedAt: typeof manifestRecord.generatedAt === "string" ? manifestRecord.generatedAt : null,
+    errors: [],
+  };
+}
+
+function rotationDelta(a: number, b: number): number {
+  const delta = Math.abs(((a - b) % 360) + 360) % 360;
+  return Math.min(delta, 360 - delta);
+}
+
+function diffNets(previous: Record<string, string[]>, next: Record<string, string[]>): NetChange[] {
+  const changes: NetChange[] = [];
+  const pinKey = (pins: string[]) => pins.join("|");
+  const unmatchedPrevious = Object.keys(previous).filter((name) => !(name in next));
+  const unmatchedNext = Object.keys(next).filter((name) => !(name in previous));
+
+  for (const name of Object.keys(next)) {
+    if (!(name in previous)) continue;
+    const before = new Set(previous[name]);
+    const after = new Set(next[name]);
+    const addedPins = next[name].filter((pin) => !before.has(pin));
+    const removedPins = previous[name].filter((pin) => !after.has(pin));
+    if (addedPins.length > 0 || removedPins.length > 0) {
+      changes.push({ name, change: "changed", addedPins, removedPins });
+    }
+  }
+
+  // Auto-generated net names follow the lowest pin, so an identical pin set is a rename.
+  const previousByPins = new Map(unmatchedPrevious.map((name) => [pinKey(previous[name]), name]));
+  const renamedFrom = new Set<string>();
+  for (const name of unmatchedNext) {
+    const previousName = previousByPins.get(pinKey(next[name]));
+    if (previousName && !renamedFrom.has(previousName)) {
+      renamedFrom.add(previousName);
+      changes.push({ name, change: "renamed", previousName, addedPins: [], removedPins: [] });
+    } else {
+      changes.push({ name, change: "added", addedPins: next[name], removedPins: [] });
+    }
+  }
+  for (const name of unmatchedPrevious) {
+    if (!renamedFrom.has(name)) {
+      changes.push({ name, change: "removed", addedPins: [], removedPins: previous[name] });
+    }
+  }
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function bomLineKey(component: DesignSnapshotComponent): string {
+  return [component.mpn ?? component.value ?? "?", component.footprint ?? "?"].join(" / ");
+}
+
+function groupBomLines(components: DesignSnapshotComponent[]): Map<string, string[]> {
+  const lines = new Map<string, string[]>();
+  for (const component of components) {
+    const key = bomLineKey(component);
+    lines.set(key, [...(lines.get(key) ?? []), component.name]);
+  }
+  return lines;
+}
+
+function diffBomLines(previous: DesignSnapshotComponent[], next: DesignSnapshotComponent[]): BomLineChange[] {
+  const before = groupBomLines(previous);
+  const after = groupBomLines(next);
+  const changes: BomLineChange[] = [];
+  for (const line of new Set([...before.keys(), ...after.keys()])) {
+    const from = before.get(line) ?? [];
+    const to = after.get(line) ?? [];
+    const addedDesignators = to.filter((name) => !from.includes(name));
+    const removedDesignators = from.filter((name) => !to.includes(name));
+    if (addedDesignators.length === 0 && removedDesignators.length === 0) continue;
+    changes.push({
+      line,
+      change: from.length === 0 ? "added" : to.length === 0 ? "removed" : "changed",
+      fromQuantity: from.length,
+      toQuantity: to.length,
+      addedDesignators,
+      removedDesignators,
+    });
+  }
+  return changes.sort((a, b) => a.line.localeCompare(b.line));
+}
+
+function diffLayers(previous: Record<string, string>, next: Record<string, string>): LayerChange[] {
+  const changes: LayerChange[] = [];
+  for (const layer of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (!(layer in previous)) changes.push({ layer, change: "added" });
+    else if (!(layer in next)) changes.push({ layer, change: "removed" });
+    else if (previous[layer] !== next[layer]) changes.push({ layer, change: "changed" });
+  }
+  return changes.sort((a, b) => a.layer.localeCompare(b.layer));
+}
+
+/**
+ * Physical diff between two exports: the `createIterationDiff` deltas (added,
+ * removed and re-valued components, trace count) plus moves, nets, BOM lines
+ * and changed Gerber/drill layers.
+ */
+export function createRevisionDiff(previous: DesignSnapshot, next: DesignSnapshot): RevisionDiff {
+  const before = new Map(previous.components.map((component) => [component.name, component]));
+  const after = new Map(next.components.map((component) => [component.name, component]));
+
+  const addedComponents = Array.from(after.keys()).filter((name) => !before.has(name));
+  const removedComponents = Array.from(before.keys()).filter((name) => !after.has(name));
+  const changedComponentValues: IterationDiff["changedComponentValues"] = [];
+  const movedComponents: ComponentMove[] = [];
+
+  for (const [name, component] of after) {
+    const prior = before.get(name);
+    if (!prior) continue;
+    if (prior.value && component.value && prior.value !== component.value) {
+      changedComponentValues.push({ name, from: prior.value, to: component.value });
+    }
+    const distanceMm = Math.hypot(component.x - prior.x, component.y - prior.y);
+    if (
+      distanceMm > MOVE_TOLERANCE_MM ||
+      rotationDelta(component.rotation, prior.rotation) > ROTATION_TOLERANCE_DEG ||
+      component.side !== prior.side
+    ) {
+      movedComponents.push({
+        name,
+        from: { x: prior.x, y: prior.y, rotation: prior.rotation, side: prior.side },
+        to: { x: component.x, y: component.y, rotation: component.rotation, side: component.side },
+        distanceMm: round(distanceMm),
+      });
+    }
+  }
+
+  const netChanges = diffNets(previous.nets, next.nets);
+  const bomChanges = diffBomLines(previous.components, next.components);
+  const layerChanges = diffLayers(previous.layerHashes, next.layerHashes);
+  const traceCountDelta = next.traceCount - previous.traceCount;
+
+  const summaryBits: string[] = [];
+  if (addedComponents.length > 0) summaryBits.push(`+${addedComponents.length} components`);
+  if (removedComponents.length > 0) summaryBits.push(`-${removedComponents.length} components`);
+  if (changedComponentValues.length > 0) summaryBits.push(`${changedComponentValues.length} value changes`);
+  if (movedComponents.length > 0) summaryBits.push(`${movedComponents.length} moved`);
+  if (traceCountDelta !== 0) {
+    summaryBits.push(traceCountDelta > 0 ? `+${traceCountDelta} traces` : `${traceCountDelta} traces`);
+  }
+  if (netChanges.length > 0) summaryBits.push(`${netChanges.length} net changes`);
+  if (bomChanges.length > 0) summaryBits.push(`${bomChanges.length} BOM line changes`);
+  if (layerChanges.length > 0) summaryBits.push(`${layerChanges.length} layers changed`);
+
+  return {
+    addedComponents,
+    removedComponents,
+    changedComponentValues,
+    traceCountDelta,
+    movedComponents,
+    netChanges,
+    bomChanges,
+    layerChanges,
+    summary: summaryBits.length > 0 ? summaryBits.join(", ") : "No physical changes detected",
+  };
+}
+
+function formatPlacement(placement: ComponentMove["from"]): string {
+  return `(${placement.x}, ${placement.y}) ${placement.rotation}° ${placement.side}`;
+}
+
+function section(title: string, lines: string[]): string[] {
+  return [`## ${title}`, "", ...(lines.length > 0 ? lines : ["No changes."]), ""];
+}
+
+export function renderRevisionDiffMarkdown(
+  diff: RevisionDiff,
+  context: { previousGeneratedAt?: string | null; generatedAt: string },
+): string {
+  const components = [
+    ...diff.addedComponents.map((name) => `- Added ${name}`),
+    ...diff.removedComponents.map((name) => `- Removed ${name}`),
+    ...diff.changedComponentValues.map((entry) => `- ${entry.name}: value ${entry.from} → ${entry.to}`),
+    ...diff.movedComponents.map(
+      (move) => `- ${move.name}: moved ${formatPlacement(move.from)} → ${formatPlacement(move.to)} (${move.distanceMm} mm)`,
+    ),
+  ];
+  const nets = diff.netChanges.map((net) => {
+    if (net.change === "renamed") return `- ${net.previousName} renamed to ${net.name}`;
+    if (net.change === "added") return `- Added ${net.name}: ${net.addedPins.join(", ") || "no pins"}`;
+    if (net.change === "removed") return `- Removed ${net.name}: ${net.removedPins.join(", ") || "no pins"}`;
+    const parts = [
+      ...(net.addedPins.length > 0 ? [`+${net.addedPins.join(", +")}`] : []),
+      ...(net.removedPins.length > 0 ? [`-${net.removedPins.join(", -")}`] : []),
+    ];
+    return `- ${net.name}: ${parts.join("; ")}`;
+  });
+  const bom = diff.bomChanges.map((line) => {
+    const designators = [
+      ...line.addedDesignators.map((name) => `+${name}`),
+      ...line.removedDesignators.map((name) => `-${name}`),
+    ].join(", ");
+    return `- ${line.change} ${line.line}: qty ${line.fromQuantity} → ${line.toQuantity} (${designators})`;
+  });
+  const layers = diff.layerChanges.map((layer) => `- ${layer.layer}: ${layer.change}`);
+
+  return [
+    "# Changes since previous export",
+    "",
+    `Previous export: ${context.previousGeneratedAt ?? "unknown"}`,
+    `This export: ${context.generatedAt}`,
+    "",
+    `Summary: ${diff.summary}`,
+    "",
+    ...section("Components", components),
+    ...section("Nets", nets),
+    ...section("BOM lines", bom),
+    ...section("Gerber and drill layers", layers),
+  ].join("\n");
+}
@@ -0,0 +1,98 @@
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { parseRotationCorrections, type RotationCorrection } from "./rotationCorrections";
+
+interface ProjectCorrectionsEntry {
+  corrections: RotationCorrection[];
+  updatedAt: number;
+}
+
+interface PersistedStoreShape {
+  version: 1;
+  savedAt: number;
+  projects: Array<{ projectId: string; entry: ProjectCorrectionsEntry }>;
+}
+
+const MAX_CORRECTIONS_PER_PROJECT = 500;
+const STORE_PATH =
+  process.env.CIRCUITFORGE_ROTATION_STORE_PATH?.trim() ||
+  join(tmpdir(), "circuitforge-rotation-corrections-v1.json");
+
+const projectStore = new Map<string, ProjectCorrectionsEntry>();
+let loadPromise: Promise<void> | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+
+async function ensureLoaded() {
+  if (loadPromise) {
+    await loadPromise;
+    return;
+  }
+
+  loadPromise = (async () => {
+    try {
+      const raw = await fs.readFile(STORE_PATH, "utf8");
+      const parsed = JSON.parse(raw) as PersistedStoreShape;
+      if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.projects)) return;
+
+      for (const row of parsed.projects) {
+        if (!row || typeof row.projectId !== "string" || !row.projectId.trim()) continue;
+        const { corrections } = parseRotationCorrections(row.entry?.corrections);
+        projectStore.set(row.projectId, {
+          corrections,
+          updatedAt: typeof row.entry?.updatedAt === "number" ? row.entry.updatedAt : Date.now(),
+        });
+      }
+    } catch {
+      // ignore read/parse errors; store starts empty
+    }
+  })();
+
+  await loadPromise;
+}
+
+async function writeStoreToDisk() {
+  const payload: PersistedStoreShape = {
+    version: 1,
+    savedAt: Date.now(),
+    projects: Array.from(projectStore.entries()).map(([projectId, entry]) => ({
+      projectId,
+      entry,
+    })),
+  };
+  const tmpPath = `${STORE_PATH}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, JSON.stringify(payload), "utf8");
+    await fs.rename(tmpPath, STORE_PATH);
+  } catch {
+    // swallow write errors; in-memory store remains valid
+    await fs.rm(tmpPath, { force: true }).catch(() => {});
+  }
+}
+
+export async function getProjectRotationCorrections(
+  projectId: string,
+): Promise<RotationCorrection[]> {
+  await ensureLoaded();
+  return projectStore.get(projectId)?.corrections ?? [];
+}
+
+/** Replace a project's correction rules and persist them. */
+export async function saveProjectRotationCorrections(
+  projectId: string,
+  corrections: RotationCorrection[],
+): Promise<RotationCorrection[]> {
+  await ensureLoaded();
+  const bounded = corrections.slice(0, MAX_CORRECTIONS_PER_PROJECT);
+  projectStore.set(projectId, { corrections: bounded, updatedAt: Date.now() });
+  writeChain = writeChain.then(writeStoreToDisk);
+  await writeChain;
+  return bounded;
+}
+
+export async function resetRotationCorrectionStoreForTests(): Promise<void> {
+  await ensureLoaded();
+  projectStore.clear();
+  await writeChain;
+  await fs.rm(STORE_PATH, { force: true }).catch(() => {});
+}
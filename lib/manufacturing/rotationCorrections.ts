@@ -0,0 +1,252 @@
+import type { CircuitJsonModel, CopperSide } from "./circuitJson";
+import type { FabPresetId, PnpRowInput } from "./fabPresets";
+
+export type RotationCorrectionSource = "builtin" | "project" | "request";
+
+/**
+ * One correction rule. `footprint` matches the tscircuit footprinter string
+ * case-insensitively; a trailing `*` makes it a prefix match. `lcsc` matches the
+ * JLCPCB/LCSC part number exactly and wins over footprint rules.
+ */
+export interface RotationCorrection {
+  footprint?: string;
+  lcsc?: string;
+  rotation: number;
+  offsetX?: number;
+  offsetY?: number;
+  note?: string;
+}
+
+export interface AppliedRotationCorrection {
+  designator: string;
+  footprint: string | null;
+  lcsc: string | null;
+  source: RotationCorrectionSource;
+  matchedBy: "lcsc" | "footprint";
+  rule: RotationCorrection;
+  before: { x: number; y: number; rotation: number };
+  after: { x: number; y: number; rotation: number };
+}
+
+export interface RotationCorrectionTable {
+  builtin: RotationCorrection[];
+  project: RotationCorrection[];
+  request: RotationCorrection[];
+}
+
+/**
+ * Package zero-orientation differences between tscircuit footprints and the
+ * JLCPCB assembly library. Keep entries sorted by footprint family.
+ */
+export const BUILT_IN_ROTATION_CORRECTIONS: RotationCorrection[] = [
+  { footprint: "dfn*", rotation: 270, note: "DFN pin 1 top-left in JLC library" },
+  { footprint: "lqfp*", rotation: 270, note: "QFP pin 1 top-left in JLC library" },
+  { footprint: "msop*", rotation: 270, note: "SOP-family pin 1 top-left in JLC library" },
+  { footprint: "qfn*", rotation: 270, note: "QFN pin 1 top-left in JLC library" },
+  { footprint: "qfp*", rotation: 270, note: "QFP pin 1 top-left in JLC library" },
+  { footprint: "soic*", rotation: 270, note: "SOP-family pin 1 top-left in JLC library" },
+  { footprint: "sop*", rotation: 270, note: "SOP-family pin 1 top-left in JLC library" },
+  { footprint: "sot223*", rotation: 180, note: "SOT-223 tab orientation flipped in JLC library" },
+  { footprint: "sot23*", rotation: 180, note: "SOT-23 single pin side flipped in JLC library" },
+  { footprint: "sot323*", rotation: 180, note: "SOT-323 single pin side flipped in JLC library" },
+  { footprint: "sot363*", rotation: 180, note: "SOT-363 pin 1 flipped in JLC library" },
+  { footprint: "sot89*", rotation: 180, note: "SOT-89 tab orientation flipped in JLC library" },
+  { footprint: "ssop*", rotation: 270, note: "SOP-family pin 1 top-left in JLC library" },
+  { footprint: "tqfp*", rotation: 270, note: "QFP pin 1 top-left in JLC library" },
+  { footprint: "tssop*", rotation: 270, note: "SOP-family pin 1 top-left in JLC library" },
+  { lcsc: "C2040", rotation: 270, note: "RP2040 QFN-56" },
+  { lcsc: "C6186", rotation: 180, note: "AMS1117-3.3 SOT-223" },
+];
+
+/**
+ * Built-in rules for a fab's assembly library. Only the JLCPCB table is known;
+ * other fabs and the generic PNP keep tscircuit's zero orientation.
+ */
+export function builtInRotationCorrectionsFor(fabPresetId: FabPresetId | null | undefined): RotationCorrection[] {
+  return fabPresetId === "jlcpcb" ? BUILT_IN_ROTATION_CORRECTIONS : [];
+}
+
+function asFiniteNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+/**
+ * Validate user-supplied correction rules. Returns the parsed rules plus one
+ * message per rejected entry.
+ */
+export function parseRotationCorrections(input: unknown): {
+  corrections: RotationCorrection[];
+  errors: string[];
+} {
+  if (input === undefined || input === null) return { corrections: [], errors: [] };
+  if (!Array.isArray(input)) {
+    return { corrections: [], errors: ["rotationCorrections must be an array"] };
+  }
+
+  const corrections: RotationCorrection[] = [];
+  const errors: string[] = [];
+  input.forEach((raw, index) => {
+    if (!raw || typeof raw !== "object") {
+      errors.push(`rotationCorrections[${index}] must be an object`);
+      return;
+    }
+    const record = raw as Record<string, unknown>;
+    const footprint = nonEmptyString(record.footprint);
+    const lcsc = nonEmptyString(record.lcsc);
+    const rotation = asFiniteNumber(record.rotation);
+    if (!footprint && !lcsc) {
+      errors.push(`rotationCorrections[${index}] needs a footprint or lcsc key`);
+      return;
+    }
+    if (rotation === null) {
+      errors.push(`rotationCorrections[${index}].rotation must be a number`);
+      return;
+    }
+    const offsetX = record.offsetX === undefined ? null : asFiniteNumber(record.offsetX);
+    const offsetY = record.offsetY === undefined ? null : asFiniteNumber(record.offsetY);
+    if ((record.offsetX !== undefined && offsetX === null) || (record.offsetY !== undefined && offsetY === null)) {
+      errors.push(`rotationCorrections[${index}] offsets must be numbers`);
+      return;
+    }
+    corrections.push({
+      ...(footprint ? { footprint } : {}),
+      ...(lcsc ? { lcsc: lcsc.toUpperCase() } : {}),
+      rotation,
+      ...(offsetX !== null ? { offsetX } : {}),
+      ...(offsetY !== null ? { offsetY } : {}),
+      ...(nonEmptyString(record.note) ? { note: nonEmptyString(record.note)! } : {}),
+    });
+  });
+
+  return { corrections, errors };
+}
+
+function normalizeFootprint(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function footprintMatches(pattern: string, footprint: string): boolean {
+  const normalizedPattern = normalizeFootprint(pattern);
+  const normalizedFootprint = normalizeFootprint(footprint);
+  if (normalizedPattern.endsWith("*")) {
+    return normalizedFootprint.startsWith(normalizedPattern.slice(0, -1));
+  }
+  return normalizedFootprint === normalizedPattern;
+}
+
+function footprintSpecificity(pattern: string): number {
+  return pattern.endsWith("*") ? pattern.length - 1 : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Resolve the rule for one part. Later tables (request > project > builtin)
+ * override earlier ones; within a table an LCSC match beats a footprint match
+ * and exact footprints beat longer prefixes.
+ */
+export function resolveRotationCorrection(
+  table: RotationCorrectionTable,
+  footprint: string | null,
+  lcsc: string | null,
+): { rule: RotationCorrection; source: RotationCorrectionSource; matchedBy: "lcsc" | "footprint" } | null {
+  const sources: RotationCorrectionSource[] = ["request", "project", "builtin"];
+  for (const source of sources) {
+    const rules = table[source];
+    if (lcsc) {
+      const byLcsc = rules.find((rule) => rule.lcsc?.toUpperCase() === lcsc.toUpperCase());
+      if (byLcsc) return { rule: byLcsc, source, matchedBy: "lcsc" };
+    }
+    if (footprint) {
+      const byFootprint = rules
+        .filter((rule) => !rule.lcsc && rule.footprint && footprintMatches(rule.footprint, footprint))
+        .sort((a, b) => footprintSpecificity(b.footprint!) - footprintSpecificity(a.footprint!))[0];
+      if (byFootprint) return { rule: byFootprint, source, matchedBy: "footprint" };
+    }
+  }
+  return null;
+}
+
+function roundTo(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function correctedPosition(
+  row: PnpRowInput,
+  rule: RotationCorrection,
+  side: CopperSide,
+): { x: number; y: number } {
+  const offsetX = rule.offsetX ?? 0;
+  const offsetY = rule.offsetY ?? 0;
+  if (offsetX === 0 && offsetY === 0) return { x: row.mid_x, y: row.mid_y };
+  const radians = (row.rotation * Math.PI) / 180;
+  const localX = side === "bottom" ? -offsetX : offsetX;
+  return {
+    x: roundTo(row.mid_x + localX * Math.cos(radians) - offsetY * Math.sin(radians), 4),
+    y: roundTo(row.mid_y + localX * Math.sin(radians) + offsetY * Math.cos(radians), 4),
+  };
+}
+
+/**
+ * Apply the correction table to pick-and-place rows. Bottom-side parts are
+ * viewed mirrored, so their rotation correction is subtracted.
+ */
+export function applyRotationCorrections<T extends PnpRowInput>(
+  rows: T[],
+  model: CircuitJsonModel,
+  table: RotationCorrectionTable,
+): { rows: T[]; applied: AppliedRotationCorrection[] } {
+  const components = new Map(model.components.map((component) => [component.name, component]));
+  const applied: AppliedRotationCorrection[] = [];
+
+  const corrected = rows.map((row) => {
+    const component = components.get(row.designator);
+    const footprint = component?.footprint ?? null;
+    const lcsc = component?.supplierPartNumbers.jlcpcb?.[0] ?? null;
+    const match = resolveRotationCorrection(table, footprint, lcsc);
+    if (!match) return row;
+
+    const side: CopperSide = row.layer === "bottom" ? "bottom" : "top";
+    const baseRotation = Number.isFinite(row.rotation) ? row.rotation : 0;
+    const delta = side === "bottom" ? -match.rule.rotation : match.rule.rotation;
+    const rotation = ((roundTo(baseRotation + delta, 2) % 360) + 360) % 360;
+    const position = correctedPosition({ ...row, rotation: baseRotation }, match.rule, side);
+    applied.push({
+      designator: row.designator,
+      footprint,
+      lcsc,
+      source: match.source,
+      matchedBy: match.matchedBy,
+      rule: match.rule,
+      before: { x: row.mid_x, y: row.mid_y, rotation: baseRotation },
+      after: { x: position.x, y: position.y, rotation },
+    });
+    return { ...row, mid_x: position.x, mid_y: position.y, rotation };
+  });
+
+  return { rows: corrected, applied };
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Same layout as `convertCircuitJsonToPickAndPlaceCsv` (Papa.unparse, CRLF). */
+export function renderPickAndPlaceCsv(rows: PnpRowInput[]): string {
+  const lines = ["Designator,Mid X,Mid Y,Layer,Rotation"];
+  for (const row of rows) {
+    lines.push(
+      [
+        csvCell(row.designator),
+        row.mid_x.toFixed(3),
+        row.mid_y.toFixed(3),
+        csvCell(String(row.layer ?? "")),
+        String(row.rotation ?? ""),
+      ].join(","),
+    );
+  }
+  return lines.join("\r\n");
+}
@@ -0,0 +1,121 @@
+import type { BoardGeometry } from "./circuitJson";
+
+export type SurfaceFinish =
+  | "HASL"
+  | "HASL_LEAD_FREE"
+  | "ENIG"
+  | "ENEPIG"
+  | "OSP"
+  | "IMMERSION_SILVER"
+  | "IMMERSION_TIN"
+  | "NONE";
+
+/** Stackup parameters accepted from the export request body. */
+export interface ExportStackupInput {
+  layerCount?: number;
+  boardThicknessMm?: number;
+  copperWeightOz?: number;
+  finish?: SurfaceFinish;
+  soldermaskColor?: string;
+  silkscreenColor?: string;
+}
+
+export interface ExportStackup {
+  layerCount: number;
+  boardThicknessMm: number;
+  copperWeightOz: number;
+  copperThicknessMm: number;
+  finish: SurfaceFinish;
+  soldermaskColor: string;
+  silkscreenColor: string;
+}
+
+export const SURFACE_FINISHES: SurfaceFinish[] = [
+  "HASL",
+  "HASL_LEAD_FREE",
+  "ENIG",
+  "ENEPIG",
+  "OSP",
+  "IMMERSION_SILVER",
+  "IMMERSION_TIN",
+  "NONE",
+];
+
+const COPPER_THICKNESS_MM_PER_OZ = 0.035;
+const DEFAULT_BOARD_THICKNESS_MM = 1.6;
+const DEFAULT_COPPER_WEIGHT_OZ = 1;
+const DEFAULT_FINISH: SurfaceFinish = "HASL_LEAD_FREE";
+
+function isPositiveNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate the shape of `stackup` from an export request. Returns one message
+ * per invalid field; an empty list means the input is usable.
+ */
+export function validateStackupInput(input: unknown): string[] {
+  if (input === undefined || input === null) return [];
+  if (typeof input !== "object" || Array.isArray(input)) return ["stackup must be an object"];
+  const record = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (record.layerCount !== undefined) {
+    const layerCount = record.layerCount;
+    if (
+      typeof layerCount !== "number" ||
+      !Number.isInteger(layerCount) ||
+      layerCount < 1 ||
+      layerCount > 32 ||
+      (layerCount > 1 && layerCount % 2 !== 0)
+    ) {
+      errors.push("stackup.layerCount must be 1 or an even integer up to 32");
+    }
+  }
+  if (
+    record.boardThicknessMm !== undefined &&
+    !isPositiveNumberInRange(record.boardThicknessMm, 0.2, 6)
+  ) {
+    errors.push("stackup.boardThicknessMm must be between 0.2 and 6");
+  }
+  if (
+    record.copperWeightOz !== undefined &&
+    !isPositiveNumberInRange(record.copperWeightOz, 0.25, 6)
+  ) {
+    errors.push("stackup.copperWeightOz must be between 0.25 and 6");
+  }
+  if (
+    record.finish !== undefined &&
+    !SURFACE_FINISHES.includes(record.finish as SurfaceFinish)
+  ) {
+    errors.push(`stackup.finish must be one of ${SURFACE_FINISHES.join(", ")}`);
+  }
+  for (const key of ["soldermaskColor", "silkscreenColor"] as const) {
+    if (record[key] !== undefined && (typeof record[key] !== "string" || !record[key].trim())) {
+      errors.push(`stackup.${key} must be a non-empty string`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Merge request stackup parameters over what the board itself declares.
+ * Call `validateStackupInput` first; invalid fields here fall back to defaults.
+ */
+export function resolveExportStackup(
+  input: ExportStackupInput | null | undefined,
+  board: BoardGeometry | null,
+): ExportStackup {
+  const safeInput = validateStackupInput(input).length === 0 ? input ?? {} : {};
+  const copperWeightOz = safeInput.copperWeightOz ?? DEFAULT_COPPER_WEIGHT_OZ;
+  return {
+    layerCount: safeInput.layerCount ?? board?.numLayers ?? 2,
+    boardThicknessMm: safeInput.boardThicknessMm ?? board?.thickness ?? DEFAULT_BOARD_THICKNESS_MM,
+    copperWeightOz,
+    copperThicknessMm: Number((copperWeightOz * COPPER_THICKNESS_MM_PER_OZ).toFixed(4)),
+    finish: safeInput.finish ?? DEFAULT_FINISH,
+    soldermaskColor: safeInput.soldermaskColor?.trim() ?? "Green",
+    silkscreenColor: safeInput.silkscreenColor?.trim() ?? "White",
+  };
+}
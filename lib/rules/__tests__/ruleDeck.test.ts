@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { assessKicadFindingsFromRaw } from "@/lib/kicad/review";
+import {
+  DEFAULT_RULE_DECK,
+  applyRuleDeck,
+  defaultSeverity,
+  parseRuleDeck,
+  parseRuleDeckText,
+} from "../ruleDeck";
+
+function finding(category: string, severity: number, extra: Partial<ValidationDiagnostic> = {}): ValidationDiagnostic {
+  return { category, message: `${category} finding`, severity, signature: `${category}|x`, ...extra };
+}
+
+describe("rule decks", () => {
+  it("scores unscored findings the way the validators always have", () => {
+    const score = (category: string, source: "tscircuit" | "kicad") =>
+      defaultSeverity(DEFAULT_RULE_DECK, { category, source });
+    expect(score("pcb_trace_error", "tscircuit")).toBe(6);
+    expect(score("pcb_port_not_connected_short", "tscircuit")).toBe(7);
+    expect(score("source_missing_property_error", "tscircuit")).toBe(4);
+    expect(score("pad_collision", "kicad")).toBe(9);
+    expect(score("copper_spacing", "kicad")).toBe(7);
+    expect(score("dfm_annular_ring", "kicad")).toBe(6);
+    expect(score("unconnected_items", "kicad")).toBe(5);
+  });
+
+  it("keeps ERC duplicate references below the blocking threshold", () => {
+    const findings = assessKicadFindingsFromRaw([
+      { category: "DUPLICATE_REFERENCE", message: "ERC DUPLICATE_REFERENCE: #PWR01 is used by GND and +3V3", severity: 9 },
+      { category: "DUPLICATE_REFERENCE", message: "ERC DUPLICATE_REFERENCE: R1 is used twice", severity: 9 },
+      { category: "pin_not_driven", message: "ERC pin_not_driven: U1.VDD", severity: 9 },
+    ]);
+    expect(findings.map((item) => item.severity)).toEqual([4, 6, 9]);
+    expect(findings.every((item) => item.source === "kicad")).toBe(true);
+  });
+
+  it("demotes power-symbol duplicate references exactly as the old word-boundary pattern did", () => {
+    const legacyPattern = /\b(gnd|vcc|vdd|vss|3v3|v3v3|5v|v5v|\+3v3|\+5v)\b/i;
+    const messages = [
+      "ERC DUPLICATE_REFERENCE: #PWR01 is used by GND and +3V3",
+      "ERC DUPLICATE_REFERENCE: #PWR02 is used by VDD",
+      "ERC DUPLICATE_REFERENCE: #PWR03 is used by v5v",
+      "ERC DUPLICATE_REFERENCE: #PWR04 is used by V3V3",
+      "ERC DUPLICATE_REFERENCE: U1 is used by AGND",
+      "ERC DUPLICATE_REFERENCE: U2 is used by VDDIO",
+      "ERC DUPLICATE_REFERENCE: R3 is used by 15V",
+      "ERC DUPLICATE_REFERENCE: R25V is used twice",
+    ];
+    const severities = applyRuleDeck(
+      messages.map((message) => finding("duplicate_reference", 9, { message })),
+      DEFAULT_RULE_DECK,
+    ).map((item) => item.severity);
+    expect(severities).toEqual(messages.map((message) => (legacyPattern.test(message) ? 4 : 6)));
+    expect(severities).toEqual([4, 4, 4, 4, 6, 6, 6, 6]);
+  });
+
+  it("reads a YAML deck that extends the built-in deck", () => {
+    const { deck, errors } = parseRuleDeck(`
+# Team deck: bus findings are advisory, silkscreen is ignored.
+version: 1
+name: team-lenient
+extends: circuitforge-default
+defaults:
+  - match:
+      source: kicad
+    severity: 3
+rules:
+  - match:
+      family: bus_i2c_pullup_multiple
+    handling: should_demote
+  - match:
+      categoryIncludes: [silkscreen, "courtyard"]
+    enabled: false
+  - match:
+      source: kicad
+      messageIncludes: ["PIN_NOT_DRIVEN"]
+    maxSeverity: 7
+`);
+    expect(errors).toEqual([]);
+    expect(deck.name).toBe("team-lenient");
+    expect(deck.defaults[0]).toEqual({ match: { source: "kicad" }, severity: 3 });
+    expect(deck.defaults.slice(1)).toEqual(DEFAULT_RULE_DECK.defaults);
+    expect(deck.rules.slice(0, DEFAULT_RULE_DECK.rules.length)).toEqual(DEFAULT_RULE_DECK.rules);
+    expect(defaultSeverity(deck, { category: "pad_collision", source: "kicad" })).toBe(3);
+
+    const applied = applyRuleDeck(
+      [
+        finding("bus_i2c_pullup_multiple", 6, { family: "bus_i2c_pullup_multiple" }),
+        finding("silkscreen_overlap", 5),
+        finding("pin_not_driven", 9, { source: "kicad" }),
+        finding("duplicate_reference", 9),
+      ],
+      deck,
+    );
+    expect(applied.map((item) => [item.category, item.severity, item.handling])).toEqual([
+      ["bus_i2c_pullup_multiple", 6, "should_demote"],
+      ["pin_not_driven", 7, undefined],
+      ["duplicate_reference", 6, undefined],
+    ]);
+  });
+
+  it("accepts JSON text, objects and built-in names", () => {
+    const json = parseRuleDeck(
+      JSON.stringify({
+        version: 1,
+        name: "strict",
+        rules: [{ match: { category: "duplicate_reference" }, severity: 9, handling: "must_repair" }],
+      }),
+    );
+    expect(json.errors).toEqual([]);
+    expect(json.deck.defaults).toEqual([]);
+    expect(applyRuleDeck([finding("duplicate_reference", 4)], json.deck)[0]).toMatchObject({
+      severity: 9,
+      handling: "must_repair",
+    });
+    expect(parseRuleDeck({ version: 1, name: "empty" }).deck.rules).toEqual([]);
+    expect(parseRuleDeck("circuitforge-default").deck).toBe(DEFAULT_RULE_DECK);
+    expect(parseRuleDeck(undefined).deck).toBe(DEFAULT_RULE_DECK);
+  });
+
+  it("reports every problem in an invalid deck", () => {
+    expect(
+      parseRuleDeck({
+        version: 2,
+        extends: "house-style",
+        defaults: [{ match: { source: "spice" }, severity: 11 }],
+        rules: [
+          { match: { message: "(a+)+$" }, handling: "ignore" },
+          { match: { category: "x", messageIncludes: "gnd" } },
+        ],
+      }).errors,
+    ).toEqual([
+      "ruleDeck.version must be 1",
+      "ruleDeck.name must be a non-empty string",
+      "ruleDeck.extends must name a built-in deck: circuitforge-default",
+      "ruleDeck.defaults[0].match.source must be one of: agent, tscircuit, kicad",
+      "ruleDeck.defaults[0].severity must be a number from 0 to 10",
+      "ruleDeck.rules[0].match.message is not supported; match message text with messageIncludes or messageWords",
+      "ruleDeck.rules[0].handling must be one of: auto_fixable, should_demote, must_repair",
+      "ruleDeck.rules[0] must set enabled, severity, maxSeverity or handling",
+      "ruleDeck.rules[1].match.messageIncludes must be a non-empty list of strings",
+      "ruleDeck.rules[1] must set enabled, severity, maxSeverity or handling",
+    ]);
+    expect(parseRuleDeck("team-deck").errors[0]).toMatch(
+      /^ruleDeck is neither a built-in deck \(circuitforge-default\) nor a valid JSON\/YAML deck: /,
+    );
+    expect(() => parseRuleDeckText("version: 1\nname: &anchor x")).toThrow('line 2: unsupported YAML syntax "&"');
+  });
+
+  it("rejects YAML outside the subset a deck needs instead of misreading it", () => {
+    const rejected: Array<[string, string]> = [
+      ["", "the document is empty"],
+      ["# only a comment\n---", "the document is empty"],
+      ["version: 1\n\tname: x", "line 2: tabs are not allowed for indentation"],
+      ["version: 1\nname: *ref", 'line 2: unsupported YAML syntax "*"'],
+      ["version: 1\nname: |", 'line 2: unsupported YAML syntax "|"'],
+      ["version: 1\nname: >", 'line 2: unsupported YAML syntax ">"'],
+      ["version: 1\nname: !tag x", 'line 2: unsupported YAML syntax "!"'],
+      ["rules:\n  - match: { source: kicad }", 'line 2: unsupported YAML syntax "{"'],
+      ["name: 'team", "line 1: unterminated string"],
+      ["rules: [a, b", "line 1: unterminated list"],
+      ["version 1", 'line 1: expected "key: value"'],
+      ["rules:", "line 1: expected a value"],
+      ["version: 1\n  name: x", "line 2: unexpected indentation"],
+      ["  version: 1\nname: x", "line 2: unexpected content"],
+    ];
+    for (const [text, message] of rejected) {
+      expect(() => parseRuleDeckText(text), JSON.stringify(text)).toThrow(message);
+    }
+    expect(() => parseRuleDeckText('name: "team')).toThrow(SyntaxError);
+    expect(parseRuleDeck("version: 1\n\tname: x").errors).toEqual([
+      "ruleDeck is neither a built-in deck (circuitforge-default) nor a valid JSON/YAML deck: line 2: tabs are not allowed for indentation",
+    ]);
+  });
+});
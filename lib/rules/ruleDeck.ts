@@ -0,0 +1,406 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+
+/**
+ * Rule decks decide how the validators' findings are weighed: the severity a
+ * finding gets when its producer has none, and per family or category
+ * overrides of severity, handling and whether the rule runs at all. The
+ * built-in deck reproduces the scoring the validators always had; a project
+ * can pick another deck, or extend the built-in one, per request.
+ */
+
+export const RULE_DECK_VERSION = 1;
+export const DEFAULT_RULE_DECK_NAME = "circuitforge-default";
+
+/** Severity for findings no default covers. */
+const FALLBACK_SEVERITY = 5;
+
+type DiagnosticSource = NonNullable<ValidationDiagnostic["source"]>;
+type DiagnosticHandling = NonNullable<ValidationDiagnostic["handling"]>;
+
+const SOURCES: DiagnosticSource[] = ["agent", "tscircuit", "kicad"];
+const HANDLINGS: DiagnosticHandling[] = ["auto_fixable", "should_demote", "must_repair"];
+
+/** Every field set must match; names compare case-insensitively. */
+export interface RuleMatch {
+  source?: DiagnosticSource;
+  family?: string;
+  category?: string;
+  /** The category contains any of these. */
+  categoryIncludes?: string[];
+  /**
+   * The message contains any of these, case-insensitively. Plain fragments
+   * rather than patterns, so a request's deck cannot run its own regular
+   * expressions against every finding.
+   */
+  messageIncludes?: string[];
+  /** The message contains any of these as a whole word (`\b` boundaries), case-insensitively. */
+  messageWords?: string[];
+}
+
+export interface RuleDeckDefault {
+  match: RuleMatch;
+  severity: number;
+}
+
+export interface RuleDeckRule {
+  match: RuleMatch;
+  enabled?: boolean;
+  severity?: number;
+  /** Caps the severity without raising findings already below it. */
+  maxSeverity?: number;
+  handling?: DiagnosticHandling;
+}
+
+export interface RuleDeck {
+  version: typeof RULE_DECK_VERSION;
+  name: string;
+  /** First match wins. */
+  defaults: RuleDeckDefault[];
+  /** Every match applies, in order, so later rules override earlier ones. */
+  rules: RuleDeckRule[];
+}
+
+/** A deck as a request sends it: a built-in deck name, JSON or YAML text, or the parsed object. */
+export type RuleDeckInput = string | Record<string, unknown>;
+
+const POWER_SYMBOL_NAMES = ["gnd", "vcc", "vdd", "vss", "3v3", "v3v3", "5v", "v5v", "+3v3", "+5v"];
+
+export const DEFAULT_RULE_DECK: RuleDeck = {
+  version: RULE_DECK_VERSION,
+  name: DEFAULT_RULE_DECK_NAME,
+  defaults: [
+    // tscircuit circuit-json errors: routing and placement problems outrank the rest.
+    { match: { source: "tscircuit", categoryIncludes: ["trace", "via", "clearance", "out_of_bounds"] }, severity: 6 },
+    { match: { source: "tscircuit", categoryIncludes: ["short"] }, severity: 7 },
+    { match: { source: "tscircuit" }, severity: 4 },
+    // KiCad review findings reported without a severity of their own.
+    { match: { source: "kicad", categoryIncludes: ["short", "collision", "error"] }, severity: 9 },
+    { match: { source: "kicad", categoryIncludes: ["clearance", "overlap", "spacing"] }, severity: 7 },
+    { match: { source: "kicad", categoryIncludes: ["warning", "dfm", "manufactur"] }, severity: 6 },
+  ],
+  rules: [
+    // Duplicate references never block; the converter repeats power-symbol references by design.
+    { match: { category: "duplicate_reference" }, maxSeverity: 6 },
+    { match: { category: "duplicate_reference", messageWords: POWER_SYMBOL_NAMES }, maxSeverity: 4 },
+  ],
+};
+
+export const BUILT_IN_RULE_DECKS: Record<string, RuleDeck> = {
+  [DEFAULT_RULE_DECK_NAME]: DEFAULT_RULE_DECK,
+};
+
+// Keyed by the deck's own word list, so patterns live only as long as their deck.
+const wordPatterns = new WeakMap<string[], RegExp>();
+
+/** The words are escaped, so the pattern is a plain alternation of literals. */
+function wordPattern(words: string[]): RegExp {
+  let pattern = wordPatterns.get(words);
+  if (!pattern) {
+    const literals = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    pattern = new RegExp(`\\b(?:${literals.join("|")})\\b`, "i");
+    wordPatterns.set(words, pattern);
+  }
+  return pattern;
+}
+
+function matchesRule(match: RuleMatch, diagnostic: Pick<ValidationDiagnostic, "category" | "message" | "source" | "family">) {
+  const category = diagnostic.category.toLowerCase();
+  if (match.source && diagnostic.source !== match.source) return false;
+  if (match.family && (diagnostic.family ?? diagnostic.category).toLowerCase() !== match.family.toLowerCase()) return false;
+  if (match.category && category !== match.category.toLowerCase()) return false;
+  if (match.categoryIncludes && !match.categoryIncludes.some((fragment) => category.includes(fragment.toLowerCase()))) {
+    return false;
+  }
+  const message = diagnostic.message.toLowerCase();
+  if (match.messageIncludes && !match.messageIncludes.some((fragment) => message.includes(fragment.toLowerCase()))) {
+    return false;
+  }
+  return !match.messageWords || wordPattern(match.messageWords).test(diagnostic.message);
+}
+
+/** Severity for a finding whose producer did not score it. */
+export function defaultSeverity(
+  deck: RuleDeck,
+  diagnostic: Pick<ValidationDiagnostic, "category" | "source"> & Partial<Pick<ValidationDiagnostic, "message" | "family">>,
+): number {
+  const candidate = { message: "", ...diagnostic };
+  return deck.defaults.find((entry) => matchesRule(entry.match, candidate))?.severity ?? FALLBACK_SEVERITY;
+}
+
+/** Applies the deck's rules: drops disabled findings and overrides severity and handling. */
+export function applyRuleDeck(diagnostics: ValidationDiagnostic[], deck: RuleDeck): ValidationDiagnostic[] {
+  if (deck.rules.length === 0) return diagnostics;
+  return diagnostics.flatMap((diagnostic) => {
+    let next = diagnostic;
+    let enabled = true;
+    for (const rule of deck.rules) {
+      if (!matchesRule(rule.match, diagnostic)) continue;
+      if (rule.enabled !== undefined) enabled = rule.enabled;
+      if (rule.severity !== undefined) next = { ...next, severity: rule.severity };
+      if (rule.maxSeverity !== undefined && next.severity > rule.maxSeverity) {
+        next = { ...next, severity: rule.maxSeverity };
+      }
+      if (rule.handling) next = { ...next, handling: rule.handling };
+    }
+    return enabled ? [next] : [];
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isSeverity(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 10;
+}
+
+function parseMatch(value: unknown, path: string, errors: string[]): RuleMatch {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return {};
+  }
+  const match: RuleMatch = {};
+  if (value.source !== undefined) {
+    if (SOURCES.includes(value.source as DiagnosticSource)) match.source = value.source as DiagnosticSource;
+    else errors.push(`${path}.source must be one of: ${SOURCES.join(", ")}`);
+  }
+  for (const key of ["family", "category"] as const) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] === "string" && value[key].trim()) match[key] = value[key].trim();
+    else errors.push(`${path}.${key} must be a non-empty string`);
+  }
+  for (const key of ["categoryIncludes", "messageIncludes", "messageWords"] as const) {
+    if (value[key] === undefined) continue;
+    const fragments = value[key];
+    if (Array.isArray(fragments) && fragments.length > 0 && fragments.every((item) => typeof item === "string" && item)) {
+      match[key] = fragments as string[];
+    } else {
+      errors.push(`${path}.${key} must be a non-empty list of strings`);
+    }
+  }
+  if (value.message !== undefined) {
+    errors.push(`${path}.message is not supported; match message text with messageIncludes or messageWords`);
+  }
+  return match;
+}
+
+function parseDefaults(value: unknown, path: string, errors: string[]): RuleDeckDefault[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return [];
+  }
+  return value.flatMap((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${entryPath} must be an object`);
+      return [];
+    }
+    const match = parseMatch(entry.match, `${entryPath}.match`, errors);
+    if (!isSeverity(entry.severity)) {
+      errors.push(`${entryPath}.severity must be a number from 0 to 10`);
+      return [];
+    }
+    return [{ match, severity: entry.severity }];
+  });
+}
+
+function parseRules(value: unknown, path: string, errors: string[]): RuleDeckRule[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return [];
+  }
+  return value.flatMap((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${entryPath} must be an object`);
+      return [];
+    }
+    const rule: RuleDeckRule = { match: parseMatch(entry.match, `${entryPath}.match`, errors) };
+    if (entry.enabled !== undefined) {
+      if (typeof entry.enabled === "boolean") rule.enabled = entry.enabled;
+      else errors.push(`${entryPath}.enabled must be a boolean`);
+    }
+    for (const key of ["severity", "maxSeverity"] as const) {
+      if (entry[key] === undefined) continue;
+      if (isSeverity(entry[key])) rule[key] = entry[key];
+      else errors.push(`${entryPath}.${key} must be a number from 0 to 10`);
+    }
+    if (entry.handling !== undefined) {
+      if (HANDLINGS.includes(entry.handling as DiagnosticHandling)) rule.handling = entry.handling as DiagnosticHandling;
+      else errors.push(`${entryPath}.handling must be one of: ${HANDLINGS.join(", ")}`);
+    }
+    if (
+      rule.enabled === undefined &&
+      rule.severity === undefined &&
+      rule.maxSeverity === undefined &&
+      rule.handling === undefined
+    ) {
+      errors.push(`${entryPath} must set enabled, severity, maxSeverity or handling`);
+    }
+    return [rule];
+  });
+}
+
+/**
+ * Resolves a request's `ruleDeck` to a deck. A document names itself, states
+ * `version: 1`, and may `extends` a built-in deck: its defaults are tried
+ * before the base deck's, and its rules apply after the base deck's. Without
+ * `extends` the document is the whole deck.
+ */
+export function parseRuleDeck(input: unknown): { deck: RuleDeck; errors: string[] } {
+  if (input === undefined || input === null) return { deck: DEFAULT_RULE_DECK, errors: [] };
+  let document: unknown = input;
+  if (typeof input === "string") {
+    const builtIn = BUILT_IN_RULE_DECKS[input.trim()];
+    if (builtIn) return { deck: builtIn, errors: [] };
+    try {
+      document = parseRuleDeckText(input);
+    } catch (error) {
+      return {
+        deck: DEFAULT_RULE_DECK,
+        errors: [
+          `ruleDeck is neither a built-in deck (${Object.keys(BUILT_IN_RULE_DECKS).join(", ")}) nor a valid JSON/YAML deck: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+  }
+  if (!isRecord(document)) return { deck: DEFAULT_RULE_DECK, errors: ["ruleDeck must be a deck name, a JSON/YAML deck or an object"] };
+
+  const errors: string[] = [];
+  if (document.version !== RULE_DECK_VERSION) errors.push(`ruleDeck.version must be ${RULE_DECK_VERSION}`);
+  const name = typeof document.name === "string" && document.name.trim() ? document.name.trim() : null;
+  if (!name) errors.push("ruleDeck.name must be a non-empty string");
+  let base: RuleDeck | null = null;
+  if (document.extends !== undefined) {
+    base = typeof document.extends === "string" ? BUILT_IN_RULE_DECKS[document.extends] ?? null : null;
+    if (!base) errors.push(`ruleDeck.extends must name a built-in deck: ${Object.keys(BUILT_IN_RULE_DECKS).join(", ")}`);
+  }
+  const defaults = parseDefaults(document.defaults, "ruleDeck.defaults", errors);
+  const rules = parseRules(document.rules, "ruleDeck.rules", errors);
+  if (errors.length > 0) return { deck: DEFAULT_RULE_DECK, errors };
+
+  return {
+    deck: {
+      version: RULE_DECK_VERSION,
+      name: name!,
+      defaults: [...defaults, ...(base?.defaults ?? [])],
+      rules: [...(base?.rules ?? []), ...rules],
+    },
+    errors: [],
+  };
+}
+
+/** JSON when the text is a JSON object, else the block YAML subset below. */
+export function parseRuleDeckText(text: string): unknown {
+  return text.trim().startsWith("{") ? JSON.parse(text) : parseYamlSubset(text);
+}
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  number: number;
+}
+
+/**
+ * Reads the YAML a rule deck needs: nested block maps and `- ` lists, plain
+ * or quoted scalars, `[a, b]` flow lists and `#` comments. Anchors, multi-line
+ * strings and flow maps are rejected rather than misread.
+ */
+function parseYamlSubset(text: string): unknown {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripYamlComment(raw).trimEnd();
+    if (!content.trim() || content.trim() === "---") return;
+    if (/^\s*\t/.test(content)) throw new Error(`line ${index + 1}: tabs are not allowed for indentation`);
+    lines.push({ indent: content.length - content.trimStart().length, text: content.trim(), number: index + 1 });
+  });
+  if (lines.length === 0) throw new Error("the document is empty");
+  let cursor = 0;
+
+  const parseBlock = (indent: number): unknown => {
+    return lines[cursor].text.startsWith("- ") || lines[cursor].text === "-" ? parseList(indent) : parseMap(indent);
+  };
+
+  const parseNested = (parent: number, line: YamlLine): unknown => {
+    const next = lines[cursor];
+    if (next && (next.indent > parent || (next.indent === parent && next.text.startsWith("- ")))) {
+      return parseBlock(next.indent);
+    }
+    throw new Error(`line ${line.number}: expected a value`);
+  };
+
+  const parseMap = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (cursor < lines.length && lines[cursor].indent === indent && !lines[cursor].text.startsWith("- ")) {
+      const line = lines[cursor++];
+      const match = /^("[^"]*"|'[^']*'|[^:]+?):(?:\s+(.*))?$/.exec(line.text);
+      if (!match) throw new Error(`line ${line.number}: expected "key: value"`);
+      const key = String(parseYamlScalar(match[1], line.number));
+      map[key] = match[2] === undefined ? parseNested(indent, line) : parseYamlScalar(match[2], line.number);
+    }
+    if (cursor < lines.length && lines[cursor].indent > indent) {
+      throw new Error(`line ${lines[cursor].number}: unexpected indentation`);
+    }
+    return map;
+  };
+
+  const parseList = (indent: number): unknown[] => {
+    const list: unknown[] = [];
+    while (cursor < lines.length && lines[cursor].indent === indent && /^-( |$)/.test(lines[cursor].text)) {
+      const line = lines[cursor];
+      const item = line.text.slice(1).trimStart();
+      if (!item) {
+        cursor++;
+        list.push(parseNested(indent, line));
+      } else if (/^("[^"]*"|'[^']*'|[^:[\]{}"']+?):(\s|$)/.test(item)) {
+        // "- key: value" opens a map indented to where its first key starts.
+        lines[cursor] = { ...line, indent: indent + line.text.length - item.length, text: item };
+        list.push(parseMap(lines[cursor].indent));
+      } else {
+        cursor++;
+        list.push(parseYamlScalar(item, line.number));
+      }
+    }
+    return list;
+  };
+
+  const value = parseBlock(lines[0].indent);
+  if (cursor < lines.length) throw new Error(`line ${lines[cursor].number}: unexpected content`);
+  return value;
+}
+
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "#" && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+function parseYamlScalar(raw: string, lineNumber: number): unknown {
+  const value = raw.trim();
+  if (value.startsWith('"')) return JSON.parse(value);
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) throw new Error(`line ${lineNumber}: unterminated string`);
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith("[")) {
+    if (!value.endsWith("]")) throw new Error(`line ${lineNumber}: unterminated list`);
+    const inner = value.slice(1, -1).trim();
+    return inner ? inner.split(",").map((item) => parseYamlScalar(item, lineNumber)) : [];
+  }
+  if (/^[{&*!|>]/.test(value)) throw new Error(`line ${lineNumber}: unsupported YAML syntax "${value[0]}"`);
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === "true";
+  if (/^(null|~)$/i.test(value)) return null;
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSpiceNetlist,
+  formatSpiceValue,
+  parseSpiceOptions,
+  parseSupplyVoltage,
+} from "../netlist";
+import simpleCircuit from "@/__tests__/fixtures/simple-circuit.json";
+
+function part(id: string, ftype: string, name: string, pins: string[], extra: Record<string, unknown> = {}) {
+  return [
+    { type: "source_component", source_component_id: id, ftype, name, ...extra },
+    ...pins.map((pin, index) => ({
+      type: "source_port",
+      source_port_id: `${id}_${pin}`,
+      source_component_id: id,
+      name: pin,
+      pin_number: index + 1,
+    })),
+  ];
+}
+
+function net(id: string, name: string, extra: Record<string, unknown> = {}) {
+  return { type: "source_net", source_net_id: id, name, ...extra };
+}
+
+function wire(id: string, ports: string[], nets: string[] = []) {
+  return { type: "source_trace", source_trace_id: id, connected_source_port_ids: ports, connected_source_net_ids: nets };
+}
+
+/** 5V rail → R1 → OUT → C1 → GND, LED D1 from OUT to GND, and a 555 U1. */
+const rcFilter = [
+  net("net_v5", "V5", { is_power: true }),
+  net("net_gnd", "GND", { is_ground: true }),
+  net("net_out", "OUT"),
+  ...part("r1", "simple_resistor", "R1", ["pin1", "pin2"], { resistance: 4700 }),
+  ...part("c1", "simple_capacitor", "C1", ["pin1", "pin2"], { capacitance: 1e-6 }),
+  ...part("d1", "simple_led", "D1", ["cathode", "anode"]),
+  ...part("u1", "simple_chip", "U1", ["GND", "TRIG", "OUT", "RESET", "CTRL", "THR", "DIS", "VCC"], {
+    manufacturer_part_number: "NE555",
+  }),
+  wire("t1", ["r1_pin1"], ["net_v5"]),
+  wire("t2", ["r1_pin2", "c1_pin1", "d1_anode"], ["net_out"]),
+  wire("t3", ["c1_pin2", "d1_cathode", "u1_GND"], ["net_gnd"]),
+];
+
+describe("spice netlist", () => {
+  it("formats values with SPICE suffixes and reads supply voltages from net names", () => {
+    expect(formatSpiceValue(1e-7)).toBe("100n");
+    expect(formatSpiceValue(4700)).toBe("4.7k");
+    expect(formatSpiceValue(2.2e6)).toBe("2.2Meg");
+    expect(formatSpiceValue(1e-3)).toBe("1m");
+    expect(parseSupplyVoltage("3V3")).toBe(3.3);
+    expect(parseSupplyVoltage("+5V")).toBe(5);
+    expect(parseSupplyVoltage("VCC_1V8")).toBe(1.8);
+    expect(parseSupplyVoltage("V12")).toBe(12);
+    expect(parseSupplyVoltage("VCC")).toBeNull();
+  });
+
+  it("writes passives between net nodes and leaves unconnected pins on their own node", () => {
+    const { netlist, nodes, warnings } = buildSpiceNetlist(simpleCircuit);
+    expect(netlist).toContain("RR1 nc_r1_pin1 net_r1_pin2 10k");
+    expect(netlist).toContain("CC1 net_r1_pin2 nc_c1_pin2 100n");
+    expect(netlist).toMatch(/\.op\n\.end\n$/);
+    expect(nodes.find((entry) => entry.node === "net_r1_pin2")?.netName).toBe("Net-(R1-pin2)");
+    expect(warnings).toEqual([]);
+  });
+
+  it("adds supplies from power nets, orients diodes and uses library subcircuits", () => {
+    const library = [
+      ".subckt NE555 gnd trig out reset ctrl thr dis vcc",
+      "R1 vcc gnd 10k",
+      ".ends NE555",
+    ].join("\n");
+    const { netlist, supplyVoltages, probes, warnings } = buildSpiceNetlist(rcFilter, {
+      subcircuitLibrary: library,
+      transient: { stepSeconds: 1e-5, stopSeconds: 0.02 },
+    });
+
+    expect(netlist).toContain("RR1 v5 out 4.7k");
+    expect(netlist).toContain("CC1 out 0 1u");
+    expect(netlist).toContain("DD1 out 0 D_LED");
+    expect(netlist).toContain(".model D_LED D(");
+    expect(netlist).toMatch(/XU1 0 nc_u1_trig nc_u1_out .* nc_u1_vcc NE555/);
+    expect(netlist).toContain("VSUPPLY_v5 v5 0 DC 5");
+    expect(netlist).toContain(".tran 10u 20m\n.print tran v(out) v(v5)");
+    expect(supplyVoltages).toEqual({ v5: 5 });
+    expect(probes).toEqual(["out", "v5"]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("warns about parts without a model and power nets without a voltage", () => {
+    const circuit = rcFilter.map((row) =>
+      "source_net_id" in row && row.name === "V5" ? { ...row, name: "VCC" } : row,
+    );
+    const { netlist, warnings } = buildSpiceNetlist(circuit, { probes: ["MISSING"] });
+    expect(netlist).toContain("* U1 (simple_chip) omitted: no subcircuit model");
+    expect(warnings.map((warning) => warning.category)).toEqual([
+      "spice_unmodeled_component",
+      "spice_undriven_power_net",
+      "spice_unknown_probe",
+    ]);
+  });
+
+  it("keeps client designators and ftypes from adding lines to the deck", () => {
+    const injected = "R1 a b 1k\n.control\nshell id\n.endc\n*";
+    const circuit = rcFilter.map((row) => {
+      if (!("ftype" in row)) return row;
+      if (row.name === "R1") return { ...row, name: injected };
+      if (row.name === "U1") return { ...row, ftype: "simple_chip\n.control\nshell id\n.endc" };
+      return row;
+    });
+    const { netlist } = buildSpiceNetlist(circuit);
+    const lines = netlist.split("\n");
+    expect(lines.some((line) => /^\s*(\.control|\.endc|shell)/i.test(line))).toBe(false);
+    expect(netlist).toContain("RR1_a_b_1k_control_shell_id_endc v5 out 4.7k");
+    expect(netlist).toContain("* U1 (simple_chip .control shell id .endc) omitted: no subcircuit model");
+  });
+
+  it("rejects subcircuit libraries with anything but circuit text", () => {
+    const library = [
+      "* NE555 macro",
+      ".subckt NE555 gnd trig out reset ctrl thr dis vcc",
+      "R1 vcc gnd 10k",
+      "+ tc1=0",
+      ".ends NE555",
+      ".control",
+      "shell id",
+      ".endc",
+      ".include /etc/passwd",
+      ".lib models.lib tt",
+    ].join("\n");
+    expect(parseSpiceOptions({ subcircuitLibrary: library }).errors).toEqual(
+      [6, 7, 8, 9, 10].map(
+        (line) =>
+          `spice.subcircuitLibrary line ${line} is not allowed; use only .subckt, .ends, .model, element, "+" continuation and "*" comment lines`,
+      ),
+    );
+    expect(parseSpiceOptions({ subcircuitLibrary: library.split("\n").slice(0, 5).join("\n") }).errors).toEqual([]);
+
+    const { netlist, warnings } = buildSpiceNetlist(rcFilter, { subcircuitLibrary: library });
+    expect(netlist).not.toContain("shell");
+    expect(netlist).toContain("* U1 (simple_chip) omitted: no subcircuit model");
+    expect(warnings.map((warning) => warning.category)).toContain("spice_library_rejected");
+  });
+
+  it("validates request options", () => {
+    expect(parseSpiceOptions(undefined)).toEqual({ options: {}, errors: [] });
+    expect(
+      parseSpiceOptions({ supplies: { V5: "5" }, transient: { stepSeconds: 1, stopSeconds: 0.5 }, probes: [1] }).errors,
+    ).toEqual([
+      "spice.supplies.V5 must be a number",
+      "spice.transient.stepSeconds must not exceed stopSeconds",
+      "spice.probes must be an array of net names",
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildSimulationFindings, parseNgspiceOutput, runNgspice } from "../ngspice";
+import type { SpiceNetlist } from "../netlist";
+
+const BATCH_OUTPUT = `
+Circuit: * circuitforge SPICE netlist
+
+Doing analysis at TEMP = 27.000000 and TNOM = 27.000000
+
+No. of Data Rows : 1
+	Node                                  Voltage
+	----                                  -------
+	----	-------
+	out                              2.500000e+00
+	v5                               5.000000e+00
+
+	Source	Current
+	------	-------
+
+	vsupply_v5#branch                -5.31915e-04
+
+                                     * circuitforge SPICE netlist
+                                     Transient Analysis  Mon Oct 19 10:00:00  2026
+--------------------------------------------------------------------------------
+Index   time            v(out)          v(v5)
+--------------------------------------------------------------------------------
+0	0.000000e+00	0.000000e+00	5.000000e+00
+1	1.000000e-03	1.500000e+00	5.000000e+00
+
+Index   time            v(out)          v(v5)
+--------------------------------------------------------------------------------
+2	2.000000e-03	2.400000e+00	5.000000e+00
+`;
+
+const NETLIST: SpiceNetlist = {
+  netlist: "",
+  nodes: [
+    { node: "out", netName: "OUT" },
+    { node: "v5", netName: "V5" },
+  ],
+  supplyVoltages: { v5: 5 },
+  probes: ["out", "v5"],
+  warnings: [],
+};
+
+describe("ngspice", () => {
+  it("parses operating point tables and paged transient output", () => {
+    const output = parseNgspiceOutput(BATCH_OUTPUT);
+    expect(output.operatingPoint).toEqual({ out: 2.5, v5: 5 });
+    expect(output.branchCurrents).toEqual({ vsupply_v5: -5.31915e-4 });
+    expect(output.transient).toEqual({
+      time: [0, 0.001, 0.002],
+      signals: { out: [0, 1.5, 2.4], v5: [5, 5, 5] },
+    });
+  });
+
+  it("reports results as review findings", () => {
+    const findings = buildSimulationFindings(
+      { ...parseNgspiceOutput(BATCH_OUTPUT), status: "ok", errorMessage: null },
+      NETLIST,
+    );
+    expect(findings.map((finding) => finding.message)).toEqual([
+      "Operating point: OUT 2.5V, V5 5V.",
+      "Transient OUT over 2ms: min 0V, max 2.4V, final 2.4V.",
+      "Transient V5 over 2ms: min 5V, max 5V, final 5V.",
+    ]);
+
+    const overvoltage = buildSimulationFindings(
+      { operatingPoint: { out: 9, v5: 5 }, branchCurrents: {}, transient: null, status: "ok", errorMessage: null },
+      NETLIST,
+    );
+    expect(overvoltage.map((finding) => finding.category)).toContain("spice_node_overvoltage");
+  });
+
+  it("treats a missing ngspice binary as unavailable", async () => {
+    const result = await runNgspice("* empty\n.end\n", { binary: "/nonexistent/ngspice" });
+    expect(result.status).toBe("unavailable");
+    expect(buildSimulationFindings(result, NETLIST)).toEqual([
+      expect.objectContaining({ category: "spice_simulation_unavailable", severity: 3 }),
+    ]);
+  });
+});
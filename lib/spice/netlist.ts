@@ -0,0 +1,477 @@
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { buildCircuitJsonModel } from "@/lib/manufacturing/circuitJson";
+
+type UnknownRecord = Record<string, unknown>;
+
+export interface SpiceTransientInput {
+  stepSeconds: number;
+  stopSeconds: number;
+}
+
+/** Request-level knobs for netlist generation and simulation. */
+export interface SpiceOptionsInput {
+  /** Ideal DC supplies to add, keyed by net name (e.g. `{ "V5": 5 }`). */
+  supplies?: Record<string, number>;
+  /** SPICE text with one or more `.subckt` definitions. */
+  subcircuitLibrary?: string;
+  /** Designator → subcircuit name, for parts whose MPN does not match a `.subckt` name. */
+  subcircuits?: Record<string, string>;
+  transient?: SpiceTransientInput;
+  /** Net names to record in the transient analysis; defaults to every non-ground node. */
+  probes?: string[];
+}
+
+export interface SpiceNode {
+  node: string;
+  netName: string;
+}
+
+export interface SpiceNetlist {
+  netlist: string;
+  /** Every node in the netlist except ground, with the net it came from. */
+  nodes: SpiceNode[];
+  /** Nodes driven by a supply, with its DC voltage. */
+  supplyVoltages: Record<string, number>;
+  probes: string[];
+  warnings: ValidationDiagnostic[];
+}
+
+interface SubcircuitDefinition {
+  name: string;
+  pinCount: number;
+}
+
+interface SourcePort {
+  id: string;
+  name: string;
+  pinNumber: number | null;
+  hints: string[];
+}
+
+const GROUND_NET_PATTERN = /^(0|gnd|agnd|dgnd|pgnd|vss|ground)$/i;
+/**
+ * Library lines ngspice reads as circuit text only: subcircuit and model
+ * cards, elements, continuations and comments. Anything else (`.control`,
+ * `.include`, `.lib`, `shell`) could run commands or read files under `-b`.
+ */
+const LIBRARY_DOT_CARD_PATTERN = /^\.(subckt|ends|model)(\s|$)/i;
+const LIBRARY_ELEMENT_PATTERN = /^[a-z][a-z0-9_]*(\s|$)/i;
+const MAX_DEFAULT_PROBES = 8;
+
+// Conservative generic parameters; parts that matter should come from the subcircuit library.
+const MODEL_CARDS = {
+  D_GENERIC: ".model D_GENERIC D(IS=2.52n RS=0.568 N=1.752 CJO=4p M=0.4 TT=20n BV=100 IBV=100u)",
+  D_LED: ".model D_LED D(IS=1e-22 RS=6 N=1.5 CJO=30p BV=5 IBV=10u)",
+} as const;
+
+const SPICE_SUFFIXES: Array<[number, string]> = [
+  [1e9, "G"],
+  [1e6, "Meg"],
+  [1e3, "k"],
+  [1, ""],
+  [1e-3, "m"],
+  [1e-6, "u"],
+  [1e-9, "n"],
+  [1e-12, "p"],
+  [1e-15, "f"],
+];
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function isFinitePositive(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/** Validate the `spice` options from a request body. */
+export function parseSpiceOptions(input: unknown): { options: SpiceOptionsInput; errors: string[] } {
+  if (input === undefined || input === null) return { options: {}, errors: [] };
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { options: {}, errors: ["spice must be an object"] };
+  }
+
+  const record = input as UnknownRecord;
+  const options: SpiceOptionsInput = {};
+  const errors: string[] = [];
+
+  if (record.supplies !== undefined) {
+    const supplies = record.supplies as UnknownRecord;
+    if (!supplies || typeof supplies !== "object" || Array.isArray(supplies)) {
+      errors.push("spice.supplies must be an object of net name → volts");
+    } else {
+      options.supplies = {};
+      for (const [net, volts] of Object.entries(supplies)) {
+        if (typeof volts !== "number" || !Number.isFinite(volts)) {
+          errors.push(`spice.supplies.${net} must be a number`);
+        } else {
+          options.supplies[net] = volts;
+        }
+      }
+    }
+  }
+
+  if (record.subcircuitLibrary !== undefined) {
+    if (typeof record.subcircuitLibrary !== "string") errors.push("spice.subcircuitLibrary must be a string");
+    else {
+      const libraryErrors = checkSubcircuitLibrary(record.subcircuitLibrary);
+      if (libraryErrors.length > 0) errors.push(...libraryErrors);
+      else options.subcircuitLibrary = record.subcircuitLibrary;
+    }
+  }
+
+  if (record.subcircuits !== undefined) {
+    const subcircuits = record.subcircuits as UnknownRecord;
+    const valid =
+      !!subcircuits &&
+      typeof subcircuits === "object" &&
+      !Array.isArray(subcircuits) &&
+      Object.values(subcircuits).every((name) => asString(name) !== null);
+    if (!valid) errors.push("spice.subcircuits must map designators to subcircuit names");
+    else options.subcircuits = subcircuits as Record<string, string>;
+  }
+
+  if (record.transient !== undefined) {
+    const transient = record.transient as UnknownRecord;
+    if (
+      !transient ||
+      typeof transient !== "object" ||
+      !isFinitePositive(transient.stepSeconds) ||
+      !isFinitePositive(transient.stopSeconds)
+    ) {
+      errors.push("spice.transient must have positive stepSeconds and stopSeconds");
+    } else if (transient.stepSeconds > transient.stopSeconds) {
+      errors.push("spice.transient.stepSeconds must not exceed stopSeconds");
+    } else {
+      options.transient = { stepSeconds: transient.stepSeconds, stopSeconds: transient.stopSeconds };
+    }
+  }
+
+  if (record.probes !== undefined) {
+    if (!Array.isArray(record.probes) || !record.probes.every((probe) => asString(probe) !== null)) {
+      errors.push("spice.probes must be an array of net names");
+    } else {
+      options.probes = record.probes as string[];
+    }
+  }
+
+  return { options, errors };
+}
+
+/** Format a value with SPICE scale suffixes, e.g. 1e-7 → `100n`, 4700 → `4.7k`. */
+export function formatSpiceValue(value: number): string {
+  if (value === 0) return "0";
+  const magnitude = Math.abs(value);
+  const [scale, suffix] = SPICE_SUFFIXES.find(([factor]) => magnitude >= factor * 0.9999995) ?? [1e-15, "f"];
+  return `${Number.parseFloat((value / scale).toPrecision(6))}${suffix}`;
+}
+
+/** Turn a net name into a SPICE node name (lowercase, alphanumerics and underscores). */
+export function toSpiceNodeName(netName: string): string {
+  if (GROUND_NET_PATTERN.test(netName)) return "0";
+  const node = netName
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return node.length > 0 ? node : "net";
+}
+
+/** Turn a designator into an element name suffix (`R1`, `U_3`): letters, digits and underscores only. */
+export function toSpiceDesignator(designator: string): string {
+  const name = designator.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  return name.length > 0 ? name : "X";
+}
+
+/** Keep comment text on its comment line. */
+function toSpiceComment(text: string): string {
+  return text.replace(/[\x00-\x1f\x7f]+/g, " ");
+}
+
+/** Lines of a subcircuit library that are not circuit text; empty when it is safe to append. */
+export function checkSubcircuitLibrary(library: string): string[] {
+  const errors: string[] = [];
+  library.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("*") || line.startsWith("+") || LIBRARY_DOT_CARD_PATTERN.test(line)) return;
+    if (LIBRARY_ELEMENT_PATTERN.test(line) && !/^shell(\s|$)/i.test(line)) return;
+    errors.push(
+      `spice.subcircuitLibrary line ${index + 1} is not allowed; use only .subckt, .ends, .model, element, "+" continuation and "*" comment lines`,
+    );
+  });
+  return errors;
+}
+
+/** Read the DC voltage out of a power net name: `3V3`, `+5V`, `V12`, `VCC_3V3`. */
+export function parseSupplyVoltage(netName: string): number | null {
+  const normalized = netName.toUpperCase().replace(/^\+/, "");
+  const split = /(?:^|_)(\d+)V(\d+)$/.exec(normalized);
+  if (split) return Number.parseFloat(`${split[1]}.${split[2]}`);
+  const suffixed = /(?:^|_)(\d+(?:\.\d+)?)V$/.exec(normalized);
+  if (suffixed) return Number.parseFloat(suffixed[1]);
+  const prefixed = /^V(\d+(?:_\d+)?)$/.exec(normalized);
+  if (prefixed) return Number.parseFloat(prefixed[1].replace("_", "."));
+  return null;
+}
+
+/** Find `.subckt NAME n1 n2 ...` headers; parameters after `params:` are not pins. */
+export function parseSubcircuitLibrary(library: string): Map<string, SubcircuitDefinition> {
+  const definitions = new Map<string, SubcircuitDefinition>();
+  const lines = library.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    if (!/^\s*\.subckt\s/i.test(lines[index])) continue;
+    let header = lines[index];
+    while (index + 1 < lines.length && lines[index + 1].trimStart().startsWith("+")) {
+      header += ` ${lines[++index].trimStart().slice(1)}`;
+    }
+    const tokens = header.trim().split(/\s+/).slice(1);
+    const name = tokens.shift();
+    if (!name) continue;
+    const paramsAt = tokens.findIndex((token) => /^params:|=/i.test(token));
+    const pins = paramsAt === -1 ? tokens : tokens.slice(0, paramsAt);
+    definitions.set(name.toUpperCase(), { name, pinCount: pins.length });
+  }
+  return definitions;
+}
+
+function makeWarning(category: string, severity: number, message: string, ids: string[]): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+  };
+}
+
+function portMatches(port: SourcePort, pattern: RegExp): boolean {
+  return pattern.test(port.name) || port.hints.some((hint) => pattern.test(hint));
+}
+
+/** Order ports so polarised two-terminal parts get (positive, negative). */
+function orderTwoTerminal(ports: SourcePort[], positive: RegExp, negative: RegExp): SourcePort[] {
+  if (ports.length !== 2) return ports;
+  const [first, second] = ports;
+  if (portMatches(second, positive) || portMatches(first, negative)) return [second, first];
+  return ports;
+}
+
+function describeWaveform(source: UnknownRecord, volts: number): string {
+  const frequency = asNumber(source.frequency);
+  const shape = asString(source.waveform_shape)?.toLowerCase();
+  if (!frequency || frequency <= 0 || !shape) return `DC ${formatSpiceValue(volts)}`;
+  const offset = asNumber(source.dc_offset) ?? 0;
+  if (shape.startsWith("sin")) {
+    return `DC ${formatSpiceValue(offset)} SIN(${formatSpiceValue(offset)} ${formatSpiceValue(volts)} ${formatSpiceValue(frequency)})`;
+  }
+  const halfPeriod = formatSpiceValue(1 / frequency / 2);
+  return `DC ${formatSpiceValue(offset)} PULSE(${formatSpiceValue(offset)} ${formatSpiceValue(offset + volts)} 0 1n 1n ${halfPeriod} ${formatSpiceValue(1 / frequency)})`;
+}
+
+/**
+ * Build a SPICE netlist from source components and nets. Passives and diodes
+ * use built-in model cards; anything else needs a `.subckt` from the supplied
+ * library (matched by designator mapping, then MPN) or it is left out with a
+ * warning. Ground nets become node 0 and unconnected pins get their own node.
+ */
+export function buildSpiceNetlist(circuitJson: unknown[], options: SpiceOptionsInput = {}): SpiceNetlist {
+  const rows = circuitJson.filter(
+    (item): item is UnknownRecord => item !== null && typeof item === "object",
+  );
+  const model = buildCircuitJsonModel(circuitJson);
+  const warnings: ValidationDiagnostic[] = [];
+
+  const sourceNets = new Map(
+    rows
+      .filter((row) => row.type === "source_net")
+      .map((row) => [asString(row.source_net_id) ?? "", row] as const),
+  );
+  const nodeByPort = new Map<string, string>();
+  const netByNode = new Map<string, string>();
+  const usedNodes = new Set<string>(["0"]);
+  for (const net of model.nets) {
+    const sourceNet = net.sourceNetId ? sourceNets.get(net.sourceNetId) : undefined;
+    let node = sourceNet?.is_ground === true ? "0" : toSpiceNodeName(net.name);
+    if (node !== "0" && usedNodes.has(node)) node = `${node}_${usedNodes.size}`;
+    usedNodes.add(node);
+    if (node !== "0") netByNode.set(node, net.name);
+    for (const portId of net.sourcePortIds) nodeByPort.set(portId, node);
+  }
+
+  const portsByComponent = new Map<string, SourcePort[]>();
+  for (const row of rows) {
+    if (row.type !== "source_port") continue;
+    const id = asString(row.source_port_id);
+    const componentId = asString(row.source_component_id);
+    if (!id || !componentId) continue;
+    const ports = portsByComponent.get(componentId) ?? [];
+    ports.push({
+      id,
+      name: asString(row.name) ?? id,
+      pinNumber: asNumber(row.pin_number),
+      hints: Array.isArray(row.port_hints) ? row.port_hints.filter((hint): hint is string => typeof hint === "string") : [],
+    });
+    portsByComponent.set(componentId, ports);
+  }
+  for (const ports of portsByComponent.values()) {
+    ports.sort((a, b) => (a.pinNumber ?? Infinity) - (b.pinNumber ?? Infinity) || a.id.localeCompare(b.id));
+  }
+
+  const nodeFor = (designator: string, port: SourcePort) => {
+    const existing = nodeByPort.get(port.id);
+    if (existing) return existing;
+    const node = toSpiceNodeName(`nc_${designator}_${port.name}`);
+    nodeByPort.set(port.id, node);
+    netByNode.set(node, `${designator}.${port.name} (unconnected)`);
+    return node;
+  };
+
+  // The route has rejected unsafe libraries already; a direct caller's is dropped rather than trusted.
+  const library = options.subcircuitLibrary?.trim() ?? "";
+  const libraryErrors = checkSubcircuitLibrary(library);
+  if (libraryErrors.length > 0) {
+    warnings.push(
+      makeWarning("spice_library_rejected", 5, `Subcircuit library left out: ${libraryErrors[0]}.`, ["library"]),
+    );
+  }
+  const safeLibrary = libraryErrors.length > 0 ? "" : library;
+  const subcircuitDefinitions = parseSubcircuitLibrary(safeLibrary);
+  const supplyVoltages: Record<string, number> = {};
+  const usedModels = new Set<keyof typeof MODEL_CARDS>();
+  const elementLines: string[] = [];
+
+  const components = rows
+    .filter((row) => row.type === "source_component")
+    .sort((a, b) => (asString(a.name) ?? "").localeCompare(asString(b.name) ?? ""));
+  for (const component of components) {
+    const componentId = asString(component.source_component_id) ?? "";
+    const designator = asString(component.name) ?? componentId;
+    // Designators and ftypes come from client circuit JSON; only sanitized text reaches the deck.
+    const element = toSpiceDesignator(designator);
+    const ftype = asString(component.ftype) ?? "unknown";
+    const ports = portsByComponent.get(componentId) ?? [];
+    const pinNodes = (ordered: SourcePort[]) => ordered.map((port) => nodeFor(designator, port)).join(" ");
+    const skip = (reason: string) => {
+      elementLines.push(toSpiceComment(`* ${element} (${ftype}) omitted: ${reason}`));
+      warnings.push(
+        makeWarning("spice_unmodeled_component", 4, `${designator} (${ftype}) is not in the SPICE netlist: ${reason}.`, [designator]),
+      );
+    };
+
+    const passive = (
+      {
+        simple_resistor: ["R", component.resistance],
+        simple_capacitor: ["C", component.capacitance],
+        simple_inductor: ["L", component.inductance],
+      } as Record<string, [string, unknown]>
+    )[ftype];
+    if (passive) {
+      const [prefix, value] = passive;
+      if (ports.length !== 2) skip(`expected 2 pins, found ${ports.length}`);
+      else if (!isFinitePositive(value)) skip("missing numeric value");
+      else elementLines.push(`${prefix}${element} ${pinNodes(ports)} ${formatSpiceValue(value)}`);
+      continue;
+    }
+
+    if (ftype === "simple_diode" || ftype === "simple_led") {
+      const modelName = ftype === "simple_led" ? "D_LED" : "D_GENERIC";
+      if (ports.length !== 2) {
+        skip(`expected 2 pins, found ${ports.length}`);
+        continue;
+      }
+      usedModels.add(modelName);
+      elementLines.push(`D${element} ${pinNodes(orderTwoTerminal(ports, /^(anode|a|pos|\+)$/i, /^(cathode|k|neg|-)$/i))} ${modelName}`);
+      continue;
+    }
+
+    if (ftype === "simple_power_source" || ftype === "simple_battery" || ftype === "simple_voltage_source") {
+      const volts = asNumber(component.voltage) ?? asNumber(component.peak_to_peak_voltage);
+      if (ports.length !== 2) skip(`expected 2 pins, found ${ports.length}`);
+      else if (volts === null) skip("missing voltage");
+      else {
+        const ordered = orderTwoTerminal(ports, /^(pos|positive|\+|vcc|anode)$/i, /^(neg|negative|-|gnd|cathode)$/i);
+        elementLines.push(`V${element} ${pinNodes(ordered)} ${describeWaveform(component, volts)}`);
+        const positiveNode = nodeFor(designator, ordered[0]);
+        if (nodeFor(designator, ordered[1]) === "0") supplyVoltages[positiveNode] = volts;
+      }
+      continue;
+    }
+
+    const mpn = asString(component.manufacturer_part_number);
+    const requested = options.subcircuits?.[designator];
+    const definition =
+      (requested ? subcircuitDefinitions.get(requested.toUpperCase()) : undefined) ??
+      (mpn ? subcircuitDefinitions.get(mpn.toUpperCase()) : undefined);
+    if (!definition) {
+      skip(requested ? `subcircuit ${requested} is not in the library` : "no subcircuit model");
+      continue;
+    }
+    if (definition.pinCount !== ports.length) {
+      skip(`subcircuit ${definition.name} has ${definition.pinCount} pins, part has ${ports.length}`);
+      continue;
+    }
+    elementLines.push(`X${element} ${pinNodes(ports)} ${definition.name}`);
+  }
+
+  const nodeForNet = new Map(Array.from(netByNode.entries()).map(([node, net]) => [net.toLowerCase(), node]));
+  const supplyLines: string[] = [];
+  const requestedSupplies = new Map(Object.entries(options.supplies ?? {}));
+  for (const net of model.nets) {
+    const sourceNet = net.sourceNetId ? sourceNets.get(net.sourceNetId) : undefined;
+    if (sourceNet?.is_power !== true || requestedSupplies.has(net.name)) continue;
+    const node = nodeForNet.get(net.name.toLowerCase());
+    if (!node || node in supplyVoltages) continue;
+    const volts = parseSupplyVoltage(net.name);
+    if (volts !== null) requestedSupplies.set(net.name, volts);
+    else {
+      warnings.push(
+        makeWarning("spice_undriven_power_net", 4, `Power net ${net.name} has no source; add it to spice.supplies to simulate it.`, [net.name]),
+      );
+    }
+  }
+  for (const [netName, volts] of requestedSupplies) {
+    const node = nodeForNet.get(netName.toLowerCase()) ?? (GROUND_NET_PATTERN.test(netName) ? "0" : null);
+    if (!node || node === "0") {
+      warnings.push(makeWarning("spice_unknown_supply_net", 5, `Supply net ${netName} is not in the design.`, [netName]));
+      continue;
+    }
+    supplyLines.push(`VSUPPLY_${node} ${node} 0 DC ${formatSpiceValue(volts)}`);
+    supplyVoltages[node] = volts;
+  }
+
+  const nodes = Array.from(netByNode.entries())
+    .map(([node, netName]) => ({ node, netName }))
+    .sort((a, b) => a.node.localeCompare(b.node));
+  const probes: string[] = [];
+  for (const probe of options.probes ?? []) {
+    const node = nodeForNet.get(probe.toLowerCase()) ?? (netByNode.has(probe) ? probe : null);
+    if (node) probes.push(node);
+    else warnings.push(makeWarning("spice_unknown_probe", 3, `Probe ${probe} is not a net in the design.`, [probe]));
+  }
+  if (!options.probes) {
+    probes.push(...nodes.filter((entry) => !entry.node.startsWith("nc_")).slice(0, MAX_DEFAULT_PROBES).map((entry) => entry.node));
+  }
+
+  const lines = [
+    "* circuitforge SPICE netlist",
+    "* Nodes follow source nets; 0 is ground.",
+    ...elementLines,
+    ...(supplyLines.length > 0 ? ["* Supplies", ...supplyLines] : []),
+    ...Array.from(usedModels, (name) => MODEL_CARDS[name]),
+    ...(safeLibrary ? ["* Subcircuit library", safeLibrary] : []),
+    // Leakage to ground keeps capacitor-only and unconnected nodes solvable at DC.
+    ".options rshunt=1e12",
+    ".op",
+  ];
+  if (options.transient) {
+    lines.push(`.tran ${formatSpiceValue(options.transient.stepSeconds)} ${formatSpiceValue(options.transient.stopSeconds)}`);
+    if (probes.length > 0) lines.push(`.print tran ${probes.map((node) => `v(${node})`).join(" ")}`);
+  }
+  lines.push(".end", "");
+
+  return { netlist: lines.join("\n"), nodes, supplyVoltages, probes, warnings };
+}
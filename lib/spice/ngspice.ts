@@ -0,0 +1,255 @@
+import { execFile, type ExecFileException } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ValidationDiagnostic } from "@/lib/stream/types";
+import { formatSpiceValue, type SpiceNetlist } from "./netlist";
+
+export interface TransientWaveform {
+  time: number[];
+  /** Node name → voltage per time point. */
+  signals: Record<string, number[]>;
+}
+
+export interface NgspiceOutput {
+  /** Node name → DC voltage. */
+  operatingPoint: Record<string, number>;
+  /** Voltage source name → branch current (A). */
+  branchCurrents: Record<string, number>;
+  transient: TransientWaveform | null;
+}
+
+export interface NgspiceResult extends NgspiceOutput {
+  status: "ok" | "failed" | "unavailable" | "timeout";
+  /** First error lines ngspice printed, when it failed. */
+  errorMessage: string | null;
+}
+
+const NGSPICE_BINARY = process.env.CIRCUITFORGE_NGSPICE_PATH ?? "ngspice";
+const DEFAULT_TIMEOUT_MS = 20_000;
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+// Anything this far above the highest supply points at a modeling or wiring mistake.
+const OVERVOLTAGE_MARGIN = 1.1;
+
+function parseSpiceNumber(token: string): number | null {
+  const value = Number.parseFloat(token);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parse ngspice batch-mode stdout: the `.op` node voltage and source current
+ * tables, and the paged `.print tran` table (`Index time v(a) ...`).
+ */
+export function parseNgspiceOutput(stdout: string): NgspiceOutput {
+  const operatingPoint: Record<string, number> = {};
+  const branchCurrents: Record<string, number> = {};
+  let section: "voltage" | "current" | null = null;
+
+  let columns: string[] | null = null;
+  const rowsByIndex = new Map<number, number[]>();
+
+  for (const rawLine of stdout.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (/^Node\s+Voltage$/i.test(line)) {
+      section = "voltage";
+      continue;
+    }
+    if (/^Source\s+Current$/i.test(line)) {
+      section = "current";
+      continue;
+    }
+    const header = /^Index\s+(time\s+.+)$/i.exec(line);
+    if (header) {
+      section = null;
+      columns = header[1].split(/\s+/).map((column) => column.toLowerCase());
+      continue;
+    }
+
+    if (section) {
+      if (line.length === 0 && Object.keys(section === "voltage" ? operatingPoint : branchCurrents).length > 0) {
+        section = null;
+        continue;
+      }
+      const match = /^(\S+)\s+(\S+)$/.exec(line);
+      const value = match ? parseSpiceNumber(match[2]) : null;
+      if (!match || value === null) continue;
+      if (section === "voltage") operatingPoint[match[1].replace(/^v\((.*)\)$/i, "$1").toLowerCase()] = value;
+      else branchCurrents[match[1].replace(/#branch$/i, "").toLowerCase()] = value;
+      continue;
+    }
+
+    if (columns && /^\d+\s/.test(line)) {
+      const tokens = line.split(/\s+/);
+      const values = tokens.slice(1).map(parseSpiceNumber);
+      if (values.length !== columns.length || values.some((value) => value === null)) continue;
+      rowsByIndex.set(Number.parseInt(tokens[0], 10), values as number[]);
+    }
+  }
+
+  let transient: TransientWaveform | null = null;
+  if (columns && rowsByIndex.size > 0) {
+    const rows = Array.from(rowsByIndex.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, values]) => values);
+    transient = { time: rows.map((row) => row[0]), signals: {} };
+    columns.slice(1).forEach((column, offset) => {
+      const node = column.replace(/^v\((.*)\)$/, "$1");
+      transient!.signals[node] = rows.map((row) => row[offset + 1]);
+    });
+  }
+
+  return { operatingPoint, branchCurrents, transient };
+}
+
+function firstErrorLines(output: string): string | null {
+  const lines = output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => /error|singular|fatal|not found|unknown|failed/i.test(line));
+  return lines.length > 0 ? lines.slice(0, 3).join(" | ") : null;
+}
+
+/**
+ * Run a netlist through a locally installed ngspice in batch mode. A missing
+ * binary is reported as `unavailable` rather than thrown, so callers can treat
+ * simulation as optional.
+ */
+export async function runNgspice(
+  netlist: string,
+  options: { binary?: string; timeoutMs?: number; signal?: AbortSignal } = {},
+): Promise<NgspiceResult> {
+  const empty: NgspiceOutput = { operatingPoint: {}, branchCurrents: {}, transient: null };
+  const tempDir = await mkdtemp(join(tmpdir(), "circuitforge-spice-"));
+  try {
+    const netlistPath = join(tempDir, "circuit.cir");
+    await writeFile(netlistPath, netlist, "utf8");
+
+    const run = await new Promise<{ error: ExecFileException | null; stdout: string; stderr: string }>(
+      (resolve) => {
+        execFile(
+          options.binary ?? NGSPICE_BINARY,
+          ["-b", netlistPath],
+          {
+            cwd: tempDir,
+            timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+            maxBuffer: MAX_OUTPUT_BYTES,
+            signal: options.signal,
+          },
+          (error, stdout, stderr) => resolve({ error, stdout: String(stdout), stderr: String(stderr) }),
+        );
+      },
+    );
+
+    if (run.error?.code === "ENOENT") {
+      return { ...empty, status: "unavailable", errorMessage: "ngspice was not found on PATH" };
+    }
+    if (run.error?.killed) {
+      return { ...empty, status: "timeout", errorMessage: "ngspice did not finish before the timeout" };
+    }
+
+    const parsed = parseNgspiceOutput(run.stdout);
+    const errorMessage = firstErrorLines(`${run.stderr}\n${run.stdout}`);
+    const produced = Object.keys(parsed.operatingPoint).length > 0 || parsed.transient !== null;
+    if (run.error || !produced) {
+      return {
+        ...parsed,
+        status: "failed",
+        errorMessage: errorMessage ?? run.error?.message ?? "ngspice produced no results",
+      };
+    }
+    return { ...parsed, status: "ok", errorMessage: null };
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+function formatVolts(value: number): string {
+  return `${formatSpiceValue(Number.parseFloat(value.toPrecision(4)))}V`;
+}
+
+function makeFinding(category: string, severity: number, message: string, ids: string[]): ValidationDiagnostic {
+  return {
+    category,
+    message,
+    severity,
+    signature: [category, ...ids].join("|"),
+    source: "tscircuit",
+    family: category,
+  };
+}
+
+/**
+ * Turn simulation results into review findings: one summary per analysis,
+ * node voltages that exceed every supply, and simulator failures.
+ */
+export function buildSimulationFindings(result: NgspiceResult, netlist: SpiceNetlist): ValidationDiagnostic[] {
+  if (result.status === "unavailable") {
+    return [
+      makeFinding(
+        "spice_simulation_unavailable",
+        3,
+        "ngspice is not installed on the server; only the netlist was generated.",
+        [],
+      ),
+    ];
+  }
+  if (result.status !== "ok") {
+    return [
+      makeFinding(
+        "spice_simulation_failed",
+        7,
+        `SPICE simulation ${result.status === "timeout" ? "timed out" : "failed"}: ${result.errorMessage ?? "no details"}.`,
+        [result.status],
+      ),
+    ];
+  }
+
+  const netByNode = new Map(netlist.nodes.map((entry) => [entry.node, entry.netName]));
+  const label = (node: string) => netByNode.get(node) ?? node;
+  const findings: ValidationDiagnostic[] = [];
+
+  const voltages = Object.entries(result.operatingPoint)
+    .filter(([node]) => netByNode.has(node))
+    .sort(([a], [b]) => a.localeCompare(b));
+  if (voltages.length > 0) {
+    findings.push(
+      makeFinding(
+        "spice_operating_point",
+        2,
+        `Operating point: ${voltages.map(([node, volts]) => `${label(node)} ${formatVolts(volts)}`).join(", ")}.`,
+        [],
+      ),
+    );
+  }
+
+  const supplyLevels = Object.values(netlist.supplyVoltages).map(Math.abs);
+  const ceiling = supplyLevels.length > 0 ? Math.max(...supplyLevels) * OVERVOLTAGE_MARGIN : null;
+  for (const [node, volts] of voltages) {
+    if (ceiling === null || Math.abs(volts) <= ceiling) continue;
+    findings.push(
+      makeFinding(
+        "spice_node_overvoltage",
+        6,
+        `${label(node)} sits at ${formatVolts(volts)} at the operating point, above every supply in the design.`,
+        [node],
+      ),
+    );
+  }
+
+  if (result.transient && result.transient.time.length > 0) {
+    const stop = result.transient.time[result.transient.time.length - 1];
+    for (const [node, samples] of Object.entries(result.transient.signals)) {
+      if (samples.length === 0) continue;
+      findings.push(
+        makeFinding(
+          "spice_transient",
+          2,
+          `Transient ${label(node)} over ${formatSpiceValue(stop)}s: min ${formatVolts(Math.min(...samples))}, max ${formatVolts(Math.max(...samples))}, final ${formatVolts(samples[samples.length - 1])}.`,
+          [node],
+        ),
+      );
+    }
+  }
+
+  return findings;
+}
@@ -1,3 +1,9 @@
+import type { RoutingOptions } from "@/lib/compile/routing";
+import type { DrcRuleOverrides } from "@/lib/manufacturing/drc";
+import type { NetClassInput } from "@/lib/manufacturing/netClasses";
+import type { PowerBudgetInput } from "@/lib/electrical/powerBudget";
+import type { RuleDeckInput } from "@/lib/rules/ruleDeck";
+
 export type DesignPhase =
   | "requirements"
   | "architecture"
@@ -53,6 +59,73 @@ export interface ArchitectureNode {
   portMappings?: Array<{ from: string; to: string }>;
 }
 
+/** A supply net in the compiled design and how its voltage was determined. */
+export interface PowerRail {
+  net: string;
+  /** Nominal voltage, or null when nothing in the design or requirements pins it down. */
+  voltage: number | null;
+  voltageBasis: "regulator" | "net_name" | "requirement" | "propagated" | null;
+  /** Regulators, connectors and batteries that put power on the rail. */
+  sources: string[];
+  loads: string[];
+  /** Short labels for violations on this rail, e.g. "no source". */
+  issues: string[];
+}
+
+/** Power flowing from one rail to another through a regulator or a series part (fuse, ferrite, switch). */
+export interface PowerTreeEdge {
+  from: string;
+  to: string;
+  via: string;
+  kind: "regulator" | "pass_through";
+}
+
+export interface PowerTree {
+  rails: PowerRail[];
+  edges: PowerTreeEdge[];
+}
+
+export interface PowerBudgetLoad {
+  component: string;
+  typicalMa: number;
+  maxMa: number;
+  basis: "override" | "part_table" | "part_type";
+}
+
+export interface PowerBudgetRail {
+  net: string;
+  voltage: number | null;
+  /** Loads on the rail plus everything fed from it through regulators and pass-through parts. */
+  typicalMa: number;
+  maxMa: number;
+  loads: PowerBudgetLoad[];
+}
+
+export interface PowerBudgetRegulator {
+  component: string;
+  mpn: string | null;
+  inputNet: string;
+  outputNet: string;
+  inputV: number | null;
+  outputV: number | null;
+  ratedMa: number | null;
+  typicalMa: number;
+  maxMa: number;
+  package: string | null;
+  thermalResistanceCPerW: number | null;
+  /** (Vin - Vout) x peak current; null without both voltages. */
+  dissipationW: number | null;
+  junctionC: number | null;
+}
+
+export interface PowerBudget {
+  ambientC: number;
+  rails: PowerBudgetRail[];
+  regulators: PowerBudgetRegulator[];
+  /** Chips with no current figure in the parts table or the request's overrides. */
+  unknownLoads: string[];
+}
+
 export interface BlockStatus {
   blockId: string;
   phase: DesignPhase;
@@ -101,6 +174,10 @@ export interface FinalSummary {
   openCriticalFindings: number;
   attemptsUsed: number;
   phase: DesignPhase;
+  /** Router settings the returned design was validated with; pass them to `/api/export` to route it the same way. */
+  routing?: RoutingOptions;
+  /** Per-rail current and regulator load of the returned design. */
+  powerBudget?: PowerBudget;
 }
 
 export interface TimingMetric {
@@ -117,6 +194,8 @@ export interface ValidationDiagnostic {
   source?: "agent" | "tscircuit" | "kicad";
   family?: string;
   handling?: "auto_fixable" | "should_demote" | "must_repair";
+  /** A concrete remediation, usually tscircuit JSX, the repair prompt can apply as written. */
+  suggestion?: string;
 }
 
 export interface RepairPlanEvent {
@@ -124,7 +203,12 @@ export interface RepairPlanEvent {
   autoFixableFamilies: string[];
   shouldDemoteFamilies: string[];
   mustRepairFamilies: string[];
-  strategy?: "normal" | "structural_trace_rebuild" | "structural_layout_spread" | "targeted_congestion_relief";
+  strategy?:
+    | "normal"
+    | "alternate_router_settings"
+    | "structural_trace_rebuild"
+    | "structural_layout_spread"
+    | "targeted_congestion_relief";
 }
 
 export interface RepairResultEvent {
@@ -189,6 +273,7 @@ export type SSEEvent =
     }
   | { type: "requirements_item"; item: RequirementItem }
   | { type: "architecture_block"; block: ArchitectureNode }
+  | { type: "power_tree"; tree: PowerTree }
   | { type: "review_finding"; finding: ReviewFinding }
   | { type: "review_decision"; decision: ReviewDecision }
   | { type: "iteration_diff"; attempt: number; diff: IterationDiff }
@@ -199,6 +284,18 @@ export type SSEEvent =
 export interface AgentRequest {
   prompt: string;
   previousCode?: string;
+  /** Multi-file project (file name → source); takes precedence over `previousCode`, which is treated as main.tsx. */
+  previousFiles?: Record<string, string>;
+  /** Autorouter and seed for validation compiles; the repair loop may try alternatives on routing failures. */
+  routing?: RoutingOptions;
+  /** Clearance overrides for the native DRC pass run on every validation compile. */
+  drcRules?: DrcRuleOverrides;
+  /** Net classes and current ratings; classes are also inferred from requirements such as "2A motor supply". */
+  netClasses?: NetClassInput;
+  /** Current figures for parts missing from the parts table, and the ambient used for regulator thermals. */
+  powerBudget?: PowerBudgetInput;
+  /** Built-in rule deck name, or a versioned JSON/YAML deck, weighing validation findings. */
+  ruleDeck?: RuleDeckInput;
   projectId?: string;
   sessionId?: string;
   phase?: DesignPhase;
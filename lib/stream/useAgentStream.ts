@@ -18,8 +18,16 @@ import type {
   TimingMetric,
   RepairPlanEvent,
   RepairResultEvent,
+  PowerTree,
 } from "./types";
-import { extractCodeFromText, stripCodeBlocks } from "@/lib/agent/code";
+import {
+  MAIN_FILE,
+  extractFilesFromText,
+  mergeProjectFiles,
+  projectFilesEqual,
+  stripCodeBlocks,
+  type ProjectFiles,
+} from "@/lib/agent/code";
 
 export interface AgentMessage {
   id: string;
@@ -77,7 +85,9 @@ export interface AgentStreamState {
   messages: AgentMessage[];
   thinkingText: string;
   toolEvents: ToolEvent[];
+  /** main.tsx of `circuitFiles`. */
   circuitCode: string;
+  circuitFiles: ProjectFiles;
   isStreaming: boolean;
   error: string | null;
   costUsd: number | null;
@@ -91,6 +101,8 @@ export interface AgentStreamState {
   gateEvents: GateEvent[];
   requirements: RequirementItem[];
   architecture: ArchitectureNode[];
+  /** Rails and regulators of the last validated design. */
+  powerTree: PowerTree | null;
   reviewFindings: ReviewFinding[];
   reviewDecisions: ReviewDecision[];
   iterationDiffs: Array<{ attempt: number; diff: IterationDiff; at: number }>;
@@ -103,6 +115,8 @@ export interface AgentStreamState {
 }
 
 export interface SendPromptOptions {
+  /** Current multi-file project; sent alongside `previousCode` (its main.tsx). */
+  previousFiles?: ProjectFiles;
   projectId?: string;
   sessionId?: string;
   phase?: DesignPhase;
@@ -235,6 +249,7 @@ const initialState: AgentStreamState = {
   thinkingText: "",
   toolEvents: [],
   circuitCode: "",
+  circuitFiles: {},
   isStreaming: false,
   error: null,
   costUsd: null,
@@ -248,6 +263,7 @@ const initialState: AgentStreamState = {
   gateEvents: [],
   requirements: [],
   architecture: [],
+  powerTree: null,
   reviewFindings: [],
   reviewDecisions: [],
   iterationDiffs: [],
@@ -320,6 +336,8 @@ export function useAgentStream() {
   const statusLogRef = useRef<string[]>([]);
   const lastLiveStatusAtRef = useRef(0);
   const lastStateRef = useRef(initialState);
+  /** Files from this attempt's `code` events; each attempt emits its whole project, so they replace `circuitFiles`. */
+  const attemptFilesRef = useRef<ProjectFiles | null>(null);
 
   useEffect(() => {
     lastStateRef.current = state;
@@ -386,6 +404,7 @@ export function useAgentStream() {
     toolCounterRef.current = 0;
     receivedDoneRef.current = false;
     systemEventCounterRef.current = 0;
+    attemptFilesRef.current = null;
 
     setState((prev) => ({
       ...prev,
@@ -432,6 +451,7 @@ export function useAgentStream() {
         body: JSON.stringify({
           prompt,
           previousCode,
+          previousFiles: options?.previousFiles,
           projectId: options?.projectId ?? state.projectId ?? null,
           sessionId: options?.sessionId ?? state.sessionId ?? null,
           phase: options?.phase ?? state.phase,
@@ -486,9 +506,12 @@ export function useAgentStream() {
             case "code": {
               if (typeof event.content === "string" && event.content.trim()) {
                 appendActivity(`Updated circuit code (${event.file})`);
+                const circuitFiles = { ...attemptFilesRef.current, [event.file]: event.content };
+                attemptFilesRef.current = circuitFiles;
                 setState((prev) => ({
                   ...prev,
-                  circuitCode: event.content,
+                  circuitFiles,
+                  circuitCode: circuitFiles[MAIN_FILE] ?? prev.circuitCode,
                 }));
               }
               break;
@@ -496,7 +519,7 @@ export function useAgentStream() {
 
             case "text": {
               accumulatedTextRef.current += event.content;
-              const code = extractCodeFromText(accumulatedTextRef.current);
+              const files = extractFilesFromText(accumulatedTextRef.current);
               const chatContent = stripCodeBlocks(accumulatedTextRef.current);
 
               setState((prev) => {
@@ -515,10 +538,15 @@ export function useAgentStream() {
                   });
                 }
 
+                // Keep the same object while the fences are unchanged so the preview does not re-render on every delta.
+                const merged = files ? mergeProjectFiles(prev.circuitFiles, files) : null;
+                const circuitFiles =
+                  merged && !projectFilesEqual(merged, prev.circuitFiles) ? merged : prev.circuitFiles;
                 return {
                   ...prev,
                   messages: msgs,
-                  circuitCode: code ?? prev.circuitCode,
+                  circuitFiles,
+                  circuitCode: circuitFiles[MAIN_FILE] ?? prev.circuitCode,
                 };
               });
               break;
@@ -766,6 +794,11 @@ export function useAgentStream() {
               break;
             }
 
+            case "power_tree": {
+              setState((prev) => ({ ...prev, powerTree: event.tree }));
+              break;
+            }
+
             case "review_finding": {
               setState((prev) => ({
                 ...prev,
@@ -913,6 +946,7 @@ export function useAgentStream() {
 
             case "retry_start": {
               appendActivity(`↻ Retry attempt ${event.attempt}/${event.maxAttempts}`);
+              attemptFilesRef.current = null;
               pushStatusLine(
                 `Validation attempt ${event.attempt}/${event.maxAttempts} started. Next: inspect diagnostics and apply fixes.`,
                 { force: true },